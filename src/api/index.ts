@@ -1,3 +1,22 @@
 export { createTokenRoutes } from './routes/tokens';
 export { createHealthRoutes } from './routes/health';
-export { errorHandler, notFoundHandler, requestLogger, ApiError } from './middleware';
+export { createAlertRoutes } from './routes/alerts';
+export { createWebhookRoutes } from './routes/webhooks';
+export { createWatchlistRoutes } from './routes/watchlists';
+export { createPortfolioRoutes } from './routes/portfolios';
+export { createPriceRoutes } from './routes/prices';
+export { createAdminRoutes, applyAdminCommand, type AdminCommand } from './routes/admin';
+export { createMetricsRoutes } from './routes/metrics';
+export { createWebSocketRoutes } from './routes/websocket';
+export {
+  errorHandler,
+  notFoundHandler,
+  requestLogger,
+  requestMetrics,
+  ApiError,
+  getClientId,
+  apiKeyAuth,
+  requireAdminKey,
+  getChainParam,
+  sendSuccess,
+} from './middleware';
@@ -1,6 +1,19 @@
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { logger } from '../utils';
+import { logger, httpRequestDuration } from '../utils';
+import config from '../config';
+import { TIME_PERIODS } from '../services/tokenFilters';
+import { ApiKeyError, ApiKeyService, anonymousOwner, type ApiKeyErrorCode } from '../services/apiKeys';
+import type { ApiKey, ApiKeyUsage, TimePeriod } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey; // set by apiKeyAuth when the caller sent a valid key
+    }
+  }
+}
 
 // Simple API error with status code
 export class ApiError extends Error {
@@ -15,6 +28,130 @@ export class ApiError extends Error {
   }
 }
 
+// Client identity for per-client resources (alerts, webhooks) - the API key's
+// owner, or the X-Client-Id header, same id websocket clients pass in their
+// handshake. Header ids are namespaced so they can never be a key's owner
+export function getClientId(req: Request): string {
+  if (req.apiKey) return req.apiKey.owner;
+
+  const clientId = req.header('x-client-id');
+  if (!clientId) {
+    throw new ApiError(401, 'MISSING_CLIENT_ID', 'X-Client-Id header is required');
+  }
+  return anonymousOwner(clientId);
+}
+
+// Optional chain param (query or body) - has to be one of the chains we aggregate
+export function getChainParam(value: unknown): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string' || !config.chains.includes(value)) {
+    throw new ApiError(400, 'INVALID_CHAIN', `chain must be one of: ${config.chains.join(', ')}`);
+  }
+  return value;
+}
+
+// Optional time_period param - one of the windows the token data carries
+export function getTimePeriodParam(value: unknown): TimePeriod | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string' || !(TIME_PERIODS as readonly string[]).includes(value)) {
+    throw new ApiError(400, 'INVALID_TIME_PERIOD', `time_period must be one of: ${TIME_PERIODS.join(', ')}`);
+  }
+  return value as TimePeriod;
+}
+
+const API_KEY_ERROR_STATUS: Record<ApiKeyErrorCode, number> = {
+  INVALID_API_KEY: 401,
+  API_KEY_DISABLED: 403,
+  RATE_LIMIT_EXCEEDED: 429,
+  QUOTA_EXCEEDED: 429,
+};
+
+// X-Api-Key header, or Authorization: Bearer <key>
+export function readApiKey(req: Request): string | undefined {
+  const header = req.header('x-api-key');
+  if (header) return header;
+
+  const auth = req.header('authorization');
+  return auth?.startsWith('Bearer ') ? auth.slice(7).trim() || undefined : undefined;
+}
+
+// same RateLimit-* headers express-rate-limit sends anonymous callers
+function setUsageHeaders(res: Response, usage: ApiKeyUsage): void {
+  const now = Math.floor(Date.now() / 1000);
+  res.setHeader('RateLimit-Limit', usage.rate_limit);
+  res.setHeader('RateLimit-Remaining', usage.rate_remaining);
+  res.setHeader('RateLimit-Reset', Math.max(0, usage.rate_reset - now));
+  res.setHeader('X-Quota-Limit', usage.daily_quota);
+  res.setHeader('X-Quota-Remaining', usage.quota_remaining);
+  res.setHeader('X-Quota-Reset', Math.max(0, usage.quota_reset - now));
+}
+
+// Resolves the caller's API key, counts the request against its limits and
+// attaches it as req.apiKey. Requests without a key pass through (and hit the
+// shared limiter) unless REQUIRE_API_KEY is on. Paths under `exempt` are skipped.
+export function apiKeyAuth(apiKeys: ApiKeyService, exempt: string[] = []) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (exempt.some(prefix => req.path.startsWith(prefix))) return next();
+
+    const raw = readApiKey(req);
+    if (!raw) {
+      if (config.requireApiKey) {
+        return next(new ApiError(401, 'MISSING_API_KEY', 'X-Api-Key header is required'));
+      }
+      return next();
+    }
+
+    try {
+      const { apiKey, usage } = await apiKeys.authorize(raw);
+      setUsageHeaders(res, usage);
+      req.apiKey = apiKey;
+      next();
+    } catch (error) {
+      if (!(error instanceof ApiKeyError)) return next(error);
+
+      if (error.usage) {
+        setUsageHeaders(res, error.usage);
+        const reset = error.code === 'QUOTA_EXCEEDED' ? error.usage.quota_reset : error.usage.rate_reset;
+        res.setHeader('Retry-After', Math.max(1, reset - Math.floor(Date.now() / 1000)));
+      }
+      next(new ApiError(API_KEY_ERROR_STATUS[error.code], error.code, error.message));
+    }
+  };
+}
+
+// Admin routes - X-Admin-Key has to match ADMIN_API_KEY
+export function requireAdminKey(req: Request, _res: Response, next: NextFunction): void {
+  if (!config.adminApiKey) {
+    return next(new ApiError(403, 'ADMIN_DISABLED', 'Admin routes are disabled, set ADMIN_API_KEY'));
+  }
+
+  const given = Buffer.from(req.header('x-admin-key') || '');
+  const expected = Buffer.from(config.adminApiKey);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return next(new ApiError(401, 'INVALID_ADMIN_KEY', 'X-Admin-Key is missing or wrong'));
+  }
+  next();
+}
+
+// Standard success envelope
+export function sendSuccess<T>(
+  res: Response,
+  data: T,
+  requestId: string,
+  startTime: number,
+  status = 200
+): void {
+  res.status(status).json({
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString(),
+      request_id: requestId,
+      response_time_ms: Date.now() - startTime,
+    },
+  });
+}
+
 // Log each request with timing
 export function requestLogger(req: Request, res: Response, next: NextFunction) {
   const start = Date.now();
@@ -27,6 +164,16 @@ export function requestLogger(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// request latency by route pattern (not raw path, that'd be a series per token)
+export function requestMetrics(req: Request, res: Response, next: NextFunction) {
+  const end = httpRequestDuration.startTimer({ method: req.method });
+  res.on('finish', () => {
+    const route = req.route ? (req.baseUrl + req.route.path).replace(/(.)\/$/, '$1') : 'unmatched';
+    end({ route, status: res.statusCode });
+  });
+  next();
+}
+
 // 404 handler
 export function notFoundHandler(req: Request, res: Response) {
   res.status(404).json({
@@ -43,7 +190,7 @@ export function errorHandler(err: Error, req: Request, res: Response, _next: Nex
   if (err instanceof ApiError) {
     res.status(err.statusCode).json({
       success: false,
-      error: { code: err.code, message: err.message }
+      error: { code: err.code, message: err.message, details: err.details }
     });
     return;
   }
@@ -0,0 +1,421 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import {
+  ApiKeyService,
+  AuditLog,
+  TokenAggregator,
+  apiKeyInputSchema,
+  apiKeyUpdateSchema,
+  type ICache,
+} from '../../services';
+import { ApiError, getChainParam, requireAdminKey, sendSuccess } from '../middleware';
+import { LOG_LEVELS, logger, setLogLevel, type LogLevel } from '../../utils';
+import { CLUSTER_CHANNELS, type IClusterBus } from '../../cluster';
+import config from '../../config';
+import type { UpdateScheduler } from '../../scheduler';
+import type { ApiKey, AuditEntry } from '../../types';
+
+const MAX_CACHE_KEYS = 1000;
+
+const refreshSchema = z.object({ chain: z.string().optional() });
+const sourceUpdateSchema = z.object({ enabled: z.boolean() });
+const flushSchema = z.object({ pattern: z.string().min(1) });
+const logLevelSchema = z.object({ level: z.enum(LOG_LEVELS) });
+
+export interface AdminRouteDeps {
+  apiKeys: ApiKeyService;
+  aggregator: TokenAggregator;
+  scheduler: UpdateScheduler;
+  cache: ICache;
+  audit: AuditLog;
+  cluster?: IClusterBus;
+  isLeader?: () => boolean; // unset on a single node, which is always its own leader
+}
+
+// admin actions that change a node's in-memory state. The node that gets
+// the request applies it and publishes it, every other node applies it too.
+// refresh is the exception: a follower publishes it for the leader to run
+export type AdminCommand =
+  | { action: 'job.pause' | 'job.resume'; name: string }
+  | { action: 'source.set'; name: string; enabled: boolean }
+  | { action: 'token.evict'; address: string; chain: string }
+  | { action: 'log_level.set'; level: LogLevel }
+  | { action: 'refresh'; chain?: string };
+
+// false if the job / source / token isn't known here, or a refresh reached a follower
+export async function applyAdminCommand(
+  { aggregator, scheduler, isLeader }: Pick<AdminRouteDeps, 'aggregator' | 'scheduler' | 'isLeader'>,
+  command: AdminCommand
+): Promise<boolean> {
+  switch (command.action) {
+    case 'refresh':
+      if (isLeader && !isLeader()) return false;
+      await scheduler.triggerRefresh(command.chain);
+      return true;
+    case 'job.pause':
+      return scheduler.pauseJob(command.name);
+    case 'job.resume':
+      return scheduler.resumeJob(command.name);
+    case 'source.set':
+      return aggregator.setSourceEnabled(command.name, command.enabled);
+    case 'token.evict':
+      return (await aggregator.evictToken(command.address, command.chain)) !== null;
+    case 'log_level.set':
+      setLogLevel(command.level);
+      return true;
+  }
+}
+
+// cache.keys hands back prefixed keys, everything else takes them without
+const unprefix = (key: string) =>
+  key.startsWith(config.cachePrefix) ? key.slice(config.cachePrefix.length) : key;
+
+// Admin routes - everything here needs X-Admin-Key, and every change is audited
+export function createAdminRoutes(deps: AdminRouteDeps): Router {
+  const { apiKeys, aggregator, scheduler, cache, audit, cluster, isLeader } = deps;
+  const router = Router();
+  router.use(requireAdminKey);
+
+  // apply here, then on the rest of the cluster
+  const command = async (next: AdminCommand): Promise<boolean> => {
+    if (!(await applyAdminCommand(deps, next))) return false;
+    await cluster?.publish(CLUSTER_CHANNELS.admin, next);
+    return true;
+  };
+
+  // X-Admin-Actor lets people sharing the admin key say who they are
+  const record = (req: Request, action: string, target: string | null, details: Record<string, unknown> = {}) =>
+    audit.record({ action, target, actor: req.header('x-admin-actor') || 'admin', ip: req.ip || null, details });
+
+  const parseBody = <T>(schema: z.ZodType<T>, body: unknown): T => {
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(400, 'INVALID_BODY', 'Invalid request body', parsed.error.flatten());
+    }
+    return parsed.data;
+  };
+
+  // GET /api/admin/keys - list issued keys (never the keys themselves)
+  router.get('/keys', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const keys = apiKeys.list();
+      sendSuccess<{ keys: ApiKey[]; count: number }>(
+        res, { keys, count: keys.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/admin/keys - issue a key (response has the raw key, shown once)
+  router.post('/keys', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const parsed = apiKeyInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_KEY_INPUT', 'Invalid API key', parsed.error.flatten());
+      }
+
+      const { apiKey, key } = await apiKeys.create(parsed.data);
+      await record(req, 'key.create', apiKey.id, { name: apiKey.name, owner: apiKey.owner });
+      sendSuccess(res, { ...apiKey, key }, requestId, startTime, 201);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/admin/keys/:id - key plus its current usage
+  router.get('/keys/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const apiKey = apiKeys.get(req.params.id);
+      const usage = await apiKeys.getUsage(req.params.id);
+      if (!apiKey || !usage) {
+        throw new ApiError(404, 'KEY_NOT_FOUND', `API key ${req.params.id} not found`);
+      }
+      sendSuccess(res, { ...apiKey, usage }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/admin/keys/:id - change limits, or enabled: false to cut a client off
+  router.put('/keys/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const parsed = apiKeyUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_KEY_INPUT', 'Invalid API key', parsed.error.flatten());
+      }
+
+      const apiKey = await apiKeys.update(req.params.id, parsed.data);
+      if (!apiKey) {
+        throw new ApiError(404, 'KEY_NOT_FOUND', `API key ${req.params.id} not found`);
+      }
+      await record(req, 'key.update', apiKey.id, parsed.data);
+      sendSuccess(res, apiKey, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/admin/keys/:id - revoke for good
+  router.delete('/keys/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const deleted = await apiKeys.delete(req.params.id);
+      if (!deleted) {
+        throw new ApiError(404, 'KEY_NOT_FOUND', `API key ${req.params.id} not found`);
+      }
+      await record(req, 'key.delete', req.params.id);
+      sendSuccess(res, { id: req.params.id, deleted: true }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/admin/refresh - full refresh now, of one chain or all of them
+  router.post('/refresh', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const chain = getChainParam(parseBody(refreshSchema, req.body ?? {}).chain);
+
+      // only the leader talks to the DEX APIs - a follower hands it the refresh
+      // and answers before it's done
+      if (cluster && isLeader && !isLeader()) {
+        await cluster.publish(CLUSTER_CHANNELS.admin, { action: 'refresh', chain } satisfies AdminCommand);
+        await record(req, 'refresh', chain ?? null, { forwarded: true });
+        sendSuccess(res, { chain: chain ?? null, forwarded: true }, requestId, startTime, 202);
+        return;
+      }
+
+      await scheduler.triggerRefresh(chain);
+      await record(req, 'refresh', chain ?? null);
+      sendSuccess(res, {
+        chain: chain ?? null,
+        tokens: aggregator.getAllTokensArray(chain).length,
+      }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/admin/jobs
+  router.get('/jobs', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      sendSuccess(res, scheduler.getStatus(), requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/admin/jobs/:name/pause and /resume
+  router.post('/jobs/:name/:action(pause|resume)', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const { name, action } = req.params;
+      if (!(await command({ action: action === 'pause' ? 'job.pause' : 'job.resume', name }))) {
+        throw new ApiError(404, 'JOB_NOT_FOUND', `Job ${name} not found`);
+      }
+      await record(req, `job.${action}`, name);
+      sendSuccess(res, scheduler.getStatus(), requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/admin/sources
+  router.get('/sources', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      sendSuccess(res, { sources: aggregator.getSourceStatus() }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/admin/sources/:name - { enabled } switches a source on or off
+  router.put('/sources/:name', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const { enabled } = parseBody(sourceUpdateSchema, req.body);
+      if (!(await command({ action: 'source.set', name: req.params.name, enabled }))) {
+        throw new ApiError(404, 'SOURCE_NOT_FOUND', `Data source ${req.params.name} not found`);
+      }
+      await record(req, enabled ? 'source.enable' : 'source.disable', req.params.name);
+      sendSuccess(res, { sources: aggregator.getSourceStatus() }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/admin/cache/keys?pattern=token:* - capped at MAX_CACHE_KEYS
+  router.get('/cache/keys', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const pattern = typeof req.query.pattern === 'string' && req.query.pattern ? req.query.pattern : '*';
+      const keys = (await cache.keys(pattern)).map(unprefix).sort();
+      sendSuccess(res, {
+        pattern,
+        keys: keys.slice(0, MAX_CACHE_KEYS),
+        count: keys.length,
+        truncated: keys.length > MAX_CACHE_KEYS,
+      }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/admin/cache/keys/:key - stored value
+  router.get('/cache/keys/:key', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const value = await cache.get<unknown>(req.params.key);
+      if (value === null) {
+        throw new ApiError(404, 'CACHE_KEY_NOT_FOUND', `Cache key ${req.params.key} not found`);
+      }
+      sendSuccess(res, { key: req.params.key, value }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/admin/cache/keys/:key
+  router.delete('/cache/keys/:key', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      if (!(await cache.exists(req.params.key))) {
+        throw new ApiError(404, 'CACHE_KEY_NOT_FOUND', `Cache key ${req.params.key} not found`);
+      }
+      await cache.delete(req.params.key);
+      await record(req, 'cache.delete', req.params.key);
+      sendSuccess(res, { key: req.params.key, deleted: true }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/admin/cache/flush - { pattern }, '*' wipes persisted rules and keys too
+  router.post('/cache/flush', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const { pattern } = parseBody(flushSchema, req.body);
+      const keys = (await cache.keys(pattern)).map(unprefix);
+
+      await Promise.all(keys.map(key => cache.delete(key)));
+      await record(req, 'cache.flush', pattern, { deleted: keys.length });
+      sendSuccess(res, { pattern, deleted: keys.length }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/admin/tokens/:address?chain= - evict a token from memory and cache
+  router.delete('/tokens/:address', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const token = await aggregator.evictToken(req.params.address, getChainParam(req.query.chain));
+      if (!token) {
+        throw new ApiError(404, 'TOKEN_NOT_FOUND', `Token ${req.params.address} not found`);
+      }
+      // the others evict exactly the token found here
+      await cluster?.publish(CLUSTER_CHANNELS.admin, {
+        action: 'token.evict',
+        address: token.token_address,
+        chain: token.chain_id,
+      } satisfies AdminCommand);
+      await record(req, 'token.evict', `${token.chain_id}:${token.token_address}`, { ticker: token.token_ticker });
+      sendSuccess(res, {
+        token_address: token.token_address,
+        chain_id: token.chain_id,
+        evicted: true,
+      }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/admin/log-level
+  router.get('/log-level', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      sendSuccess(res, { level: logger.level }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/admin/log-level - { level }, until the next restart
+  router.put('/log-level', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const { level } = parseBody(logLevelSchema, req.body);
+      const previous = logger.level;
+
+      await command({ action: 'log_level.set', level });
+      await record(req, 'log_level.set', level, { previous });
+      sendSuccess(res, { level, previous }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/admin/audit?limit=&action= - newest first
+  router.get('/audit', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const action = typeof req.query.action === 'string' && req.query.action ? req.query.action : undefined;
+      const entries = audit.list(limit, action);
+
+      sendSuccess<{ entries: AuditEntry[]; count: number }>(
+        res, { entries, count: entries.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createAdminRoutes;
@@ -0,0 +1,113 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { AlertEngine, alertRuleInputSchema, alertRuleUpdateSchema } from '../../services';
+import { ApiError, getClientId, sendSuccess } from '../middleware';
+import config from '../../config';
+import type { AlertRule } from '../../types';
+
+// Alert rule CRUD - rules belong to the caller's X-Client-Id
+export function createAlertRoutes(alerts: AlertEngine): Router {
+  const router = Router();
+
+  // GET /api/alerts - list my rules
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const rules = alerts.list(getClientId(req));
+      sendSuccess<{ rules: AlertRule[]; count: number }>(
+        res, { rules, count: rules.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/alerts - create a rule
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const owner = getClientId(req);
+      const parsed = alertRuleInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_RULE', 'Invalid alert rule', parsed.error.flatten());
+      }
+
+      if (alerts.list(owner).length >= config.maxAlertRulesPerOwner) {
+        throw new ApiError(
+          409,
+          'TOO_MANY_RULES',
+          `Maximum ${config.maxAlertRulesPerOwner} alert rules per client`
+        );
+      }
+
+      const rule = await alerts.create(owner, parsed.data);
+      sendSuccess(res, rule, requestId, startTime, 201);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/alerts/:id
+  router.get('/:id', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const rule = alerts.get(getClientId(req), req.params.id);
+      if (!rule) {
+        throw new ApiError(404, 'RULE_NOT_FOUND', `Alert rule ${req.params.id} not found`);
+      }
+      sendSuccess(res, rule, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/alerts/:id - partial update
+  router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const owner = getClientId(req);
+      const parsed = alertRuleUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_RULE', 'Invalid alert rule', parsed.error.flatten());
+      }
+
+      const rule = await alerts.update(owner, req.params.id, parsed.data);
+      if (!rule) {
+        throw new ApiError(404, 'RULE_NOT_FOUND', `Alert rule ${req.params.id} not found`);
+      }
+      sendSuccess(res, rule, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/alerts/:id
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const deleted = await alerts.delete(getClientId(req), req.params.id);
+      if (!deleted) {
+        throw new ApiError(404, 'RULE_NOT_FOUND', `Alert rule ${req.params.id} not found`);
+      }
+      sendSuccess(res, { id: req.params.id, deleted: true }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createAlertRoutes;
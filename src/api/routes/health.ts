@@ -2,7 +2,8 @@ import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { TokenAggregator, getCache } from '../../services';
 import { WebSocketServer } from '../../websocket';
-import type { HealthStatus, ApiResponse } from '../../types';
+import { httpRequestDuration } from '../../utils';
+import type { HealthStatus, ApiResponse, ServiceStatus, SourceHealth } from '../../types';
 
 const startTime = Date.now();
 
@@ -33,37 +34,38 @@ export function createHealthRoutes(
       overallStatus = 'degraded';
     }
 
+    const services: HealthStatus['services'] = {
+      redis: {
+        status: cache.isConnected() ? 'up' : 'down',
+        last_check: new Date().toISOString(),
+      },
+      websocket: {
+        status: wsStats.activeConnections >= 0 ? 'up' : 'down',
+        last_check: new Date().toISOString(),
+      },
+    };
+
+    for (const source of aggregator.getSourceStatus()) {
+      services[source.name] = source.health
+        ? sourceServiceStatus(source.enabled, source.health)
+        : {
+            // no upstream to track (fixture) - go by whether it contributed tokens
+            status: source.enabled && aggStats.sources.includes(source.name) ? 'up' : 'down',
+            last_check: aggStats.lastRefresh?.toISOString() || 'never',
+            ...(source.enabled ? {} : { error: 'disabled' }),
+          };
+    }
+
     const health: HealthStatus = {
       status: overallStatus,
       uptime: Date.now() - startTime,
       timestamp: new Date().toISOString(),
-      services: {
-        redis: {
-          status: cache.isConnected() ? 'up' : 'down',
-          last_check: new Date().toISOString(),
-        },
-        dexscreener: {
-          status: aggStats.sources.includes('dexscreener') ? 'up' : 'down',
-          last_check: aggStats.lastRefresh?.toISOString() || 'never',
-        },
-        jupiter: {
-          status: aggStats.sources.includes('jupiter') ? 'up' : 'down',
-          last_check: aggStats.lastRefresh?.toISOString() || 'never',
-        },
-        geckoterminal: {
-          status: aggStats.sources.includes('geckoterminal') ? 'up' : 'down',
-          last_check: aggStats.lastRefresh?.toISOString() || 'never',
-        },
-        websocket: {
-          status: wsStats.activeConnections >= 0 ? 'up' : 'down',
-          last_check: new Date().toISOString(),
-        },
-      },
+      services,
       stats: {
         total_tokens: aggStats.totalTokens,
         active_connections: wsStats.activeConnections,
         cache_hit_rate: aggStats.cacheStats.hitRate,
-        avg_response_time_ms: 0, // Would need to track this
+        avg_response_time_ms: avgResponseTimeMs(),
       },
     };
 
@@ -115,8 +117,10 @@ export function createHealthRoutes(
       aggregator: {
         total_tokens: aggStats.totalTokens,
         active_sources: aggStats.sources,
+        registered_sources: aggregator.getSourceStatus(),
         last_refresh: aggStats.lastRefresh?.toISOString() || null,
         sol_price: aggregator.getSolPrice(),
+        chains: aggregator.getChainStatus(),
       },
       cache: {
         type: process.env.USE_MEMORY_CACHE === 'true' ? 'memory' : 'redis',
@@ -154,6 +158,36 @@ export function createHealthRoutes(
   return router;
 }
 
+// a source's real state, from its circuit breaker and request history
+function sourceServiceStatus(enabled: boolean, health: SourceHealth): ServiceStatus {
+  const checks = [health.last_success, health.last_error].filter((t): t is string => t !== null).sort();
+  const status: ServiceStatus = {
+    status: 'up',
+    last_check: checks[checks.length - 1] || 'never',
+    ...(health.avg_latency_ms !== null ? { latency_ms: health.avg_latency_ms } : {}),
+  };
+
+  if (!enabled) {
+    return { ...status, status: 'down', error: 'disabled' };
+  }
+  if (health.state === 'open') {
+    return { ...status, status: 'down', error: `circuit open: ${health.last_error_message}` };
+  }
+  if (health.state === 'half_open' || health.consecutive_failures > 0) {
+    return { ...status, status: 'degraded', error: health.last_error_message ?? undefined };
+  }
+  if (!health.last_success) {
+    return { ...status, status: 'degraded', error: 'no requests yet' };
+  }
+  return status;
+}
+
+// mean REST latency since startup, from the request duration histogram
+function avgResponseTimeMs(): number {
+  const { count, sum } = httpRequestDuration.totals();
+  return count > 0 ? Math.round((sum / count) * 100000) / 100 : 0;
+}
+
 // Make uptime readable
 function formatUptime(ms: number): string {
   const seconds = Math.floor(ms / 1000);
@@ -1,2 +1,10 @@
 export { createTokenRoutes } from './tokens';
 export { createHealthRoutes } from './health';
+export { createAlertRoutes } from './alerts';
+export { createWebhookRoutes } from './webhooks';
+export { createWatchlistRoutes } from './watchlists';
+export { createPortfolioRoutes } from './portfolios';
+export { createPriceRoutes } from './prices';
+export { createAdminRoutes, applyAdminCommand, type AdminCommand } from './admin';
+export { createMetricsRoutes } from './metrics';
+export { createWebSocketRoutes } from './websocket';
@@ -0,0 +1,45 @@
+import { Router, Request, Response } from 'express';
+import { TokenAggregator, getCache } from '../../services';
+import { WebSocketServer } from '../../websocket';
+import { metrics } from '../../utils';
+
+// Prometheus scrape endpoint
+export function createMetricsRoutes(
+  aggregator: TokenAggregator,
+  wsServer?: WebSocketServer
+): Router {
+  const router = Router();
+
+  // these already have counters elsewhere - read them at scrape time
+  metrics.counter('cache_hits_total', 'Cache lookups that found a value', [], () =>
+    [{ labels: {}, value: getCache().getStats().hits }]
+  );
+  metrics.counter('cache_misses_total', 'Cache lookups that found nothing', [], () =>
+    [{ labels: {}, value: getCache().getStats().misses }]
+  );
+  metrics.gauge('tokens_tracked', 'Tokens held in memory per chain', ['chain'], () =>
+    aggregator.getChainStatus().map(c => ({ labels: { chain: c.chain }, value: c.tokens }))
+  );
+  metrics.gauge('source_enabled', 'Whether each data source is switched on (1) or off (0)', ['source'], () =>
+    aggregator.getSourceStatus().map(s => ({ labels: { source: s.name }, value: s.enabled ? 1 : 0 }))
+  );
+  metrics.gauge('websocket_connections', 'Open WebSocket connections', [], () =>
+    [{ labels: {}, value: wsServer?.getStats().activeConnections ?? 0 }]
+  );
+  metrics.counter('websocket_connections_opened_total', 'WebSocket connections accepted since startup', [], () =>
+    [{ labels: {}, value: wsServer?.getStats().totalConnections ?? 0 }]
+  );
+  metrics.gauge('websocket_subscriptions', 'WebSocket clients with an active subscription', [], () =>
+    [{ labels: {}, value: wsServer?.getStats().subscriptions ?? 0 }]
+  );
+
+  // GET /metrics
+  router.get('/', (req: Request, res: Response) => {
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(metrics.render());
+  });
+
+  return router;
+}
+
+export default createMetricsRoutes;
@@ -0,0 +1,129 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { WatchlistService, portfolioInputSchema, portfolioUpdateSchema } from '../../services';
+import { ApiError, getClientId, sendSuccess } from '../middleware';
+import config from '../../config';
+import type { Portfolio } from '../../types';
+
+// Portfolio CRUD + PnL - portfolios belong to the caller's X-Client-Id
+export function createPortfolioRoutes(watchlists: WatchlistService): Router {
+  const router = Router();
+
+  // GET /api/portfolios - list my portfolios
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const portfolios = watchlists.listPortfolios(getClientId(req));
+      sendSuccess<{ portfolios: Portfolio[]; count: number }>(
+        res, { portfolios, count: portfolios.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/portfolios - create a portfolio
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const owner = getClientId(req);
+      const parsed = portfolioInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_PORTFOLIO', 'Invalid portfolio', parsed.error.flatten());
+      }
+
+      if (watchlists.listPortfolios(owner).length >= config.maxPortfoliosPerOwner) {
+        throw new ApiError(
+          409,
+          'TOO_MANY_PORTFOLIOS',
+          `Maximum ${config.maxPortfoliosPerOwner} portfolios per client`
+        );
+      }
+
+      const portfolio = await watchlists.createPortfolio(owner, parsed.data);
+      sendSuccess(res, portfolio, requestId, startTime, 201);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/portfolios/:id
+  router.get('/:id', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const portfolio = watchlists.getPortfolio(getClientId(req), req.params.id);
+      if (!portfolio) {
+        throw new ApiError(404, 'PORTFOLIO_NOT_FOUND', `Portfolio ${req.params.id} not found`);
+      }
+      sendSuccess(res, portfolio, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/portfolios/:id/pnl - positions marked to current prices
+  router.get('/:id/pnl', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const valuation = watchlists.valuePortfolio(getClientId(req), req.params.id);
+      if (!valuation) {
+        throw new ApiError(404, 'PORTFOLIO_NOT_FOUND', `Portfolio ${req.params.id} not found`);
+      }
+      sendSuccess(res, valuation, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/portfolios/:id - partial update, positions replace the whole list
+  router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const owner = getClientId(req);
+      const parsed = portfolioUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_PORTFOLIO', 'Invalid portfolio', parsed.error.flatten());
+      }
+
+      const portfolio = await watchlists.updatePortfolio(owner, req.params.id, parsed.data);
+      if (!portfolio) {
+        throw new ApiError(404, 'PORTFOLIO_NOT_FOUND', `Portfolio ${req.params.id} not found`);
+      }
+      sendSuccess(res, portfolio, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/portfolios/:id
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const deleted = await watchlists.deletePortfolio(getClientId(req), req.params.id);
+      if (!deleted) {
+        throw new ApiError(404, 'PORTFOLIO_NOT_FOUND', `Portfolio ${req.params.id} not found`);
+      }
+      sendSuccess(res, { id: req.params.id, deleted: true }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createPortfolioRoutes;
@@ -0,0 +1,30 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { TokenAggregator } from '../../services';
+import { getChainParam, sendSuccess } from '../middleware';
+import type { NativePrice } from '../../types';
+
+// Price routes
+export function createPriceRoutes(aggregator: TokenAggregator): Router {
+  const router = Router();
+
+  // GET /api/prices/native - native asset USD price per chain, with the
+  // quotes it was derived from. ?chain= narrows it to one chain
+  router.get('/native', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const prices = aggregator.getNativePriceInfo(getChainParam(req.query.chain));
+      sendSuccess<{ prices: NativePrice[]; count: number }>(
+        res, { prices, count: prices.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createPriceRoutes;
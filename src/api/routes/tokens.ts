@@ -1,8 +1,27 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { TokenAggregator } from '../../services';
+import {
+  TokenAggregator,
+  CANDLE_INTERVALS,
+  CursorError,
+  tokenQuerySchema,
+  projectToken,
+} from '../../services';
 import config from '../../config';
-import type { TokenFilter, TokenSort, PaginationOptions, ApiResponse, Token } from '../../types';
+import { ApiError, getChainParam, getTimePeriodParam } from '../middleware';
+import type {
+  TokenFilter,
+  TokenSort,
+  SortKey,
+  PaginationOptions,
+  PaginatedResponse,
+  ApiResponse,
+  Token,
+  Pair,
+  Candle,
+  CandleInterval,
+  TokenSuggestion,
+} from '../../types';
 
 // Token routes
 export function createTokenRoutes(aggregator: TokenAggregator): Router {
@@ -14,9 +33,20 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
     const startTime = Date.now();
 
     try {
+      // filter expression, multi-key sort and projection
+      const parsed = tokenQuerySchema.safeParse({
+        filter: req.query.filter,
+        sort: req.query.sort,
+        fields: req.query.fields,
+      });
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_QUERY', 'Invalid filter, sort or fields', parsed.error.flatten());
+      }
+      const query = parsed.data;
+
       // Parse query parameters
       const filter: TokenFilter = {
-        timePeriod: req.query.time_period as '1h' | '24h' | '7d' | undefined,
+        timePeriod: getTimePeriodParam(req.query.time_period),
         minVolume: req.query.min_volume ? parseFloat(req.query.min_volume as string) : undefined,
         maxVolume: req.query.max_volume ? parseFloat(req.query.max_volume as string) : undefined,
         minMarketCap: req.query.min_market_cap ? parseFloat(req.query.min_market_cap as string) : undefined,
@@ -25,6 +55,8 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
         protocol: req.query.protocol as string | undefined,
         chain: req.query.chain as string | undefined,
         search: req.query.search as string | undefined,
+        minSafetyScore: req.query.min_safety_score ? parseFloat(req.query.min_safety_score as string) : undefined,
+        expression: query.filter,
       };
 
       // Remove undefined values
@@ -32,15 +64,16 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
         Object.entries(filter).filter(([_, v]) => v !== undefined)
       ) as TokenFilter;
 
-      const timePeriod = req.query.time_period as '1h' | '24h' | '7d' | undefined;
+      const timePeriod = filter.timePeriod;
 
-      const sort: TokenSort | undefined = req.query.sort_by
+      // sort=field:dir,... wins over the older sort_by/sort_dir pair
+      const sort: TokenSort | SortKey[] | undefined = query.sort ?? (req.query.sort_by
         ? {
           field: req.query.sort_by as TokenSort['field'],
           direction: (req.query.sort_dir as 'asc' | 'desc') || 'desc',
           timePeriod,
         }
-        : undefined;
+        : undefined);
 
       const pagination: PaginationOptions = {
         limit: Math.min(
@@ -56,9 +89,14 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
         pagination
       );
 
-      const response: ApiResponse<typeof result> = {
+      const fields = query.fields;
+      const data: PaginatedResponse<Partial<Token>> = fields
+        ? { ...result, data: result.data.map(token => projectToken(token, fields)) }
+        : result;
+
+      const response: ApiResponse<typeof data> = {
         success: true,
-        data: result,
+        data,
         meta: {
           timestamp: new Date().toISOString(),
           request_id: requestId,
@@ -68,6 +106,11 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
 
       res.json(response);
     } catch (error) {
+      if (error instanceof CursorError) {
+        const status = error.code === 'CURSOR_EXPIRED' ? 410 : 400;
+        next(new ApiError(status, error.code, error.message));
+        return;
+      }
       next(error);
     }
   });
@@ -101,7 +144,7 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
         config.maxPageSize
       );
 
-      const tokens = await aggregator.searchTokens(query, limit);
+      const tokens = await aggregator.searchTokens(query, limit, getChainParam(req.query.chain));
 
       const response: ApiResponse<{ tokens: Token[]; count: number }> = {
         success: true,
@@ -122,6 +165,39 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
     }
   });
 
+  // GET /api/tokens/search/suggest - autocomplete from the local index
+  router.get('/search/suggest', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const query = req.query.q;
+      if (typeof query !== 'string' || query.trim().length < 1) {
+        throw new ApiError(400, 'INVALID_QUERY', 'Search query must be at least 1 character');
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 25);
+      const suggestions = aggregator.suggestTokens(query, limit, getChainParam(req.query.chain));
+
+      const response: ApiResponse<{ suggestions: TokenSuggestion[]; count: number }> = {
+        success: true,
+        data: {
+          suggestions,
+          count: suggestions.length,
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          response_time_ms: Date.now() - startTime,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // GET /api/tokens/:address - get one token
   router.get('/:address', async (req: Request, res: Response, next: NextFunction) => {
     const requestId = uuidv4();
@@ -146,7 +222,7 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
         return;
       }
 
-      const token = await aggregator.getTokenByAddress(address);
+      const token = await aggregator.getTokenByAddress(address, getChainParam(req.query.chain));
 
       if (!token) {
         res.status(404).json({
@@ -180,6 +256,129 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
     }
   });
 
+  // GET /api/tokens/:address/pairs - every pool the token trades in
+  router.get('/:address/pairs', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const { address } = req.params;
+      const chain = getChainParam(req.query.chain);
+      const pairs = await aggregator.getPairs(address, chain);
+
+      // no pools is fine (jupiter-only tokens), unknown token is not
+      if (pairs.length === 0 && !(await aggregator.getTokenByAddress(address, chain))) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'TOKEN_NOT_FOUND',
+            message: `Token with address ${address} not found`,
+          },
+          meta: {
+            timestamp: new Date().toISOString(),
+            request_id: requestId,
+            response_time_ms: Date.now() - startTime,
+          },
+        });
+        return;
+      }
+
+      const response: ApiResponse<{ token_address: string; pairs: Pair[]; count: number }> = {
+        success: true,
+        data: {
+          token_address: address,
+          pairs,
+          count: pairs.length,
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          response_time_ms: Date.now() - startTime,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/tokens/:address/candles - OHLCV from recorded history
+  router.get('/:address/candles', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const { address } = req.params;
+      const chain = getChainParam(req.query.chain);
+      const interval = (req.query.interval as string) || '5m';
+
+      if (!Object.keys(CANDLE_INTERVALS).includes(interval)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_INTERVAL',
+            message: `Interval must be one of: ${Object.keys(CANDLE_INTERVALS).join(', ')}`,
+          },
+          meta: {
+            timestamp: new Date().toISOString(),
+            request_id: requestId,
+            response_time_ms: Date.now() - startTime,
+          },
+        });
+        return;
+      }
+
+      // default window is the last 24h
+      const to = req.query.to ? parseTime(req.query.to as string) : Date.now();
+      const from = req.query.from ? parseTime(req.query.from as string) : to - 24 * 60 * 60 * 1000;
+
+      if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_RANGE',
+            message: 'from/to must be unix ms or ISO dates, with from <= to',
+          },
+          meta: {
+            timestamp: new Date().toISOString(),
+            request_id: requestId,
+            response_time_ms: Date.now() - startTime,
+          },
+        });
+        return;
+      }
+
+      const candles = await aggregator.getCandles(address, interval as CandleInterval, from, to, chain);
+
+      const response: ApiResponse<{
+        token_address: string;
+        interval: CandleInterval;
+        from: number;
+        to: number;
+        candles: Candle[];
+      }> = {
+        success: true,
+        data: {
+          token_address: address,
+          interval: interval as CandleInterval,
+          from,
+          to,
+          candles,
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          response_time_ms: Date.now() - startTime,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // POST /api/tokens/batch - get multiple tokens
   router.post('/batch', async (req: Request, res: Response, next: NextFunction) => {
     const requestId = uuidv4();
@@ -187,6 +386,7 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
 
     try {
       const { addresses } = req.body;
+      const chain = getChainParam(req.body.chain);
 
       if (!Array.isArray(addresses) || addresses.length === 0) {
         res.status(400).json({
@@ -224,7 +424,7 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
       const notFound: string[] = [];
 
       for (const address of addresses) {
-        const token = await aggregator.getTokenByAddress(address);
+        const token = await aggregator.getTokenByAddress(address, chain);
         if (token) {
           tokens.push(token);
         } else {
@@ -295,11 +495,11 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
         50
       );
 
-      const timePeriod = (req.query.time_period as '1h' | '24h' | '7d') || '24h';
+      const timePeriod = getTimePeriodParam(req.query.time_period) || '24h';
 
       const result = await aggregator.getTokens(
         { timePeriod, minVolume: 100 },
-        { field: 'price_change', direction: 'desc' },
+        { field: 'price_change', direction: 'desc', timePeriod },
         { limit }
       );
 
@@ -330,11 +530,11 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
         50
       );
 
-      const timePeriod = (req.query.time_period as '1h' | '24h' | '7d') || '24h';
+      const timePeriod = getTimePeriodParam(req.query.time_period) || '24h';
 
       const result = await aggregator.getTokens(
         { timePeriod, minVolume: 100 },
-        { field: 'price_change', direction: 'asc' },
+        { field: 'price_change', direction: 'asc', timePeriod },
         { limit }
       );
 
@@ -357,4 +557,10 @@ export function createTokenRoutes(aggregator: TokenAggregator): Router {
   return router;
 }
 
+// accept unix ms or anything Date can parse
+function parseTime(value: string): number {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return Date.parse(value);
+}
+
 export default createTokenRoutes;
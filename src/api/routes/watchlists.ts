@@ -0,0 +1,131 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { WatchlistService, watchlistInputSchema, watchlistUpdateSchema } from '../../services';
+import { ApiError, getClientId, sendSuccess } from '../middleware';
+import config from '../../config';
+import type { Token, TokenRef, Watchlist } from '../../types';
+
+// Watchlist CRUD - watchlists belong to the caller's X-Client-Id
+export function createWatchlistRoutes(watchlists: WatchlistService): Router {
+  const router = Router();
+
+  // GET /api/watchlists - list my watchlists
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const lists = watchlists.listWatchlists(getClientId(req));
+      sendSuccess<{ watchlists: Watchlist[]; count: number }>(
+        res, { watchlists: lists, count: lists.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/watchlists - create a watchlist
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const owner = getClientId(req);
+      const parsed = watchlistInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_WATCHLIST', 'Invalid watchlist', parsed.error.flatten());
+      }
+
+      if (watchlists.listWatchlists(owner).length >= config.maxWatchlistsPerOwner) {
+        throw new ApiError(
+          409,
+          'TOO_MANY_WATCHLISTS',
+          `Maximum ${config.maxWatchlistsPerOwner} watchlists per client`
+        );
+      }
+
+      const watchlist = await watchlists.createWatchlist(owner, parsed.data);
+      sendSuccess(res, watchlist, requestId, startTime, 201);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/watchlists/:id
+  router.get('/:id', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const watchlist = watchlists.getWatchlist(getClientId(req), req.params.id);
+      if (!watchlist) {
+        throw new ApiError(404, 'WATCHLIST_NOT_FOUND', `Watchlist ${req.params.id} not found`);
+      }
+      sendSuccess(res, watchlist, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/watchlists/:id/tokens - live token data for the list
+  router.get('/:id/tokens', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const result = watchlists.getWatchlistTokens(getClientId(req), req.params.id);
+      if (!result) {
+        throw new ApiError(404, 'WATCHLIST_NOT_FOUND', `Watchlist ${req.params.id} not found`);
+      }
+      sendSuccess<{ tokens: Token[]; missing: TokenRef[]; count: number }>(
+        res, { ...result, count: result.tokens.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/watchlists/:id - partial update, tokens replace the whole list
+  router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const owner = getClientId(req);
+      const parsed = watchlistUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_WATCHLIST', 'Invalid watchlist', parsed.error.flatten());
+      }
+
+      const watchlist = await watchlists.updateWatchlist(owner, req.params.id, parsed.data);
+      if (!watchlist) {
+        throw new ApiError(404, 'WATCHLIST_NOT_FOUND', `Watchlist ${req.params.id} not found`);
+      }
+      sendSuccess(res, watchlist, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/watchlists/:id
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const deleted = await watchlists.deleteWatchlist(getClientId(req), req.params.id);
+      if (!deleted) {
+        throw new ApiError(404, 'WATCHLIST_NOT_FOUND', `Watchlist ${req.params.id} not found`);
+      }
+      sendSuccess(res, { id: req.params.id, deleted: true }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createWatchlistRoutes;
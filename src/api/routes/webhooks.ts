@@ -0,0 +1,143 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookService, WebhookUrlError, webhookInputSchema } from '../../services';
+import { ApiError, getClientId, sendSuccess } from '../middleware';
+import config from '../../config';
+import type { WebhookDelivery, WebhookEndpoint } from '../../types';
+
+// Webhook endpoint management - endpoints belong to the caller's X-Client-Id
+export function createWebhookRoutes(webhooks: WebhookService): Router {
+  const router = Router();
+
+  // GET /api/webhooks - list my endpoints
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const endpoints = webhooks.list(getClientId(req));
+      sendSuccess<{ webhooks: WebhookEndpoint[]; count: number }>(
+        res, { webhooks: endpoints, count: endpoints.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/webhooks - register an endpoint (response has the signing secret)
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const owner = getClientId(req);
+      const parsed = webhookInputSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        throw new ApiError(400, 'INVALID_WEBHOOK', 'Invalid webhook', parsed.error.flatten());
+      }
+
+      if (webhooks.count(owner) >= config.maxWebhooksPerOwner) {
+        throw new ApiError(
+          409,
+          'TOO_MANY_WEBHOOKS',
+          `Maximum ${config.maxWebhooksPerOwner} webhooks per client`
+        );
+      }
+
+      const endpoint = await webhooks.create(owner, parsed.data);
+      sendSuccess(res, endpoint, requestId, startTime, 201);
+    } catch (error) {
+      if (error instanceof WebhookUrlError) {
+        next(new ApiError(400, error.code, error.message));
+        return;
+      }
+      next(error);
+    }
+  });
+
+  // GET /api/webhooks/dead-letters - deliveries that ran out of retries
+  router.get('/dead-letters', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const deliveries = webhooks.getDeadLetters(getClientId(req));
+      sendSuccess<{ deliveries: WebhookDelivery[]; count: number }>(
+        res, { deliveries, count: deliveries.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/webhooks/dead-letters/:deliveryId/retry - replay one
+  router.post('/dead-letters/:deliveryId/retry', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const delivery = await webhooks.redeliver(getClientId(req), req.params.deliveryId);
+      if (!delivery) {
+        throw new ApiError(404, 'DELIVERY_NOT_FOUND', `Dead letter ${req.params.deliveryId} not found`);
+      }
+      sendSuccess(res, delivery, requestId, startTime, 202);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/webhooks/:id
+  router.get('/:id', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const endpoint = webhooks.get(getClientId(req), req.params.id);
+      if (!endpoint) {
+        throw new ApiError(404, 'WEBHOOK_NOT_FOUND', `Webhook ${req.params.id} not found`);
+      }
+      sendSuccess(res, endpoint, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/webhooks/:id/deliveries - recent delivery log, newest first
+  router.get('/:id/deliveries', (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const deliveries = webhooks.getDeliveries(getClientId(req), req.params.id);
+      if (!deliveries) {
+        throw new ApiError(404, 'WEBHOOK_NOT_FOUND', `Webhook ${req.params.id} not found`);
+      }
+      sendSuccess<{ deliveries: WebhookDelivery[]; count: number }>(
+        res, { deliveries, count: deliveries.length }, requestId, startTime
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/webhooks/:id
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    try {
+      const deleted = await webhooks.delete(getClientId(req), req.params.id);
+      if (!deleted) {
+        throw new ApiError(404, 'WEBHOOK_NOT_FOUND', `Webhook ${req.params.id} not found`);
+      }
+      sendSuccess(res, { id: req.params.id, deleted: true }, requestId, startTime);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createWebhookRoutes;
@@ -0,0 +1,18 @@
+import { Router, Request, Response } from 'express';
+import { protocolJsonSchema } from '../../websocket';
+
+// WebSocket protocol docs
+export function createWebSocketRoutes(): Router {
+  const router = Router();
+  const schema = protocolJsonSchema(); // fixed for the life of the process
+
+  // GET /api/websocket/schema - JSON Schema of every message in both directions.
+  // Served bare rather than in the usual envelope so tools can load it directly
+  router.get('/schema', (req: Request, res: Response) => {
+    res.json(schema);
+  });
+
+  return router;
+}
+
+export default createWebSocketRoutes;
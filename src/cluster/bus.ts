@@ -0,0 +1,204 @@
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+import config from '../config/index';
+import { logger } from '../utils/index';
+
+// channels the nodes talk on
+export const CLUSTER_CHANNELS = {
+  websocket: 'cluster:ws', // events for every node's socket clients
+  tokens: 'cluster:tokens', // the leader's refreshed token data, per chain
+  state: 'cluster:state', // saved rules/lists/keys changed, reload them
+  admin: 'cluster:admin', // admin actions on in-memory state every node applies
+} as const;
+
+export type ClusterHandler = (data: unknown, origin: string) => void;
+
+// what the rest of the app needs from the cluster backend: messages to the
+// other nodes, and a lock with an owner and expiry for leader election
+export interface IClusterBus {
+  readonly nodeId: string;
+  connect(): Promise<void>;
+  // delivered to every other node subscribed to the channel, never back to this one
+  publish(channel: string, data: unknown): Promise<void>;
+  subscribe(channel: string, handler: ClusterHandler): Promise<void>;
+  // set the lock if nobody holds it
+  acquireLock(key: string, ttlMs: number): Promise<boolean>;
+  // extend / drop the lock, only if this node still holds it
+  renewLock(key: string, ttlMs: number): Promise<boolean>;
+  releaseLock(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface Envelope {
+  origin: string;
+  data: unknown;
+}
+
+/**
+ * In-process broker - what MemoryClusterBus instances talk through
+ *
+ * One per process by default, so a single node is always its own leader.
+ * Tests create their own and hang several buses off it to play a cluster.
+ */
+export class MemoryBroker {
+  readonly emitter = new EventEmitter();
+  readonly locks: Map<string, { owner: string; expiry: number }> = new Map();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+}
+
+const defaultBroker = new MemoryBroker();
+
+// in-memory stand-in for redis pub/sub, for single instances and tests
+export class MemoryClusterBus implements IClusterBus {
+  private listeners: Array<{ channel: string; listener: (envelope: Envelope) => void }> = [];
+
+  constructor(readonly nodeId: string = config.nodeId, private broker: MemoryBroker = defaultBroker) {}
+
+  async connect(): Promise<void> {}
+
+  async publish(channel: string, data: unknown): Promise<void> {
+    // same JSON round trip as redis so nobody relies on sharing object references
+    const envelope: Envelope = { origin: this.nodeId, data: JSON.parse(JSON.stringify(data ?? null)) };
+    this.broker.emitter.emit(channel, envelope);
+  }
+
+  async subscribe(channel: string, handler: ClusterHandler): Promise<void> {
+    const listener = (envelope: Envelope) => {
+      if (envelope.origin !== this.nodeId) handler(envelope.data, envelope.origin);
+    };
+    this.broker.emitter.on(channel, listener);
+    this.listeners.push({ channel, listener });
+  }
+
+  async acquireLock(key: string, ttlMs: number): Promise<boolean> {
+    const lock = this.broker.locks.get(key);
+    if (lock && lock.expiry > Date.now() && lock.owner !== this.nodeId) return false;
+
+    this.broker.locks.set(key, { owner: this.nodeId, expiry: Date.now() + ttlMs });
+    return true;
+  }
+
+  async renewLock(key: string, ttlMs: number): Promise<boolean> {
+    const lock = this.broker.locks.get(key);
+    if (!lock || lock.owner !== this.nodeId || lock.expiry <= Date.now()) return false;
+
+    lock.expiry = Date.now() + ttlMs;
+    return true;
+  }
+
+  async releaseLock(key: string): Promise<void> {
+    if (this.broker.locks.get(key)?.owner === this.nodeId) this.broker.locks.delete(key);
+  }
+
+  async close(): Promise<void> {
+    for (const { channel, listener } of this.listeners) this.broker.emitter.off(channel, listener);
+    this.listeners = [];
+  }
+}
+
+// compare-and-set scripts so a node can't touch a lock someone else took over
+const RENEW_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) else return 0 end`;
+const RELEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+/**
+ * Redis cluster bus - pub/sub and locks shared by every instance
+ *
+ * Needs two connections since a subscribed redis connection can't run other
+ * commands. Channels and lock keys get the cache prefix so several
+ * deployments can share one redis.
+ */
+export class RedisClusterBus implements IClusterBus {
+  private pub: Redis;
+  private sub: Redis;
+  private handlers: Map<string, ClusterHandler[]> = new Map();
+
+  constructor(readonly nodeId: string = config.nodeId) {
+    const opts = { password: config.redisPassword || undefined, lazyConnect: true };
+    this.pub = new Redis(config.redisUrl, opts);
+    this.sub = new Redis(config.redisUrl, opts);
+
+    for (const client of [this.pub, this.sub]) {
+      client.on('error', (e) => logger.error('Cluster redis error:', e));
+    }
+
+    this.sub.on('message', (channel: string, raw: string) => {
+      try {
+        const envelope = JSON.parse(raw) as Envelope;
+        if (envelope.origin === this.nodeId) return;
+        for (const handler of this.handlers.get(channel) || []) handler(envelope.data, envelope.origin);
+      } catch (e) {
+        logger.error(`Bad cluster message on ${channel}:`, e);
+      }
+    });
+  }
+
+  private key(k: string) { return config.cachePrefix + k; }
+
+  async connect(): Promise<void> {
+    await Promise.all([this.pub.connect(), this.sub.connect()]);
+    logger.info(`Cluster bus connected as ${this.nodeId}`);
+  }
+
+  async publish(channel: string, data: unknown): Promise<void> {
+    try {
+      await this.pub.publish(this.key(channel), JSON.stringify({ origin: this.nodeId, data }));
+    } catch (e) {
+      logger.error(`Cluster publish error [${channel}]:`, e);
+    }
+  }
+
+  async subscribe(channel: string, handler: ClusterHandler): Promise<void> {
+    const key = this.key(channel);
+    const handlers = this.handlers.get(key);
+    if (handlers) {
+      handlers.push(handler);
+      return;
+    }
+
+    this.handlers.set(key, [handler]);
+    await this.sub.subscribe(key);
+  }
+
+  async acquireLock(key: string, ttlMs: number): Promise<boolean> {
+    try {
+      // already ours (e.g. we lost track of it) counts as acquired
+      if ((await this.pub.set(this.key(key), this.nodeId, 'PX', ttlMs, 'NX')) === 'OK') return true;
+      return this.renewLock(key, ttlMs);
+    } catch (e) {
+      logger.error(`Cluster lock error [${key}]:`, e);
+      return false;
+    }
+  }
+
+  async renewLock(key: string, ttlMs: number): Promise<boolean> {
+    try {
+      return (await this.pub.eval(RENEW_SCRIPT, 1, this.key(key), this.nodeId, ttlMs)) === 1;
+    } catch (e) {
+      logger.error(`Cluster lock renew error [${key}]:`, e);
+      return false; // can't prove we still hold it, so we don't
+    }
+  }
+
+  async releaseLock(key: string): Promise<void> {
+    try { await this.pub.eval(RELEASE_SCRIPT, 1, this.key(key), this.nodeId); }
+    catch (e) { logger.error(`Cluster lock release error [${key}]:`, e); }
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.sub.quit(), this.pub.quit()]);
+  }
+}
+
+// redis when clustering is on, otherwise a single node that's always leader
+export function createClusterBus(): IClusterBus {
+  if (!config.clusterEnabled) return new MemoryClusterBus();
+
+  if (config.useMemoryCache) {
+    logger.warn('CLUSTER_ENABLED with the memory cache - nodes will not share cached data or cursors');
+  }
+  logger.info(`Clustering enabled, node ${config.nodeId}`);
+  return new RedisClusterBus();
+}
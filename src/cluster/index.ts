@@ -0,0 +1,10 @@
+export {
+  MemoryBroker,
+  MemoryClusterBus,
+  RedisClusterBus,
+  createClusterBus,
+  CLUSTER_CHANNELS,
+  type IClusterBus,
+  type ClusterHandler,
+} from './bus';
+export { LeaderElector } from './leader';
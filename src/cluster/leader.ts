@@ -0,0 +1,66 @@
+import config from '../config/index';
+import { logger } from '../utils/index';
+import type { IClusterBus } from './bus';
+
+const LEADER_KEY = 'cluster:leader';
+
+/**
+ * LeaderElector - picks the one node that runs the refresh jobs
+ *
+ * Whoever holds the leader lock is leader. The holder renews it every third
+ * of the TTL; everyone else keeps trying to take it, so when the leader dies
+ * another node takes over within one TTL. A leader that fails to renew
+ * (redis blip, took too long) steps down straight away rather than risk two
+ * nodes hitting the DEX APIs.
+ */
+export class LeaderElector {
+  private leader = false;
+  private timer?: NodeJS.Timeout;
+  private onChange?: (isLeader: boolean) => void;
+
+  constructor(private bus: IClusterBus, private ttlMs = config.leaderLockTtl * 1000) {}
+
+  setChangeHandler(onChange: (isLeader: boolean) => void): void {
+    this.onChange = onChange;
+  }
+
+  // first attempt is awaited, so isLeader() is meaningful once this returns
+  async start(): Promise<void> {
+    await this.tick();
+    this.timer = setInterval(() => { this.tick(); }, Math.max(1000, Math.floor(this.ttlMs / 3)));
+    this.timer.unref?.();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (this.leader) {
+      await this.bus.releaseLock(LEADER_KEY);
+      this.setLeader(false);
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  // exposed for tests - one renew/acquire round
+  async tick(): Promise<void> {
+    const held = this.leader
+      ? await this.bus.renewLock(LEADER_KEY, this.ttlMs)
+      : await this.bus.acquireLock(LEADER_KEY, this.ttlMs);
+    this.setLeader(held);
+  }
+
+  private setLeader(leader: boolean): void {
+    if (leader === this.leader) return;
+
+    this.leader = leader;
+    logger.info(`Node ${this.bus.nodeId} ${leader ? 'is now the leader' : 'is no longer the leader'}`);
+    this.onChange?.(leader);
+  }
+}
+
+export default LeaderElector;
@@ -0,0 +1,73 @@
+// Chains we know how to aggregate. ids follow DexScreener's chainId, since
+// that's what most upstream records carry; other APIs get mapped onto them.
+export interface ChainInfo {
+  id: string;
+  name: string;
+  nativeSymbol: string;
+  wrappedNative: string; // wrapped native token address, used for native/USD pricing
+  geckoNetwork: string; // GeckoTerminal network id
+  fallbackNativePrice: number; // used until a source gives us a real price
+  evm: boolean; // hex addresses, compared case-insensitively
+}
+
+export const CHAINS: Record<string, ChainInfo> = {
+  solana: {
+    id: 'solana',
+    name: 'Solana',
+    nativeSymbol: 'SOL',
+    wrappedNative: 'So11111111111111111111111111111111111111112',
+    geckoNetwork: 'solana',
+    fallbackNativePrice: 200,
+    evm: false,
+  },
+  base: {
+    id: 'base',
+    name: 'Base',
+    nativeSymbol: 'ETH',
+    wrappedNative: '0x4200000000000000000000000000000000000006',
+    geckoNetwork: 'base',
+    fallbackNativePrice: 3000,
+    evm: true,
+  },
+  ethereum: {
+    id: 'ethereum',
+    name: 'Ethereum',
+    nativeSymbol: 'ETH',
+    wrappedNative: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    geckoNetwork: 'eth',
+    fallbackNativePrice: 3000,
+    evm: true,
+  },
+  bsc: {
+    id: 'bsc',
+    name: 'BNB Smart Chain',
+    nativeSymbol: 'BNB',
+    wrappedNative: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c',
+    geckoNetwork: 'bsc',
+    fallbackNativePrice: 600,
+    evm: true,
+  },
+};
+
+export function isKnownChain(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CHAINS, id);
+}
+
+export function getChain(id: string): ChainInfo {
+  if (!isKnownChain(id)) throw new Error(`Unknown chain "${id}"`);
+  return CHAINS[id];
+}
+
+// GeckoTerminal network id -> our chain id (unknown networks pass through)
+export function chainFromGeckoNetwork(network: string): string {
+  const chain = Object.values(CHAINS).find(c => c.geckoNetwork === network);
+  return chain ? chain.id : network;
+}
+
+// tokens are keyed by chain + address - the same address can exist on
+// several EVM chains and those are different tokens. EVM addresses come back
+// checksummed or lowercased depending on the API, so they're lowercased here.
+export function tokenKey(chainId: string, address: string): string {
+  const evm = isKnownChain(chainId) && CHAINS[chainId].evm;
+  return `${chainId}:${evm ? address.toLowerCase() : address}`;
+}
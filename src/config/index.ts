@@ -1,5 +1,7 @@
+import os from 'os';
 import dotenv from 'dotenv';
 import { z } from 'zod';
+import { isKnownChain } from './chains';
 
 dotenv.config();
 
@@ -14,18 +16,81 @@ const configSchema = z.object({
   redisPassword: z.string().optional(),
   useMemoryCache: z.boolean().default(true),
 
+  // Clustering - several instances sharing redis, one of them runs the refresh jobs
+  clusterEnabled: z.boolean().default(false),
+  nodeId: z.string().min(1).default(`${os.hostname()}-${process.pid}`),
+  leaderLockTtl: z.number().int().positive().default(15), // seconds before a dead leader is replaced
+
   // Cache
   cacheTtl: z.number().int().positive().default(30),
   cachePrefix: z.string().default('meme-coin:'),
 
+  // Price history
+  historyRetentionHours: z.number().int().positive().default(168),
+
+  // Chains to aggregate - ids from ./chains
+  chains: z.array(z.string().min(1))
+    .min(1)
+    .refine(ids => ids.every(isKnownChain), 'Unknown chain id')
+    .default(['solana']),
+
+  // Data sources - names from the source registry
+  dataSources: z.array(z.string().min(1)).default(['dexscreener', 'geckoterminal', 'jupiter']),
+  fixtureSourcePath: z.string().optional(),
+
+  // Merging - which source wins when they disagree
+  sourcePriority: z.array(z.string().min(1)).default(['dexscreener', 'geckoterminal', 'jupiter']),
+  mergeOutlierThreshold: z.number().positive().default(0.5), // 0.5 = 50% off the median
+  mergeMaxRecordAge: z.number().int().positive().default(300), // seconds
+  staleRecordTtl: z.number().int().positive().default(900), // seconds before a token or pool no source lists is dropped
+
+  // Jupiter Price API v3 - optional, jupiter-only tokens have no price without a key
+  jupiterApiKey: z.string().optional(),
+  jupiterPriceCacheTtl: z.number().int().positive().default(15), // seconds
+
+  // Native asset price oracle
+  nativePriceMaxAge: z.number().int().positive().default(120), // seconds before a price counts as stale
+  nativePriceOutlierThreshold: z.number().positive().default(0.05), // 0.05 = 5% off the median
+
   // API Rate Limits (per minute)
   dexScreenerRateLimit: z.number().int().positive().default(300),
   jupiterRateLimit: z.number().int().positive().default(100),
   geckoTerminalRateLimit: z.number().int().positive().default(30),
 
+  // Upstream circuit breakers
+  circuitBreakerThreshold: z.number().int().positive().default(5), // failures in a row before opening
+  circuitBreakerCooldown: z.number().int().positive().default(30), // seconds before a probe request
+
+  // Built-in event thresholds (percent)
+  priceUpdateThreshold: z.number().positive().default(1),
+  volumeSpikeThreshold: z.number().positive().default(50),
+
+  // Alerts
+  maxAlertRulesPerOwner: z.number().int().positive().default(50),
+
+  // Webhooks
+  webhookTimeout: z.number().int().positive().default(5000), // ms
+  webhookMaxRetries: z.number().int().min(0).default(3),
+  webhookRetryBaseDelay: z.number().int().positive().default(1000), // ms
+  webhookAllowPrivateUrls: z.boolean().default(false), // local development only
+  maxWebhooksPerOwner: z.number().int().positive().default(10),
+
+  // Watchlists / portfolios
+  maxWatchlistsPerOwner: z.number().int().positive().default(20),
+  maxPortfoliosPerOwner: z.number().int().positive().default(10),
+
+  // API keys - anonymous requests get the shared per-IP limit unless keys are required
+  requireApiKey: z.boolean().default(false),
+  adminApiKey: z.string().min(16).optional(), // X-Admin-Key for /api/admin, admin routes are off without it
+  apiKeyRateLimit: z.number().int().positive().default(300), // default requests per minute per key
+  apiKeyDailyQuota: z.number().int().positive().default(100000), // default requests per UTC day per key
+  corsOrigins: z.array(z.string().min(1)).default(['*']),
+
   // WebSocket
   wsPingInterval: z.number().int().positive().default(25000),
   wsPingTimeout: z.number().int().positive().default(5000),
+  wsSnapshotInterval: z.number().int().positive().default(60), // seconds between full batch_update snapshots per client
+  wsMaxSubscriptions: z.number().int().positive().default(10), // named subscriptions per connection
 
   // Update Intervals (seconds)
   priceUpdateInterval: z.number().int().positive().default(10),
@@ -34,6 +99,8 @@ const configSchema = z.object({
   // Pagination
   defaultPageSize: z.number().int().positive().default(30),
   maxPageSize: z.number().int().positive().default(100),
+  cursorTtl: z.number().int().positive().default(300), // seconds a result snapshot can be paged through
+  cursorSecret: z.string().min(16).optional(), // HMAC key for cursors, random per process if unset (single node only)
 
   // Logging
   logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
@@ -41,8 +108,13 @@ const configSchema = z.object({
   // API Endpoints
   dexScreenerBaseUrl: z.string().url().default('https://api.dexscreener.com'),
   jupiterBaseUrl: z.string().url().default('https://lite-api.jup.ag'),
+  jupiterPriceBaseUrl: z.string().url().default('https://api.jup.ag'),
   geckoTerminalBaseUrl: z.string().url().default('https://api.geckoterminal.com/api/v2'),
-});
+}).refine(
+  // a cursor has to verify on whichever node the next page lands on
+  c => !c.clusterEnabled || c.cursorSecret !== undefined,
+  { message: 'CURSOR_SECRET is required when CLUSTER_ENABLED=true', path: ['cursorSecret'] }
+);
 
 type Config = z.infer<typeof configSchema>;
 
@@ -53,8 +125,43 @@ function loadConfig(): Config {
     redisUrl: process.env.REDIS_URL,
     redisPassword: process.env.REDIS_PASSWORD,
     useMemoryCache: process.env.USE_MEMORY_CACHE === 'true',
+    clusterEnabled: process.env.CLUSTER_ENABLED === 'true',
+    nodeId: process.env.NODE_ID,
+    leaderLockTtl: process.env.LEADER_LOCK_TTL ? parseInt(process.env.LEADER_LOCK_TTL, 10) : undefined,
     cacheTtl: process.env.CACHE_TTL ? parseInt(process.env.CACHE_TTL, 10) : undefined,
     cachePrefix: process.env.CACHE_PREFIX,
+    historyRetentionHours: process.env.HISTORY_RETENTION_HOURS
+      ? parseInt(process.env.HISTORY_RETENTION_HOURS, 10)
+      : undefined,
+    chains: process.env.CHAINS
+      ? process.env.CHAINS.split(',').map(s => s.trim()).filter(Boolean)
+      : undefined,
+    dataSources: process.env.DATA_SOURCES
+      ? process.env.DATA_SOURCES.split(',').map(s => s.trim()).filter(Boolean)
+      : undefined,
+    fixtureSourcePath: process.env.FIXTURE_SOURCE_PATH,
+    sourcePriority: process.env.SOURCE_PRIORITY
+      ? process.env.SOURCE_PRIORITY.split(',').map(s => s.trim()).filter(Boolean)
+      : undefined,
+    mergeOutlierThreshold: process.env.MERGE_OUTLIER_THRESHOLD
+      ? parseFloat(process.env.MERGE_OUTLIER_THRESHOLD)
+      : undefined,
+    mergeMaxRecordAge: process.env.MERGE_MAX_RECORD_AGE
+      ? parseInt(process.env.MERGE_MAX_RECORD_AGE, 10)
+      : undefined,
+    staleRecordTtl: process.env.STALE_RECORD_TTL
+      ? parseInt(process.env.STALE_RECORD_TTL, 10)
+      : undefined,
+    jupiterApiKey: process.env.JUPITER_API_KEY || undefined,
+    jupiterPriceCacheTtl: process.env.JUPITER_PRICE_CACHE_TTL
+      ? parseInt(process.env.JUPITER_PRICE_CACHE_TTL, 10)
+      : undefined,
+    nativePriceMaxAge: process.env.NATIVE_PRICE_MAX_AGE
+      ? parseInt(process.env.NATIVE_PRICE_MAX_AGE, 10)
+      : undefined,
+    nativePriceOutlierThreshold: process.env.NATIVE_PRICE_OUTLIER_THRESHOLD
+      ? parseFloat(process.env.NATIVE_PRICE_OUTLIER_THRESHOLD)
+      : undefined,
     dexScreenerRateLimit: process.env.DEXSCREENER_RATE_LIMIT
       ? parseInt(process.env.DEXSCREENER_RATE_LIMIT, 10)
       : undefined,
@@ -64,12 +171,63 @@ function loadConfig(): Config {
     geckoTerminalRateLimit: process.env.GECKOTERMINAL_RATE_LIMIT
       ? parseInt(process.env.GECKOTERMINAL_RATE_LIMIT, 10)
       : undefined,
+    circuitBreakerThreshold: process.env.CIRCUIT_BREAKER_THRESHOLD
+      ? parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD, 10)
+      : undefined,
+    circuitBreakerCooldown: process.env.CIRCUIT_BREAKER_COOLDOWN
+      ? parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN, 10)
+      : undefined,
+    priceUpdateThreshold: process.env.PRICE_UPDATE_THRESHOLD
+      ? parseFloat(process.env.PRICE_UPDATE_THRESHOLD)
+      : undefined,
+    volumeSpikeThreshold: process.env.VOLUME_SPIKE_THRESHOLD
+      ? parseFloat(process.env.VOLUME_SPIKE_THRESHOLD)
+      : undefined,
+    maxAlertRulesPerOwner: process.env.MAX_ALERT_RULES_PER_OWNER
+      ? parseInt(process.env.MAX_ALERT_RULES_PER_OWNER, 10)
+      : undefined,
+    webhookTimeout: process.env.WEBHOOK_TIMEOUT
+      ? parseInt(process.env.WEBHOOK_TIMEOUT, 10)
+      : undefined,
+    webhookMaxRetries: process.env.WEBHOOK_MAX_RETRIES
+      ? parseInt(process.env.WEBHOOK_MAX_RETRIES, 10)
+      : undefined,
+    webhookRetryBaseDelay: process.env.WEBHOOK_RETRY_BASE_DELAY
+      ? parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY, 10)
+      : undefined,
+    webhookAllowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+    maxWebhooksPerOwner: process.env.MAX_WEBHOOKS_PER_OWNER
+      ? parseInt(process.env.MAX_WEBHOOKS_PER_OWNER, 10)
+      : undefined,
+    maxWatchlistsPerOwner: process.env.MAX_WATCHLISTS_PER_OWNER
+      ? parseInt(process.env.MAX_WATCHLISTS_PER_OWNER, 10)
+      : undefined,
+    maxPortfoliosPerOwner: process.env.MAX_PORTFOLIOS_PER_OWNER
+      ? parseInt(process.env.MAX_PORTFOLIOS_PER_OWNER, 10)
+      : undefined,
+    requireApiKey: process.env.REQUIRE_API_KEY === 'true',
+    adminApiKey: process.env.ADMIN_API_KEY || undefined,
+    apiKeyRateLimit: process.env.API_KEY_RATE_LIMIT
+      ? parseInt(process.env.API_KEY_RATE_LIMIT, 10)
+      : undefined,
+    apiKeyDailyQuota: process.env.API_KEY_DAILY_QUOTA
+      ? parseInt(process.env.API_KEY_DAILY_QUOTA, 10)
+      : undefined,
+    corsOrigins: process.env.CORS_ORIGINS
+      ? process.env.CORS_ORIGINS.split(',').map(s => s.trim()).filter(Boolean)
+      : undefined,
     wsPingInterval: process.env.WS_PING_INTERVAL
       ? parseInt(process.env.WS_PING_INTERVAL, 10)
       : undefined,
     wsPingTimeout: process.env.WS_PING_TIMEOUT
       ? parseInt(process.env.WS_PING_TIMEOUT, 10)
       : undefined,
+    wsSnapshotInterval: process.env.WS_SNAPSHOT_INTERVAL
+      ? parseInt(process.env.WS_SNAPSHOT_INTERVAL, 10)
+      : undefined,
+    wsMaxSubscriptions: process.env.WS_MAX_SUBSCRIPTIONS
+      ? parseInt(process.env.WS_MAX_SUBSCRIPTIONS, 10)
+      : undefined,
     priceUpdateInterval: process.env.PRICE_UPDATE_INTERVAL
       ? parseInt(process.env.PRICE_UPDATE_INTERVAL, 10)
       : undefined,
@@ -82,9 +240,12 @@ function loadConfig(): Config {
     maxPageSize: process.env.MAX_PAGE_SIZE
       ? parseInt(process.env.MAX_PAGE_SIZE, 10)
       : undefined,
+    cursorTtl: process.env.CURSOR_TTL ? parseInt(process.env.CURSOR_TTL, 10) : undefined,
+    cursorSecret: process.env.CURSOR_SECRET || undefined,
     logLevel: process.env.LOG_LEVEL,
     dexScreenerBaseUrl: process.env.DEXSCREENER_BASE_URL,
     jupiterBaseUrl: process.env.JUPITER_BASE_URL,
+    jupiterPriceBaseUrl: process.env.JUPITER_PRICE_BASE_URL,
     geckoTerminalBaseUrl: process.env.GECKOTERMINAL_BASE_URL,
   };
 
@@ -104,4 +265,6 @@ function loadConfig(): Config {
 
 export const config = loadConfig();
 
+export { CHAINS, getChain, isKnownChain, chainFromGeckoNetwork, tokenKey, type ChainInfo } from './chains';
+
 export default config;
@@ -6,36 +6,90 @@ import path from 'path';
 
 import config from './config/index';
 import { logger } from './utils/index';
-import { TokenAggregator } from './services/index';
-import { WebSocketServer } from './websocket/index';
+import type { NativePrice, Token } from './types/index';
+import {
+  TokenAggregator,
+  AlertEngine,
+  WebhookService,
+  WatchlistService,
+  ApiKeyService,
+  AuditLog,
+  getCache,
+} from './services/index';
+import { WebSocketServer, PROTOCOL_VERSION } from './websocket/index';
 import { UpdateScheduler } from './scheduler/index';
+import { createClusterBus, LeaderElector, CLUSTER_CHANNELS, type IClusterBus } from './cluster/index';
 import {
   createTokenRoutes,
   createHealthRoutes,
+  createAlertRoutes,
+  createWebhookRoutes,
+  createWatchlistRoutes,
+  createPortfolioRoutes,
+  createPriceRoutes,
+  createAdminRoutes,
+  applyAdminCommand,
+  type AdminCommand,
+  createMetricsRoutes,
+  createWebSocketRoutes,
+  apiKeyAuth,
   errorHandler,
   notFoundHandler,
   requestLogger,
+  requestMetrics,
 } from './api/index';
 
+// saved state a successful write under each prefix changes - first match wins
+const STATE_ROUTES: Array<[string, string[]]> = [
+  ['/api/alerts', ['alerts']],
+  ['/api/webhooks', ['webhooks']],
+  ['/api/watchlists', ['watchlists']],
+  ['/api/portfolios', ['watchlists']],
+  ['/api/admin/keys', ['apiKeys', 'audit']],
+  ['/api/admin', ['audit']],
+];
+
 /**
  * Main application class
  * 
  * Sets up express, websocket, scheduler, and all the routes.
  * Pretty straightforward stuff.
+ *
+ * With CLUSTER_ENABLED several instances can run behind a load balancer:
+ * one elected leader refreshes data and runs the jobs, websocket events and
+ * token data are fanned out to every node over redis pub/sub.
  */
 class App {
   private app: Application;
   private httpServer: ReturnType<typeof createServer>;
   private aggregator: TokenAggregator;
+  private alerts: AlertEngine;
+  private webhooks: WebhookService;
+  private watchlists: WatchlistService;
+  private apiKeys: ApiKeyService;
+  private audit: AuditLog;
   private wsServer: WebSocketServer;
   private scheduler: UpdateScheduler;
+  private cluster: IClusterBus;
+  private elector: LeaderElector;
 
   constructor() {
     this.app = express();
     this.httpServer = createServer(this.app);
     this.aggregator = new TokenAggregator();
+    this.alerts = new AlertEngine();
+    this.webhooks = new WebhookService((address, chain) => this.aggregator.findToken(address, chain));
+    this.watchlists = new WatchlistService((address, chain) => this.aggregator.findToken(address, chain));
     this.wsServer = new WebSocketServer(this.httpServer);
-    this.scheduler = new UpdateScheduler(this.aggregator, this.wsServer);
+    this.wsServer.setWatchlistResolver((owner, id) => this.watchlists.resolveWatchlist(owner, id));
+    this.wsServer.setSnapshotSource(() => this.aggregator.getAllTokensArray());
+    this.apiKeys = new ApiKeyService();
+    this.wsServer.setKeyAuthorizer(raw => this.apiKeys.authorize(raw));
+    this.apiKeys.setRevokeHandler(keyId => this.wsServer.disconnectKey(keyId));
+    this.audit = new AuditLog();
+    this.cluster = createClusterBus();
+    this.elector = new LeaderElector(this.cluster);
+    this.scheduler = new UpdateScheduler(this.aggregator, this.wsServer, this.alerts, this.cluster);
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -43,21 +97,37 @@ class App {
   }
 
   private setupMiddleware(): void {
-    // cors - allow everything for now
+    // cors - CORS_ORIGINS, everything by default
     this.app.use(cors({
-      origin: '*',
+      origin: config.corsOrigins.includes('*') ? '*' : config.corsOrigins,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Client-Id', 'X-Api-Key', 'X-Admin-Key'],
     }));
 
     // body parsing
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true }));
 
-    // log requests
+    // log requests and time them for /metrics
     this.app.use(requestLogger);
+    this.app.use(requestMetrics);
+
+    // other nodes keep rules, lists and keys in memory - tell them to reload
+    // whatever a write here changed
+    this.app.use('/api', (req, res, next) => {
+      if (req.method === 'GET') return next();
+      res.on('finish', () => {
+        if (res.statusCode >= 400) return;
+        const match = STATE_ROUTES.find(([prefix]) => req.originalUrl.startsWith(prefix));
+        for (const service of match?.[1] ?? []) this.cluster.publish(CLUSTER_CHANNELS.state, service);
+      });
+      next();
+    });
+
+    // api keys get their own limits and quota, health probes and admin stay open
+    this.app.use('/api', apiKeyAuth(this.apiKeys, ['/health', '/admin']));
 
-    // rate limit api routes
+    // rate limit anonymous api requests
     const limiter = rateLimit({
       windowMs: 60 * 1000, // 1 min
       max: 100, // 100 req/min
@@ -70,6 +140,7 @@ class App {
       },
       standardHeaders: true,
       legacyHeaders: false,
+      skip: (req) => Boolean(req.apiKey),
     });
     this.app.use('/api', limiter);
 
@@ -81,6 +152,24 @@ class App {
     // api routes
     this.app.use('/api/tokens', createTokenRoutes(this.aggregator));
     this.app.use('/api/health', createHealthRoutes(this.aggregator, this.wsServer));
+    this.app.use('/api/alerts', createAlertRoutes(this.alerts));
+    this.app.use('/api/webhooks', createWebhookRoutes(this.webhooks));
+    this.app.use('/api/watchlists', createWatchlistRoutes(this.watchlists));
+    this.app.use('/api/portfolios', createPortfolioRoutes(this.watchlists));
+    this.app.use('/api/prices', createPriceRoutes(this.aggregator));
+    this.app.use('/api/websocket', createWebSocketRoutes());
+    this.app.use('/api/admin', createAdminRoutes({
+      apiKeys: this.apiKeys,
+      aggregator: this.aggregator,
+      scheduler: this.scheduler,
+      cache: getCache(),
+      audit: this.audit,
+      cluster: this.cluster,
+      isLeader: () => this.elector.isLeader(),
+    }));
+
+    // prometheus scrape endpoint - outside /api so keys and rate limits don't apply
+    this.app.use('/metrics', createMetricsRoutes(this.aggregator, this.wsServer));
 
     // root - just returns some info
     this.app.get('/', (req, res) => {
@@ -91,15 +180,28 @@ class App {
         endpoints: {
           tokens: '/api/tokens',
           search: '/api/tokens/search?q={query}',
+          suggest: '/api/tokens/search/suggest?q={prefix}',
+          pairs: '/api/tokens/{address}/pairs',
+          candles: '/api/tokens/{address}/candles?interval=1m|5m|1h&from={ms}&to={ms}',
           trending: '/api/tokens/trending/list',
           gainers: '/api/tokens/gainers/list',
           losers: '/api/tokens/losers/list',
+          alerts: '/api/alerts',
+          webhooks: '/api/webhooks',
+          watchlists: '/api/watchlists',
+          portfolios: '/api/portfolios',
+          portfolio_pnl: '/api/portfolios/{id}/pnl',
+          prices: '/api/prices/native',
+          admin: '/api/admin',
           health: '/api/health',
           stats: '/api/health/stats',
+          metrics: '/metrics',
         },
         websocket: {
           url: `ws://localhost:${config.port}`,
-          events: ['price_update', 'volume_spike', 'new_token', 'batch_update'],
+          events: ['price_update', 'volume_spike', 'new_token', 'batch_update', 'alert_triggered', 'entered', 'left'],
+          protocol: PROTOCOL_VERSION,
+          schema: '/api/websocket/schema',
         },
         documentation: 'https://github.com/yourusername/meme-coin-aggregator',
       });
@@ -110,19 +212,60 @@ class App {
     this.app.use(errorHandler);
   }
 
-  // hook up ws event broadcasting
+  // hook up ws + webhook event broadcasting
   private setupEventHandlers(): void {
     this.aggregator.setEventHandlers({
       onPriceUpdate: (data) => {
         this.wsServer.broadcastPriceUpdate(data);
+        this.webhooks.dispatch('price_update', data);
       },
       onVolumeSpike: (data) => {
         this.wsServer.broadcastVolumeSpike(data);
+        this.webhooks.dispatch('volume_spike', data);
       },
       onNewToken: (token) => {
         this.wsServer.broadcastNewToken(token);
+        this.webhooks.dispatch('new_token', token);
       },
     });
+
+    this.alerts.setEventHandler((data) => {
+      this.wsServer.sendAlert(data);
+      this.webhooks.dispatch('alert_triggered', data);
+    });
+  }
+
+  // cluster messages from the other nodes
+  private async setupClusterSync(): Promise<void> {
+    await this.wsServer.attachCluster(this.cluster);
+
+    const reloaders: Record<string, () => Promise<void>> = {
+      alerts: () => this.alerts.load(),
+      webhooks: () => this.webhooks.load(),
+      watchlists: () => this.watchlists.load(),
+      apiKeys: () => this.apiKeys.load(),
+      audit: () => this.audit.load(),
+    };
+    await this.cluster.subscribe(CLUSTER_CHANNELS.state, (service) => {
+      reloaders[service as string]?.().catch((error) => {
+        logger.error(`Failed to reload ${service}: ${error instanceof Error ? error.message : error}`);
+      });
+    });
+
+    await this.cluster.subscribe(CLUSTER_CHANNELS.tokens, (data) => {
+      const { chain, tokens, native_price } = data as { chain: string; tokens: Token[]; native_price?: NativePrice };
+      this.aggregator.applyRemoteTokens(chain, tokens, native_price);
+    });
+
+    // paused jobs, disabled sources, evictions and log level hold cluster-wide,
+    // refreshes asked of a follower run here if this is the leader
+    const adminDeps = { aggregator: this.aggregator, scheduler: this.scheduler, isLeader: () => this.elector.isLeader() };
+    await this.cluster.subscribe(CLUSTER_CHANNELS.admin, (data) => {
+      const command = data as AdminCommand;
+      applyAdminCommand(adminDeps, command).catch((error) => {
+        logger.error(`Failed to apply admin ${command.action}: ${error instanceof Error ? error.message : error}`);
+      });
+    });
   }
 
   async start(): Promise<void> {
@@ -130,11 +273,28 @@ class App {
       logger.info('Starting Meme Coin Aggregator...');
       logger.info(`Environment: ${config.nodeEnv}`);
 
+      await this.cluster.connect();
+      await this.setupClusterSync();
+
       // load initial data
-      await this.aggregator.initialize();
+      await this.alerts.load();
+      await this.webhooks.load();
+      await this.watchlists.load();
+      await this.apiKeys.load();
+      await this.audit.load();
+
+      // only the leader talks to the DEX APIs - followers start from what it
+      // cached and take over the jobs if it goes away
+      await this.elector.start();
+      if (this.elector.isLeader()) {
+        await this.aggregator.initialize();
+      } else {
+        await this.aggregator.loadCachedTokens();
+      }
 
-      // start scheduler
-      this.scheduler.start();
+      // from here on the scheduler follows leadership (which may have changed while loading)
+      this.elector.setChangeHandler(isLeader => isLeader ? this.scheduler.start() : this.scheduler.stop());
+      if (this.elector.isLeader()) this.scheduler.start();
 
       // start server
       this.httpServer.listen(config.port, () => {
@@ -158,8 +318,10 @@ class App {
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, shutting down gracefully...`);
 
-      this.scheduler.stop();
+      await this.elector.stop(); // stops the scheduler and hands leadership over
       await this.wsServer.shutdown();
+      await this.webhooks.flush();
+      await this.cluster.close();
 
       this.httpServer.close(() => {
         logger.info('HTTP server closed');
@@ -1,28 +1,46 @@
 import cron from 'node-cron';
 import config from '../config/index';
-import { TokenAggregator } from '../services/index';
+import { TokenAggregator, AlertEngine } from '../services/index';
 import { WebSocketServer } from '../websocket/index';
-import { logger } from '../utils/index';
+import { CLUSTER_CHANNELS, type IClusterBus } from '../cluster/index';
+import { logger, refreshDuration, refreshes } from '../utils/index';
 
 /**
  * Scheduler for periodic data updates
  * 
  * Runs cron jobs to:
  * - refresh prices every X seconds (default 10s)
- * - do full data refresh every Y seconds (default 60s)
- * - update SOL price every 30s
+ * - do a full data refresh of each chain every Y seconds (default 60s), then
+ *   evaluate alert rules against that chain's tokens
+ * - update native asset prices (SOL, ETH, ...) every 30s
+ *
+ * Jobs can be paused individually (admin API); a paused job stays paused
+ * across stop/start until it's resumed, and a node that isn't running the
+ * jobs still keeps track of which are paused. In a cluster only the leader
+ * runs the scheduler and publishes each chain's refreshed tokens to the others.
  */
 export class UpdateScheduler {
   private aggregator: TokenAggregator;
   private wsServer: WebSocketServer;
+  private alerts?: AlertEngine;
+  private cluster?: IClusterBus;
   private priceUpdateJob: cron.ScheduledTask | null = null;
-  private fullRefreshJob: cron.ScheduledTask | null = null;
-  private solPriceJob: cron.ScheduledTask | null = null;
+  private chainRefreshJobs: Map<string, cron.ScheduledTask> = new Map();
+  private nativePriceJob: cron.ScheduledTask | null = null;
+  private refreshing: Set<string> = new Set(); // chains with a refresh in flight
+  private paused: Set<string> = new Set(); // job names
   private isRunning: boolean = false;
 
-  constructor(aggregator: TokenAggregator, wsServer: WebSocketServer) {
+  constructor(
+    aggregator: TokenAggregator,
+    wsServer: WebSocketServer,
+    alerts?: AlertEngine,
+    cluster?: IClusterBus
+  ) {
     this.aggregator = aggregator;
     this.wsServer = wsServer;
+    this.alerts = alerts;
+    this.cluster = cluster;
   }
 
   start(): void {
@@ -41,21 +59,31 @@ export class UpdateScheduler {
       await this.runPriceUpdate();
     });
 
-    // full refresh - hits all APIs again
+    // full refresh - one job per chain so a slow chain doesn't hold up the rest
     const fullRefreshInterval = config.fullRefreshInterval;
     const fullRefreshExpression = `*/${fullRefreshInterval} * * * * *`;
+    const chains = this.aggregator.getChains();
 
-    this.fullRefreshJob = cron.schedule(fullRefreshExpression, async () => {
-      await this.runFullRefresh();
-    });
+    for (const chain of chains) {
+      this.chainRefreshJobs.set(chain, cron.schedule(fullRefreshExpression, async () => {
+        await this.runChainRefresh(chain);
+      }));
+    }
 
-    // sol price update - every 30s
-    this.solPriceJob = cron.schedule('*/30 * * * * *', async () => {
-      await this.updateSolPrice();
+    // native price update - every 30s
+    this.nativePriceJob = cron.schedule('*/30 * * * * *', async () => {
+      await this.updateNativePrices();
     });
 
+    for (const [name, job] of this.jobs()) {
+      if (this.paused.has(name)) job.stop();
+    }
+
     this.isRunning = true;
-    logger.info(`Scheduler started: price updates every ${priceInterval}s, full refresh every ${fullRefreshInterval}s`);
+    logger.info(
+      `Scheduler started: price updates every ${priceInterval}s, ` +
+      `full refresh of ${chains.join(', ')} every ${fullRefreshInterval}s`
+    );
   }
 
   stop(): void {
@@ -67,12 +95,12 @@ export class UpdateScheduler {
     logger.info('Stopping update scheduler...');
 
     this.priceUpdateJob?.stop();
-    this.fullRefreshJob?.stop();
-    this.solPriceJob?.stop();
+    this.nativePriceJob?.stop();
+    for (const job of this.chainRefreshJobs.values()) job.stop();
 
     this.priceUpdateJob = null;
-    this.fullRefreshJob = null;
-    this.solPriceJob = null;
+    this.nativePriceJob = null;
+    this.chainRefreshJobs.clear();
 
     this.isRunning = false;
     logger.info('Scheduler stopped');
@@ -86,8 +114,8 @@ export class UpdateScheduler {
       const tokens = this.aggregator.getAllTokensArray();
 
       if (tokens.length > 0) {
-        // just send top 50 to avoid huge payloads
-        this.wsServer.broadcastBatchUpdate(tokens.slice(0, 50));
+        // clients only get what changed since their last update, so no need to cap this
+        this.wsServer.broadcastBatchUpdate(tokens);
       }
 
       logger.debug(`Price update completed, ${tokens.length} tokens`);
@@ -97,55 +125,121 @@ export class UpdateScheduler {
     }
   }
 
-  // full data refresh from all APIs
-  private async runFullRefresh(): Promise<void> {
-    try {
-      logger.info('Running full data refresh...');
-      await this.aggregator.refreshAllData();
+  // refresh one chain and push its tokens out
+  private async runChainRefresh(chain: string): Promise<void> {
+    // previous run still going (slow upstream) - skip this tick
+    if (this.refreshing.has(chain)) {
+      logger.debug(`Skipping ${chain} refresh, previous one still running`);
+      return;
+    }
 
-      // broadcast updated data
-      const tokens = this.aggregator.getAllTokensArray();
+    this.refreshing.add(chain);
+    try {
+      const end = refreshDuration.startTimer({ chain });
+      await this.aggregator.refreshChain(chain);
+      end();
+
+      const tokens = this.aggregator.getAllTokensArray(chain);
+
+      // followers serve REST from their own memory, keep it in step. first,
+      // so they rank the relayed batch against the same tokens as we do
+      await this.cluster?.publish(CLUSTER_CHANNELS.tokens, {
+        chain,
+        tokens,
+        native_price: this.aggregator.getNativePriceInfo(chain)[0],
+      });
       this.wsServer.broadcastBatchUpdate(tokens);
 
-      logger.info(`Full refresh completed, ${tokens.length} tokens`);
+      // user alert rules run against the fresh data
+      if (this.alerts) {
+        await this.alerts.evaluate(tokens);
+      }
+
+      refreshes.inc({ chain, outcome: 'ok' });
+      logger.info(`${chain} refresh completed, ${tokens.length} tokens`);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      logger.error(`Full refresh failed: ${msg}`);
+      logger.error(`${chain} refresh failed: ${msg}`);
+      refreshes.inc({ chain, outcome: 'error' });
       this.wsServer.broadcastError({
         code: 'REFRESH_FAILED',
-        message: 'Failed to refresh token data',
+        message: `Failed to refresh ${chain} token data`,
       });
+    } finally {
+      this.refreshing.delete(chain);
     }
   }
 
-  private async updateSolPrice(): Promise<void> {
+  private async updateNativePrices(): Promise<void> {
     try {
-      await this.aggregator.updateSolPrice();
+      await this.aggregator.updateNativePrices();
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      logger.warn(`SOL price update failed: ${msg}`);
+      logger.warn(`Native price update failed: ${msg}`);
     }
   }
 
+  // every scheduled job by name: priceUpdate, fullRefresh:<chain>, nativePriceUpdate
+  private jobs(): Map<string, cron.ScheduledTask> {
+    const jobs = new Map<string, cron.ScheduledTask>();
+    if (this.priceUpdateJob) jobs.set('priceUpdate', this.priceUpdateJob);
+    for (const [chain, job] of this.chainRefreshJobs) jobs.set(`fullRefresh:${chain}`, job);
+    if (this.nativePriceJob) jobs.set('nativePriceUpdate', this.nativePriceJob);
+    return jobs;
+  }
+
+  // the jobs this scheduler runs once started - a follower knows them too,
+  // so a pause it hears about still holds if it becomes the leader
+  private jobNames(): string[] {
+    return [
+      'priceUpdate',
+      ...this.aggregator.getChains().map(chain => `fullRefresh:${chain}`),
+      'nativePriceUpdate',
+    ];
+  }
+
   // check what jobs are running (for health endpoint)
   getStatus(): {
     running: boolean;
-    jobs: { name: string; running: boolean }[];
+    jobs: { name: string; running: boolean; paused: boolean }[];
   } {
     return {
       running: this.isRunning,
-      jobs: [
-        { name: 'priceUpdate', running: this.priceUpdateJob !== null },
-        { name: 'fullRefresh', running: this.fullRefreshJob !== null },
-        { name: 'solPriceUpdate', running: this.solPriceJob !== null },
-      ],
+      jobs: this.jobNames().map(name => ({
+        name,
+        running: this.isRunning && !this.paused.has(name),
+        paused: this.paused.has(name),
+      })),
     };
   }
 
-  // manual trigger (useful for testing)
-  async triggerRefresh(): Promise<void> {
-    logger.info('Manual refresh triggered');
-    await this.runFullRefresh();
+  // false if there's no job by that name. Works whether or not the
+  // scheduler is started, start() leaves paused jobs stopped
+  pauseJob(name: string): boolean {
+    if (!this.jobNames().includes(name)) return false;
+
+    this.jobs().get(name)?.stop();
+    this.paused.add(name);
+    logger.info(`Job ${name} paused`);
+    return true;
+  }
+
+  resumeJob(name: string): boolean {
+    if (!this.jobNames().includes(name)) return false;
+
+    this.jobs().get(name)?.start();
+    this.paused.delete(name);
+    logger.info(`Job ${name} resumed`);
+    return true;
+  }
+
+  // manual trigger (admin API, tests) - one chain, or all of them. goes
+  // through the same path as the scheduled jobs, so a chain that's already
+  // refreshing is skipped and followers and metrics hear about it
+  async triggerRefresh(chain?: string): Promise<void> {
+    logger.info(`Manual refresh triggered${chain ? ` for ${chain}` : ''}`);
+    const chains = chain ? [chain] : this.aggregator.getChains();
+    await Promise.all(chains.map(c => this.runChainRefresh(c)));
   }
 }
 
@@ -0,0 +1,24 @@
+import type { ActivityWindow, Token, WindowActivity } from '../types/index';
+
+type ActivityField = 'buys' | 'sells' | 'buyers' | 'sellers' | 'buy_sell_ratio';
+
+// build one window from raw upstream counts
+export function windowActivity(
+  buys = 0,
+  sells = 0,
+  buyers: number | null = null,
+  sellers: number | null = null
+): WindowActivity {
+  return {
+    buys,
+    sells,
+    buyers,
+    sellers,
+    buy_sell_ratio: buys / Math.max(sells, 1),
+  };
+}
+
+// one activity number for a window, 0 when the source didn't report it
+export function activityValue(token: Token, field: ActivityField, window: ActivityWindow): number {
+  return token.activity?.[window]?.[field] ?? 0;
+}
@@ -1,46 +1,85 @@
-import { DexScreenerClient } from './dexScreener';
-import { JupiterClient } from './jupiter';
-import { GeckoTerminalClient } from './geckoTerminal';
+import { SourceRegistry, createSourceRegistry, type DataSource } from './sources/index';
 import { getCache, ICache } from './cache';
+import { MergePolicy, type SourceRecord } from './mergePolicy';
+import { assessSafety } from './safety';
+import { PriceOracle } from './priceOracle';
+import { CursorPaginator, queryHash, type CursorPage } from './pagination';
+import { SearchIndex } from './searchIndex';
+import { applyFilters, applySorting } from './tokenFilters';
+import {
+  getTimeSeriesStore,
+  ITimeSeriesStore,
+  buildCandles,
+  summarizeWeek,
+  type WeeklyStats,
+} from './timeSeries';
 import { logger } from '../utils/index';
-import config from '../config/index';
+import config, { CHAINS, tokenKey } from '../config/index';
 import type {
   Token,
   TokenFilter,
   TokenSort,
+  SortKey,
   PaginationOptions,
   PaginatedResponse,
+  Pair,
   PriceUpdateData,
   VolumeSpikeData,
+  Candle,
+  CandleInterval,
+  NativePrice,
+  TokenSuggestion,
+  SourceHealth,
 } from '../types/index';
 
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const WEEKLY_STATS_INTERVAL_MS = 5 * 60 * 1000; // 7d numbers barely move between refreshes
+
 /**
  * TokenAggregator - pulls data from multiple DEX APIs and merges them together
  * 
- * Basically the heart of this whole thing. Fetches from DexScreener, Jupiter, 
- * and GeckoTerminal, then smashes all the token data together into one list.
+ * Basically the heart of this whole thing. Fetches from every enabled source in
+ * the registry (DexScreener, Jupiter, GeckoTerminal by default) for every
+ * configured chain, then smashes all the token data together into one list.
+ * Everything internal is keyed by tokenKey(chain, address).
  */
 export class TokenAggregator {
-  private dexScreener: DexScreenerClient;
-  private jupiter: JupiterClient;
-  private geckoTerminal: GeckoTerminalClient;
+  private sources: SourceRegistry;
   private cache: ICache;
+  private history: ITimeSeriesStore;
+  private mergePolicy: MergePolicy;
+  private oracle: PriceOracle;
+  private paginator: CursorPaginator;
+  private searchIndex: SearchIndex = new SearchIndex();
+  private chains: string[];
   private tokensMap: Map<string, Token> = new Map();
+  private sourceRecords: Map<string, Map<string, SourceRecord>> = new Map();
+  private pairsMap: Map<string, Map<string, Pair>> = new Map(); // token key -> pair address -> pair
   private previousPrices: Map<string, number> = new Map();
   private previousVolumes: Map<string, number> = new Map();
   private lastFullRefresh: Date | null = null;
-  private solPrice: number = 200; // fallback price, updated periodically
+  private lastChainRefresh: Map<string, Date> = new Map();
+  private weeklyStats: Map<string, WeeklyStats> = new Map(); // token key -> 7d numbers from history
+  private lastWeeklyUpdate: Map<string, number> = new Map(); // chain -> unix ms
 
   // callbacks for ws events
   private onPriceUpdate?: (data: PriceUpdateData) => void;
   private onVolumeSpike?: (data: VolumeSpikeData) => void;
   private onNewToken?: (token: Token) => void;
 
-  constructor() {
-    this.dexScreener = new DexScreenerClient();
-    this.jupiter = new JupiterClient();
-    this.geckoTerminal = new GeckoTerminalClient();
+  constructor(
+    sources: SourceRegistry = createSourceRegistry(),
+    mergePolicy: MergePolicy = new MergePolicy(),
+    chains: string[] = config.chains,
+    oracle: PriceOracle = new PriceOracle(sources)
+  ) {
+    this.sources = sources;
+    this.mergePolicy = mergePolicy;
+    this.chains = chains;
+    this.oracle = oracle;
     this.cache = getCache();
+    this.history = getTimeSeriesStore();
+    this.paginator = new CursorPaginator(this.cache);
   }
 
   // set up event handlers so we can notify websocket clients
@@ -59,7 +98,7 @@ export class TokenAggregator {
     logger.info('Initializing Token Aggregator...');
 
     try {
-      await this.updateSolPrice();
+      await this.updateNativePrices();
       await this.refreshAllData();
       logger.info(`Token Aggregator initialized with ${this.tokensMap.size} tokens`);
     } catch (error) {
@@ -69,121 +108,89 @@ export class TokenAggregator {
     }
   }
 
-  // fetch current SOL price from jupiter
-  // TODO: maybe add a fallback to coingecko or something
-  async updateSolPrice(): Promise<void> {
-    try {
-      const SOL_MINT = 'So11111111111111111111111111111111111111112';
-      const prices = await this.jupiter.getTokenPrices([SOL_MINT]);
-      const solPrice = prices.get(SOL_MINT);
-
-      if (solPrice && solPrice > 0) {
-        this.solPrice = solPrice;
-        logger.debug(`Updated SOL price: $${this.solPrice}`);
-      }
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      logger.warn('Failed to update SOL price, using default:', msg);
-      // just keep using the old price, not a big deal
-    }
+  // refresh the native asset price of every chain we aggregate
+  async updateNativePrices(): Promise<void> {
+    await Promise.all(this.chains.map(chain => this.oracle.refresh(chain)));
   }
 
-  // hit all 3 APIs and merge the results
+  // refresh every configured chain - a failing chain doesn't hold up the others
   async refreshAllData(): Promise<void> {
+    await Promise.all(this.chains.map(chain => this.refreshChain(chain)));
+  }
+
+  // hit every enabled source that serves this chain and merge the results
+  async refreshChain(chain: string): Promise<void> {
     const startTime = Date.now();
-    logger.info('Starting full data refresh...');
+    logger.info(`Starting ${chain} data refresh...`);
 
     // run all fetches in parallel - if one fails, others still work
-    const results = await Promise.allSettled([
-      this.fetchFromDexScreener(),
-      this.fetchFromGeckoTerminal(),
-      this.fetchFromJupiter(),
-    ]);
+    const sources = this.sources.getEnabled(chain);
+    const results = await Promise.allSettled(
+      sources.map(source => this.fetchFromSource(source, chain))
+    );
 
     let successCount = 0;
     const errors: string[] = [];
+    const answered = new Set<string>();
 
-    for (const result of results) {
+    results.forEach((result, i) => {
       if (result.status === 'fulfilled') {
         successCount++;
+        // some clients swallow upstream errors and hand back nothing - an
+        // empty answer doesn't prove anything is gone
+        if (result.value > 0) answered.add(sources[i].name);
       } else {
         errors.push(result.reason?.message || 'Unknown error');
       }
-    }
+    });
+
+    await this.pruneStale(chain, answered);
 
     this.lastFullRefresh = new Date();
+    this.lastChainRefresh.set(chain, this.lastFullRefresh);
+    await this.recordHistory(chain);
+    await this.updateWeeklyStats(chain);
     await this.cacheTokens();
 
     const elapsed = Date.now() - startTime;
     logger.info(
-      `Full refresh completed in ${elapsed}ms. ` +
-      `${successCount}/3 sources succeeded. ` +
+      `${chain} refresh completed in ${elapsed}ms. ` +
+      `${successCount}/${sources.length} sources succeeded. ` +
       `Total tokens: ${this.tokensMap.size}`
     );
 
     if (errors.length > 0) {
-      logger.warn('Refresh errors:', errors);
+      logger.warn(`Refresh errors (${chain}):`, errors);
     }
   }
 
-  private async fetchFromDexScreener(): Promise<void> {
+  // how many records the source returned
+  private async fetchFromSource(source: DataSource, chain: string): Promise<number> {
     try {
-      const pairs = await this.dexScreener.getPairsByChain('solana', 100);
-
-      for (const pair of pairs) {
-        const token = this.dexScreener.transformToToken(pair, this.solPrice);
-        this.mergeToken(token);
+      const records = await source.fetch(chain);
+
+      // a source can list several pools for one token. every pool goes into
+      // pairsMap but only the deepest one stands in for the source, same as
+      // ingestLookup does
+      const deepest = new Map<string, Token>();
+      for (const record of records) {
+        const token = source.transform(record, this.getNativePrice(chain));
+        if (source.toPair) this.storePair(source.toPair(record));
+
+        const key = tokenKey(token.chain_id, token.token_address);
+        const best = deepest.get(key);
+        if (!best || token.liquidity_usd > best.liquidity_usd) deepest.set(key, token);
       }
 
-      logger.debug(`Fetched ${pairs.length} pairs from DexScreener`);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      logger.error('Failed to fetch from DexScreener:', msg);
-      throw error;
-    }
-  }
-
-  private async fetchFromGeckoTerminal(): Promise<void> {
-    try {
-      // get both trending and new pools
-      const [trending, newPools] = await Promise.all([
-        this.geckoTerminal.getTrendingPools('solana'),
-        this.geckoTerminal.getNewPools('solana'),
-      ]);
-
-      const allPools = [...trending, ...newPools];
-
-      for (const pool of allPools) {
-        const token = this.geckoTerminal.transformToToken(pool, this.solPrice);
+      for (const token of deepest.values()) {
         this.mergeToken(token);
       }
 
-      logger.debug(`Fetched ${allPools.length} pools from GeckoTerminal`);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      logger.error('Failed to fetch from GeckoTerminal:', msg);
-      throw error;
-    }
-  }
-
-  private async fetchFromJupiter(): Promise<void> {
-    try {
-      const tokens = await this.jupiter.getTrendingTokens(50);
-
-      // jup price api needs auth now so we skip it :/
-      const addresses = tokens.map(t => t.address);
-      const prices = await this.jupiter.getTokenPrices(addresses);
-
-      for (const token of tokens) {
-        const price = prices.get(token.address) || 0;
-        const transformedToken = this.jupiter.transformToToken(token, price, this.solPrice);
-        this.mergeToken(transformedToken);
-      }
-
-      logger.debug(`Fetched ${tokens.length} tokens from Jupiter`);
+      logger.debug(`Fetched ${records.length} ${chain} records from ${source.name}`);
+      return records.length;
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      logger.error('Failed to fetch from Jupiter:', msg);
+      logger.error(`Failed to fetch from ${source.name} (${chain}):`, msg);
       throw error;
     }
   }
@@ -192,57 +199,55 @@ export class TokenAggregator {
    * merge token data from different sources
    * 
    * the tricky part here is that the same token can come from multiple APIs
-   * with slightly different data. we try to keep the best values from each.
+   * with slightly different data. we keep the latest record per source (its
+   * deepest pool) and let MergePolicy decide field by field which one to believe.
    */
-  private mergeToken(newToken: Token): void {
-    const existingToken = this.tokensMap.get(newToken.token_address);
+  private mergeToken(newToken: Token): Token {
+    const key = tokenKey(newToken.chain_id, newToken.token_address);
+    const existingToken = this.tokensMap.get(key);
+
+    let records = this.sourceRecords.get(key);
+    if (!records) {
+      records = new Map();
+      this.sourceRecords.set(key, records);
+    }
+    for (const source of newToken.sources) {
+      records.set(source, { source, token: newToken, receivedAt: Date.now() });
+    }
+
+    const mergedToken = this.mergePolicy.merge(
+      Array.from(records.values()),
+      this.getNativePrice(newToken.chain_id)
+    );
+    Object.assign(mergedToken, this.weeklyStats.get(key));
+    mergedToken.safety = assessSafety(mergedToken);
+
+    this.searchIndex.upsert(key, mergedToken);
 
     if (!existingToken) {
       // brand new token!
-      this.tokensMap.set(newToken.token_address, newToken);
+      this.tokensMap.set(key, mergedToken);
 
       if (this.onNewToken) {
-        this.onNewToken(newToken);
+        this.onNewToken(mergedToken);
       }
-      return;
+      return mergedToken;
     }
 
     // save old values for change detection
-    const prevPrice = this.previousPrices.get(newToken.token_address) || existingToken.price_usd;
-    const prevVolume = this.previousVolumes.get(newToken.token_address) || existingToken.volume_24hr;
-
-    // merge fields - prefer non-zero values
-    const mergedToken: Token = {
-      ...existingToken,
-      price_sol: newToken.price_sol || existingToken.price_sol,
-      price_usd: newToken.price_usd || existingToken.price_usd,
-      market_cap_sol: newToken.market_cap_sol || existingToken.market_cap_sol,
-      market_cap_usd: newToken.market_cap_usd || existingToken.market_cap_usd,
-      volume_sol: newToken.volume_sol || existingToken.volume_sol,
-      volume_usd: newToken.volume_usd || existingToken.volume_usd,
-      liquidity_sol: newToken.liquidity_sol || existingToken.liquidity_sol,
-      liquidity_usd: newToken.liquidity_usd || existingToken.liquidity_usd,
-      transaction_count: Math.max(newToken.transaction_count, existingToken.transaction_count),
-      price_1hr_change: newToken.price_1hr_change || existingToken.price_1hr_change,
-      price_24hr_change: newToken.price_24hr_change || existingToken.price_24hr_change,
-      volume_1hr: newToken.volume_1hr || existingToken.volume_1hr,
-      volume_24hr: newToken.volume_24hr || existingToken.volume_24hr,
-      last_updated: new Date().toISOString(),
-      sources: [...new Set([...existingToken.sources, ...newToken.sources])],
-      image_url: newToken.image_url || existingToken.image_url,
-      website: newToken.website || existingToken.website,
-      socials: { ...existingToken.socials, ...newToken.socials },
-    };
+    const prevPrice = this.previousPrices.get(key) || existingToken.price_usd;
+    const prevVolume = this.previousVolumes.get(key) || existingToken.volume_24hr;
 
-    this.tokensMap.set(newToken.token_address, mergedToken);
+    this.tokensMap.set(key, mergedToken);
 
-    // check for significant price change (>1%) and notify
+    // check for significant price change (>1% by default) and notify
     if (prevPrice > 0 && mergedToken.price_usd > 0) {
       const priceChangePercent = ((mergedToken.price_usd - prevPrice) / prevPrice) * 100;
 
-      if (Math.abs(priceChangePercent) >= 1 && this.onPriceUpdate) {
+      if (Math.abs(priceChangePercent) >= config.priceUpdateThreshold && this.onPriceUpdate) {
         this.onPriceUpdate({
           token_address: mergedToken.token_address,
+          chain_id: mergedToken.chain_id,
           old_price: prevPrice,
           new_price: mergedToken.price_usd,
           price_change_percent: priceChangePercent,
@@ -251,13 +256,14 @@ export class TokenAggregator {
       }
     }
 
-    // check for volume spike (>50% increase)
+    // check for volume spike (>50% increase by default)
     if (prevVolume > 0 && mergedToken.volume_24hr > 0) {
       const volumeChangePercent = ((mergedToken.volume_24hr - prevVolume) / prevVolume) * 100;
 
-      if (volumeChangePercent >= 50 && this.onVolumeSpike) {
+      if (volumeChangePercent >= config.volumeSpikeThreshold && this.onVolumeSpike) {
         this.onVolumeSpike({
           token_address: mergedToken.token_address,
+          chain_id: mergedToken.chain_id,
           token_ticker: mergedToken.token_ticker,
           volume_change_percent: volumeChangePercent,
           current_volume: mergedToken.volume_24hr,
@@ -268,8 +274,10 @@ export class TokenAggregator {
     }
 
     // update previous values for next comparison
-    this.previousPrices.set(mergedToken.token_address, mergedToken.price_usd);
-    this.previousVolumes.set(mergedToken.token_address, mergedToken.volume_24hr);
+    this.previousPrices.set(key, mergedToken.price_usd);
+    this.previousVolumes.set(key, mergedToken.volume_24hr);
+
+    return mergedToken;
   }
 
   // save tokens to cache so we don't have to hit APIs every request
@@ -279,8 +287,13 @@ export class TokenAggregator {
       await this.cache.set('tokens:all', tokensArray, config.cacheTtl);
 
       // also cache individual tokens for quick lookups
-      for (const token of tokensArray) {
-        await this.cache.set(`token:${token.token_address}`, token, config.cacheTtl);
+      for (const [key, token] of this.tokensMap) {
+        await this.cache.set(`token:${key}`, token, config.cacheTtl);
+      }
+
+      for (const [key, pairs] of this.pairsMap) {
+        const sorted = Array.from(pairs.values()).sort((a, b) => b.liquidity_usd - a.liquidity_usd);
+        await this.cache.set(`pairs:${key}`, sorted, config.cacheTtl);
       }
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
@@ -288,10 +301,68 @@ export class TokenAggregator {
     }
   }
 
+  // snapshot a chain's tokens into the time-series store for candles/backtesting
+  private async recordHistory(chain: string): Promise<void> {
+    try {
+      const timestamp = Date.now();
+      const entries = this.getAllTokensArray(chain).map(token => ({
+        address: tokenKey(chain, token.token_address),
+        snapshot: {
+          timestamp,
+          price_usd: token.price_usd,
+          volume_24hr: token.volume_24hr,
+          liquidity_usd: token.liquidity_usd,
+          market_cap_usd: token.market_cap_usd,
+        },
+      }));
+      await this.history.recordMany(entries);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to record history: ${msg}`);
+    }
+  }
+
+  // 7d change/volume come from our own history - recomputed every few minutes
+  // and kept so each merge can put them back on the token
+  private async updateWeeklyStats(chain: string): Promise<void> {
+    const now = Date.now();
+    if (now - (this.lastWeeklyUpdate.get(chain) ?? 0) < WEEKLY_STATS_INTERVAL_MS) return;
+    this.lastWeeklyUpdate.set(chain, now);
+
+    try {
+      await Promise.all(this.getAllTokensArray(chain).map(async token => {
+        const key = tokenKey(chain, token.token_address);
+        const weekly = summarizeWeek(await this.history.range(key, now - WEEK_MS, now), now);
+        if (!weekly) return;
+
+        this.weeklyStats.set(key, weekly);
+        Object.assign(token, weekly);
+      }));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to compute 7d stats: ${msg}`);
+    }
+  }
+
+  // OHLCV candles for a token between from/to (unix ms)
+  // without a chain we use whichever chain we know the token from
+  async getCandles(
+    address: string,
+    interval: CandleInterval,
+    from: number,
+    to: number,
+    chain?: string
+  ): Promise<Candle[]> {
+    const chainId = chain ?? this.findToken(address)?.chain_id ?? this.chains[0];
+    const snapshots = await this.history.range(tokenKey(chainId, address), from, to);
+    return buildCandles(snapshots, interval);
+  }
+
   // main method for getting tokens with filters/sorting/pagination
+  // the first page freezes the result order, cursors page through that snapshot
   async getTokens(
     filter?: TokenFilter,
-    sort?: TokenSort,
+    sort?: TokenSort | SortKey[],
     pagination?: PaginationOptions
   ): Promise<PaginatedResponse<Token>> {
     let cacheHit = false;
@@ -307,29 +378,43 @@ export class TokenAggregator {
       tokens = Array.from(this.tokensMap.values());
     }
 
-    if (filter) {
-      tokens = this.applyFilters(tokens, filter);
-    }
+    const limit = pagination?.limit || config.defaultPageSize;
+    const query = queryHash({ filter, sort });
+    const byKey = new Map(tokens.map(t => [tokenKey(t.chain_id, t.token_address), t]));
 
-    if (sort) {
-      tokens = this.applySorting(tokens, sort);
+    let page: CursorPage;
+    if (pagination?.cursor) {
+      // later pages come from the snapshot, not a fresh filter/sort
+      page = await this.paginator.resume(pagination.cursor, query, limit);
+    } else {
+      if (filter) {
+        tokens = applyFilters(tokens, filter);
+      }
+
+      if (sort) {
+        tokens = applySorting(tokens, sort);
+      }
+
+      page = await this.paginator.start(
+        tokens.map(t => tokenKey(t.chain_id, t.token_address)),
+        query,
+        limit
+      );
     }
 
-    const limit = pagination?.limit || config.defaultPageSize;
-    const { paginatedTokens, nextCursor, prevCursor, hasMore } = this.applyPagination(
-      tokens,
-      limit,
-      pagination?.cursor
-    );
+    // tokens dropped since the snapshot was taken are skipped
+    const paginatedTokens = page.keys
+      .map(key => byKey.get(key))
+      .filter((t): t is Token => t !== undefined);
 
     return {
       data: paginatedTokens,
       pagination: {
         limit,
-        next_cursor: nextCursor,
-        prev_cursor: prevCursor,
-        total_count: tokens.length,
-        has_more: hasMore,
+        next_cursor: page.nextCursor,
+        prev_cursor: page.prevCursor,
+        total_count: page.total,
+        has_more: page.hasMore,
       },
       meta: {
         timestamp: new Date().toISOString(),
@@ -339,247 +424,232 @@ export class TokenAggregator {
     };
   }
 
-  // get single token by address
-  async getTokenByAddress(address: string): Promise<Token | null> {
-    // check cache
-    const cachedToken = await this.cache.get<Token>(`token:${address}`);
-    if (cachedToken) {
-      return cachedToken;
-    }
+  // get single token by address - without a chain, the first configured
+  // chain that has it wins
+  async getTokenByAddress(address: string, chain?: string): Promise<Token | null> {
+    const chains = chain ? [chain] : this.chains;
 
-    // check memory
-    const token = this.tokensMap.get(address);
-    if (token) {
-      return token;
-    }
+    for (const chainId of chains) {
+      const key = tokenKey(chainId, address);
 
-    // try fetching from dexscreener as last resort
-    try {
-      const pairs = await this.dexScreener.getTokenByAddress(address);
-      if (pairs.length > 0) {
-        const token = this.dexScreener.transformToToken(pairs[0], this.solPrice);
-        this.mergeToken(token);
-        await this.cache.set(`token:${address}`, token, config.cacheTtl);
+      // check cache
+      const cachedToken = await this.cache.get<Token>(`token:${key}`);
+      if (cachedToken) {
+        return cachedToken;
+      }
+
+      // check memory
+      const token = this.tokensMap.get(key);
+      if (token) {
         return token;
       }
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      logger.error(`Failed to fetch token ${address}: ${msg}`);
+    }
+
+    // ask the sources directly as last resort
+    for (const chainId of chains) {
+      for (const source of this.sources.getEnabled(chainId)) {
+        if (!source.lookup) continue;
+
+        try {
+          const token = this.ingestLookup(source, await source.lookup(address, chainId), chainId, address);
+          if (token) {
+            await this.cache.set(`token:${tokenKey(chainId, address)}`, token, config.cacheTtl);
+            return token;
+          }
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          logger.error(`Failed to fetch token ${address} on ${chainId} from ${source.name}: ${msg}`);
+        }
+      }
     }
 
     return null;
   }
 
-  // search by name or ticker
-  async searchTokens(query: string, limit: number = 20): Promise<Token[]> {
-    const lowerQuery = query.toLowerCase();
+  // every pool we know of for a token, deepest first. without a chain we
+  // look on the chains we've seen the token on (or all of them if none)
+  async getPairs(address: string, chain?: string): Promise<Pair[]> {
+    let chains = chain ? [chain] : this.chains.filter(c => this.tokensMap.has(tokenKey(c, address)));
+    if (chains.length === 0) chains = this.chains;
 
-    // search in memory first
-    const memoryResults = Array.from(this.tokensMap.values()).filter(
-      token =>
-        token.token_name.toLowerCase().includes(lowerQuery) ||
-        token.token_ticker.toLowerCase().includes(lowerQuery)
-    );
+    const perChain = await Promise.all(chains.map(chainId => this.getChainPairs(address, chainId)));
+    return perChain.flat().sort((a, b) => b.liquidity_usd - a.liquidity_usd);
+  }
 
-    if (memoryResults.length >= limit) {
-      return memoryResults.slice(0, limit);
+  private async getChainPairs(address: string, chain: string): Promise<Pair[]> {
+    const key = tokenKey(chain, address);
+    const cachedPairs = await this.cache.get<Pair[]>(`pairs:${key}`);
+    if (cachedPairs && cachedPairs.length > 0) {
+      return cachedPairs;
     }
 
-    // if we don't have enough, hit the APIs
-    try {
-      const [dexPairs, geckoData] = await Promise.allSettled([
-        this.dexScreener.searchTokens(query),
-        this.geckoTerminal.searchPools(query),
-      ]);
-
-      if (dexPairs.status === 'fulfilled') {
-        for (const pair of dexPairs.value) {
-          if (pair.chainId === 'solana') {
-            const token = this.dexScreener.transformToToken(pair, this.solPrice);
-            this.mergeToken(token);
-          }
+    // never seen a pair for it - ask every source that can look tokens up
+    if (!this.pairsMap.get(key)?.size) {
+      const lookups = this.sources.getEnabled(chain).filter(source => source.lookup);
+      const results = await Promise.allSettled(lookups.map(source => source.lookup!(address, chain)));
+
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+          this.ingestLookup(lookups[i], result.value, chain, address);
+        } else {
+          const msg = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          logger.warn(`Pair lookup failed for ${address} on ${chain} (${lookups[i].name}): ${msg}`);
         }
-      }
+      });
+    }
 
-      if (geckoData.status === 'fulfilled') {
-        for (const pool of geckoData.value) {
-          const token = this.geckoTerminal.transformToToken(pool, this.solPrice);
-          this.mergeToken(token);
-        }
-      }
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      logger.warn(`Search API error: ${msg}`);
+    const pairs = Array.from(this.pairsMap.get(key)?.values() || [])
+      .sort((a, b) => b.liquidity_usd - a.liquidity_usd);
+
+    if (pairs.length > 0) {
+      await this.cache.set(`pairs:${key}`, pairs, config.cacheTtl);
     }
+    return pairs;
+  }
 
-    // search again with updated data
-    return Array.from(this.tokensMap.values())
-      .filter(
-        token =>
-          token.token_name.toLowerCase().includes(lowerQuery) ||
-          token.token_ticker.toLowerCase().includes(lowerQuery)
-      )
-      .slice(0, limit);
-  }
-
-  // filter tokens based on criteria
-  private applyFilters(tokens: Token[], filter: TokenFilter): Token[] {
-    return tokens.filter(token => {
-      // pick the right metrics based on time period
-      const timePeriod = filter.timePeriod || '24h';
-      let volume: number;
-
-      switch (timePeriod) {
-        case '1h':
-          volume = token.volume_1hr || token.volume_usd;
-          break;
-        case '7d':
-          volume = token.volume_7d || token.volume_usd;
-          break;
-        case '24h':
-        default:
-          volume = token.volume_24hr || token.volume_usd;
-          break;
-      }
+  // a lookup can return many pools (some with our token on the quote side) -
+  // keep every pair, merge the deepest one where it's the base token
+  private ingestLookup(source: DataSource, records: unknown[], chain: string, address: string): Token | null {
+    const key = tokenKey(chain, address);
+    let best: Token | null = null;
 
-      // apply filters
-      if (filter.minVolume !== undefined && volume < filter.minVolume) {
-        return false;
-      }
-      if (filter.maxVolume !== undefined && volume > filter.maxVolume) {
-        return false;
-      }
-      if (filter.minMarketCap !== undefined && token.market_cap_usd < filter.minMarketCap) {
-        return false;
-      }
-      if (filter.maxMarketCap !== undefined && token.market_cap_usd > filter.maxMarketCap) {
-        return false;
-      }
-      if (filter.minLiquidity !== undefined && token.liquidity_usd < filter.minLiquidity) {
-        return false;
-      }
-      if (filter.protocol && token.protocol.toLowerCase() !== filter.protocol.toLowerCase()) {
-        return false;
-      }
-      if (filter.chain && token.chain_id.toLowerCase() !== filter.chain.toLowerCase()) {
-        return false;
-      }
+    for (const record of records) {
+      const token = source.transform(record, this.getNativePrice(chain));
+      if (tokenKey(token.chain_id, token.token_address) !== key) continue;
 
-      // search filter
-      if (filter.search) {
-        const searchLower = filter.search.toLowerCase();
-        const name = (token.token_name || '').toLowerCase();
-        const ticker = (token.token_ticker || '').toLowerCase();
-        const address = (token.token_address || '').toLowerCase();
-        if (
-          !name.includes(searchLower) &&
-          !ticker.includes(searchLower) &&
-          !address.includes(searchLower)
-        ) {
-          return false;
-        }
-      }
+      if (source.toPair) this.storePair(source.toPair(record));
+      if (!best || token.liquidity_usd > best.liquidity_usd) best = token;
+    }
 
-      return true;
-    });
+    return best ? this.mergeToken(best) : null;
   }
 
-  // sort tokens
-  private applySorting(tokens: Token[], sort: TokenSort): Token[] {
-    const sorted = [...tokens];
-    const multiplier = sort.direction === 'desc' ? -1 : 1;
-    const timePeriod = sort.timePeriod || '24h';
+  /**
+   * drop what sources stopped listing
+   *
+   * a record or pool is only refreshed while its source keeps returning it,
+   * so anything older than staleRecordTtl from a source that did answer this
+   * refresh is gone upstream. a token left without records goes entirely.
+   * sources that failed or came back empty keep their data - an outage
+   * shouldn't empty the list
+   */
+  private async pruneStale(chain: string, answered: Set<string>): Promise<void> {
+    const cutoff = Date.now() - config.staleRecordTtl * 1000;
+    const dropped: string[] = [];
 
-    // helpers for time-period-aware values
-    const getVolume = (token: Token): number => {
-      switch (timePeriod) {
-        case '1h': return token.volume_1hr || token.volume_usd;
-        case '7d': return token.volume_7d || token.volume_usd;
-        default: return token.volume_24hr || token.volume_usd;
-      }
-    };
+    for (const [key, records] of this.sourceRecords) {
+      if (!key.startsWith(`${chain}:`)) continue;
 
-    const getPriceChange = (token: Token): number => {
-      switch (timePeriod) {
-        case '1h': return token.price_1hr_change;
-        case '7d': return token.price_7d_change;
-        default: return token.price_24hr_change;
+      for (const [source, record] of records) {
+        if (answered.has(source) && record.receivedAt < cutoff) records.delete(source);
       }
-    };
+      if (records.size === 0) dropped.push(key);
+    }
 
-    sorted.sort((a, b) => {
-      let valueA: number;
-      let valueB: number;
-
-      switch (sort.field) {
-        case 'volume':
-          valueA = getVolume(a);
-          valueB = getVolume(b);
-          break;
-        case 'price_change':
-          valueA = getPriceChange(a);
-          valueB = getPriceChange(b);
-          break;
-        case 'market_cap':
-          valueA = a.market_cap_usd;
-          valueB = b.market_cap_usd;
-          break;
-        case 'liquidity':
-          valueA = a.liquidity_usd;
-          valueB = b.liquidity_usd;
-          break;
-        case 'transaction_count':
-          valueA = a.transaction_count;
-          valueB = b.transaction_count;
-          break;
-        case 'created_at':
-          valueA = new Date(a.created_at).getTime();
-          valueB = new Date(b.created_at).getTime();
-          break;
-        default:
-          valueA = getVolume(a);
-          valueB = getVolume(b);
+    for (const [key, pairs] of this.pairsMap) {
+      if (!key.startsWith(`${chain}:`)) continue;
+
+      for (const [address, pair] of pairs) {
+        if (answered.has(pair.source) && Date.parse(pair.last_updated) < cutoff) pairs.delete(address);
       }
+      if (pairs.size === 0) this.pairsMap.delete(key);
+    }
 
-      return (valueA - valueB) * multiplier;
-    });
+    await this.dropTokens(dropped);
+    if (dropped.length > 0) {
+      logger.info(`Dropped ${dropped.length} ${chain} tokens no source lists anymore`);
+    }
+  }
 
-    return sorted;
+  // forget everything we hold for these tokens, cached list included -
+  // getTokens and followers starting up read tokens:all before anything else
+  private async dropTokens(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    for (const key of keys) {
+      this.tokensMap.delete(key);
+      this.sourceRecords.delete(key);
+      this.pairsMap.delete(key);
+      this.previousPrices.delete(key);
+      this.previousVolumes.delete(key);
+      this.weeklyStats.delete(key);
+      this.searchIndex.remove(key);
+    }
+
+    await Promise.all(keys.flatMap(key => [this.cache.delete(`token:${key}`), this.cache.delete(`pairs:${key}`)]));
+
+    // take them out of whatever list is cached rather than writing ours,
+    // a follower's may be behind the leader's
+    const gone = new Set(keys);
+    const cached = await this.cache.get<Token[]>('tokens:all');
+    if (cached) {
+      const kept = cached.filter(t => !gone.has(tokenKey(t.chain_id, t.token_address)));
+      if (kept.length < cached.length) await this.cache.set('tokens:all', kept, config.cacheTtl);
+    }
   }
 
-  // cursor pagination - works better than offset for live data
-  private applyPagination(
-    tokens: Token[],
-    limit: number,
-    cursor?: string
-  ): {
-    paginatedTokens: Token[];
-    nextCursor: string | null;
-    prevCursor: string | null;
-    hasMore: boolean;
-  } {
-    let startIndex = 0;
+  private storePair(pair: Pair): void {
+    if (!pair.pair_address) return;
 
-    if (cursor) {
-      try {
-        startIndex = parseInt(Buffer.from(cursor, 'base64').toString('utf-8'), 10);
-      } catch {
-        startIndex = 0; // invalid cursor, just start from beginning
-      }
+    const key = tokenKey(pair.chain_id, pair.token_address);
+    let pairs = this.pairsMap.get(key);
+    if (!pairs) {
+      pairs = new Map();
+      this.pairsMap.set(key, pairs);
+    }
+    pairs.set(pair.pair_address, pair);
+  }
+
+  // search by name or ticker, optionally on one chain
+  async searchTokens(query: string, limit: number = 20, chain?: string): Promise<Token[]> {
+    // search the index first
+    const indexed = this.searchIndex.search(query, limit, chain);
+
+    if (indexed.length >= limit) {
+      return indexed.map(hit => hit.token);
     }
 
-    const endIndex = Math.min(startIndex + limit, tokens.length);
-    const paginatedTokens = tokens.slice(startIndex, endIndex);
+    // if we don't have enough, hit the APIs that support search on each chain
+    const searches = (chain ? [chain] : this.chains).flatMap(chainId =>
+      this.sources.getEnabled(chainId)
+        .filter(source => source.search)
+        .map(source => ({ source, chainId }))
+    );
+    const results = await Promise.allSettled(
+      searches.map(({ source, chainId }) => source.search!(query, chainId))
+    );
+
+    results.forEach((result, i) => {
+      const { source, chainId } = searches[i];
+
+      if (result.status === 'rejected') {
+        const msg = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        logger.warn(`Search API error (${source.name}, ${chainId}): ${msg}`);
+        return;
+      }
+
+      for (const record of result.value) {
+        this.mergeToken(source.transform(record, this.getNativePrice(chainId)));
+        if (source.toPair) this.storePair(source.toPair(record));
+      }
+    });
 
-    const hasMore = endIndex < tokens.length;
-    const nextCursor = hasMore
-      ? Buffer.from(endIndex.toString()).toString('base64')
-      : null;
-    const prevCursor = startIndex > 0
-      ? Buffer.from(Math.max(0, startIndex - limit).toString()).toString('base64')
-      : null;
+    // search again with updated data - mergeToken kept the index current
+    return this.searchIndex.search(query, limit, chain).map(hit => hit.token);
+  }
 
-    return { paginatedTokens, nextCursor, prevCursor, hasMore };
+  // autocomplete - index only, never calls upstream so it stays fast
+  suggestTokens(query: string, limit: number = 10, chain?: string): TokenSuggestion[] {
+    return this.searchIndex.search(query, limit, chain).map(({ token, score }) => ({
+      token_address: token.token_address,
+      chain_id: token.chain_id,
+      token_name: token.token_name,
+      token_ticker: token.token_ticker,
+      image_url: token.image_url,
+      price_usd: token.price_usd,
+      liquidity_usd: token.liquidity_usd,
+      score: Math.round(score * 1000) / 1000,
+    }));
   }
 
   // get list of sources we've successfully fetched from
@@ -613,13 +683,127 @@ export class TokenAggregator {
     };
   }
 
+  // registered sources with enabled flag, limiter and circuit breaker state, for health/admin
+  getSourceStatus(): {
+    name: string;
+    enabled: boolean;
+    rateLimit: { available: number; name: string };
+    health: SourceHealth | null;
+  }[] {
+    return this.sources.getAll().map(source => ({
+      name: source.name,
+      enabled: this.sources.isEnabled(source.name),
+      rateLimit: source.getRateLimitStatus(),
+      health: source.getHealth?.() ?? null,
+    }));
+  }
+
+  // switch a source off (or back on) at runtime - false if there's no such source
+  setSourceEnabled(name: string, enabled: boolean): boolean {
+    const changed = this.sources.setEnabled(name, enabled);
+    if (changed) logger.info(`Data source ${name} ${enabled ? 'enabled' : 'disabled'}`);
+    return changed;
+  }
+
+  // drop a token and everything we hold about it - it comes back on the next
+  // refresh if an upstream still lists it
+  async evictToken(address: string, chain?: string): Promise<Token | null> {
+    const token = this.findToken(address, chain);
+    if (!token) return null;
+
+    const key = tokenKey(token.chain_id, token.token_address);
+    await this.dropTokens([key]);
+    logger.info(`Evicted ${key}`);
+    return token;
+  }
+
+  // cluster followers don't refresh - they take the leader's tokens as they
+  // are, without merging or firing events (the leader already sent those).
+  // the leader sends the whole chain, so anything missing was pruned there.
+  // each token stands in as its sources' record, so a follower that becomes
+  // leader can still prune what those sources stop listing
+  applyRemoteTokens(chain: string, tokens: Token[], nativePrice?: NativePrice): void {
+    if (nativePrice) this.oracle.apply(nativePrice);
+
+    const listed = new Set(tokens.map(t => tokenKey(t.chain_id, t.token_address)));
+    const unlisted = Array.from(this.tokensMap.keys()).filter(key => key.startsWith(`${chain}:`) && !listed.has(key));
+    void this.dropTokens(unlisted);
+
+    for (const token of tokens) {
+      const key = tokenKey(token.chain_id, token.token_address);
+      this.tokensMap.set(key, token);
+      const receivedAt = Date.now();
+      this.sourceRecords.set(key, new Map(token.sources.map(source => [source, { source, token, receivedAt }])));
+      this.searchIndex.upsert(key, token);
+      this.previousPrices.set(key, token.price_usd);
+      this.previousVolumes.set(key, token.volume_24hr);
+    }
+
+    this.lastFullRefresh = new Date();
+    this.lastChainRefresh.set(chain, this.lastFullRefresh);
+  }
+
+  // follower startup - whatever the leader last cached, instead of a refresh
+  async loadCachedTokens(): Promise<number> {
+    const tokens = (await this.cache.get<Token[]>('tokens:all')) || [];
+    for (const chain of this.chains) {
+      const onChain = tokens.filter(t => t.chain_id === chain);
+      if (onChain.length > 0) this.applyRemoteTokens(chain, onChain);
+    }
+    logger.info(`Loaded ${tokens.length} cached tokens from the leader`);
+    return tokens.length;
+  }
+
+  // USD price of a chain's native asset, the chain's fallback until we've fetched one
+  getNativePrice(chain: string): number {
+    return this.oracle.getPrice(chain);
+  }
+
+  // native prices with provenance, for /api/prices/native
+  getNativePriceInfo(chain?: string): NativePrice[] {
+    return (chain ? [chain] : this.chains).map(c => this.oracle.get(c));
+  }
+
   getSolPrice(): number {
-    return this.solPrice;
+    return this.getNativePrice('solana');
+  }
+
+  // per-chain view for health/stats
+  getChainStatus(): {
+    chain: string;
+    native_symbol: string;
+    native_price: number;
+    native_price_stale: boolean;
+    tokens: number;
+    last_refresh: string | null;
+  }[] {
+    return this.chains.map(chain => ({
+      chain,
+      native_symbol: CHAINS[chain].nativeSymbol,
+      native_price: this.getNativePrice(chain),
+      native_price_stale: this.oracle.get(chain).stale,
+      tokens: this.getAllTokensArray(chain).length,
+      last_refresh: this.lastChainRefresh.get(chain)?.toISOString() || null,
+    }));
+  }
+
+  getChains(): string[] {
+    return [...this.chains];
+  }
+
+  // memory-only lookup, no cache or upstream calls
+  findToken(address: string, chain?: string): Token | undefined {
+    for (const chainId of chain ? [chain] : this.chains) {
+      const token = this.tokensMap.get(tokenKey(chainId, address));
+      if (token) return token;
+    }
+    return undefined;
   }
 
   // for ws batch updates
-  getAllTokensArray(): Token[] {
-    return Array.from(this.tokensMap.values());
+  getAllTokensArray(chain?: string): Token[] {
+    const tokens = Array.from(this.tokensMap.values());
+    return chain ? tokens.filter(t => t.chain_id === chain) : tokens;
   }
 }
 
@@ -0,0 +1,289 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { getCache, ICache } from './cache';
+import { RecordStore } from './recordStore';
+import { getTimeSeriesStore, ITimeSeriesStore } from './timeSeries';
+import { logger } from '../utils/index';
+import { isKnownChain, tokenKey } from '../config/index';
+import type { AlertCondition, AlertRule, AlertTriggeredData, Token } from '../types/index';
+
+const RULES_PREFIX = 'alerts:rule';
+const LEGACY_RULES_KEY = 'alerts:rules'; // the whole list under one key, before clustering
+
+const chainIdSchema = z.string().refine(isKnownChain, 'Unknown chain id');
+
+// Input validation for rule create/update
+export const alertConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('price_cross'),
+    token_address: z.string().min(1),
+    chain_id: chainIdSchema.optional(),
+    threshold: z.number().positive(),
+    direction: z.enum(['above', 'below']),
+  }),
+  z.object({
+    type: z.literal('price_change'),
+    token_address: z.string().min(1).optional(),
+    chain_id: chainIdSchema.optional(),
+    window: z.enum(['1h', '24h']),
+    threshold_percent: z.number().positive(),
+    direction: z.enum(['up', 'down', 'either']).default('either'),
+  }),
+  z.object({
+    type: z.literal('liquidity_drop'),
+    token_address: z.string().min(1),
+    chain_id: chainIdSchema.optional(),
+    percent: z.number().positive().max(100),
+    window_minutes: z.number().int().positive().max(24 * 60),
+  }),
+]);
+
+export const alertRuleInputSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  condition: alertConditionSchema,
+  enabled: z.boolean().default(true),
+  cooldown_seconds: z.number().int().min(0).default(300),
+});
+
+export const alertRuleUpdateSchema = alertRuleInputSchema.partial();
+
+export type AlertRuleInput = z.infer<typeof alertRuleInputSchema>;
+export type AlertRuleUpdate = z.infer<typeof alertRuleUpdateSchema>;
+
+/**
+ * AlertEngine - user-defined triggers on top of the aggregated token data
+ *
+ * Rules are persisted in the cache backend, one key each (see RecordStore),
+ * and evaluated after every full refresh. Conditions are edge-triggered: a
+ * rule fires when it becomes true, not on every refresh while it stays true,
+ * and respects its cooldown.
+ */
+export class AlertEngine {
+  private store: RecordStore<AlertRule>;
+  private history: ITimeSeriesStore;
+  private rules: Map<string, AlertRule> = new Map();
+  private lastPrices: Map<string, number> = new Map(); // token key -> price
+  private activeConditions: Set<string> = new Set(); // `${ruleId}:${tokenKey}`
+
+  private onTrigger?: (data: AlertTriggeredData) => void;
+
+  constructor(cache: ICache = getCache(), history: ITimeSeriesStore = getTimeSeriesStore()) {
+    this.store = new RecordStore(cache, RULES_PREFIX, { legacyKey: LEGACY_RULES_KEY, orderBy: 'created_at' });
+    this.history = history;
+  }
+
+  setEventHandler(onTrigger: (data: AlertTriggeredData) => void): void {
+    this.onTrigger = onTrigger;
+  }
+
+  // pull persisted rules into memory, called on startup
+  async load(): Promise<void> {
+    const stored = await this.store.loadAll();
+    this.rules = new Map(stored.map(rule => [rule.id, rule]));
+    logger.info(`Loaded ${this.rules.size} alert rules`);
+  }
+
+  list(owner: string): AlertRule[] {
+    return Array.from(this.rules.values()).filter(rule => rule.owner === owner);
+  }
+
+  get(owner: string, id: string): AlertRule | null {
+    const rule = this.rules.get(id);
+    return rule && rule.owner === owner ? rule : null;
+  }
+
+  async create(owner: string, input: AlertRuleInput): Promise<AlertRule> {
+    const now = new Date().toISOString();
+    const rule: AlertRule = {
+      id: uuidv4(),
+      owner,
+      name: input.name || describeCondition(input.condition),
+      condition: input.condition as AlertCondition,
+      enabled: input.enabled,
+      cooldown_seconds: input.cooldown_seconds,
+      created_at: now,
+      updated_at: now,
+      last_triggered_at: null,
+    };
+
+    this.rules.set(rule.id, rule);
+    await this.store.save(rule);
+    return rule;
+  }
+
+  async update(owner: string, id: string, input: AlertRuleUpdate): Promise<AlertRule | null> {
+    const existing = this.get(owner, id);
+    if (!existing) return null;
+
+    const updated: AlertRule = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(input).filter(([, v]) => v !== undefined)),
+      updated_at: new Date().toISOString(),
+    };
+
+    // condition changed - forget any edge state for the old one
+    if (input.condition) this.clearState(id);
+
+    this.rules.set(id, updated);
+    await this.store.save(updated);
+    return updated;
+  }
+
+  async delete(owner: string, id: string): Promise<boolean> {
+    if (!this.get(owner, id)) return false;
+
+    this.rules.delete(id);
+    this.clearState(id);
+    await this.store.remove(id);
+    return true;
+  }
+
+  // run every enabled rule against the latest tokens
+  async evaluate(tokens: Token[]): Promise<AlertTriggeredData[]> {
+    const triggered: AlertTriggeredData[] = [];
+
+    for (const rule of this.rules.values()) {
+      if (!rule.enabled) continue;
+
+      const targets = tokens.filter(token => this.targets(rule.condition, token));
+
+      for (const token of targets) {
+        try {
+          const value = await this.check(rule.condition, token);
+          const stateKey = `${rule.id}:${tokenKey(token.chain_id, token.token_address)}`;
+
+          if (value === null) {
+            this.activeConditions.delete(stateKey);
+            continue;
+          }
+
+          // still true since it last fired - not a new event. only a fired
+          // trigger counts, one that turned true during the cooldown fires
+          // once the cooldown is over
+          if (this.activeConditions.has(stateKey)) continue;
+          if (this.inCooldown(rule)) continue;
+          this.activeConditions.add(stateKey);
+
+          const data = this.buildTrigger(rule, token, value);
+          rule.last_triggered_at = data.triggered_at;
+          triggered.push(data);
+          this.onTrigger?.(data);
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          logger.warn(`Alert rule ${rule.id} failed on ${token.token_address}: ${msg}`);
+        }
+      }
+    }
+
+    // remember prices for the next crossing check
+    for (const token of tokens) {
+      if (token.price_usd > 0) this.lastPrices.set(tokenKey(token.chain_id, token.token_address), token.price_usd);
+    }
+
+    if (triggered.length > 0) {
+      // last_triggered_at changed - only those rules, and not ones another
+      // node deleted since we loaded them
+      const fired = new Set(triggered.map(t => t.rule_id));
+      for (const id of fired) {
+        const rule = this.rules.get(id);
+        if (rule && !(await this.store.replace(rule))) this.rules.delete(id);
+      }
+      logger.info(`${triggered.length} alerts triggered`);
+    }
+
+    return triggered;
+  }
+
+  // does the rule watch this token (address + optional chain)
+  private targets(condition: AlertCondition, token: Token): boolean {
+    if (condition.chain_id && condition.chain_id !== token.chain_id) return false;
+    if (!condition.token_address) return true;
+    return tokenKey(token.chain_id, condition.token_address) === tokenKey(token.chain_id, token.token_address);
+  }
+
+  // returns the value that tripped the condition, or null if it's not met
+  private async check(condition: AlertCondition, token: Token): Promise<number | null> {
+    const key = tokenKey(token.chain_id, token.token_address);
+
+    switch (condition.type) {
+      case 'price_cross': {
+        const prev = this.lastPrices.get(key);
+        const curr = token.price_usd;
+        if (prev === undefined || curr <= 0) return null;
+
+        const crossed = condition.direction === 'above'
+          ? prev < condition.threshold && curr >= condition.threshold
+          : prev > condition.threshold && curr <= condition.threshold;
+        return crossed ? curr : null;
+      }
+
+      case 'price_change': {
+        const change = condition.window === '1h' ? token.price_1hr_change : token.price_24hr_change;
+        const hit =
+          (condition.direction !== 'down' && change >= condition.threshold_percent) ||
+          (condition.direction !== 'up' && change <= -condition.threshold_percent);
+        return hit ? change : null;
+      }
+
+      case 'liquidity_drop': {
+        const now = Date.now();
+        const points = await this.history.range(
+          key,
+          now - condition.window_minutes * 60 * 1000,
+          now
+        );
+        const peak = Math.max(0, ...points.map(p => p.liquidity_usd));
+        if (peak <= 0) return null;
+
+        const dropPercent = ((peak - token.liquidity_usd) / peak) * 100;
+        return dropPercent >= condition.percent ? dropPercent : null;
+      }
+    }
+  }
+
+  private inCooldown(rule: AlertRule): boolean {
+    if (!rule.last_triggered_at) return false;
+    const elapsed = Date.now() - new Date(rule.last_triggered_at).getTime();
+    return elapsed < rule.cooldown_seconds * 1000;
+  }
+
+  private buildTrigger(rule: AlertRule, token: Token, value: number): AlertTriggeredData {
+    return {
+      rule_id: rule.id,
+      rule_name: rule.name,
+      owner: rule.owner,
+      token_address: token.token_address,
+      chain_id: token.chain_id,
+      token_ticker: token.token_ticker,
+      condition: rule.condition,
+      value,
+      message: `${token.token_ticker || token.token_address}: ${rule.name}`,
+      triggered_at: new Date().toISOString(),
+    };
+  }
+
+  private clearState(ruleId: string): void {
+    for (const key of this.activeConditions) {
+      if (key.startsWith(`${ruleId}:`)) this.activeConditions.delete(key);
+    }
+  }
+
+  getStats(): { rules: number; enabled: number } {
+    const all = Array.from(this.rules.values());
+    return { rules: all.length, enabled: all.filter(r => r.enabled).length };
+  }
+}
+
+// default rule name when the user doesn't give one
+function describeCondition(condition: z.infer<typeof alertConditionSchema>): string {
+  switch (condition.type) {
+    case 'price_cross':
+      return `price crosses ${condition.direction} $${condition.threshold}`;
+    case 'price_change':
+      return `${condition.window} change ${condition.direction} ${condition.threshold_percent}%`;
+    case 'liquidity_drop':
+      return `liquidity drops ${condition.percent}% in ${condition.window_minutes}m`;
+  }
+}
+
+export default AlertEngine;
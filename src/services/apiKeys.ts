@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import config from '../config/index';
+import { getCache, ICache } from './cache';
+import { RecordStore } from './recordStore';
+import { logger } from '../utils/index';
+import type { ApiKey, ApiKeyUsage } from '../types/index';
+
+const KEYS_PREFIX = 'apikeys:key';
+const LEGACY_KEYS_KEY = 'apikeys:keys'; // the whole list under one key, before clustering
+const KEY_PREFIX = 'mca_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ApiKeyErrorCode = 'INVALID_API_KEY' | 'API_KEY_DISABLED' | 'RATE_LIMIT_EXCEEDED' | 'QUOTA_EXCEEDED';
+
+export class ApiKeyError extends Error {
+  constructor(public code: ApiKeyErrorCode, message: string, public usage?: ApiKeyUsage) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+// callers without a key name themselves (X-Client-Id, auth.clientId), so
+// their ids live in a namespace no key owner can be in - otherwise anyone
+// could send a key's owner as their client id and act as them
+const ANONYMOUS_PREFIX = 'anon:';
+
+export function anonymousOwner(clientId: string): string {
+  return `${ANONYMOUS_PREFIX}${clientId}`;
+}
+
+export const apiKeyInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  owner: z.string().min(1).max(100)
+    .refine(owner => !owner.startsWith(ANONYMOUS_PREFIX), `Owner can't start with "${ANONYMOUS_PREFIX}"`)
+    .optional(), // defaults to the key id
+  rate_limit_per_minute: z.number().int().positive().optional(),
+  daily_quota: z.number().int().positive().optional(),
+  enabled: z.boolean().default(true),
+});
+
+export const apiKeyUpdateSchema = apiKeyInputSchema.omit({ owner: true }).partial();
+
+export type ApiKeyInput = z.infer<typeof apiKeyInputSchema>;
+export type ApiKeyUpdate = z.infer<typeof apiKeyUpdateSchema>;
+
+interface StoredApiKey extends ApiKey {
+  key_hash: string;
+}
+
+// keys are random, so a plain sha256 is enough - no need for a slow kdf
+export function hashApiKey(raw: string): string {
+  return crypto.createHash('sha256').update(raw).digest('hex');
+}
+
+function redact({ key_hash: _hash, ...key }: StoredApiKey): ApiKey {
+  return key;
+}
+
+/**
+ * ApiKeyService - issued API keys with per-key rate limits and daily quotas
+ *
+ * Only a hash of each key is kept; the key itself is shown once, on create.
+ * Usage is counted in fixed windows (one minute, one UTC day) with cache
+ * counters, so limits hold across instances when the cache is redis.
+ * Disabling or deleting a key tells the revoke handler so open websocket
+ * connections using it can be dropped.
+ */
+export class ApiKeyService {
+  private cache: ICache;
+  private store: RecordStore<StoredApiKey>;
+  private keys: Map<string, StoredApiKey> = new Map(); // id -> key
+  private byHash: Map<string, string> = new Map(); // hash -> id
+
+  private onRevoke?: (keyId: string) => void;
+
+  constructor(cache: ICache = getCache()) {
+    this.cache = cache;
+    this.store = new RecordStore(cache, KEYS_PREFIX, { legacyKey: LEGACY_KEYS_KEY, orderBy: 'created_at' });
+  }
+
+  setRevokeHandler(onRevoke: (keyId: string) => void): void {
+    this.onRevoke = onRevoke;
+  }
+
+  async load(): Promise<void> {
+    const stored = await this.store.loadAll();
+    this.keys = new Map(stored.map(k => [k.id, k]));
+    this.byHash = new Map(stored.map(k => [k.key_hash, k.id]));
+    logger.info(`Loaded ${this.keys.size} API keys`);
+  }
+
+  list(): ApiKey[] {
+    return Array.from(this.keys.values()).map(redact);
+  }
+
+  get(id: string): ApiKey | null {
+    const key = this.keys.get(id);
+    return key ? redact(key) : null;
+  }
+
+  // returns the raw key alongside the record - the only time it's shown
+  async create(input: ApiKeyInput): Promise<{ apiKey: ApiKey; key: string }> {
+    const raw = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const stored: StoredApiKey = {
+      id,
+      name: input.name,
+      prefix: raw.slice(0, KEY_PREFIX.length + 6),
+      owner: input.owner ?? id,
+      rate_limit_per_minute: input.rate_limit_per_minute ?? config.apiKeyRateLimit,
+      daily_quota: input.daily_quota ?? config.apiKeyDailyQuota,
+      enabled: input.enabled,
+      created_at: now,
+      updated_at: now,
+      key_hash: hashApiKey(raw),
+    };
+
+    this.keys.set(id, stored);
+    this.byHash.set(stored.key_hash, id);
+    await this.store.save(stored);
+    return { apiKey: redact(stored), key: raw };
+  }
+
+  async update(id: string, input: ApiKeyUpdate): Promise<ApiKey | null> {
+    const existing = this.keys.get(id);
+    if (!existing) return null;
+
+    const updated: StoredApiKey = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(input).filter(([, v]) => v !== undefined)),
+      updated_at: new Date().toISOString(),
+    };
+
+    this.keys.set(id, updated);
+    await this.store.save(updated);
+
+    if (existing.enabled && !updated.enabled) this.onRevoke?.(id);
+    return redact(updated);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = this.keys.get(id);
+    if (!existing) return false;
+
+    this.keys.delete(id);
+    this.byHash.delete(existing.key_hash);
+    await this.store.remove(id);
+
+    this.onRevoke?.(id);
+    return true;
+  }
+
+  // look a raw key up without counting usage
+  authenticate(raw: string): ApiKey | null {
+    const id = this.byHash.get(hashApiKey(raw));
+    const key = id ? this.keys.get(id) : undefined;
+    return key ? redact(key) : null;
+  }
+
+  // authenticate and count one request against the key's limits
+  async authorize(raw: string): Promise<{ apiKey: ApiKey; usage: ApiKeyUsage }> {
+    const apiKey = this.authenticate(raw);
+    if (!apiKey) {
+      throw new ApiKeyError('INVALID_API_KEY', 'API key is not valid');
+    }
+    if (!apiKey.enabled) {
+      throw new ApiKeyError('API_KEY_DISABLED', 'API key has been disabled');
+    }
+
+    const now = Date.now();
+    const minute = Math.floor(now / 60000);
+    const day = Math.floor(now / DAY_MS);
+
+    // rate limit first - requests it rejects don't eat into the daily quota
+    const used = await this.cache.incr(`apikeys:rate:${apiKey.id}:${minute}`, 60);
+    const usage: ApiKeyUsage = {
+      rate_limit: apiKey.rate_limit_per_minute,
+      rate_remaining: Math.max(0, apiKey.rate_limit_per_minute - used),
+      rate_reset: (minute + 1) * 60,
+      daily_quota: apiKey.daily_quota,
+      quota_remaining: apiKey.daily_quota,
+      quota_reset: ((day + 1) * DAY_MS) / 1000,
+    };
+
+    if (used > apiKey.rate_limit_per_minute) {
+      usage.quota_remaining = Math.max(0, apiKey.daily_quota - await this.dailyCount(apiKey.id, day));
+      throw new ApiKeyError('RATE_LIMIT_EXCEEDED', `Rate limit of ${apiKey.rate_limit_per_minute}/min exceeded`, usage);
+    }
+
+    const usedToday = await this.cache.incr(`apikeys:quota:${apiKey.id}:${day}`, DAY_MS / 1000);
+    usage.quota_remaining = Math.max(0, apiKey.daily_quota - usedToday);
+
+    if (usedToday > apiKey.daily_quota) {
+      throw new ApiKeyError('QUOTA_EXCEEDED', `Daily quota of ${apiKey.daily_quota} requests exceeded`, usage);
+    }
+
+    return { apiKey, usage };
+  }
+
+  // current counters for the admin view
+  async getUsage(id: string): Promise<{ requests_this_minute: number; requests_today: number } | null> {
+    if (!this.keys.has(id)) return null;
+
+    const now = Date.now();
+    const [minute, today] = await Promise.all([
+      this.cache.get<number>(`apikeys:rate:${id}:${Math.floor(now / 60000)}`),
+      this.dailyCount(id, Math.floor(now / DAY_MS)),
+    ]);
+    return { requests_this_minute: minute || 0, requests_today: today };
+  }
+
+  getStats(): { keys: number; enabled: number } {
+    const all = Array.from(this.keys.values());
+    return { keys: all.length, enabled: all.filter(k => k.enabled).length };
+  }
+
+  private async dailyCount(id: string, day: number): Promise<number> {
+    return (await this.cache.get<number>(`apikeys:quota:${id}:${day}`)) || 0;
+  }
+}
+
+export default ApiKeyService;
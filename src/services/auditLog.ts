@@ -0,0 +1,52 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getCache, ICache } from './cache';
+import { RecordStore } from './recordStore';
+import { logger } from '../utils/index';
+import type { AuditEntry } from '../types/index';
+
+const AUDIT_PREFIX = 'admin:audit';
+const LEGACY_AUDIT_KEY = 'admin:audit'; // the whole log under one key, before clustering
+const MAX_ENTRIES = 1000;
+
+/**
+ * AuditLog - who did what through the admin API
+ *
+ * Append-only, newest entries kept up to MAX_ENTRIES, persisted in the cache
+ * backend one key per entry (see RecordStore) so it survives restarts and
+ * every node can append. Every entry is also logged at info level.
+ */
+export class AuditLog {
+  private store: RecordStore<AuditEntry>;
+  private entries: AuditEntry[] = [];
+
+  constructor(cache: ICache = getCache()) {
+    this.store = new RecordStore(cache, AUDIT_PREFIX, { legacyKey: LEGACY_AUDIT_KEY, orderBy: 'timestamp' });
+  }
+
+  async load(): Promise<void> {
+    this.entries = (await this.store.loadAll()).slice(-MAX_ENTRIES);
+    logger.info(`Loaded ${this.entries.length} audit log entries`);
+  }
+
+  async record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry> {
+    const full: AuditEntry = { id: uuidv4(), ...entry, timestamp: new Date().toISOString() };
+
+    this.entries.push(full);
+    const expired = this.entries.splice(0, Math.max(0, this.entries.length - MAX_ENTRIES));
+
+    logger.info(`[audit] ${full.actor} ${full.action}${full.target ? ` ${full.target}` : ''}`);
+    await this.store.save(full);
+    await Promise.all(expired.map(entry => this.store.remove(entry.id)));
+    return full;
+  }
+
+  // newest first, optionally only one action (or action prefix like 'key.')
+  list(limit = 100, action?: string): AuditEntry[] {
+    const matching = action
+      ? this.entries.filter(e => e.action === action || (action.endsWith('.') && e.action.startsWith(action)))
+      : this.entries;
+    return matching.slice(-limit).reverse();
+  }
+}
+
+export default AuditLog;
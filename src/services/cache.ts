@@ -9,6 +9,7 @@ export interface ICache {
   delete(key: string): Promise<void>;
   exists(key: string): Promise<boolean>;
   keys(pattern: string): Promise<string[]>;
+  incr(key: string, ttl: number): Promise<number>; // counter, ttl only set when the key is created
   flush(): Promise<void>;
   getStats(): { hits: number; misses: number; hitRate: number; size: number };
   isConnected(): boolean;
@@ -58,6 +59,18 @@ export class MemoryCache implements ICache {
     return true;
   }
 
+  async incr(key: string, ttl: number): Promise<number> {
+    const entry = this.data.get(this.key(key));
+    const live = entry && Date.now() <= entry.expiry ? entry : undefined;
+    const value = (live ? Number(JSON.parse(live.value)) || 0 : 0) + 1;
+
+    this.data.set(this.key(key), {
+      value: JSON.stringify(value),
+      expiry: live ? live.expiry : Date.now() + ttl * 1000,
+    });
+    return value;
+  }
+
   async keys(pattern: string): Promise<string[]> {
     const regex = new RegExp(pattern.replace('*', '.*'));
     return [...this.data.keys()].filter(k => regex.test(k) && this.data.get(k)!.expiry > Date.now());
@@ -169,6 +182,17 @@ export class RedisCache implements ICache {
     catch { return false; }
   }
 
+  async incr(key: string, ttl: number): Promise<number> {
+    try {
+      const value = await this.client.incr(this.key(key));
+      if (value === 1) await this.client.expire(this.key(key), ttl);
+      return value;
+    } catch (e) {
+      logger.error(`Cache incr error [${key}]:`, e);
+      return 0; // fail open - a redis blip shouldn't lock everyone out
+    }
+  }
+
   async keys(pattern: string): Promise<string[]> {
     try { return await this.client.keys(config.cachePrefix + pattern); }
     catch { return []; }
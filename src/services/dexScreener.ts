@@ -1,12 +1,22 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import config from '../config/index';
-import { RateLimiter, withRetry, logger } from '../utils/index';
-import type { DexScreenerResponse, DexScreenerPair, Token } from '../types/index';
+import {
+  RateLimiter,
+  CircuitBreaker,
+  CircuitOpenError,
+  withRetry,
+  isRetryableUpstreamError,
+  trackUpstream,
+  logger,
+} from '../utils/index';
+import { windowActivity } from './activity';
+import type { DexScreenerResponse, DexScreenerPair, Token, Pair, TokenActivity, SourceHealth } from '../types/index';
 
 // DexScreener API client with rate limiting
 export class DexScreenerClient {
   private client: AxiosInstance;
   private limiter: RateLimiter;
+  private breaker: CircuitBreaker;
   private readonly SOURCE = 'dexscreener';
 
   constructor() {
@@ -21,15 +31,21 @@ export class DexScreenerClient {
       windowMs: 60000,
       name: 'dexscreener'
     });
+
+    this.breaker = new CircuitBreaker(this.SOURCE, {
+      failureThreshold: config.circuitBreakerThreshold,
+      cooldownMs: config.circuitBreakerCooldown * 1000,
+    });
   }
 
   // Generic fetch with rate limiting & retries
   private async fetch<T>(url: string, params?: object): Promise<T> {
+    this.breaker.check(); // fail fast while the upstream is cooling off
     await this.limiter.waitForToken();
     try {
       const res = await withRetry(
-        () => this.client.get<T>(url, { params }),
-        { maxRetries: 3, onRetry: () => this.limiter.reportFailure() }
+        () => this.breaker.exec(() => trackUpstream(this.SOURCE, () => this.client.get<T>(url, { params }))),
+        { maxRetries: 3, onRetry: () => this.limiter.reportFailure(), shouldRetry: isRetryableUpstreamError }
       );
       this.limiter.reportSuccess();
       return res.data;
@@ -49,10 +65,10 @@ export class DexScreenerClient {
     return data.pairs || [];
   }
 
-  async getTrendingTokens(): Promise<DexScreenerPair[]> {
-    const data = await this.fetch<DexScreenerResponse>('/latest/dex/search', { q: 'solana' });
+  async getTrendingTokens(chain = 'solana'): Promise<DexScreenerPair[]> {
+    const data = await this.fetch<DexScreenerResponse>('/latest/dex/search', { q: chain });
     return (data.pairs || [])
-      .filter(p => p.chainId === 'solana')
+      .filter(p => p.chainId === chain)
       .sort((a, b) => (b.volume?.h24 || 0) - (a.volume?.h24 || 0));
   }
 
@@ -61,6 +77,7 @@ export class DexScreenerClient {
     const queries = ['pump', 'meme', 'pepe', 'doge', 'cat', 'ai'];
     const results: DexScreenerPair[] = [];
     const seen = new Set<string>();
+    let failed = 0;
 
     for (const q of queries) {
       try {
@@ -74,6 +91,9 @@ export class DexScreenerClient {
         if (results.length >= limit) break;
         await new Promise(r => setTimeout(r, 200)); // don't hammer the API
       } catch (e) {
+        // an open circuit fails every query that follows, and an outage
+        // mustn't look like an empty answer to the caller
+        if (e instanceof CircuitOpenError || ++failed === queries.length) throw e;
         logger.warn(`Search "${q}" failed: ${e}`);
       }
     }
@@ -81,7 +101,8 @@ export class DexScreenerClient {
   }
 
   // Convert DexScreener pair to our unified Token format
-  transformToToken(pair: DexScreenerPair, solPrice = 200): Token {
+  // (*_sol fields are in the pair's chain native asset, nativePrice is its USD price)
+  transformToToken(pair: DexScreenerPair, nativePrice = 200): Token {
     const priceUsd = parseFloat(pair.priceUsd || '0');
     const vol24h = pair.volume?.h24 || 0;
     const liqUsd = pair.liquidity?.usd || 0;
@@ -92,19 +113,24 @@ export class DexScreenerClient {
       token_address: pair.baseToken.address,
       token_name: pair.baseToken.name,
       token_ticker: pair.baseToken.symbol,
-      price_sol: priceUsd / solPrice,
+      price_sol: priceUsd / nativePrice,
       price_usd: priceUsd,
-      market_cap_sol: mcap / solPrice,
+      market_cap_sol: mcap / nativePrice,
       market_cap_usd: mcap,
-      volume_sol: vol24h / solPrice,
+      volume_sol: vol24h / nativePrice,
       volume_usd: vol24h,
-      liquidity_sol: liqUsd / solPrice,
+      liquidity_sol: liqUsd / nativePrice,
       liquidity_usd: liqUsd,
       transaction_count: (txns?.buys || 0) + (txns?.sells || 0),
+      activity: this.extractActivity(pair),
+      price_5m_change: pair.priceChange?.m5 || 0,
       price_1hr_change: pair.priceChange?.h1 || 0,
+      price_6hr_change: pair.priceChange?.h6 || 0,
       price_24hr_change: pair.priceChange?.h24 || 0,
-      price_7d_change: 0,
+      price_7d_change: 0, // filled in from history by the aggregator
+      volume_5m: pair.volume?.m5 || 0,
       volume_1hr: pair.volume?.h1 || 0,
+      volume_6hr: pair.volume?.h6 || 0,
       volume_24hr: vol24h,
       volume_7d: 0,
       protocol: pair.dexId,
@@ -120,6 +146,41 @@ export class DexScreenerClient {
     };
   }
 
+  // Per-pool view - keeps the quote side and pool-level numbers
+  transformToPair(pair: DexScreenerPair): Pair {
+    const txns = pair.txns?.h24;
+    return {
+      pair_address: pair.pairAddress,
+      token_address: pair.baseToken.address,
+      chain_id: pair.chainId,
+      dex_id: pair.dexId,
+      quote_token: { address: pair.quoteToken.address, symbol: pair.quoteToken.symbol },
+      price_usd: parseFloat(pair.priceUsd || '0'),
+      price_native: parseFloat(pair.priceNative || '0'),
+      liquidity_usd: pair.liquidity?.usd || 0,
+      volume_1hr: pair.volume?.h1 || 0,
+      volume_24hr: pair.volume?.h24 || 0,
+      price_1hr_change: pair.priceChange?.h1 || 0,
+      price_24hr_change: pair.priceChange?.h24 || 0,
+      transaction_count: (txns?.buys || 0) + (txns?.sells || 0),
+      created_at: pair.pairCreatedAt ? new Date(pair.pairCreatedAt).toISOString() : new Date().toISOString(),
+      last_updated: new Date().toISOString(),
+      source: this.SOURCE,
+      url: pair.url
+    };
+  }
+
+  // no unique trader counts from dexscreener
+  private extractActivity(pair: DexScreenerPair): TokenActivity {
+    const t = pair.txns;
+    return {
+      '5m': windowActivity(t?.m5?.buys, t?.m5?.sells),
+      '1h': windowActivity(t?.h1?.buys, t?.h1?.sells),
+      '6h': windowActivity(t?.h6?.buys, t?.h6?.sells),
+      '24h': windowActivity(t?.h24?.buys, t?.h24?.sells),
+    };
+  }
+
   private extractSocials(pair: DexScreenerPair) {
     const s: Token['socials'] = {};
     for (const x of pair.info?.socials || []) {
@@ -133,6 +194,10 @@ export class DexScreenerClient {
   getRateLimitStatus() {
     return { available: this.limiter.getAvailableTokens(), name: this.SOURCE };
   }
+
+  getHealth(): SourceHealth {
+    return this.breaker.getHealth();
+  }
 }
 
 export default DexScreenerClient;
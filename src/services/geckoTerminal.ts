@@ -1,12 +1,21 @@
 import axios, { AxiosInstance } from 'axios';
-import config from '../config/index';
-import { RateLimiter, withRetry, logger } from '../utils/index';
-import type { GeckoTerminalPool, GeckoTerminalResponse, Token } from '../types/index';
+import config, { chainFromGeckoNetwork } from '../config/index';
+import {
+  RateLimiter,
+  CircuitBreaker,
+  withRetry,
+  isRetryableUpstreamError,
+  trackUpstream,
+  logger,
+} from '../utils/index';
+import { windowActivity } from './activity';
+import type { GeckoTerminalPool, GeckoTerminalResponse, Token, Pair, TokenActivity, SourceHealth } from '../types/index';
 
 // GeckoTerminal API client - great for trending pools
 export class GeckoTerminalClient {
   private client: AxiosInstance;
   private limiter: RateLimiter;
+  private breaker: CircuitBreaker;
   private readonly SOURCE = 'geckoterminal';
 
   constructor() {
@@ -21,13 +30,22 @@ export class GeckoTerminalClient {
       windowMs: 60000,
       name: 'geckoterminal'
     });
+
+    this.breaker = new CircuitBreaker(this.SOURCE, {
+      failureThreshold: config.circuitBreakerThreshold,
+      cooldownMs: config.circuitBreakerCooldown * 1000,
+    });
   }
 
   // Generic fetch with rate limiting
   private async fetch<T>(url: string, params?: object): Promise<T> {
+    this.breaker.check(); // fail fast while the upstream is cooling off
     await this.limiter.waitForToken();
     try {
-      const res = await withRetry(() => this.client.get<T>(url, { params }), { maxRetries: 3 });
+      const res = await withRetry(
+        () => this.breaker.exec(() => trackUpstream(this.SOURCE, () => this.client.get<T>(url, { params }))),
+        { maxRetries: 3, shouldRetry: isRetryableUpstreamError }
+      );
       this.limiter.reportSuccess();
       return res.data;
     } catch (e) {
@@ -59,6 +77,12 @@ export class GeckoTerminalClient {
     return data.data || [];
   }
 
+  // every pool a token trades in
+  async getTokenPools(network: string, tokenAddress: string): Promise<GeckoTerminalPool[]> {
+    const data = await this.fetch<GeckoTerminalResponse>(`/networks/${network}/tokens/${tokenAddress}/pools`);
+    return data.data || [];
+  }
+
   async getPoolByAddress(network: string, address: string): Promise<GeckoTerminalPool | null> {
     try {
       const data = await this.fetch<{ data: GeckoTerminalPool }>(`/networks/${network}/pools/${address}`);
@@ -69,16 +93,14 @@ export class GeckoTerminalClient {
   }
 
   // Convert GeckoTerminal pool to our unified format
-  transformToToken(pool: GeckoTerminalPool, solPrice = 200): Token {
+  transformToToken(pool: GeckoTerminalPool, nativePrice = 200): Token {
     const a = pool.attributes;
     const priceUsd = parseFloat(a.base_token_price_usd) || 0;
     const mcap = a.market_cap_usd ? parseFloat(a.market_cap_usd) : parseFloat(a.fdv_usd) || 0;
     const liq = parseFloat(a.reserve_in_usd) || 0;
     const vol24h = parseFloat(a.volume_usd?.h24) || 0;
     
-    // Extract token address from relationship ID (format: "network_address")
-    const baseId = pool.relationships.base_token.data.id;
-    const tokenAddr = baseId.includes('_') ? baseId.split('_')[1] : baseId;
+    const tokenAddr = this.addressFromId(pool.relationships.base_token.data.id);
     const [tokenName] = a.name.split('/');
     const txns = a.transactions?.h24;
 
@@ -86,24 +108,29 @@ export class GeckoTerminalClient {
       token_address: tokenAddr,
       token_name: tokenName.trim(),
       token_ticker: tokenName.trim(),
-      price_sol: priceUsd / solPrice,
+      price_sol: priceUsd / nativePrice,
       price_usd: priceUsd,
-      market_cap_sol: mcap / solPrice,
+      market_cap_sol: mcap / nativePrice,
       market_cap_usd: mcap,
-      volume_sol: vol24h / solPrice,
+      volume_sol: vol24h / nativePrice,
       volume_usd: vol24h,
-      liquidity_sol: liq / solPrice,
+      liquidity_sol: liq / nativePrice,
       liquidity_usd: liq,
       transaction_count: (txns?.buys || 0) + (txns?.sells || 0),
+      activity: this.extractActivity(pool),
+      price_5m_change: parseFloat(a.price_change_percentage?.m5) || 0,
       price_1hr_change: parseFloat(a.price_change_percentage?.h1) || 0,
+      price_6hr_change: parseFloat(a.price_change_percentage?.h6) || 0,
       price_24hr_change: parseFloat(a.price_change_percentage?.h24) || 0,
-      price_7d_change: 0,
+      price_7d_change: 0, // filled in from history by the aggregator
+      volume_5m: parseFloat(a.volume_usd?.m5) || 0,
       volume_1hr: parseFloat(a.volume_usd?.h1) || 0,
+      volume_6hr: parseFloat(a.volume_usd?.h6) || 0,
       volume_24hr: vol24h,
       volume_7d: 0,
       protocol: pool.relationships.dex?.data?.id || 'unknown',
       dex_id: pool.relationships.dex?.data?.id || 'unknown',
-      chain_id: 'solana',
+      chain_id: this.chainFromId(pool.relationships.base_token.data.id),
       pair_address: a.address,
       created_at: a.pool_created_at || new Date().toISOString(),
       last_updated: new Date().toISOString(),
@@ -111,9 +138,66 @@ export class GeckoTerminalClient {
     };
   }
 
+  // Per-pool view of a GeckoTerminal pool
+  transformToPair(pool: GeckoTerminalPool): Pair {
+    const a = pool.attributes;
+    const txns = a.transactions?.h24;
+    const quoteSymbol = a.name.split('/')[1]?.trim() || '';
+
+    return {
+      pair_address: a.address,
+      token_address: this.addressFromId(pool.relationships.base_token.data.id),
+      chain_id: this.chainFromId(pool.relationships.base_token.data.id),
+      dex_id: pool.relationships.dex?.data?.id || 'unknown',
+      quote_token: {
+        address: this.addressFromId(pool.relationships.quote_token.data.id),
+        symbol: quoteSymbol,
+      },
+      price_usd: parseFloat(a.base_token_price_usd) || 0,
+      price_native: parseFloat(a.base_token_price_native_currency) || 0,
+      liquidity_usd: parseFloat(a.reserve_in_usd) || 0,
+      volume_1hr: parseFloat(a.volume_usd?.h1) || 0,
+      volume_24hr: parseFloat(a.volume_usd?.h24) || 0,
+      price_1hr_change: parseFloat(a.price_change_percentage?.h1) || 0,
+      price_24hr_change: parseFloat(a.price_change_percentage?.h24) || 0,
+      transaction_count: (txns?.buys || 0) + (txns?.sells || 0),
+      created_at: a.pool_created_at || new Date().toISOString(),
+      last_updated: new Date().toISOString(),
+      source: this.SOURCE
+    };
+  }
+
+  // relationship IDs look like "network_address" (network ids can contain
+  // underscores too, e.g. polygon_pos, addresses never do)
+  private addressFromId(id: string): string {
+    return id.slice(id.lastIndexOf('_') + 1);
+  }
+
+  private chainFromId(id: string): string {
+    const sep = id.lastIndexOf('_');
+    return sep === -1 ? 'solana' : chainFromGeckoNetwork(id.slice(0, sep));
+  }
+
+  // gecko has unique buyers/sellers but no 6h window
+  private extractActivity(pool: GeckoTerminalPool): TokenActivity {
+    const t = pool.attributes.transactions;
+    const window = (w?: { buys: number; sells: number; buyers: number; sellers: number }) =>
+      windowActivity(w?.buys, w?.sells, w?.buyers ?? null, w?.sellers ?? null);
+
+    return {
+      '5m': window(t?.m5),
+      '1h': window(t?.h1),
+      '24h': window(t?.h24),
+    };
+  }
+
   getRateLimitStatus() {
     return { available: this.limiter.getAvailableTokens(), name: this.SOURCE };
   }
+
+  getHealth(): SourceHealth {
+    return this.breaker.getHealth();
+  }
 }
 
 export default GeckoTerminalClient;
@@ -2,4 +2,80 @@ export { DexScreenerClient } from './dexScreener';
 export { JupiterClient } from './jupiter';
 export { GeckoTerminalClient } from './geckoTerminal';
 export { getCache, createCache, MemoryCache, RedisCache, type ICache } from './cache';
+export {
+  getTimeSeriesStore,
+  createTimeSeriesStore,
+  MemoryTimeSeriesStore,
+  RedisTimeSeriesStore,
+  buildCandles,
+  summarizeWeek,
+  CANDLE_INTERVALS,
+  type ITimeSeriesStore,
+  type WeeklyStats,
+} from './timeSeries';
 export { TokenAggregator } from './aggregator';
+export { PriceOracle, type PriceOracleOptions } from './priceOracle';
+export {
+  AlertEngine,
+  alertRuleInputSchema,
+  alertConditionSchema,
+  alertRuleUpdateSchema,
+  type AlertRuleInput,
+  type AlertRuleUpdate,
+} from './alerts';
+export {
+  WebhookService,
+  WebhookUrlError,
+  webhookInputSchema,
+  signWebhookPayload,
+  WEBHOOK_EVENTS,
+  type WebhookInput,
+} from './webhooks';
+export { assessSafety } from './safety';
+export { SearchIndex, type SearchHit } from './searchIndex';
+export { CursorPaginator, CursorError, queryHash, type CursorPage } from './pagination';
+export {
+  parseFilterExpression,
+  evaluateExpression,
+  sortByKeys,
+  projectToken,
+  tokenQuerySchema,
+  QueryParseError,
+  PROJECTABLE_FIELDS,
+  type TokenQuery,
+} from './tokenQuery';
+export { windowActivity, activityValue } from './activity';
+export {
+  matchesFilter,
+  applyFilters,
+  applySorting,
+  tokenFilterSchema,
+  tokenSortSchema,
+  SORT_FIELDS,
+  volumeFor,
+  priceChangeFor,
+  TIME_PERIODS,
+} from './tokenFilters';
+export {
+  WatchlistService,
+  watchlistInputSchema,
+  watchlistUpdateSchema,
+  portfolioInputSchema,
+  portfolioUpdateSchema,
+  type WatchlistInput,
+  type WatchlistUpdate,
+  type PortfolioInput,
+  type PortfolioUpdate,
+} from './watchlists';
+export {
+  ApiKeyService,
+  ApiKeyError,
+  anonymousOwner,
+  apiKeyInputSchema,
+  apiKeyUpdateSchema,
+  hashApiKey,
+  type ApiKeyErrorCode,
+  type ApiKeyInput,
+  type ApiKeyUpdate,
+} from './apiKeys';
+export { AuditLog } from './auditLog';
@@ -1,26 +1,63 @@
 import axios, { AxiosInstance } from 'axios';
 import config from '../config/index';
-import { RateLimiter, withRetry, logger } from '../utils/index';
-import type { JupiterToken, Token } from '../types/index';
+import { getCache, ICache } from './cache';
+import {
+  RateLimiter,
+  CircuitBreaker,
+  withRetry,
+  isRetryableUpstreamError,
+  trackUpstream,
+  logger,
+} from '../utils/index';
+import type { JupiterToken, JupiterPriceResponse, Token, SourceHealth } from '../types/index';
 
-// Jupiter API client - mainly for token discovery
-// Note: Price API v2 now requires auth, so we skip it
+const PRICE_IDS_PER_REQUEST = 50; // price api v3 limit
+
+// Jupiter API client - token discovery, plus prices when JUPITER_API_KEY is set
+// (the price API needs auth, without a key getTokenPrices is a no-op)
 export class JupiterClient {
   private client: AxiosInstance;
+  private priceClient: AxiosInstance | null = null;
+  private cache: ICache;
   private limiter: RateLimiter;
+  private breaker: CircuitBreaker;
+  private priceBreaker: CircuitBreaker; // separate host, fails independently
   private readonly SOURCE = 'jupiter';
 
-  constructor() {
+  constructor(cache: ICache = getCache()) {
     const headers = { 'Accept': 'application/json', 'User-Agent': 'MemeCoinAggregator/1.0' };
     this.client = axios.create({ baseURL: config.jupiterBaseUrl, timeout: 10000, headers });
     this.limiter = RateLimiter.create({ maxRequests: config.jupiterRateLimit, windowMs: 60000, name: 'jupiter' });
+    this.cache = cache;
+
+    const breakerOpts = {
+      failureThreshold: config.circuitBreakerThreshold,
+      cooldownMs: config.circuitBreakerCooldown * 1000,
+    };
+    this.breaker = new CircuitBreaker(this.SOURCE, breakerOpts);
+    this.priceBreaker = new CircuitBreaker('jupiter_price', breakerOpts);
+
+    if (config.jupiterApiKey) {
+      this.priceClient = axios.create({
+        baseURL: config.jupiterPriceBaseUrl,
+        timeout: 10000,
+        headers: { ...headers, 'x-api-key': config.jupiterApiKey },
+      });
+    }
   }
 
   // Generic fetch with rate limiting
-  private async fetch<T>(url: string, params?: object): Promise<T> {
+  private async fetch<T>(url: string, params?: object, client = this.client): Promise<T> {
+    const breaker = client === this.client ? this.breaker : this.priceBreaker;
+    const source = client === this.client ? this.SOURCE : 'jupiter_price';
+
+    breaker.check(); // fail fast while the upstream is cooling off
     await this.limiter.waitForToken();
     try {
-      const res = await withRetry(() => this.client.get<T>(url, { params }), { maxRetries: 3 });
+      const res = await withRetry(
+        () => breaker.exec(() => trackUpstream(source, () => client.get<T>(url, { params }))),
+        { maxRetries: 3, shouldRetry: isRetryableUpstreamError }
+      );
       this.limiter.reportSuccess();
       return res.data;
     } catch (e) {
@@ -49,9 +86,53 @@ export class JupiterClient {
     }
   }
 
-  // Price API now requires auth - skip it, return empty map
-  async getTokenPrices(_addresses: string[]): Promise<Map<string, number>> {
-    return new Map();
+  // token API health. the price API's breaker shows up on /metrics as
+  // upstream_circuit_state{source="jupiter_price"}
+  getHealth(): SourceHealth {
+    return this.breaker.getHealth();
+  }
+
+  // USD prices by mint. Cached for JUPITER_PRICE_CACHE_TTL, looked up in
+  // chunks of 50 ids. Mints without a price are just missing from the map.
+  async getTokenPrices(addresses: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (!this.priceClient || addresses.length === 0) return prices;
+
+    const unique = [...new Set(addresses)];
+    const cached = await Promise.all(unique.map(a => this.cache.get<number>(`jupiter:price:${a}`)));
+    const missing = unique.filter((address, i) => {
+      const price = cached[i];
+      if (price !== null) prices.set(address, price);
+      return price === null;
+    });
+
+    for (let i = 0; i < missing.length && this.priceClient; i += PRICE_IDS_PER_REQUEST) {
+      const chunk = missing.slice(i, i + PRICE_IDS_PER_REQUEST);
+
+      try {
+        const data = await this.fetch<JupiterPriceResponse>(
+          '/price/v3',
+          { ids: chunk.join(',') },
+          this.priceClient
+        );
+
+        for (const [mint, entry] of Object.entries(data || {})) {
+          if (!entry || !(entry.usdPrice > 0)) continue;
+          prices.set(mint, entry.usdPrice);
+          await this.cache.set(`jupiter:price:${mint}`, entry.usdPrice, config.jupiterPriceCacheTtl);
+        }
+      } catch (e) {
+        // bad key won't fix itself - stop trying until restart
+        if (axios.isAxiosError(e) && (e.response?.status === 401 || e.response?.status === 403)) {
+          logger.error('Jupiter price API rejected the API key, disabling price lookups');
+          this.priceClient = null;
+          break;
+        }
+        logger.warn(`Jupiter price lookup failed for ${chunk.length} ids: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+
+    return prices;
   }
 
   // Discover tokens by searching common meme terms
@@ -93,10 +174,14 @@ export class JupiterClient {
       liquidity_sol: 0,
       liquidity_usd: 0,
       transaction_count: 0,
+      price_5m_change: 0,
       price_1hr_change: 0,
+      price_6hr_change: 0,
       price_24hr_change: 0,
       price_7d_change: 0,
+      volume_5m: 0,
       volume_1hr: 0,
+      volume_6hr: 0,
       volume_24hr: vol24h,
       volume_7d: 0,
       protocol: 'jupiter',
@@ -106,7 +191,11 @@ export class JupiterClient {
       created_at: new Date().toISOString(),
       last_updated: new Date().toISOString(),
       sources: [this.SOURCE],
-      image_url: token.logoURI
+      image_url: token.logoURI,
+      // jupiter sends null once an authority is revoked
+      mint_authority: token.mint_authority ?? null,
+      freeze_authority: token.freeze_authority ?? null,
+      tags: token.tags,
     };
   }
 
@@ -0,0 +1,244 @@
+import config from '../config/index';
+import type { Token } from '../types/index';
+
+// how a single field is resolved across sources
+//  priority - first non-empty value in source priority order
+//  median   - median of non-zero values, outliers dropped
+//  max      - largest value
+//  earliest - oldest date
+//  pair     - taken from the record with the deepest liquidity
+export type FieldPolicy = 'priority' | 'median' | 'max' | 'earliest' | 'pair';
+
+type NumericField = {
+  [K in keyof Token]-?: Token[K] extends number ? K : never
+}[keyof Token];
+
+type StringField = {
+  [K in keyof Token]-?: Token[K] extends string | undefined ? K : never
+}[keyof Token];
+
+export type MergeField = NumericField | StringField;
+
+// only sources that read the mint itself know these - taken from the
+// highest priority record that has them at all (null counts, it means revoked)
+const MINT_FIELDS = ['mint_authority', 'freeze_authority', 'tags'] as const;
+
+// native-denominated (*_sol) fields are always re-derived from their usd counterpart
+const SOL_FIELDS: [NumericField, NumericField][] = [
+  ['price_sol', 'price_usd'],
+  ['market_cap_sol', 'market_cap_usd'],
+  ['volume_sol', 'volume_usd'],
+  ['liquidity_sol', 'liquidity_usd'],
+];
+
+export const DEFAULT_FIELD_POLICIES: Partial<Record<MergeField, FieldPolicy>> = {
+  token_name: 'priority',
+  token_ticker: 'priority',
+  price_usd: 'median',
+  market_cap_usd: 'median',
+  volume_usd: 'priority',
+  liquidity_usd: 'pair',
+  transaction_count: 'max',
+  price_5m_change: 'priority',
+  price_1hr_change: 'priority',
+  price_6hr_change: 'priority',
+  price_24hr_change: 'priority',
+  volume_5m: 'priority',
+  volume_1hr: 'priority',
+  volume_6hr: 'priority',
+  volume_24hr: 'priority',
+  // 7d fields aren't merged - the aggregator derives them from history
+  protocol: 'pair',
+  dex_id: 'pair',
+  chain_id: 'priority',
+  pair_address: 'pair',
+  created_at: 'earliest',
+  image_url: 'priority',
+  website: 'priority',
+};
+
+// latest record we got from one source for one token
+export interface SourceRecord {
+  source: string;
+  token: Token;
+  receivedAt: number;
+}
+
+export interface MergePolicyOptions {
+  sourcePriority: string[];
+  outlierThreshold: number;
+  maxRecordAgeMs: number;
+  fieldPolicies: Partial<Record<MergeField, FieldPolicy>>;
+}
+
+interface Resolved<T> {
+  value: T;
+  sources: string[];
+}
+
+/**
+ * MergePolicy - resolves one Token out of every source's latest record
+ *
+ * Instead of "newest non-zero wins", each field has a policy. Prices use a
+ * median with outlier rejection so one bad upstream can't drag the value,
+ * pair details come from the deepest pool, everything else follows the
+ * configured source priority. The result records who supplied what in
+ * field_sources.
+ */
+export class MergePolicy {
+  private opts: MergePolicyOptions;
+
+  constructor(opts: Partial<MergePolicyOptions> = {}) {
+    this.opts = {
+      sourcePriority: opts.sourcePriority ?? config.sourcePriority,
+      outlierThreshold: opts.outlierThreshold ?? config.mergeOutlierThreshold,
+      maxRecordAgeMs: opts.maxRecordAgeMs ?? config.mergeMaxRecordAge * 1000,
+      fieldPolicies: { ...DEFAULT_FIELD_POLICIES, ...opts.fieldPolicies },
+    };
+  }
+
+  merge(records: SourceRecord[], nativePrice: number): Token {
+    if (records.length === 0) {
+      throw new Error('Cannot merge zero source records');
+    }
+
+    // stale records only count if there's nothing fresher
+    const cutoff = Date.now() - this.opts.maxRecordAgeMs;
+    const fresh = records.filter(r => r.receivedAt >= cutoff);
+    const ranked = this.rank(fresh.length > 0 ? fresh : records);
+
+    const merged: Token = { ...ranked[0].token };
+    const fieldSources: Record<string, string[]> = {};
+    const pairRecord = this.pickPairRecord(ranked);
+
+    for (const [field, policy] of Object.entries(this.opts.fieldPolicies) as [MergeField, FieldPolicy][]) {
+      const resolved = this.resolve(field, policy, ranked, pairRecord);
+      if (!resolved) continue;
+
+      (merged as unknown as Record<string, unknown>)[field] = resolved.value;
+      fieldSources[field] = resolved.sources;
+    }
+
+    for (const [solField, usdField] of SOL_FIELDS) {
+      merged[solField] = nativePrice > 0 ? merged[usdField] / nativePrice : 0;
+      if (fieldSources[usdField]) fieldSources[solField] = fieldSources[usdField];
+    }
+
+    // later sources override earlier ones, so apply lowest priority first
+    merged.socials = ranked
+      .slice()
+      .reverse()
+      .reduce((acc, r) => ({ ...acc, ...r.token.socials }), {} as Token['socials']);
+
+    // order flow belongs to a pool, so it follows the pair fields
+    const activityRecord = pairRecord.token.activity ? pairRecord : ranked.find(r => r.token.activity);
+    if (activityRecord) {
+      merged.activity = activityRecord.token.activity;
+      fieldSources.activity = [activityRecord.source];
+    }
+
+    for (const field of MINT_FIELDS) {
+      const known = ranked.find(r => r.token[field] !== undefined);
+      if (known) {
+        (merged as unknown as Record<string, unknown>)[field] = known.token[field];
+        fieldSources[field] = [known.source];
+      }
+    }
+
+    merged.sources = [...new Set(records.map(r => r.source))];
+    merged.field_sources = fieldSources;
+    merged.last_updated = new Date().toISOString();
+
+    return merged;
+  }
+
+  // sort by configured priority, unknown sources last, newest first on ties
+  private rank(records: SourceRecord[]): SourceRecord[] {
+    const rankOf = (source: string) => {
+      const i = this.opts.sourcePriority.indexOf(source);
+      return i === -1 ? Number.MAX_SAFE_INTEGER : i;
+    };
+    return [...records].sort(
+      (a, b) => rankOf(a.source) - rankOf(b.source) || b.receivedAt - a.receivedAt
+    );
+  }
+
+  private pickPairRecord(ranked: SourceRecord[]): SourceRecord {
+    // strict > keeps the higher priority record on ties
+    return ranked.reduce((best, r) =>
+      r.token.liquidity_usd > best.token.liquidity_usd ? r : best
+    );
+  }
+
+  private resolve(
+    field: MergeField,
+    policy: FieldPolicy,
+    ranked: SourceRecord[],
+    pairRecord: SourceRecord
+  ): Resolved<unknown> | null {
+    const values = ranked
+      .map(r => ({ source: r.source, value: r.token[field] }))
+      .filter(v => v.value !== undefined && v.value !== null && v.value !== '' && v.value !== 0);
+
+    switch (policy) {
+      case 'pair':
+        return { value: pairRecord.token[field], sources: [pairRecord.source] };
+
+      case 'priority':
+        return values.length > 0
+          ? { value: values[0].value, sources: [values[0].source] }
+          : null;
+
+      case 'max': {
+        if (values.length === 0) return null;
+        const best = values.reduce((a, b) => (Number(b.value) > Number(a.value) ? b : a));
+        return { value: best.value, sources: [best.source] };
+      }
+
+      case 'earliest': {
+        const dated = values
+          .map(v => ({ ...v, time: new Date(String(v.value)).getTime() }))
+          .filter(v => !Number.isNaN(v.time));
+        if (dated.length === 0) return null;
+        const first = dated.reduce((a, b) => (b.time < a.time ? b : a));
+        return { value: first.value, sources: [first.source] };
+      }
+
+      case 'median':
+        return this.resolveMedian(values as { source: string; value: number }[]);
+    }
+  }
+
+  private resolveMedian(values: { source: string; value: number }[]): Resolved<number> | null {
+    const positive = values.filter(v => v.value > 0);
+    if (positive.length === 0) return null;
+    if (positive.length === 1) return { value: positive[0].value, sources: [positive[0].source] };
+
+    // with two sources there's no majority - if they disagree, trust priority
+    if (positive.length === 2) {
+      const [a, b] = positive;
+      const mid = (a.value + b.value) / 2;
+      if (Math.abs(a.value - b.value) / mid > this.opts.outlierThreshold) {
+        return { value: a.value, sources: [a.source] };
+      }
+      return { value: mid, sources: [a.source, b.source] };
+    }
+
+    const m = median(positive.map(v => v.value));
+    const kept = positive.filter(v => Math.abs(v.value - m) / m <= this.opts.outlierThreshold);
+    const used = kept.length > 0 ? kept : positive;
+
+    return {
+      value: median(used.map(v => v.value)),
+      sources: used.map(v => v.source),
+    };
+  }
+}
+
+export function median(nums: number[]): number {
+  const sorted = [...nums].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export default MergePolicy;
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/index';
+import { getCache, ICache } from './cache';
+
+// cursors from this process stay valid without CURSOR_SECRET, but not across
+// restarts. clustered nodes can't start without a shared one
+const processSecret = crypto.randomBytes(32).toString('hex');
+
+export type CursorErrorCode = 'INVALID_CURSOR' | 'CURSOR_EXPIRED';
+
+export class CursorError extends Error {
+  constructor(public code: CursorErrorCode, message: string) {
+    super(message);
+    this.name = 'CursorError';
+  }
+}
+
+interface CursorPayload {
+  s: string; // snapshot id
+  o: number; // offset into the snapshot
+  e: number; // snapshot expiry, unix ms
+}
+
+interface Snapshot {
+  keys: string[]; // token keys in result order
+  query: string; // hash of the filter + sort that produced it
+}
+
+export interface CursorPage {
+  keys: string[];
+  total: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasMore: boolean;
+}
+
+const base64url = (s: string | Buffer) => Buffer.from(s).toString('base64url');
+
+// stable id for a filter + sort combination - a cursor only resumes its own query
+export function queryHash(query: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(query ?? null)).digest('hex').slice(0, 16);
+}
+
+/**
+ * CursorPaginator - pages through a frozen result snapshot
+ *
+ * The first request freezes the ordered token keys in the cache for
+ * CURSOR_TTL seconds; cursors point into that snapshot, so refreshes that
+ * reorder or add tokens can't cause duplicates or gaps between pages. Token
+ * data itself is always current. Cursors are HMAC-signed so clients can't
+ * hand-craft offsets or snapshot ids.
+ */
+export class CursorPaginator {
+  constructor(
+    private cache: ICache = getCache(),
+    private ttlSeconds: number = config.cursorTtl,
+    private secret: string = config.cursorSecret || processSecret
+  ) {}
+
+  // first page - freeze the ordering
+  async start(keys: string[], query: string, limit: number): Promise<CursorPage> {
+    const id = uuidv4();
+    const snapshot: Snapshot = { keys, query };
+    await this.cache.set(`snapshot:${id}`, snapshot, this.ttlSeconds);
+
+    return this.page(id, snapshot, 0, limit, Date.now() + this.ttlSeconds * 1000);
+  }
+
+  // any later page
+  async resume(cursor: string, query: string, limit: number): Promise<CursorPage> {
+    const payload = this.decode(cursor);
+
+    if (Date.now() > payload.e) {
+      throw new CursorError('CURSOR_EXPIRED', 'Cursor has expired, start again without a cursor');
+    }
+
+    const snapshot = await this.cache.get<Snapshot>(`snapshot:${payload.s}`);
+    if (!snapshot) {
+      throw new CursorError('CURSOR_EXPIRED', 'Result snapshot is no longer available, start again without a cursor');
+    }
+    if (snapshot.query !== query) {
+      throw new CursorError('INVALID_CURSOR', 'Cursor belongs to a different filter or sort');
+    }
+
+    return this.page(payload.s, snapshot, payload.o, limit, payload.e);
+  }
+
+  private page(id: string, snapshot: Snapshot, offset: number, limit: number, expiresAt: number): CursorPage {
+    const end = Math.min(offset + limit, snapshot.keys.length);
+    const hasMore = end < snapshot.keys.length;
+
+    return {
+      keys: snapshot.keys.slice(offset, end),
+      total: snapshot.keys.length,
+      nextCursor: hasMore ? this.encode({ s: id, o: end, e: expiresAt }) : null,
+      prevCursor: offset > 0 ? this.encode({ s: id, o: Math.max(0, offset - limit), e: expiresAt }) : null,
+      hasMore,
+    };
+  }
+
+  private sign(body: string): string {
+    return crypto.createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  private encode(payload: CursorPayload): string {
+    const body = base64url(JSON.stringify(payload));
+    return `${body}.${this.sign(body)}`;
+  }
+
+  private decode(cursor: string): CursorPayload {
+    const [body, signature, ...rest] = cursor.split('.');
+    if (!body || !signature || rest.length > 0) {
+      throw new CursorError('INVALID_CURSOR', 'Malformed cursor');
+    }
+
+    const expected = Buffer.from(this.sign(body));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+      throw new CursorError('INVALID_CURSOR', 'Cursor signature does not match');
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')) as CursorPayload;
+      if (typeof payload.s !== 'string' || !Number.isInteger(payload.o) || payload.o < 0 || typeof payload.e !== 'number') {
+        throw new Error('bad payload');
+      }
+      return payload;
+    } catch {
+      throw new CursorError('INVALID_CURSOR', 'Malformed cursor');
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import config, { CHAINS, isKnownChain } from '../config/index';
+import { SourceRegistry } from './sources/index';
+import { median } from './mergePolicy';
+import { logger } from '../utils/index';
+import type { NativePrice, NativePriceQuote } from '../types/index';
+
+export interface PriceOracleOptions {
+  maxAgeMs: number;
+  outlierThreshold: number;
+}
+
+interface OracleState {
+  price: number;
+  method: NativePrice['method'];
+  quotes: NativePriceQuote[];
+  updatedAt: number;
+}
+
+/**
+ * PriceOracle - native asset USD price per chain (SOL, ETH, BNB)
+ *
+ * Asks every enabled source that implements getNativePrice, drops quotes too
+ * far off the median and keeps the median of the rest. If a refresh gets no
+ * quotes the last good price is kept but reported as stale once it's older
+ * than NATIVE_PRICE_MAX_AGE. Before the first good refresh the chain's
+ * fallback price is used.
+ */
+export class PriceOracle {
+  private sources: SourceRegistry;
+  private opts: PriceOracleOptions;
+  private state: Map<string, OracleState> = new Map();
+
+  constructor(sources: SourceRegistry, opts: Partial<PriceOracleOptions> = {}) {
+    this.sources = sources;
+    this.opts = {
+      maxAgeMs: opts.maxAgeMs ?? config.nativePriceMaxAge * 1000,
+      outlierThreshold: opts.outlierThreshold ?? config.nativePriceOutlierThreshold,
+    };
+  }
+
+  // query every provider for the chain and update the price if any answered
+  async refresh(chain: string): Promise<NativePrice> {
+    const providers = this.sources.getEnabled(chain).filter(source => source.getNativePrice);
+    const results = await Promise.allSettled(providers.map(source => source.getNativePrice!(chain)));
+    const fetchedAt = new Date().toISOString();
+    const quotes: NativePriceQuote[] = [];
+
+    results.forEach((result, i) => {
+      const source = providers[i].name;
+
+      if (result.status === 'rejected') {
+        const msg = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        logger.warn(`Failed to get ${chain} native price from ${source}: ${msg}`);
+        return;
+      }
+      if (result.value && result.value > 0) {
+        quotes.push({ source, price_usd: result.value, fetched_at: fetchedAt, used: true });
+      }
+    });
+
+    if (quotes.length === 0) {
+      // nothing worked - keep the old price, it'll show up as stale eventually
+      logger.warn(`No ${chain} native price quotes, keeping last value`);
+      return this.get(chain);
+    }
+
+    const { price, method } = this.select(quotes);
+    this.state.set(chain, { price, method, quotes, updatedAt: Date.now() });
+    logger.debug(`Updated ${chain} native price: $${price} (${method} of ${quotes.filter(q => q.used).length})`);
+
+    return this.get(chain);
+  }
+
+  // take a price another node fetched (cluster followers don't query sources)
+  apply(price: NativePrice): void {
+    if (!price.updated_at || price.method === 'fallback') return;
+
+    const updatedAt = Date.parse(price.updated_at);
+    if (updatedAt <= (this.state.get(price.chain)?.updatedAt ?? 0)) return;
+    this.state.set(price.chain, { price: price.price_usd, method: price.method, quotes: price.quotes, updatedAt });
+  }
+
+  // last good price, or the chain's fallback if we never got one
+  getPrice(chain: string): number {
+    const state = this.state.get(chain);
+    if (state) return state.price;
+    return isKnownChain(chain) ? CHAINS[chain].fallbackNativePrice : 0;
+  }
+
+  // current price plus where it came from
+  get(chain: string): NativePrice {
+    const state = this.state.get(chain);
+    const age = state ? Date.now() - state.updatedAt : null;
+
+    return {
+      chain,
+      symbol: isKnownChain(chain) ? CHAINS[chain].nativeSymbol : '',
+      price_usd: this.getPrice(chain),
+      method: state ? state.method : 'fallback',
+      quotes: state ? state.quotes : [],
+      updated_at: state ? new Date(state.updatedAt).toISOString() : null,
+      age_ms: age,
+      stale: age === null || age > this.opts.maxAgeMs,
+    };
+  }
+
+  // median of the quotes that agree with it - marks the rest as unused
+  private select(quotes: NativePriceQuote[]): { price: number; method: NativePrice['method'] } {
+    if (quotes.length === 1) return { price: quotes[0].price_usd, method: 'single' };
+
+    const m = median(quotes.map(q => q.price_usd));
+    for (const quote of quotes) {
+      quote.used = Math.abs(quote.price_usd - m) / m <= this.opts.outlierThreshold;
+    }
+
+    // two quotes that disagree leave no majority - go with the median anyway
+    const used = quotes.filter(q => q.used);
+    if (used.length === 0) {
+      quotes.forEach(q => { q.used = true; });
+      return { price: m, method: 'median' };
+    }
+
+    return { price: median(used.map(q => q.price_usd)), method: 'median' };
+  }
+}
+
+export default PriceOracle;
@@ -0,0 +1,75 @@
+import { ICache } from './cache';
+import config from '../config/index';
+
+const PERSIST_TTL = 60 * 60 * 24 * 365; // cache needs a ttl, a year is "forever" here
+
+// cache.keys hands back prefixed keys, everything else takes them without
+const unprefix = (key: string) =>
+  key.startsWith(config.cachePrefix) ? key.slice(config.cachePrefix.length) : key;
+
+interface RecordStoreOptions<T> {
+  legacyKey?: string; // where the whole list used to be kept
+  orderBy?: keyof T & string; // ISO timestamp field loadAll sorts on, oldest first
+}
+
+/**
+ * RecordStore - a persisted collection, one cache key per record
+ *
+ * In a cluster every node writes to the same collections. With the whole
+ * list under one key a node would write its copy back over records another
+ * node added since it last loaded, so each write here only touches the
+ * record it's about. A collection saved the old way (one list under
+ * legacyKey) is split up on the first load. Keys carry no order, so loadAll
+ * sorts on orderBy.
+ */
+export class RecordStore<T extends { id: string }> {
+  constructor(
+    private cache: ICache,
+    private prefix: string,
+    private options: RecordStoreOptions<T> = {}
+  ) {}
+
+  async loadAll(): Promise<T[]> {
+    await this.migrate();
+
+    const keys = (await this.cache.keys(`${this.prefix}:*`)).map(unprefix);
+    const records: Array<T | null> = await Promise.all(keys.map(key => this.cache.get<T>(key)));
+    const loaded = records.filter((record): record is T => record !== null);
+
+    const field = this.options.orderBy;
+    return field ? loaded.sort((a, b) => String(a[field]).localeCompare(String(b[field]))) : loaded;
+  }
+
+  async save(record: T): Promise<void> {
+    await this.cache.set(this.key(record.id), record, PERSIST_TTL);
+  }
+
+  // overwrite a record only if it's still there - a node holding an old copy
+  // mustn't bring back one that was deleted elsewhere. false if it's gone
+  async replace(record: T): Promise<boolean> {
+    if (!(await this.cache.exists(this.key(record.id)))) return false;
+    await this.save(record);
+    return true;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.cache.delete(this.key(id));
+  }
+
+  private key(id: string): string {
+    return `${this.prefix}:${id}`;
+  }
+
+  private async migrate(): Promise<void> {
+    const { legacyKey } = this.options;
+    if (!legacyKey) return;
+
+    const legacy = await this.cache.get<T[]>(legacyKey);
+    if (!legacy) return;
+
+    await Promise.all(legacy.map(record => this.save(record)));
+    await this.cache.delete(legacyKey);
+  }
+}
+
+export default RecordStore;
@@ -0,0 +1,87 @@
+import type { SafetyFlag, Token, TokenSafety } from '../types/index';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// points taken off a perfect 100 per flag - tuned by eye against known rugs
+const PENALTIES: Record<SafetyFlag, number> = {
+  mint_authority: 30, // dev can print more supply
+  freeze_authority: 25, // dev can freeze holders' accounts
+  thin_liquidity: 20,
+  low_liquidity: 10,
+  new_pool: 15,
+  young_pool: 5,
+  one_sided_buys: 15, // nobody is selling - often means nobody can
+  heavy_selling: 10,
+  few_trades: 5,
+};
+
+const VERIFIED_BONUS = 10;
+const VERIFIED_TAGS = ['verified', 'strict'];
+
+const THIN_LIQUIDITY_RATIO = 0.02; // liquidity / mcap
+const LOW_LIQUIDITY_RATIO = 0.05;
+const NEW_POOL_HOURS = 1;
+const YOUNG_POOL_HOURS = 24;
+const MIN_TRADES = 20; // below this the buy/sell split is noise
+const ONE_SIDED_BUY_RATIO = 0.95;
+const HEAVY_SELL_RATIO = 0.3;
+
+/**
+ * Rough rug-pull risk for a merged token
+ *
+ * Combines what we know about the mint (authorities, jupiter tags), the pool
+ * (liquidity vs market cap, age) and 24h order flow into a 0-100 score.
+ * Anything we don't know about is skipped rather than counted against the
+ * token, so EVM tokens are never flagged for authorities.
+ */
+export function assessSafety(token: Token, now = Date.now()): TokenSafety {
+  const flags: SafetyFlag[] = [];
+
+  const mintAuthority = token.mint_authority === undefined ? null : token.mint_authority !== null;
+  const freezeAuthority = token.freeze_authority === undefined ? null : token.freeze_authority !== null;
+  if (mintAuthority) flags.push('mint_authority');
+  if (freezeAuthority) flags.push('freeze_authority');
+
+  const liquidityToMcap = token.market_cap_usd > 0 ? token.liquidity_usd / token.market_cap_usd : null;
+  if (liquidityToMcap !== null) {
+    if (liquidityToMcap < THIN_LIQUIDITY_RATIO) flags.push('thin_liquidity');
+    else if (liquidityToMcap < LOW_LIQUIDITY_RATIO) flags.push('low_liquidity');
+  }
+
+  // no pair means created_at is just when we first saw it
+  const createdAt = new Date(token.created_at).getTime();
+  const poolAgeHours = token.pair_address && !Number.isNaN(createdAt)
+    ? Math.max(0, (now - createdAt) / HOUR_MS)
+    : null;
+  if (poolAgeHours !== null) {
+    if (poolAgeHours < NEW_POOL_HOURS) flags.push('new_pool');
+    else if (poolAgeHours < YOUNG_POOL_HOURS) flags.push('young_pool');
+  }
+
+  let buyRatio: number | null = null;
+  const flow = token.activity?.['24h'];
+  if (flow) {
+    const trades = flow.buys + flow.sells;
+    if (trades > 0) buyRatio = flow.buys / trades;
+
+    if (trades < MIN_TRADES) flags.push('few_trades');
+    else if (buyRatio !== null && buyRatio >= ONE_SIDED_BUY_RATIO) flags.push('one_sided_buys');
+    else if (buyRatio !== null && buyRatio <= HEAVY_SELL_RATIO) flags.push('heavy_selling');
+  }
+
+  const verified = (token.tags || []).some(tag => VERIFIED_TAGS.includes(tag));
+
+  const penalty = flags.reduce((sum, flag) => sum + PENALTIES[flag], 0);
+  const score = Math.max(0, Math.min(100, 100 - penalty + (verified ? VERIFIED_BONUS : 0)));
+
+  return {
+    score,
+    mint_authority: mintAuthority,
+    freeze_authority: freezeAuthority,
+    liquidity_to_mcap: liquidityToMcap,
+    pool_age_hours: poolAgeHours,
+    buy_ratio: buyRatio,
+    verified,
+    flags,
+  };
+}
@@ -0,0 +1,179 @@
+import type { Token } from '../types/index';
+
+const MAX_PREFIX_LENGTH = 12;
+const MIN_FUZZY_SIMILARITY = 0.3;
+const POPULARITY_WEIGHT = 0.25;
+
+// text relevance by how the query matched - fuzzy scales with similarity
+const MATCH_SCORES = {
+  address: 2,
+  ticker: 1,
+  name: 0.95,
+  tickerPrefix: 0.85,
+  namePrefix: 0.75,
+  substring: 0.6,
+  fuzzy: 0.6,
+};
+
+interface IndexedToken {
+  token: Token;
+  name: string;
+  ticker: string;
+  address: string;
+  words: string[];
+  trigrams: Set<string>;
+}
+
+export interface SearchHit {
+  token: Token;
+  score: number;
+}
+
+const normalise = (s: string | undefined) => (s || '').toLowerCase().trim();
+
+function trigramsOf(text: string): Set<string> {
+  const grams = new Set<string>();
+  const padded = `  ${text} `;
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+function addTo(index: Map<string, Set<string>>, term: string, key: string): void {
+  let keys = index.get(term);
+  if (!keys) {
+    keys = new Set();
+    index.set(term, keys);
+  }
+  keys.add(key);
+}
+
+function removeFrom(index: Map<string, Set<string>>, term: string, key: string): void {
+  const keys = index.get(term);
+  if (!keys) return;
+  keys.delete(key);
+  if (keys.size === 0) index.delete(term);
+}
+
+// liquidity + volume on a log scale, ~1 for a very large token
+function popularity(token: Token): number {
+  const raw = Math.log10(1 + Math.max(0, token.liquidity_usd)) + Math.log10(1 + Math.max(0, token.volume_24hr));
+  return Math.min(1, raw / 20);
+}
+
+/**
+ * SearchIndex - in-process name/ticker/address search
+ *
+ * Keeps a prefix index (ticker and each word of the name), a trigram index
+ * for typo-tolerant matching and an exact address map. Results are ranked by
+ * how well the text matched, with liquidity and volume breaking ties between
+ * similar matches. Updated incrementally as tokens are merged.
+ */
+export class SearchIndex {
+  private docs: Map<string, IndexedToken> = new Map(); // token key -> doc
+  private prefixes: Map<string, Set<string>> = new Map();
+  private trigrams: Map<string, Set<string>> = new Map();
+  private addresses: Map<string, Set<string>> = new Map();
+
+  upsert(key: string, token: Token): void {
+    const existing = this.docs.get(key);
+    const name = normalise(token.token_name);
+    const ticker = normalise(token.token_ticker);
+
+    // same text - only the token (numbers) changed, no need to reindex
+    if (existing && existing.name === name && existing.ticker === ticker) {
+      existing.token = token;
+      return;
+    }
+    if (existing) this.remove(key);
+
+    const doc: IndexedToken = {
+      token,
+      name,
+      ticker,
+      address: normalise(token.token_address),
+      words: name.split(/[^a-z0-9]+/).filter(Boolean),
+      trigrams: new Set([...trigramsOf(name), ...trigramsOf(ticker)]),
+    };
+
+    this.docs.set(key, doc);
+    for (const term of this.prefixTerms(doc)) addTo(this.prefixes, term, key);
+    for (const gram of doc.trigrams) addTo(this.trigrams, gram, key);
+    addTo(this.addresses, doc.address, key);
+  }
+
+  remove(key: string): void {
+    const doc = this.docs.get(key);
+    if (!doc) return;
+
+    for (const term of this.prefixTerms(doc)) removeFrom(this.prefixes, term, key);
+    for (const gram of doc.trigrams) removeFrom(this.trigrams, gram, key);
+    removeFrom(this.addresses, doc.address, key);
+    this.docs.delete(key);
+  }
+
+  search(query: string, limit: number, chain?: string): SearchHit[] {
+    const q = normalise(query);
+    if (!q) return [];
+
+    const hits: SearchHit[] = [];
+    for (const key of this.candidates(q)) {
+      const doc = this.docs.get(key);
+      if (!doc || (chain && doc.token.chain_id !== chain)) continue;
+
+      const text = this.textScore(doc, q);
+      if (text <= 0) continue;
+      hits.push({ token: doc.token, score: text + POPULARITY_WEIGHT * popularity(doc.token) });
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  private prefixTerms(doc: IndexedToken): Set<string> {
+    const terms = new Set<string>();
+    for (const word of [doc.ticker, ...doc.words]) {
+      for (let i = 1; i <= Math.min(word.length, MAX_PREFIX_LENGTH); i++) terms.add(word.slice(0, i));
+    }
+    return terms;
+  }
+
+  private candidates(q: string): Set<string> {
+    const keys = new Set<string>(this.addresses.get(q) || []);
+    for (const key of this.prefixes.get(q.slice(0, MAX_PREFIX_LENGTH)) || []) keys.add(key);
+
+    // short queries have too few trigrams to be worth a fuzzy pass
+    if (q.length >= 3) {
+      for (const gram of trigramsOf(q)) {
+        for (const key of this.trigrams.get(gram) || []) keys.add(key);
+      }
+    }
+    return keys;
+  }
+
+  private textScore(doc: IndexedToken, q: string): number {
+    if (doc.address === q) return MATCH_SCORES.address;
+    if (doc.ticker === q) return MATCH_SCORES.ticker;
+    if (doc.name === q) return MATCH_SCORES.name;
+    if (doc.ticker.startsWith(q)) return MATCH_SCORES.tickerPrefix;
+    if (doc.words.some(w => w.startsWith(q)) || doc.name.startsWith(q)) return MATCH_SCORES.namePrefix;
+    if (doc.name.includes(q) || doc.ticker.includes(q)) return MATCH_SCORES.substring;
+
+    const similarity = Math.max(this.similarity(q, doc.name), this.similarity(q, doc.ticker));
+    return similarity >= MIN_FUZZY_SIMILARITY ? MATCH_SCORES.fuzzy * similarity : 0;
+  }
+
+  // trigram jaccard similarity
+  private similarity(a: string, b: string): number {
+    if (!b) return 0;
+    const ga = trigramsOf(a);
+    const gb = trigramsOf(b);
+    let shared = 0;
+    for (const gram of ga) if (gb.has(gram)) shared++;
+    return shared / (ga.size + gb.size - shared);
+  }
+}
+
+export default SearchIndex;
@@ -0,0 +1,66 @@
+import { DexScreenerClient } from '../dexScreener';
+import { getChain } from '../../config/index';
+import type { DexScreenerPair, Token, Pair } from '../../types/index';
+import type { DataSource } from './types';
+
+// evm addresses come back in mixed case depending on the endpoint
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// quote tokens we treat as $1 when pricing the native asset
+const USD_STABLES = ['USDC', 'USDT'];
+
+// DexScreener adapter - meme keyword sweep, works on any chain it lists
+export class DexScreenerSource implements DataSource<DexScreenerPair> {
+  readonly name = 'dexscreener';
+  private client: DexScreenerClient;
+
+  constructor(client = new DexScreenerClient()) {
+    this.client = client;
+  }
+
+  fetch(chain: string): Promise<DexScreenerPair[]> {
+    return this.client.getPairsByChain(chain, 100);
+  }
+
+  async search(query: string, chain: string): Promise<DexScreenerPair[]> {
+    const pairs = await this.client.searchTokens(query);
+    return pairs.filter(p => p.chainId === chain);
+  }
+
+  async lookup(address: string, chain: string): Promise<DexScreenerPair[]> {
+    const pairs = await this.client.getTokenByAddress(address);
+    return pairs.filter(p => p.chainId === chain);
+  }
+
+  // native price from the deepest wrapped-native/stablecoin pool (SOL/USDC etc)
+  async getNativePrice(chain: string): Promise<number | null> {
+    const wrapped = getChain(chain).wrappedNative;
+    const pairs = (await this.lookup(wrapped, chain))
+      .filter(p =>
+        sameAddress(p.baseToken.address, wrapped) &&
+        USD_STABLES.includes(p.quoteToken.symbol.toUpperCase()) &&
+        parseFloat(p.priceUsd || '0') > 0
+      )
+      .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0));
+
+    return pairs.length > 0 ? parseFloat(pairs[0].priceUsd!) : null;
+  }
+
+  transform(pair: DexScreenerPair, nativePrice: number): Token {
+    return this.client.transformToToken(pair, nativePrice);
+  }
+
+  toPair(pair: DexScreenerPair): Pair {
+    return this.client.transformToPair(pair);
+  }
+
+  getRateLimitStatus() {
+    return this.client.getRateLimitStatus();
+  }
+
+  getHealth() {
+    return this.client.getHealth();
+  }
+}
+
+export default DexScreenerSource;
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import config from '../../config/index';
+import type { Token } from '../../types/index';
+import type { DataSource } from './types';
+
+export type FixtureToken = Partial<Token> & Pick<Token, 'token_address'>;
+
+/**
+ * Local fixture source - serves tokens from a JSON file
+ *
+ * Handy for offline dev and demos. The file is re-read on every fetch
+ * so you can edit it while the server runs. Entries without a chain_id
+ * are treated as solana.
+ */
+export class FixtureSource implements DataSource<FixtureToken> {
+  readonly name = 'fixture';
+
+  constructor(private filePath = config.fixtureSourcePath) {}
+
+  async fetch(chain: string): Promise<FixtureToken[]> {
+    if (!this.filePath) {
+      throw new Error('Fixture source enabled but FIXTURE_SOURCE_PATH is not set');
+    }
+    const raw = await fs.readFile(this.filePath, 'utf-8');
+    const data = JSON.parse(raw);
+    return Array.isArray(data)
+      ? data.filter((t: FixtureToken) => (t.chain_id || 'solana') === chain)
+      : [];
+  }
+
+  async search(query: string, chain: string): Promise<FixtureToken[]> {
+    const q = query.toLowerCase();
+    const tokens = await this.fetch(chain);
+    return tokens.filter(t =>
+      (t.token_name || '').toLowerCase().includes(q) ||
+      (t.token_ticker || '').toLowerCase().includes(q)
+    );
+  }
+
+  async lookup(address: string, chain: string): Promise<FixtureToken[]> {
+    const tokens = await this.fetch(chain);
+    return tokens.filter(t => t.token_address === address);
+  }
+
+  transform(t: FixtureToken, nativePrice: number): Token {
+    const priceUsd = t.price_usd || 0;
+    const mcap = t.market_cap_usd || 0;
+    const vol24h = t.volume_24hr || t.volume_usd || 0;
+    const liq = t.liquidity_usd || 0;
+
+    return {
+      token_name: t.token_address,
+      token_ticker: '',
+      transaction_count: 0,
+      price_5m_change: 0,
+      price_1hr_change: 0,
+      price_6hr_change: 0,
+      price_24hr_change: 0,
+      price_7d_change: 0,
+      volume_5m: 0,
+      volume_1hr: 0,
+      volume_6hr: 0,
+      volume_7d: 0,
+      protocol: 'fixture',
+      dex_id: 'fixture',
+      chain_id: 'solana',
+      pair_address: '',
+      created_at: new Date().toISOString(),
+      ...t,
+      price_sol: priceUsd / nativePrice,
+      price_usd: priceUsd,
+      market_cap_sol: mcap / nativePrice,
+      market_cap_usd: mcap,
+      volume_sol: vol24h / nativePrice,
+      volume_usd: vol24h,
+      volume_24hr: vol24h,
+      liquidity_sol: liq / nativePrice,
+      liquidity_usd: liq,
+      last_updated: new Date().toISOString(),
+      sources: [this.name],
+    };
+  }
+
+  getRateLimitStatus() {
+    return { available: Infinity, name: this.name };
+  }
+}
+
+export default FixtureSource;
@@ -0,0 +1,72 @@
+import { GeckoTerminalClient } from '../geckoTerminal';
+import { getChain } from '../../config/index';
+import type { GeckoTerminalPool, Token, Pair } from '../../types/index';
+import type { DataSource } from './types';
+
+// GeckoTerminal adapter - trending + new pools
+export class GeckoTerminalSource implements DataSource<GeckoTerminalPool> {
+  readonly name = 'geckoterminal';
+  private client: GeckoTerminalClient;
+
+  constructor(client = new GeckoTerminalClient()) {
+    this.client = client;
+  }
+
+  async fetch(chain: string): Promise<GeckoTerminalPool[]> {
+    const network = getChain(chain).geckoNetwork;
+    const [trending, newPools] = await Promise.all([
+      this.client.getTrendingPools(network),
+      this.client.getNewPools(network),
+    ]);
+    return [...trending, ...newPools];
+  }
+
+  search(query: string, chain: string): Promise<GeckoTerminalPool[]> {
+    return this.client.searchPools(query, getChain(chain).geckoNetwork);
+  }
+
+  // only pools where the token is the base side, otherwise transform picks the wrong token
+  async lookup(address: string, chain: string): Promise<GeckoTerminalPool[]> {
+    const pools = await this.client.getTokenPools(getChain(chain).geckoNetwork, address);
+    return pools.filter(p =>
+      p.relationships.base_token.data.id.toLowerCase().endsWith(address.toLowerCase())
+    );
+  }
+
+  // native price from the deepest pool the wrapped native token trades in -
+  // GeckoTerminal prices both sides, so it works whether it's base or quote
+  async getNativePrice(chain: string): Promise<number | null> {
+    const { geckoNetwork, wrappedNative } = getChain(chain);
+    const isNative = (id: string) => id.toLowerCase().endsWith(wrappedNative.toLowerCase());
+
+    const prices = (await this.client.getTokenPools(geckoNetwork, wrappedNative))
+      .sort((a, b) => (parseFloat(b.attributes.reserve_in_usd) || 0) - (parseFloat(a.attributes.reserve_in_usd) || 0))
+      .map(pool => {
+        const a = pool.attributes;
+        if (isNative(pool.relationships.quote_token.data.id)) return parseFloat(a.quote_token_price_usd);
+        if (isNative(pool.relationships.base_token.data.id)) return parseFloat(a.base_token_price_usd);
+        return NaN;
+      })
+      .filter(price => price > 0);
+
+    return prices.length > 0 ? prices[0] : null;
+  }
+
+  transform(pool: GeckoTerminalPool, nativePrice: number): Token {
+    return this.client.transformToToken(pool, nativePrice);
+  }
+
+  toPair(pool: GeckoTerminalPool): Pair {
+    return this.client.transformToPair(pool);
+  }
+
+  getRateLimitStatus() {
+    return this.client.getRateLimitStatus();
+  }
+
+  getHealth() {
+    return this.client.getHealth();
+  }
+}
+
+export default GeckoTerminalSource;
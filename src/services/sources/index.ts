@@ -0,0 +1,6 @@
+export { SourceRegistry, createSourceRegistry, registerSourceFactory } from './registry';
+export { DexScreenerSource } from './dexScreener';
+export { GeckoTerminalSource } from './geckoTerminal';
+export { JupiterSource, type JupiterQuote } from './jupiter';
+export { FixtureSource, type FixtureToken } from './fixture';
+export { supportsChain, type DataSource, type DataSourceFactory } from './types';
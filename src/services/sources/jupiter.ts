@@ -0,0 +1,51 @@
+import { JupiterClient } from '../jupiter';
+import type { JupiterToken, Token } from '../../types/index';
+import type { DataSource } from './types';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// jupiter token list entries don't carry a price, so we pair them up
+export interface JupiterQuote {
+  token: JupiterToken;
+  priceUsd: number;
+}
+
+// Jupiter adapter - token discovery, plus prices (and SOL price) with an API key.
+// No search here: price-less results would just add noise to search.
+export class JupiterSource implements DataSource<JupiterQuote> {
+  readonly name = 'jupiter';
+  readonly chains = ['solana'];
+  private client: JupiterClient;
+
+  constructor(client = new JupiterClient()) {
+    this.client = client;
+  }
+
+  async fetch(_chain: string): Promise<JupiterQuote[]> {
+    const tokens = await this.client.getTrendingTokens(50);
+
+    // empty unless JUPITER_API_KEY is set - those tokens stay at price 0
+    const prices = await this.client.getTokenPrices(tokens.map(t => t.address));
+
+    return tokens.map(token => ({ token, priceUsd: prices.get(token.address) || 0 }));
+  }
+
+  async getNativePrice(_chain: string): Promise<number | null> {
+    const prices = await this.client.getTokenPrices([SOL_MINT]);
+    return prices.get(SOL_MINT) || null;
+  }
+
+  transform(quote: JupiterQuote, nativePrice: number): Token {
+    return this.client.transformToToken(quote.token, quote.priceUsd, nativePrice);
+  }
+
+  getRateLimitStatus() {
+    return this.client.getRateLimitStatus();
+  }
+
+  getHealth() {
+    return this.client.getHealth();
+  }
+}
+
+export default JupiterSource;
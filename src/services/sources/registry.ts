@@ -0,0 +1,91 @@
+import config from '../../config/index';
+import { logger } from '../../utils/index';
+import { DexScreenerSource } from './dexScreener';
+import { GeckoTerminalSource } from './geckoTerminal';
+import { JupiterSource } from './jupiter';
+import { FixtureSource } from './fixture';
+import { supportsChain, type DataSource, type DataSourceFactory } from './types';
+
+// known source names -> how to build them. add new upstreams here
+// (or via registerSourceFactory) and list them in DATA_SOURCES
+const factories = new Map<string, DataSourceFactory>([
+  ['dexscreener', () => new DexScreenerSource()],
+  ['geckoterminal', () => new GeckoTerminalSource()],
+  ['jupiter', () => new JupiterSource()],
+  ['fixture', () => new FixtureSource()],
+]);
+
+export function registerSourceFactory(name: string, factory: DataSourceFactory): void {
+  factories.set(name, factory);
+}
+
+/**
+ * SourceRegistry - the set of upstreams the aggregator pulls from
+ *
+ * Sources can be switched off at runtime without being removed, so
+ * they still show up (as disabled) in health output.
+ */
+export class SourceRegistry {
+  private sources = new Map<string, { source: DataSource; enabled: boolean }>();
+
+  register(source: DataSource, enabled = true): void {
+    if (this.sources.has(source.name)) {
+      logger.warn(`Data source "${source.name}" registered twice, replacing`);
+    }
+    this.sources.set(source.name, { source, enabled });
+  }
+
+  unregister(name: string): boolean {
+    return this.sources.delete(name);
+  }
+
+  get(name: string): DataSource | undefined {
+    return this.sources.get(name)?.source;
+  }
+
+  // returns false if there's no such source
+  setEnabled(name: string, enabled: boolean): boolean {
+    const entry = this.sources.get(name);
+    if (!entry) return false;
+    entry.enabled = enabled;
+    return true;
+  }
+
+  isEnabled(name: string): boolean {
+    return this.sources.get(name)?.enabled ?? false;
+  }
+
+  getAll(): DataSource[] {
+    return Array.from(this.sources.values()).map(e => e.source);
+  }
+
+  // pass a chain to only get sources that can serve it
+  getEnabled(chain?: string): DataSource[] {
+    return Array.from(this.sources.values())
+      .filter(e => e.enabled && (!chain || supportsChain(e.source, chain)))
+      .map(e => e.source);
+  }
+
+  names(): string[] {
+    return Array.from(this.sources.keys());
+  }
+}
+
+// build a registry from the DATA_SOURCES list
+export function createSourceRegistry(names: string[] = config.dataSources): SourceRegistry {
+  const registry = new SourceRegistry();
+
+  for (const name of names) {
+    const factory = factories.get(name);
+    if (!factory) {
+      logger.warn(`Unknown data source "${name}", skipping`);
+      continue;
+    }
+    registry.register(factory());
+  }
+
+  logger.info(`Data sources: ${registry.names().join(', ') || 'none'}`);
+  return registry;
+}
+
+export default createSourceRegistry;
@@ -0,0 +1,45 @@
+import type { Token, Pair, SourceHealth } from '../../types/index';
+
+/**
+ * DataSource - what the aggregator needs from an upstream
+ *
+ * Each source fetches its own raw records and knows how to turn them into
+ * our Token shape. search/lookup are optional since not every API has them.
+ * Everything is per chain - the aggregator asks once for each configured
+ * chain the source supports.
+ */
+export interface DataSource<TRaw = unknown> {
+  readonly name: string;
+
+  // chain ids this source can serve, omit if it handles any chain
+  readonly chains?: string[];
+
+  // pull the source's current list of interesting tokens/pools on a chain
+  fetch(chain: string): Promise<TRaw[]>;
+
+  // free text search by name/ticker
+  search?(query: string, chain: string): Promise<TRaw[]>;
+
+  // everything the source knows about one token address
+  lookup?(address: string, chain: string): Promise<TRaw[]>;
+
+  // current native asset price in USD (SOL, ETH, BNB...), if the source can provide one
+  getNativePrice?(chain: string): Promise<number | null>;
+
+  // nativePrice is the USD price of the record's chain native asset
+  transform(raw: TRaw, nativePrice: number): Token;
+
+  // pool-level view of a record, for sources that deal in pairs
+  toPair?(raw: TRaw): Pair;
+
+  getRateLimitStatus(): { available: number; name: string };
+
+  // circuit breaker state and request history, for sources that call an upstream
+  getHealth?(): SourceHealth;
+}
+
+export type DataSourceFactory = () => DataSource;
+
+export function supportsChain(source: DataSource, chain: string): boolean {
+  return !source.chains || source.chains.includes(chain);
+}
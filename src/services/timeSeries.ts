@@ -0,0 +1,256 @@
+import Redis from 'ioredis';
+import config from '../config/index';
+import { logger } from '../utils/index';
+import type { Candle, CandleInterval, TokenSnapshot } from '../types/index';
+
+// time-series interface - memory and redis versions implement this
+export interface ITimeSeriesStore {
+  record(address: string, snapshot: TokenSnapshot): Promise<void>;
+  recordMany(entries: { address: string; snapshot: TokenSnapshot }[]): Promise<void>;
+  range(address: string, from: number, to: number): Promise<TokenSnapshot[]>;
+  getStats(): { series: number; points: number };
+  isConnected(): boolean;
+}
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+const retentionMs = () => config.historyRetentionHours * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WeeklyStats {
+  price_7d_change: number;
+  volume_7d: number;
+  volume_7d_days: number; // days of samples behind volume_7d, 7 is a full week
+}
+
+/**
+ * In-memory time-series store
+ *
+ * Keeps an ordered array of snapshots per token and drops anything older
+ * than the retention window. Same caveat as MemoryCache - single instance only.
+ */
+export class MemoryTimeSeriesStore implements ITimeSeriesStore {
+  private series = new Map<string, TokenSnapshot[]>();
+
+  async record(address: string, snapshot: TokenSnapshot): Promise<void> {
+    const points = this.series.get(address) || [];
+    const last = points[points.length - 1];
+
+    points.push(snapshot);
+    // refreshes normally arrive in order, only sort if they didn't
+    if (last && snapshot.timestamp < last.timestamp) {
+      points.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    // prune old points from the front
+    const cutoff = Date.now() - retentionMs();
+    let drop = 0;
+    while (drop < points.length && points[drop].timestamp < cutoff) drop++;
+    if (drop > 0) points.splice(0, drop);
+
+    this.series.set(address, points);
+  }
+
+  async recordMany(entries: { address: string; snapshot: TokenSnapshot }[]): Promise<void> {
+    for (const { address, snapshot } of entries) {
+      await this.record(address, snapshot);
+    }
+  }
+
+  async range(address: string, from: number, to: number): Promise<TokenSnapshot[]> {
+    const points = this.series.get(address) || [];
+    return points.filter(p => p.timestamp >= from && p.timestamp <= to);
+  }
+
+  getStats() {
+    let points = 0;
+    for (const p of this.series.values()) points += p.length;
+    return { series: this.series.size, points };
+  }
+
+  isConnected() { return true; }
+
+  clear() { this.series.clear(); }
+}
+
+/**
+ * Redis time-series store
+ *
+ * One sorted set per token, scored by timestamp. Old members get trimmed on
+ * write and the whole key expires if a token stops showing up.
+ */
+export class RedisTimeSeriesStore implements ITimeSeriesStore {
+  private client: Redis;
+  private connected = false;
+
+  constructor() {
+    this.client = new Redis(config.redisUrl, {
+      password: config.redisPassword || undefined,
+      retryStrategy: (times) => times > 3 ? null : Math.min(times * 200, 2000),
+      lazyConnect: true
+    });
+
+    this.client.on('connect', () => { this.connected = true; });
+    this.client.on('error', (e) => {
+      this.connected = false;
+      logger.error('Redis time-series error:', e);
+    });
+    this.client.on('close', () => { this.connected = false; });
+  }
+
+  private key(address: string) { return `${config.cachePrefix}history:${address}`; }
+
+  async record(address: string, snapshot: TokenSnapshot): Promise<void> {
+    await this.recordMany([{ address, snapshot }]);
+  }
+
+  async recordMany(entries: { address: string; snapshot: TokenSnapshot }[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const cutoff = Date.now() - retentionMs();
+    const ttlSeconds = Math.ceil(retentionMs() / 1000);
+    const pipeline = this.client.pipeline();
+
+    for (const { address, snapshot } of entries) {
+      const key = this.key(address);
+      pipeline.zadd(key, snapshot.timestamp, JSON.stringify(snapshot));
+      pipeline.zremrangebyscore(key, '-inf', cutoff);
+      pipeline.expire(key, ttlSeconds);
+    }
+
+    try {
+      await pipeline.exec();
+    } catch (e) {
+      logger.error('Time-series write error:', e);
+    }
+  }
+
+  async range(address: string, from: number, to: number): Promise<TokenSnapshot[]> {
+    try {
+      const members = await this.client.zrangebyscore(this.key(address), from, to);
+      return members.map(m => JSON.parse(m) as TokenSnapshot);
+    } catch (e) {
+      logger.error(`Time-series range error [${address}]:`, e);
+      return [];
+    }
+  }
+
+  getStats() {
+    return { series: -1, points: -1 }; // would need a SCAN to count
+  }
+
+  isConnected() { return this.connected; }
+  async disconnect() { await this.client.quit(); }
+}
+
+/**
+ * Roll snapshots up into OHLCV candles
+ *
+ * Upstreams only give us rolling 24h volume, so candle volume is the sum of
+ * positive increments in volume_24hr between consecutive snapshots. It's an
+ * estimate, but it moves with actual trading which is what charts need.
+ */
+export function buildCandles(snapshots: TokenSnapshot[], interval: CandleInterval): Candle[] {
+  const size = CANDLE_INTERVALS[interval];
+  const sorted = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+  const candles: Candle[] = [];
+  let current: Candle | null = null;
+  let prev: TokenSnapshot | null = null;
+  let pendingVolume = 0;
+
+  for (const point of sorted) {
+    if (prev) pendingVolume += Math.max(0, point.volume_24hr - prev.volume_24hr);
+    prev = point;
+
+    // zero price means the source didn't have one, don't let it drag the low
+    if (point.price_usd <= 0) continue;
+
+    const openTime = Math.floor(point.timestamp / size) * size;
+
+    if (!current || current.open_time !== openTime) {
+      current = {
+        open_time: openTime,
+        close_time: openTime + size - 1,
+        open: point.price_usd,
+        high: point.price_usd,
+        low: point.price_usd,
+        close: point.price_usd,
+        volume: 0,
+        samples: 0,
+      };
+      candles.push(current);
+    }
+
+    current.high = Math.max(current.high, point.price_usd);
+    current.low = Math.min(current.low, point.price_usd);
+    current.close = point.price_usd;
+    current.volume += pendingVolume;
+    pendingVolume = 0;
+    current.samples++;
+  }
+
+  return candles;
+}
+
+/**
+ * 7d price change and volume from our own snapshots
+ *
+ * Upstreams stop at 24h. Price change is measured from the oldest point in
+ * the last 7 days; volume adds up one volume_24hr sample per day and scales
+ * that to a week when we've been recording for fewer days, so a token we
+ * picked up yesterday isn't ranked below one we've seen all week.
+ * volume_7d_days says how many days it's really based on. Under a day of
+ * history says nothing 24h doesn't, so that returns null.
+ */
+export function summarizeWeek(snapshots: TokenSnapshot[], now = Date.now()): WeeklyStats | null {
+  const from = now - 7 * DAY_MS;
+  const points = snapshots
+    .filter(p => p.timestamp >= from && p.timestamp <= now && p.price_usd > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (points.length < 2) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (last.timestamp - first.timestamp < DAY_MS) return null;
+
+  // latest sample in each day counting back from now
+  let volume = 0;
+  let days = 0;
+  for (let day = 0; day < 7; day++) {
+    const end = now - day * DAY_MS;
+    let sample: TokenSnapshot | undefined;
+    for (const p of points) {
+      if (p.timestamp > end - DAY_MS && p.timestamp <= end) sample = p;
+    }
+    if (sample) {
+      volume += sample.volume_24hr;
+      days++;
+    }
+  }
+
+  return {
+    price_7d_change: ((last.price_usd - first.price_usd) / first.price_usd) * 100,
+    volume_7d: (volume / days) * 7,
+    volume_7d_days: days,
+  };
+}
+
+// factory - same memory/redis switch as the cache
+export function createTimeSeriesStore(): ITimeSeriesStore {
+  if (config.useMemoryCache) {
+    return new MemoryTimeSeriesStore();
+  }
+  return new RedisTimeSeriesStore();
+}
+
+let instance: ITimeSeriesStore | null = null;
+export function getTimeSeriesStore(): ITimeSeriesStore {
+  if (!instance) instance = createTimeSeriesStore();
+  return instance;
+}
+
+export default getTimeSeriesStore;
@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import { activityValue } from './activity';
+import { evaluateExpression, sortByKeys } from './tokenQuery';
+import type { ActivityWindow, SortKey, TimePeriod, Token, TokenFilter, TokenSort } from '../types/index';
+
+export const TIME_PERIODS = ['5m', '1h', '6h', '24h', '7d'] as const;
+
+// TokenFilter as a zod schema, for places that take filters from user input
+export const tokenFilterSchema = z.object({
+  timePeriod: z.enum(TIME_PERIODS).optional(),
+  minVolume: z.number().optional(),
+  maxVolume: z.number().optional(),
+  minMarketCap: z.number().optional(),
+  maxMarketCap: z.number().optional(),
+  minLiquidity: z.number().optional(),
+  protocol: z.string().optional(),
+  chain: z.string().optional(),
+  search: z.string().optional(),
+  minSafetyScore: z.number().min(0).max(100).optional(),
+});
+
+export const SORT_FIELDS = [
+  'volume', 'price_change', 'market_cap', 'liquidity', 'transaction_count',
+  'created_at', 'buys', 'sells', 'buyers', 'sellers', 'buy_sell_ratio',
+] as const;
+
+export const tokenSortSchema = z.object({
+  field: z.enum(SORT_FIELDS),
+  direction: z.enum(['asc', 'desc']).default('desc'),
+  timePeriod: z.enum(TIME_PERIODS).optional(),
+});
+
+// volume for a time period, falls back to the headline volume if a source didn't report it
+export function volumeFor(token: Token, timePeriod: TimePeriod = '24h'): number {
+  switch (timePeriod) {
+    case '5m': return token.volume_5m || token.volume_usd;
+    case '1h': return token.volume_1hr || token.volume_usd;
+    case '6h': return token.volume_6hr || token.volume_usd;
+    case '7d': return token.volume_7d || token.volume_usd;
+    default: return token.volume_24hr || token.volume_usd;
+  }
+}
+
+export function priceChangeFor(token: Token, timePeriod: TimePeriod = '24h'): number {
+  switch (timePeriod) {
+    case '5m': return token.price_5m_change;
+    case '1h': return token.price_1hr_change;
+    case '6h': return token.price_6hr_change;
+    case '7d': return token.price_7d_change;
+    default: return token.price_24hr_change;
+  }
+}
+
+// does a single token pass the filter
+export function matchesFilter(token: Token, filter: TokenFilter): boolean {
+  // pick the right metrics based on time period
+  const volume = volumeFor(token, filter.timePeriod);
+
+  // apply filters
+  if (filter.minVolume !== undefined && volume < filter.minVolume) {
+    return false;
+  }
+  if (filter.maxVolume !== undefined && volume > filter.maxVolume) {
+    return false;
+  }
+  if (filter.minMarketCap !== undefined && token.market_cap_usd < filter.minMarketCap) {
+    return false;
+  }
+  if (filter.maxMarketCap !== undefined && token.market_cap_usd > filter.maxMarketCap) {
+    return false;
+  }
+  if (filter.minLiquidity !== undefined && token.liquidity_usd < filter.minLiquidity) {
+    return false;
+  }
+  if (filter.protocol && token.protocol.toLowerCase() !== filter.protocol.toLowerCase()) {
+    return false;
+  }
+  if (filter.chain && token.chain_id.toLowerCase() !== filter.chain.toLowerCase()) {
+    return false;
+  }
+  // unscored tokens don't pass a safety filter
+  if (filter.minSafetyScore !== undefined && (token.safety?.score ?? 0) < filter.minSafetyScore) {
+    return false;
+  }
+  if (filter.expression && !evaluateExpression(token, filter.expression)) {
+    return false;
+  }
+
+  // search filter
+  if (filter.search) {
+    const searchLower = filter.search.toLowerCase();
+    const name = (token.token_name || '').toLowerCase();
+    const ticker = (token.token_ticker || '').toLowerCase();
+    const address = (token.token_address || '').toLowerCase();
+    if (
+      !name.includes(searchLower) &&
+      !ticker.includes(searchLower) &&
+      !address.includes(searchLower)
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// filter tokens based on criteria
+export function applyFilters(tokens: Token[], filter: TokenFilter): Token[] {
+  return tokens.filter(token => matchesFilter(token, filter));
+}
+
+// sort tokens - a list of keys is a multi-key sort on raw fields
+export function applySorting(tokens: Token[], sort: TokenSort | SortKey[]): Token[] {
+  if (Array.isArray(sort)) return sortByKeys(tokens, sort);
+
+  const sorted = [...tokens];
+  const multiplier = sort.direction === 'desc' ? -1 : 1;
+  const timePeriod = sort.timePeriod || '24h';
+
+  // activity has no 7d window, fall back to 24h
+  const activityWindow: ActivityWindow = timePeriod === '7d' ? '24h' : timePeriod;
+
+  sorted.sort((a, b) => {
+    let valueA: number;
+    let valueB: number;
+
+    switch (sort.field) {
+      case 'volume':
+        valueA = volumeFor(a, timePeriod);
+        valueB = volumeFor(b, timePeriod);
+        break;
+      case 'price_change':
+        valueA = priceChangeFor(a, timePeriod);
+        valueB = priceChangeFor(b, timePeriod);
+        break;
+      case 'market_cap':
+        valueA = a.market_cap_usd;
+        valueB = b.market_cap_usd;
+        break;
+      case 'liquidity':
+        valueA = a.liquidity_usd;
+        valueB = b.liquidity_usd;
+        break;
+      case 'transaction_count':
+        valueA = a.transaction_count;
+        valueB = b.transaction_count;
+        break;
+      case 'created_at':
+        valueA = new Date(a.created_at).getTime();
+        valueB = new Date(b.created_at).getTime();
+        break;
+      case 'buys':
+      case 'sells':
+      case 'buyers':
+      case 'sellers':
+      case 'buy_sell_ratio':
+        valueA = activityValue(a, sort.field, activityWindow);
+        valueB = activityValue(b, sort.field, activityWindow);
+        break;
+      default:
+        valueA = volumeFor(a, timePeriod);
+        valueB = volumeFor(b, timePeriod);
+    }
+
+    return (valueA - valueB) * multiplier;
+  });
+
+  return sorted;
+}
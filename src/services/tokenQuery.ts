@@ -0,0 +1,413 @@
+import { z } from 'zod';
+import type {
+  ActivityWindow,
+  FilterComparison,
+  FilterExpression,
+  SortKey,
+  Token,
+} from '../types/index';
+
+type FieldKind = 'number' | 'string' | 'date' | 'other';
+
+// every Token field - Record<keyof Token> so a new field can't be forgotten here.
+// 'other' fields can be projected but not filtered or sorted on
+const TOKEN_FIELDS: Record<keyof Token, FieldKind> = {
+  token_address: 'string',
+  token_name: 'string',
+  token_ticker: 'string',
+  price_sol: 'number',
+  price_usd: 'number',
+  market_cap_sol: 'number',
+  market_cap_usd: 'number',
+  volume_sol: 'number',
+  volume_usd: 'number',
+  liquidity_sol: 'number',
+  liquidity_usd: 'number',
+  transaction_count: 'number',
+  price_5m_change: 'number',
+  price_1hr_change: 'number',
+  price_6hr_change: 'number',
+  price_24hr_change: 'number',
+  price_7d_change: 'number',
+  volume_5m: 'number',
+  volume_1hr: 'number',
+  volume_6hr: 'number',
+  volume_24hr: 'number',
+  volume_7d: 'number',
+  volume_7d_days: 'number',
+  protocol: 'string',
+  dex_id: 'string',
+  chain_id: 'string',
+  pair_address: 'string',
+  created_at: 'date',
+  last_updated: 'date',
+  sources: 'other',
+  field_sources: 'other',
+  image_url: 'other',
+  website: 'other',
+  socials: 'other',
+  mint_authority: 'other',
+  freeze_authority: 'other',
+  tags: 'other',
+  activity: 'other',
+  safety: 'other',
+};
+
+const ACTIVITY_WINDOWS: ActivityWindow[] = ['5m', '1h', '6h', '24h'];
+const ACTIVITY_FIELDS = ['buys', 'sells', 'buyers', 'sellers', 'buy_sell_ratio'];
+
+// nested numbers worth querying, addressed with dots
+const NESTED_FIELDS: Record<string, FieldKind> = {
+  'safety.score': 'number',
+  ...Object.fromEntries(
+    ACTIVITY_WINDOWS.flatMap(w => ACTIVITY_FIELDS.map(f => [`activity.${w}.${f}`, 'number' as FieldKind]))
+  ),
+};
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_DEPTH = 20;
+const MAX_SORT_KEYS = 5;
+
+export const PROJECTABLE_FIELDS = Object.keys(TOKEN_FIELDS) as (keyof Token)[];
+
+function fieldKind(field: string): FieldKind | undefined {
+  return (TOKEN_FIELDS as Record<string, FieldKind>)[field] ?? NESTED_FIELDS[field];
+}
+
+function isQueryable(field: string): boolean {
+  const kind = fieldKind(field);
+  return kind !== undefined && kind !== 'other';
+}
+
+export class QueryParseError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message} at position ${position}`);
+    this.name = 'QueryParseError';
+  }
+}
+
+interface Lexeme {
+  type: 'word' | 'string' | 'op' | '(' | ')' | ',';
+  text: string;
+  pos: number;
+}
+
+const OPERATORS: FilterComparison['cmp'][] = ['>=', '<=', '!=', '>', '<', '='];
+
+function tokenize(input: string): Lexeme[] {
+  const out: Lexeme[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')' || ch === ',') {
+      out.push({ type: ch, text: ch, pos: i });
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      const end = input.indexOf(ch, i + 1);
+      if (end === -1) throw new QueryParseError('Unterminated string', i);
+      out.push({ type: 'string', text: input.slice(i + 1, end), pos: i });
+      i = end + 1;
+    } else {
+      const op = OPERATORS.find(o => input.startsWith(o, i));
+      if (op) {
+        out.push({ type: 'op', text: op, pos: i });
+        i += op.length;
+        continue;
+      }
+
+      const match = /^[A-Za-z0-9_.:+-]+/.exec(input.slice(i));
+      if (!match) throw new QueryParseError(`Unexpected character "${ch}"`, i);
+      out.push({ type: 'word', text: match[0], pos: i });
+      i += match[0].length;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Recursive descent parser for the filter language
+ *
+ *   expr       := and ( OR and )*
+ *   and        := unary ( AND unary )*
+ *   unary      := NOT unary | '(' expr ')' | comparison
+ *   comparison := field op value | field [NOT] IN '(' value, ... ')'
+ *
+ * Keywords are case-insensitive. Fields and value types are checked here, so
+ * evaluation never has to deal with a malformed tree.
+ */
+class Parser {
+  private i = 0;
+
+  constructor(private lexemes: Lexeme[], private length: number) {}
+
+  parse(): FilterExpression {
+    if (this.lexemes.length === 0) throw new QueryParseError('Empty filter expression');
+    const expr = this.parseOr(0);
+    const extra = this.peek();
+    if (extra) throw new QueryParseError(`Unexpected "${extra.text}"`, extra.pos);
+    return expr;
+  }
+
+  private parseOr(depth: number): FilterExpression {
+    const args = [this.parseAnd(depth)];
+    while (this.isKeyword('OR')) {
+      this.i++;
+      args.push(this.parseAnd(depth));
+    }
+    return args.length === 1 ? args[0] : { op: 'or', args };
+  }
+
+  private parseAnd(depth: number): FilterExpression {
+    const args = [this.parseUnary(depth)];
+    while (this.isKeyword('AND')) {
+      this.i++;
+      args.push(this.parseUnary(depth));
+    }
+    return args.length === 1 ? args[0] : { op: 'and', args };
+  }
+
+  private parseUnary(depth: number): FilterExpression {
+    if (depth > MAX_DEPTH) throw new QueryParseError('Filter expression is nested too deeply');
+
+    if (this.isKeyword('NOT')) {
+      this.i++;
+      return { op: 'not', arg: this.parseUnary(depth + 1) };
+    }
+
+    if (this.peek()?.type === '(') {
+      this.i++;
+      const expr = this.parseOr(depth + 1);
+      this.expect(')');
+      return expr;
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FilterExpression {
+    const fieldLexeme = this.expect('word');
+    const field = fieldLexeme.text;
+    const kind = fieldKind(field);
+    if (!kind || kind === 'other') {
+      throw new QueryParseError(`Unknown filter field "${field}"`, fieldLexeme.pos);
+    }
+
+    let negate = false;
+    if (this.isKeyword('NOT')) {
+      this.i++;
+      negate = true;
+      if (!this.isKeyword('IN')) throw new QueryParseError('Expected IN after NOT', this.peek()?.pos ?? this.length);
+    }
+
+    if (this.isKeyword('IN')) {
+      this.i++;
+      this.expect('(');
+      const values = [this.parseValue(kind)];
+      while (this.peek()?.type === ',') {
+        this.i++;
+        values.push(this.parseValue(kind));
+      }
+      this.expect(')');
+      return { op: 'in', field, values, negate };
+    }
+
+    const op = this.expect('op').text as FilterComparison['cmp'];
+    if (kind === 'string' && op !== '=' && op !== '!=') {
+      throw new QueryParseError(`"${field}" only supports =, != and IN`, fieldLexeme.pos);
+    }
+
+    return { op: 'cmp', field, cmp: op, value: this.parseValue(kind) };
+  }
+
+  private parseValue(kind: FieldKind): string | number {
+    const lexeme = this.next();
+    if (!lexeme || (lexeme.type !== 'word' && lexeme.type !== 'string')) {
+      throw new QueryParseError('Expected a value', lexeme?.pos ?? this.length);
+    }
+
+    if (kind === 'number') {
+      const n = Number(lexeme.text);
+      if (lexeme.type === 'string' || lexeme.text === '' || !Number.isFinite(n)) {
+        throw new QueryParseError(`Expected a number, got "${lexeme.text}"`, lexeme.pos);
+      }
+      return n;
+    }
+
+    if (kind === 'date') {
+      const time = /^\d+$/.test(lexeme.text) ? Number(lexeme.text) : Date.parse(lexeme.text);
+      if (Number.isNaN(time)) throw new QueryParseError(`Expected a date, got "${lexeme.text}"`, lexeme.pos);
+      return time;
+    }
+
+    return lexeme.text;
+  }
+
+  private isKeyword(word: string): boolean {
+    const lexeme = this.peek();
+    return lexeme?.type === 'word' && lexeme.text.toUpperCase() === word;
+  }
+
+  private expect(type: Lexeme['type']): Lexeme {
+    const lexeme = this.next();
+    if (!lexeme || lexeme.type !== type) {
+      const what = type === 'word' ? 'a field name' : type === 'op' ? 'an operator' : `"${type}"`;
+      throw new QueryParseError(`Expected ${what}`, lexeme?.pos ?? this.length);
+    }
+    return lexeme;
+  }
+
+  private peek(): Lexeme | undefined {
+    return this.lexemes[this.i];
+  }
+
+  private next(): Lexeme | undefined {
+    return this.lexemes[this.i++];
+  }
+}
+
+export function parseFilterExpression(input: string): FilterExpression {
+  return new Parser(tokenize(input), input.length).parse();
+}
+
+// read a (possibly dotted) field off a token
+function readField(token: Token, field: string): unknown {
+  let value: unknown = token;
+  for (const part of field.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+// normalise to something comparable - dates become unix ms, strings lowercase
+function comparable(token: Token, field: string): string | number | undefined {
+  const value = readField(token, field);
+  if (value === undefined || value === null) return undefined;
+
+  switch (fieldKind(field)) {
+    case 'date': {
+      const time = new Date(String(value)).getTime();
+      return Number.isNaN(time) ? undefined : time;
+    }
+    case 'string':
+      return String(value).toLowerCase();
+    default:
+      return typeof value === 'number' ? value : undefined;
+  }
+}
+
+function normalise(value: string | number): string | number {
+  return typeof value === 'string' ? value.toLowerCase() : value;
+}
+
+export function evaluateExpression(token: Token, expr: FilterExpression): boolean {
+  switch (expr.op) {
+    case 'and':
+      return expr.args.every(arg => evaluateExpression(token, arg));
+    case 'or':
+      return expr.args.some(arg => evaluateExpression(token, arg));
+    case 'not':
+      return !evaluateExpression(token, expr.arg);
+    case 'in': {
+      const value = comparable(token, expr.field);
+      const hit = value !== undefined && expr.values.some(v => normalise(v) === value);
+      return expr.negate ? !hit : hit;
+    }
+    case 'cmp': {
+      const value = comparable(token, expr.field);
+      if (value === undefined) return expr.cmp === '!=';
+
+      const target = normalise(expr.value);
+      switch (expr.cmp) {
+        case '=': return value === target;
+        case '!=': return value !== target;
+        case '>': return value > target;
+        case '>=': return value >= target;
+        case '<': return value < target;
+        case '<=': return value <= target;
+      }
+    }
+  }
+}
+
+// sort on several fields in turn, missing values always last
+export function sortByKeys(tokens: Token[], keys: SortKey[]): Token[] {
+  return [...tokens].sort((a, b) => {
+    for (const key of keys) {
+      const va = comparable(a, key.field);
+      const vb = comparable(b, key.field);
+      if (va === vb) continue;
+      if (va === undefined) return 1;
+      if (vb === undefined) return -1;
+
+      const order = va < vb ? -1 : 1;
+      return key.direction === 'desc' ? -order : order;
+    }
+    return 0;
+  });
+}
+
+// keep only the requested top-level fields
+export function projectToken(token: Token, fields: (keyof Token)[]): Partial<Token> {
+  const out: Partial<Token> = {};
+  for (const field of fields) {
+    if (token[field] !== undefined) (out as Record<string, unknown>)[field] = token[field];
+  }
+  return out;
+}
+
+const commaList = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+export const filterExpressionSchema = z
+  .string()
+  .max(MAX_EXPRESSION_LENGTH)
+  .transform((input, ctx) => {
+    try {
+      return parseFilterExpression(input);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+      return z.NEVER;
+    }
+  });
+
+// "liquidity_usd:desc,price_1hr_change" - direction defaults to desc
+export const sortKeysSchema = z
+  .string()
+  .transform(commaList)
+  .pipe(
+    z.array(
+      z.string().transform((entry, ctx): SortKey => {
+        const [field, direction = 'desc'] = entry.split(':');
+        if (!isQueryable(field)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown sort field "${field}"` });
+        }
+        if (direction !== 'asc' && direction !== 'desc') {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Sort direction must be asc or desc, got "${direction}"` });
+        }
+        return { field, direction: direction as SortKey['direction'] };
+      })
+    ).min(1).max(MAX_SORT_KEYS)
+  );
+
+export const fieldsSchema = z
+  .string()
+  .transform(commaList)
+  .pipe(
+    z.array(
+      z.string().refine(f => (PROJECTABLE_FIELDS as string[]).includes(f), f => ({ message: `Unknown field "${f}"` }))
+    ).min(1)
+  )
+  .transform(fields => fields as (keyof Token)[]);
+
+export const tokenQuerySchema = z.object({
+  filter: filterExpressionSchema.optional(),
+  sort: sortKeysSchema.optional(),
+  fields: fieldsSchema.optional(),
+});
+
+export type TokenQuery = z.infer<typeof tokenQuerySchema>;
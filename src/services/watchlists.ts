@@ -0,0 +1,315 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import config, { isKnownChain, tokenKey } from '../config/index';
+import { getCache, ICache } from './cache';
+import { RecordStore } from './recordStore';
+import { logger } from '../utils/index';
+import type {
+  Portfolio,
+  PortfolioPosition,
+  PortfolioValuation,
+  PositionValuation,
+  Token,
+  TokenRef,
+  Watchlist,
+} from '../types/index';
+
+const WATCHLISTS_PREFIX = 'watchlists:list';
+const PORTFOLIOS_PREFIX = 'watchlists:portfolio';
+// where each collection was kept whole, before clustering
+const LEGACY_WATCHLISTS_KEY = 'watchlists:lists';
+const LEGACY_PORTFOLIOS_KEY = 'watchlists:portfolios';
+const MAX_ITEMS = 200; // tokens per watchlist / positions per portfolio
+
+const tokenRefSchema = z.object({
+  token_address: z.string().min(1),
+  chain_id: z.string().refine(isKnownChain, 'Unknown chain id').optional(),
+});
+
+const positionSchema = tokenRefSchema.extend({
+  quantity: z.number().positive(),
+  cost_basis_usd: z.number().min(0),
+});
+
+export const watchlistInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  tokens: z.array(tokenRefSchema).max(MAX_ITEMS).default([]),
+});
+
+export const watchlistUpdateSchema = watchlistInputSchema.partial();
+
+export const portfolioInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  positions: z.array(positionSchema).max(MAX_ITEMS).default([]),
+});
+
+export const portfolioUpdateSchema = portfolioInputSchema.partial();
+
+export type WatchlistInput = z.infer<typeof watchlistInputSchema>;
+export type WatchlistUpdate = z.infer<typeof watchlistUpdateSchema>;
+export type PortfolioInput = z.infer<typeof portfolioInputSchema>;
+export type PortfolioUpdate = z.infer<typeof portfolioUpdateSchema>;
+
+const round = (n: number) => Math.round(n * 1e6) / 1e6;
+
+/**
+ * WatchlistService - saved token sets and positions per API client
+ *
+ * Watchlists are named lists of tokens; portfolios add a quantity and total
+ * cost per token so PnL can be worked out against the live aggregated price.
+ * Both are persisted in the cache backend, one key each (see RecordStore).
+ * Entries without a chain_id are resolved to whichever chain the aggregator
+ * knows the address on.
+ */
+export class WatchlistService {
+  private watchlistStore: RecordStore<Watchlist>;
+  private portfolioStore: RecordStore<Portfolio>;
+  private watchlists: Map<string, Watchlist> = new Map();
+  private portfolios: Map<string, Portfolio> = new Map();
+
+  constructor(
+    private findToken: (address: string, chain?: string) => Token | undefined,
+    cache: ICache = getCache()
+  ) {
+    this.watchlistStore = new RecordStore(cache, WATCHLISTS_PREFIX, {
+      legacyKey: LEGACY_WATCHLISTS_KEY,
+      orderBy: 'created_at',
+    });
+    this.portfolioStore = new RecordStore(cache, PORTFOLIOS_PREFIX, {
+      legacyKey: LEGACY_PORTFOLIOS_KEY,
+      orderBy: 'created_at',
+    });
+  }
+
+  async load(): Promise<void> {
+    const [watchlists, portfolios] = await Promise.all([
+      this.watchlistStore.loadAll(),
+      this.portfolioStore.loadAll(),
+    ]);
+    this.watchlists = new Map(watchlists.map(w => [w.id, w]));
+    this.portfolios = new Map(portfolios.map(p => [p.id, p]));
+    logger.info(`Loaded ${this.watchlists.size} watchlists and ${this.portfolios.size} portfolios`);
+  }
+
+  // --- watchlists ---
+
+  listWatchlists(owner: string): Watchlist[] {
+    return Array.from(this.watchlists.values()).filter(w => w.owner === owner);
+  }
+
+  getWatchlist(owner: string, id: string): Watchlist | null {
+    const watchlist = this.watchlists.get(id);
+    return watchlist && watchlist.owner === owner ? watchlist : null;
+  }
+
+  async createWatchlist(owner: string, input: WatchlistInput): Promise<Watchlist> {
+    const now = new Date().toISOString();
+    const watchlist: Watchlist = {
+      id: uuidv4(),
+      owner,
+      name: input.name,
+      tokens: this.resolveRefs(input.tokens),
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.watchlists.set(watchlist.id, watchlist);
+    await this.watchlistStore.save(watchlist);
+    return watchlist;
+  }
+
+  async updateWatchlist(owner: string, id: string, input: WatchlistUpdate): Promise<Watchlist | null> {
+    const existing = this.getWatchlist(owner, id);
+    if (!existing) return null;
+
+    const updated: Watchlist = {
+      ...existing,
+      name: input.name ?? existing.name,
+      tokens: input.tokens ? this.resolveRefs(input.tokens) : existing.tokens,
+      updated_at: new Date().toISOString(),
+    };
+
+    this.watchlists.set(id, updated);
+    await this.watchlistStore.save(updated);
+    return updated;
+  }
+
+  async deleteWatchlist(owner: string, id: string): Promise<boolean> {
+    if (!this.getWatchlist(owner, id)) return false;
+
+    this.watchlists.delete(id);
+    await this.watchlistStore.remove(id);
+    return true;
+  }
+
+  // the watchlist's token refs, for the websocket subscription mode
+  resolveWatchlist(owner: string, id: string): TokenRef[] | null {
+    return this.getWatchlist(owner, id)?.tokens ?? null;
+  }
+
+  // current token data for a watchlist - tokens we aren't tracking are skipped
+  getWatchlistTokens(owner: string, id: string): { tokens: Token[]; missing: TokenRef[] } | null {
+    const watchlist = this.getWatchlist(owner, id);
+    if (!watchlist) return null;
+
+    const tokens: Token[] = [];
+    const missing: TokenRef[] = [];
+    for (const ref of watchlist.tokens) {
+      const token = this.findToken(ref.token_address, ref.chain_id);
+      if (token) tokens.push(token);
+      else missing.push(ref);
+    }
+    return { tokens, missing };
+  }
+
+  // --- portfolios ---
+
+  listPortfolios(owner: string): Portfolio[] {
+    return Array.from(this.portfolios.values()).filter(p => p.owner === owner);
+  }
+
+  getPortfolio(owner: string, id: string): Portfolio | null {
+    const portfolio = this.portfolios.get(id);
+    return portfolio && portfolio.owner === owner ? portfolio : null;
+  }
+
+  async createPortfolio(owner: string, input: PortfolioInput): Promise<Portfolio> {
+    const now = new Date().toISOString();
+    const portfolio: Portfolio = {
+      id: uuidv4(),
+      owner,
+      name: input.name,
+      positions: this.resolvePositions(input.positions),
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.portfolios.set(portfolio.id, portfolio);
+    await this.portfolioStore.save(portfolio);
+    return portfolio;
+  }
+
+  async updatePortfolio(owner: string, id: string, input: PortfolioUpdate): Promise<Portfolio | null> {
+    const existing = this.getPortfolio(owner, id);
+    if (!existing) return null;
+
+    const updated: Portfolio = {
+      ...existing,
+      name: input.name ?? existing.name,
+      positions: input.positions ? this.resolvePositions(input.positions) : existing.positions,
+      updated_at: new Date().toISOString(),
+    };
+
+    this.portfolios.set(id, updated);
+    await this.portfolioStore.save(updated);
+    return updated;
+  }
+
+  async deletePortfolio(owner: string, id: string): Promise<boolean> {
+    if (!this.getPortfolio(owner, id)) return false;
+
+    this.portfolios.delete(id);
+    await this.portfolioStore.remove(id);
+    return true;
+  }
+
+  // mark every position to the current aggregated price
+  valuePortfolio(owner: string, id: string): PortfolioValuation | null {
+    const portfolio = this.getPortfolio(owner, id);
+    if (!portfolio) return null;
+
+    let totalCost = 0;
+    let totalValue = 0;
+    let priced = 0;
+
+    const positions: PositionValuation[] = portfolio.positions.map(position => {
+      const token = this.findToken(position.token_address, position.chain_id);
+      if (!token || !(token.price_usd > 0)) {
+        return {
+          ...position,
+          token_ticker: token?.token_ticker ?? null,
+          price_usd: null,
+          value_usd: null,
+          pnl_usd: null,
+          pnl_percent: null,
+        };
+      }
+
+      const value = position.quantity * token.price_usd;
+      const pnl = value - position.cost_basis_usd;
+      totalCost += position.cost_basis_usd;
+      totalValue += value;
+      priced++;
+
+      return {
+        ...position,
+        token_ticker: token.token_ticker,
+        price_usd: token.price_usd,
+        value_usd: round(value),
+        pnl_usd: round(pnl),
+        pnl_percent: position.cost_basis_usd > 0 ? round((pnl / position.cost_basis_usd) * 100) : null,
+      };
+    });
+
+    const totalPnl = totalValue - totalCost;
+    return {
+      portfolio_id: portfolio.id,
+      name: portfolio.name,
+      positions,
+      total_cost_usd: round(totalCost),
+      total_value_usd: round(totalValue),
+      total_pnl_usd: round(totalPnl),
+      total_pnl_percent: totalCost > 0 ? round((totalPnl / totalCost) * 100) : null,
+      priced_positions: priced,
+      valued_at: new Date().toISOString(),
+    };
+  }
+
+  getStats(): { watchlists: number; portfolios: number } {
+    return { watchlists: this.watchlists.size, portfolios: this.portfolios.size };
+  }
+
+  // fill in missing chains and drop duplicates of the same token
+  private resolveRefs(refs: WatchlistInput['tokens']): TokenRef[] {
+    const seen = new Set<string>();
+    const resolved: TokenRef[] = [];
+
+    for (const ref of refs) {
+      const chainId = ref.chain_id ?? this.findToken(ref.token_address)?.chain_id ?? config.chains[0];
+      const key = tokenKey(chainId, ref.token_address);
+      if (seen.has(key)) continue;
+
+      seen.add(key);
+      resolved.push({ token_address: ref.token_address, chain_id: chainId });
+    }
+    return resolved;
+  }
+
+  // same token listed twice (e.g. two buys) is folded into one position
+  private resolvePositions(positions: PortfolioInput['positions']): PortfolioPosition[] {
+    const byKey = new Map<string, PortfolioPosition>();
+
+    for (const position of positions) {
+      const chainId = position.chain_id
+        ?? this.findToken(position.token_address)?.chain_id
+        ?? config.chains[0];
+      const key = tokenKey(chainId, position.token_address);
+      const existing = byKey.get(key);
+
+      if (existing) {
+        existing.quantity += position.quantity;
+        existing.cost_basis_usd += position.cost_basis_usd;
+      } else {
+        byKey.set(key, {
+          token_address: position.token_address,
+          chain_id: chainId,
+          quantity: position.quantity,
+          cost_basis_usd: position.cost_basis_usd,
+        });
+      }
+    }
+    return Array.from(byKey.values());
+  }
+}
+
+export default WatchlistService;
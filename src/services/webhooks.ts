@@ -0,0 +1,342 @@
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import config from '../config/index';
+import { getCache, ICache } from './cache';
+import { RecordStore } from './recordStore';
+import { matchesFilter, tokenFilterSchema } from './tokenFilters';
+import { withRetry, isRetryableUpstreamError, logger } from '../utils/index';
+import type { Token, WebhookDelivery, WebhookEndpoint, WebhookEvent } from '../types/index';
+
+const ENDPOINTS_PREFIX = 'webhooks:endpoint';
+const DEAD_LETTERS_PREFIX = 'webhooks:dead_letter';
+// where each list was kept whole, before clustering
+const LEGACY_ENDPOINTS_KEY = 'webhooks:endpoints';
+const LEGACY_DEAD_LETTERS_KEY = 'webhooks:dead_letters';
+const MAX_LOG_PER_ENDPOINT = 100;
+const MAX_DEAD_LETTERS = 500;
+
+export const WEBHOOK_EVENTS = ['new_token', 'price_update', 'volume_spike', 'alert_triggered'] as const;
+
+export const webhookInputSchema = z.object({
+  url: z.string().url().refine(u => /^https?:\/\//.test(u), 'Must be an http(s) URL'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  filter: tokenFilterSchema.optional(),
+  secret: z.string().min(16).optional(), // generated if not given
+  enabled: z.boolean().default(true),
+});
+
+export type WebhookInput = z.infer<typeof webhookInputSchema>;
+
+export class WebhookUrlError extends Error {
+  readonly code = 'INVALID_WEBHOOK_URL';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+// loopback, RFC1918, link-local (cloud metadata lives at 169.254.169.254),
+// CGNAT, multicast and reserved - nothing a webhook should reach
+const PRIVATE_RANGES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_RANGES.addSubnet(address, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address); // ipv4 dressed up as ipv6
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 0) return true; // not an address at all
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// every address the host resolves to has to be public, else WebhookUrlError.
+// a lookup that fails rejects with the dns error, the caller decides what that means
+export async function assertPublicUrl(url: string): Promise<void> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.promises.lookup(host, { all: true, verbatim: true })).map(a => a.address);
+
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new WebhookUrlError(`${host} resolves to ${blocked}, webhooks can only call public addresses`);
+  }
+}
+
+// our own refusals and 4xx answers won't change on a retry
+function isRetryableDelivery(error: Error): boolean {
+  return !(error instanceof WebhookUrlError) && isRetryableUpstreamError(error);
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>" - receivers recompute this to verify
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// never hand the full secret back after creation
+function redact(endpoint: WebhookEndpoint): WebhookEndpoint {
+  return { ...endpoint, secret: `${endpoint.secret.slice(0, 4)}...` };
+}
+
+/**
+ * WebhookService - pushes aggregator events to registered HTTP endpoints
+ *
+ * Each delivery is signed, retried with backoff via withRetry, and logged.
+ * Deliveries that run out of retries land in the dead-letter list where
+ * they can be inspected and replayed. Endpoints and dead letters are
+ * persisted in the cache backend, one key each (see RecordStore); the
+ * per-endpoint log is in memory only.
+ */
+export class WebhookService {
+  private endpointStore: RecordStore<WebhookEndpoint>;
+  private deadLetterStore: RecordStore<WebhookDelivery>;
+  private http: AxiosInstance;
+  private endpoints: Map<string, WebhookEndpoint> = new Map();
+  private deliveryLog: Map<string, WebhookDelivery[]> = new Map();
+  private deadLetters: WebhookDelivery[] = [];
+  private inFlight: Set<Promise<void>> = new Set();
+
+  constructor(
+    private findToken: (address: string, chain?: string) => Token | undefined,
+    cache: ICache = getCache(),
+    http: AxiosInstance = axios.create({ timeout: config.webhookTimeout, maxRedirects: 0 }) // a redirect could point anywhere
+  ) {
+    this.endpointStore = new RecordStore(cache, ENDPOINTS_PREFIX, {
+      legacyKey: LEGACY_ENDPOINTS_KEY,
+      orderBy: 'created_at',
+    });
+    this.deadLetterStore = new RecordStore(cache, DEAD_LETTERS_PREFIX, {
+      legacyKey: LEGACY_DEAD_LETTERS_KEY,
+      orderBy: 'created_at',
+    });
+    this.http = http;
+  }
+
+  async load(): Promise<void> {
+    const [endpoints, deadLetters] = await Promise.all([
+      this.endpointStore.loadAll(),
+      this.deadLetterStore.loadAll(),
+    ]);
+    this.endpoints = new Map(endpoints.map(e => [e.id, e]));
+    this.deadLetters = deadLetters;
+    logger.info(`Loaded ${this.endpoints.size} webhooks`);
+  }
+
+  list(owner: string): WebhookEndpoint[] {
+    return Array.from(this.endpoints.values())
+      .filter(e => e.owner === owner)
+      .map(redact);
+  }
+
+  get(owner: string, id: string): WebhookEndpoint | null {
+    const endpoint = this.endpoints.get(id);
+    return endpoint && endpoint.owner === owner ? redact(endpoint) : null;
+  }
+
+  count(owner: string): number {
+    return this.list(owner).length;
+  }
+
+  // returns the endpoint with its full secret - the only time it's shown.
+  // throws WebhookUrlError for a private address. a host that doesn't resolve
+  // yet is let in, every delivery checks again
+  async create(owner: string, input: WebhookInput): Promise<WebhookEndpoint> {
+    await this.checkUrl(input.url).catch(error => {
+      if (error instanceof WebhookUrlError) throw error;
+    });
+
+    const endpoint: WebhookEndpoint = {
+      id: uuidv4(),
+      owner,
+      url: input.url,
+      events: input.events,
+      filter: input.filter,
+      secret: input.secret || crypto.randomBytes(32).toString('hex'),
+      enabled: input.enabled,
+      created_at: new Date().toISOString(),
+    };
+
+    this.endpoints.set(endpoint.id, endpoint);
+    await this.endpointStore.save(endpoint);
+    return endpoint;
+  }
+
+  async delete(owner: string, id: string): Promise<boolean> {
+    if (!this.get(owner, id)) return false;
+
+    this.endpoints.delete(id);
+    this.deliveryLog.delete(id);
+    await this.endpointStore.remove(id);
+    return true;
+  }
+
+  getDeliveries(owner: string, id: string): WebhookDelivery[] | null {
+    if (!this.get(owner, id)) return null;
+    return [...(this.deliveryLog.get(id) || [])].reverse(); // newest first
+  }
+
+  getDeadLetters(owner: string): WebhookDelivery[] {
+    const mine = new Set(this.list(owner).map(e => e.id));
+    return this.deadLetters.filter(d => mine.has(d.webhook_id));
+  }
+
+  // replay a dead letter - it leaves the list and goes through delivery again
+  async redeliver(owner: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const index = this.deadLetters.findIndex(d => d.id === deliveryId);
+    if (index === -1) return null;
+
+    const dead = this.deadLetters[index];
+    const endpoint = this.endpoints.get(dead.webhook_id);
+    if (!endpoint || endpoint.owner !== owner) return null;
+
+    this.deadLetters.splice(index, 1);
+    await this.deadLetterStore.remove(dead.id);
+    return this.enqueue(endpoint, dead.event, dead.payload);
+  }
+
+  // fan an aggregator event out to every interested endpoint
+  dispatch(event: WebhookEvent, data: unknown): void {
+    for (const endpoint of this.endpoints.values()) {
+      if (!endpoint.enabled || !endpoint.events.includes(event)) continue;
+      if (!this.wants(endpoint, event, data)) continue;
+
+      this.enqueue(endpoint, event, data);
+    }
+  }
+
+  // wait for in-flight deliveries (shutdown, tests)
+  async flush(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled(Array.from(this.inFlight));
+    }
+  }
+
+  private wants(endpoint: WebhookEndpoint, event: WebhookEvent, data: unknown): boolean {
+    const payload = data as { token_address?: string; chain_id?: string; owner?: string };
+
+    // alerts are private to whoever owns the rule
+    if (event === 'alert_triggered' && payload.owner !== endpoint.owner) {
+      return false;
+    }
+
+    if (!endpoint.filter) return true;
+
+    const token = event === 'new_token'
+      ? (data as Token)
+      : payload.token_address ? this.findToken(payload.token_address, payload.chain_id) : undefined;
+
+    return token ? matchesFilter(token, endpoint.filter) : false;
+  }
+
+  private enqueue(endpoint: WebhookEndpoint, event: WebhookEvent, data: unknown): WebhookDelivery {
+    const delivery: WebhookDelivery = {
+      id: uuidv4(),
+      webhook_id: endpoint.id,
+      event,
+      status: 'pending',
+      attempts: 0,
+      response_status: null,
+      error: null,
+      payload: data,
+      created_at: new Date().toISOString(),
+      completed_at: null,
+    };
+
+    this.logDelivery(delivery);
+
+    const task = this.deliver(endpoint, delivery).finally(() => this.inFlight.delete(task));
+    this.inFlight.add(task);
+
+    return delivery;
+  }
+
+  private async deliver(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<void> {
+    const body = JSON.stringify({
+      id: delivery.id,
+      webhook_id: endpoint.id,
+      event: delivery.event,
+      data: delivery.payload,
+      timestamp: delivery.created_at,
+    });
+
+    try {
+      await withRetry(
+        async () => {
+          delivery.attempts++;
+          await this.checkUrl(endpoint.url); // dns can change after create
+          const timestamp = Date.now().toString();
+          const res = await this.http.post(endpoint.url, body, {
+            headers: {
+              'Content-Type': 'application/json',
+              'User-Agent': 'MemeCoinAggregator-Webhooks/1.0',
+              'X-Webhook-Id': endpoint.id,
+              'X-Webhook-Event': delivery.event,
+              'X-Webhook-Delivery': delivery.id,
+              'X-Webhook-Timestamp': timestamp,
+              'X-Webhook-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+            },
+          });
+          delivery.response_status = res.status;
+        },
+        {
+          maxRetries: config.webhookMaxRetries,
+          baseDelay: config.webhookRetryBaseDelay,
+          jitter: config.webhookRetryBaseDelay,
+          shouldRetry: isRetryableDelivery,
+          onRetry: (err) => {
+            delivery.error = err.message;
+            logger.debug(`Webhook ${endpoint.id} attempt ${delivery.attempts} failed: ${err.message}`);
+          },
+        }
+      );
+
+      delivery.status = 'delivered';
+      delivery.error = null;
+      delivery.completed_at = new Date().toISOString();
+    } catch (error) {
+      delivery.status = 'failed';
+      delivery.completed_at = new Date().toISOString();
+      delivery.error = error instanceof Error ? error.message : String(error);
+      delivery.response_status = axios.isAxiosError(error) ? error.response?.status ?? null : null;
+
+      logger.warn(`Webhook ${endpoint.id} dead-lettered after ${delivery.attempts} attempts: ${delivery.error}`);
+      this.deadLetters.push(delivery);
+      await this.deadLetterStore.save(delivery);
+      if (this.deadLetters.length > MAX_DEAD_LETTERS) await this.deadLetterStore.remove(this.deadLetters.shift()!.id);
+    }
+  }
+
+  private async checkUrl(url: string): Promise<void> {
+    if (!config.webhookAllowPrivateUrls) await assertPublicUrl(url);
+  }
+
+  private logDelivery(delivery: WebhookDelivery): void {
+    const log = this.deliveryLog.get(delivery.webhook_id) || [];
+    log.push(delivery);
+    if (log.length > MAX_LOG_PER_ENDPOINT) log.shift();
+    this.deliveryLog.set(delivery.webhook_id, log);
+  }
+
+  getStats(): { endpoints: number; inFlight: number; deadLetters: number } {
+    return {
+      endpoints: this.endpoints.size,
+      inFlight: this.inFlight.size,
+      deadLetters: this.deadLetters.length,
+    };
+  }
+}
+
+export default WebhookService;
@@ -1,4 +1,6 @@
-// Token data - the main thing we work with
+// Token data - the main thing we work with. Tokens are identified by
+// chain_id + token_address. The *_sol fields are denominated in the chain's
+// native asset (SOL, ETH, BNB) - the names predate multi-chain support.
 export interface Token {
   token_address: string;
   token_name: string;
@@ -12,12 +14,17 @@ export interface Token {
   liquidity_sol: number;
   liquidity_usd: number;
   transaction_count: number;
+  price_5m_change: number;
   price_1hr_change: number;
+  price_6hr_change: number;
   price_24hr_change: number;
-  price_7d_change: number;
+  price_7d_change: number; // from our own history, upstreams don't have 7d
+  volume_5m: number;
   volume_1hr: number;
+  volume_6hr: number;
   volume_24hr: number;
-  volume_7d: number;
+  volume_7d: number; // from our own history, scaled up to a week while it's shorter
+  volume_7d_days?: number; // days of history behind volume_7d
   protocol: string;
   dex_id: string;
   chain_id: string;
@@ -25,9 +32,76 @@ export interface Token {
   created_at: string;
   last_updated: string;
   sources: string[];
+  field_sources?: Record<string, string[]>; // which source(s) each merged value came from
   image_url?: string;
   website?: string;
   socials?: TokenSocials;
+  // raw risk inputs - authorities are solana-only and come from jupiter,
+  // null means revoked, undefined means nobody told us
+  mint_authority?: string | null;
+  freeze_authority?: string | null;
+  tags?: string[];
+  activity?: TokenActivity; // order flow per window, from the deepest pool
+  safety?: TokenSafety; // computed after merge, see services/safety.ts
+}
+
+export type ActivityWindow = '5m' | '1h' | '6h' | '24h';
+
+export interface WindowActivity {
+  buys: number;
+  sells: number;
+  buyers: number | null; // unique wallets - only geckoterminal reports these
+  sellers: number | null;
+  buy_sell_ratio: number; // buys / sells, sells floored at 1 so all-buy windows still rank
+}
+
+// dexscreener has no unique traders, geckoterminal has no 6h window
+export type TokenActivity = Partial<Record<ActivityWindow, WindowActivity>>;
+
+export type SafetyFlag =
+  | 'mint_authority'
+  | 'freeze_authority'
+  | 'thin_liquidity'
+  | 'low_liquidity'
+  | 'new_pool'
+  | 'young_pool'
+  | 'one_sided_buys'
+  | 'heavy_selling'
+  | 'few_trades';
+
+export interface TokenSafety {
+  score: number; // 0-100, higher is safer
+  mint_authority: boolean | null; // null = unknown
+  freeze_authority: boolean | null;
+  liquidity_to_mcap: number | null;
+  pool_age_hours: number | null;
+  buy_ratio: number | null; // buys / (buys + sells) over 24h
+  verified: boolean; // jupiter verified/strict tag
+  flags: SafetyFlag[];
+}
+
+// One pool a token trades in - a token can have many
+export interface Pair {
+  pair_address: string;
+  token_address: string; // base token
+  chain_id: string;
+  dex_id: string;
+  quote_token: {
+    address: string;
+    symbol: string;
+  };
+  price_usd: number;
+  price_native: number; // base price in quote token
+  liquidity_usd: number;
+  volume_1hr: number;
+  volume_24hr: number;
+  price_1hr_change: number;
+  price_24hr_change: number;
+  transaction_count: number;
+  created_at: string;
+  last_updated: string;
+  source: string;
+  url?: string;
 }
 
 export interface TokenSocials {
@@ -100,18 +174,20 @@ export interface JupiterToken {
   logoURI?: string;
   tags?: string[];
   daily_volume?: number;
-  freeze_authority?: string;
-  mint_authority?: string;
+  freeze_authority?: string | null;
+  mint_authority?: string | null;
 }
 
+// Price API v3 - keyed by mint, mints it has no price for are left out
 export interface JupiterPriceData {
-  id: string;
-  mintSymbol: string;
-  vsToken: string;
-  vsTokenSymbol: string;
-  price: number;
+  usdPrice: number;
+  blockId: number;
+  decimals: number;
+  priceChange24h?: number;
 }
 
+export type JupiterPriceResponse = Record<string, JupiterPriceData | null>;
+
 // GeckoTerminal API types
 export interface GeckoTerminalPool {
   id: string;
@@ -170,8 +246,42 @@ export interface GeckoTerminalResponse {
 }
 
 // Query params
+// compact search hit for autocomplete
+export interface TokenSuggestion {
+  token_address: string;
+  chain_id: string;
+  token_name: string;
+  token_ticker: string;
+  image_url?: string;
+  price_usd: number;
+  liquidity_usd: number;
+  score: number; // relevance, higher is better
+}
+
+export type TimePeriod = '5m' | '1h' | '6h' | '24h' | '7d';
+
+// parsed filter expression, see services/tokenQuery.ts for the grammar
+export interface FilterComparison {
+  op: 'cmp';
+  field: string; // Token field, dotted for nested (safety.score, activity.1h.buys)
+  cmp: '>' | '>=' | '<' | '<=' | '=' | '!=';
+  value: number | string; // dates are unix ms
+}
+
+export type FilterExpression =
+  | { op: 'and' | 'or'; args: FilterExpression[] }
+  | { op: 'not'; arg: FilterExpression }
+  | { op: 'in'; field: string; values: (number | string)[]; negate: boolean }
+  | FilterComparison;
+
+// one key of a multi-key sort
+export interface SortKey {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
 export interface TokenFilter {
-  timePeriod?: '1h' | '24h' | '7d';
+  timePeriod?: TimePeriod;
   minVolume?: number;
   maxVolume?: number;
   minMarketCap?: number;
@@ -180,12 +290,25 @@ export interface TokenFilter {
   protocol?: string;
   chain?: string;
   search?: string;
+  minSafetyScore?: number;
+  expression?: FilterExpression;
 }
 
 export interface TokenSort {
-  field: 'volume' | 'price_change' | 'market_cap' | 'liquidity' | 'transaction_count' | 'created_at';
+  field:
+    | 'volume'
+    | 'price_change'
+    | 'market_cap'
+    | 'liquidity'
+    | 'transaction_count'
+    | 'created_at'
+    | 'buys'
+    | 'sells'
+    | 'buyers'
+    | 'sellers'
+    | 'buy_sell_ratio';
   direction: 'asc' | 'desc';
-  timePeriod?: '1h' | '24h' | '7d';
+  timePeriod?: TimePeriod;
 }
 
 export interface PaginationOptions {
@@ -220,24 +343,63 @@ export enum WebSocketEventType {
   CONNECTED = 'connected',
   SUBSCRIBED = 'subscribed',
   UNSUBSCRIBED = 'unsubscribed',
+  ALERT_TRIGGERED = 'alert_triggered',
+  ENTERED = 'entered',
+  LEFT = 'left',
 }
 
 export interface WebSocketMessage<T = unknown> {
   event: WebSocketEventType;
   data: T;
   timestamp: string;
+  subscription?: string; // id of the subscription a routed event is for
 }
 
+// what the acknowledgement callback of a client message gets
+export type WebSocketAck<T = Record<string, unknown>> =
+  | { ok: true; data?: T }
+  | { ok: false; error: { code: string; message: string; details?: unknown } };
+
 export interface PriceUpdateData {
   token_address: string;
+  chain_id: string;
   old_price: number;
   new_price: number;
   price_change_percent: number;
   volume_24hr: number;
 }
 
+// batch_update carries either everything the client's subscription covers or
+// only what changed since its previous batch_update. seq goes up by one per
+// batch_update on a connection - a gap means one was missed, emit 'resync'
+export interface TokenDelta {
+  token_address: string;
+  chain_id: string;
+  changes: Partial<Token>; // every field for a token the client hasn't been sent yet
+}
+
+export type BatchUpdateData =
+  | { type: 'snapshot'; seq: number; tokens: Token[]; count: number }
+  | {
+      type: 'delta';
+      seq: number;
+      updates: TokenDelta[];
+      removed: TokenRef[];
+      count: number;
+      order?: TokenRef[]; // sorted subscriptions only, the whole window whenever its order changed
+    };
+
+// a token moved into (entered) or out of (left) a sorted subscription's window
+export interface RankChangeData {
+  token_address: string;
+  chain_id: string;
+  rank: number; // 1-based - the new rank on entered, the last one on left
+  token?: Token; // entered only
+}
+
 export interface VolumeSpikeData {
   token_address: string;
+  chain_id: string;
   token_ticker: string;
   volume_change_percent: number;
   current_volume: number;
@@ -245,6 +407,210 @@ export interface VolumeSpikeData {
   time_window: string;
 }
 
+// Alerts - user-defined triggers evaluated after every refresh
+// chain_id narrows a rule to one chain, omit to match the address on any chain
+export type AlertCondition =
+  | {
+    type: 'price_cross';
+    token_address: string;
+    chain_id?: string;
+    threshold: number;
+    direction: 'above' | 'below';
+  }
+  | {
+    type: 'price_change';
+    token_address?: string; // omit to watch every token
+    chain_id?: string;
+    window: '1h' | '24h';
+    threshold_percent: number;
+    direction: 'up' | 'down' | 'either';
+  }
+  | {
+    type: 'liquidity_drop';
+    token_address: string;
+    chain_id?: string;
+    percent: number;
+    window_minutes: number;
+  };
+
+export interface AlertRule {
+  id: string;
+  owner: string;
+  name: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  cooldown_seconds: number;
+  created_at: string;
+  updated_at: string;
+  last_triggered_at: string | null;
+}
+
+export interface AlertTriggeredData {
+  rule_id: string;
+  rule_name: string;
+  owner: string;
+  token_address: string;
+  chain_id: string;
+  token_ticker: string;
+  condition: AlertCondition;
+  value: number; // the number that tripped the rule
+  message: string;
+  triggered_at: string;
+}
+
+// Native asset pricing - one per chain, see PriceOracle
+export interface NativePriceQuote {
+  source: string;
+  price_usd: number;
+  fetched_at: string;
+  used: boolean; // false if it was rejected as an outlier
+}
+
+export interface NativePrice {
+  chain: string;
+  symbol: string;
+  price_usd: number;
+  method: 'median' | 'single' | 'fallback';
+  quotes: NativePriceQuote[]; // from the last refresh that produced a price
+  updated_at: string | null;
+  age_ms: number | null;
+  stale: boolean;
+}
+
+// Watchlists and portfolios - saved token sets per client
+export interface TokenRef {
+  token_address: string;
+  chain_id: string;
+}
+
+export interface Watchlist {
+  id: string;
+  owner: string;
+  name: string;
+  tokens: TokenRef[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PortfolioPosition extends TokenRef {
+  quantity: number;
+  cost_basis_usd: number; // total paid for the position, not per unit
+}
+
+export interface Portfolio {
+  id: string;
+  owner: string;
+  name: string;
+  positions: PortfolioPosition[];
+  created_at: string;
+  updated_at: string;
+}
+
+// price fields are null for tokens we aren't tracking (yet)
+export interface PositionValuation extends PortfolioPosition {
+  token_ticker: string | null;
+  price_usd: number | null;
+  value_usd: number | null;
+  pnl_usd: number | null;
+  pnl_percent: number | null;
+}
+
+export interface PortfolioValuation {
+  portfolio_id: string;
+  name: string;
+  positions: PositionValuation[];
+  total_cost_usd: number; // priced positions only, so totals stay comparable
+  total_value_usd: number;
+  total_pnl_usd: number;
+  total_pnl_percent: number | null;
+  priced_positions: number;
+  valued_at: string;
+}
+
+// Webhooks - outbound HTTP delivery of aggregator events
+export type WebhookEvent = 'new_token' | 'price_update' | 'volume_spike' | 'alert_triggered';
+
+export interface WebhookEndpoint {
+  id: string;
+  owner: string;
+  url: string;
+  events: WebhookEvent[];
+  filter?: TokenFilter; // only deliver events for tokens that match
+  secret: string; // HMAC key, only shown in full on create
+  enabled: boolean;
+  created_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: WebhookEvent;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  payload: unknown;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// API keys - issued by an admin, only the hash is stored
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string; // first characters of the key so people can tell theirs apart
+  owner: string; // client id the key acts as for alerts, webhooks, watchlists...
+  rate_limit_per_minute: number;
+  daily_quota: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ApiKeyUsage {
+  rate_limit: number;
+  rate_remaining: number;
+  rate_reset: number; // unix seconds
+  daily_quota: number;
+  quota_remaining: number;
+  quota_reset: number; // unix seconds, next UTC midnight
+}
+
+// Admin audit log - one entry per admin action
+export interface AuditEntry {
+  id: string;
+  action: string; // e.g. 'source.disable', 'cache.flush'
+  target: string | null; // what it was done to - job name, source, cache pattern...
+  actor: string; // X-Admin-Actor if sent, 'admin' otherwise
+  ip: string | null;
+  details: Record<string, unknown>;
+  timestamp: string;
+}
+
+// Price history
+export type CandleInterval = '1m' | '5m' | '1h';
+
+// one point in a token's history - recorded after every refresh
+export interface TokenSnapshot {
+  timestamp: number; // unix ms
+  price_usd: number;
+  volume_24hr: number;
+  liquidity_usd: number;
+  market_cap_usd: number;
+}
+
+// OHLCV candle built from snapshots
+export interface Candle {
+  open_time: number; // unix ms, start of the bucket
+  close_time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  samples: number;
+}
+
 // Cache
 export interface CacheEntry<T> {
   data: T;
@@ -291,12 +657,11 @@ export interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
   uptime: number;
   timestamp: string;
+  // redis + websocket, plus one entry per registered data source
   services: {
     redis: ServiceStatus;
-    dexscreener: ServiceStatus;
-    jupiter: ServiceStatus;
-    geckoterminal: ServiceStatus;
     websocket: ServiceStatus;
+    [source: string]: ServiceStatus;
   };
   stats: {
     total_tokens: number;
@@ -312,3 +677,17 @@ export interface ServiceStatus {
   last_check: string;
   error?: string;
 }
+
+// Circuit breaker state for one upstream API
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface SourceHealth {
+  state: CircuitState;
+  consecutive_failures: number;
+  last_success: string | null;
+  last_error: string | null;
+  last_error_message: string | null;
+  latency_ms: number | null; // last successful request
+  avg_latency_ms: number | null; // moving average over successful requests
+  open_until: string | null; // when an open circuit lets a probe request through
+}
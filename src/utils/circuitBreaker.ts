@@ -0,0 +1,152 @@
+import logger from './logger';
+import { metrics } from './metrics';
+import type { CircuitState, SourceHealth } from '../types/index';
+
+const LATENCY_SMOOTHING = 0.2; // weight of the newest sample in the moving average
+const STATE_VALUES: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+
+// latest breaker per name, read at scrape time
+const breakers = new Map<string, CircuitBreaker>();
+
+metrics.gauge('upstream_circuit_state', 'Upstream circuit breaker state (0 closed, 1 half open, 2 open)', ['source'], () =>
+  Array.from(breakers.entries()).map(([name, breaker]) => ({
+    labels: { source: name },
+    value: STATE_VALUES[breaker.getState()],
+  }))
+);
+
+export class CircuitOpenError extends Error {
+  readonly code = 'CIRCUIT_OPEN';
+
+  constructor(public source: string, public retryAt: Date) {
+    super(`${source} circuit is open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// 4xx (other than timeouts and rate limits) means the upstream answered fine,
+// we just asked for something it doesn't have - that's not an outage
+export function isUpstreamFailure(error: unknown): boolean {
+  const status = (error as { response?: { status?: number } })?.response?.status;
+  if (!status) return true;
+  return status >= 500 || status === 408 || status === 429;
+}
+
+// worth another attempt - not while the circuit is open, and not for a 404
+export function isRetryableUpstreamError(error: unknown): boolean {
+  return !(error instanceof CircuitOpenError) && isUpstreamFailure(error);
+}
+
+/**
+ * CircuitBreaker - stops calling an upstream that keeps failing
+ *
+ * After `failureThreshold` failures in a row the circuit opens and every call
+ * fails fast with CircuitOpenError for `cooldownMs`. Then one probe request is
+ * let through (half open): success closes the circuit, failure opens it for
+ * another cooldown. Also keeps the last success/error and latency so health
+ * checks report what actually happened instead of guessing.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openUntil = 0;
+  private probing = false;
+  private lastSuccess: number | null = null;
+  private lastError: number | null = null;
+  private lastErrorMessage: string | null = null;
+  private latency: number | null = null;
+  private avgLatency: number | null = null;
+
+  constructor(
+    private name: string,
+    private opts: {
+      failureThreshold: number;
+      cooldownMs: number;
+      isFailure?: (error: unknown) => boolean;
+    }
+  ) {
+    breakers.set(name, this);
+  }
+
+  // throws while the circuit is open - lets callers bail before queueing for a rate limit token
+  check(): void {
+    if (this.state === 'open' && Date.now() >= this.openUntil) {
+      this.state = 'half_open';
+      logger.info(`[${this.name}] circuit half open, probing`);
+    }
+    if (this.state === 'open' || (this.state === 'half_open' && this.probing)) {
+      throw new CircuitOpenError(this.name, new Date(this.openUntil));
+    }
+  }
+
+  async exec<T>(fn: () => Promise<T>): Promise<T> {
+    this.check();
+
+    const probe = this.state === 'half_open';
+    if (probe) this.probing = true;
+    const start = Date.now();
+
+    try {
+      const result = await fn();
+      this.onSuccess(Date.now() - start, probe);
+      return result;
+    } catch (error) {
+      const isFailure = this.opts.isFailure ?? isUpstreamFailure;
+      if (isFailure(error)) this.onFailure(error, probe);
+      else this.onSuccess(Date.now() - start, probe); // upstream is up, it just said no
+      throw error;
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getHealth(): SourceHealth {
+    const iso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+    return {
+      state: this.state,
+      consecutive_failures: this.failures,
+      last_success: iso(this.lastSuccess),
+      last_error: iso(this.lastError),
+      last_error_message: this.lastErrorMessage,
+      latency_ms: this.latency,
+      avg_latency_ms: this.avgLatency === null ? null : Math.round(this.avgLatency),
+      open_until: this.state === 'closed' ? null : iso(this.openUntil),
+    };
+  }
+
+  // once the circuit has opened only the probe decides what happens next -
+  // requests that were already in flight when it opened don't count either way
+
+  private onSuccess(latency: number, probe: boolean): void {
+    this.lastSuccess = Date.now();
+    this.latency = latency;
+    this.avgLatency = this.avgLatency === null
+      ? latency
+      : this.avgLatency + LATENCY_SMOOTHING * (latency - this.avgLatency);
+    if (this.state !== 'closed' && !probe) return;
+
+    if (this.state !== 'closed') logger.info(`[${this.name}] circuit closed`);
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  private onFailure(error: unknown, probe: boolean): void {
+    this.failures++;
+    this.lastError = Date.now();
+    this.lastErrorMessage = error instanceof Error ? error.message : String(error);
+    if (this.state !== 'closed' && !probe) return;
+
+    // a failed probe re-opens straight away, otherwise wait for the threshold
+    if (probe || this.failures >= this.opts.failureThreshold) {
+      this.state = 'open';
+      this.openUntil = Date.now() + this.opts.cooldownMs;
+      logger.warn(`[${this.name}] circuit open for ${this.opts.cooldownMs}ms after ${this.failures} failures`);
+    }
+  }
+}
+
+export default CircuitBreaker;
@@ -1,2 +1,17 @@
-export { logger } from './logger';
+export { logger, setLogLevel, LOG_LEVELS, type LogLevel } from './logger';
 export { RateLimiter, withRetry } from './rateLimiter';
+export { CircuitBreaker, CircuitOpenError, isUpstreamFailure, isRetryableUpstreamError } from './circuitBreaker';
+export {
+  metrics,
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  trackUpstream,
+  httpRequestDuration,
+  refreshDuration,
+  refreshes,
+  wsMessages,
+  type Sample,
+} from './metrics';
+export { toJsonSchema, type JsonSchema } from './jsonSchema';
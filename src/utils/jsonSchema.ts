@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+// just enough zod -> JSON Schema (draft-07) for the schemas we publish.
+// Refinements and transforms can't be expressed, so the input side is
+// described and anything unsupported comes out as {} (any value)
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const out = convert(schema);
+  return schema.description ? { description: schema.description, ...out } : out;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const out: JsonSchema = { type: 'string' };
+      for (const check of (schema as z.ZodString)._def.checks) {
+        if (check.kind === 'min') out.minLength = check.value;
+        if (check.kind === 'max') out.maxLength = check.value;
+        if (check.kind === 'datetime') out.format = 'date-time';
+        if (check.kind === 'url') out.format = 'uri';
+      }
+      return out;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const out: JsonSchema = { type: 'number' };
+      for (const check of (schema as z.ZodNumber)._def.checks) {
+        if (check.kind === 'int') out.type = 'integer';
+        if (check.kind === 'min') out[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        if (check.kind === 'max') out[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return out;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values };
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const out: JsonSchema = { type: 'array', items: toJsonSchema(def.type) };
+      if (def.minLength) out.minItems = def.minLength.value;
+      if (def.maxLength) out.maxItems = def.maxLength.value;
+      return out;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+
+      const out: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) out.required = required;
+      if (def.unknownKeys === 'strict') out.additionalProperties = false;
+      return out;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: toJsonSchema(def.valueType) };
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: Array.from(def.options as z.ZodTypeAny[]).map(toJsonSchema) };
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType);
+
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [toJsonSchema(def.innerType), { type: 'null' }] };
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+
+    // refine/transform - describe what goes in
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema);
+
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return toJsonSchema(def.in);
+
+    default:
+      return {};
+  }
+}
@@ -68,4 +68,12 @@ if (config.nodeEnv === 'production') {
   );
 }
 
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// change verbosity without a restart - transports without their own level follow it
+export function setLogLevel(level: LogLevel): void {
+  logger.level = level;
+}
+
 export default logger;
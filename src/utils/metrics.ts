@@ -0,0 +1,285 @@
+type Labels = Record<string, string | number>;
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+const PREFIX = 'meme_aggregator_';
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabel = (v: string) => v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(String(v))}"`);
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+// only the declared label names, in declared order, so the same series always gets the same key
+function pick(labelNames: string[], labels: Labels): Labels {
+  const picked: Labels = {};
+  for (const name of labelNames) picked[name] = labels[name] ?? '';
+  return picked;
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+    readonly labelNames: string[]
+  ) {}
+
+  abstract lines(): string[];
+  abstract reset(): void;
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.lines()].join('\n');
+  }
+}
+
+abstract class SimpleMetric extends Metric {
+  protected values: Map<string, Sample> = new Map();
+  collect?: () => Sample[];
+
+  protected series(labels: Labels): Sample {
+    const picked = pick(this.labelNames, labels);
+    const key = JSON.stringify(picked);
+    let sample = this.values.get(key);
+    if (!sample) {
+      sample = { labels: picked, value: 0 };
+      this.values.set(key, sample);
+    }
+    return sample;
+  }
+
+  get(labels: Labels = {}): number {
+    if (this.collect) {
+      const key = JSON.stringify(pick(this.labelNames, labels));
+      return this.collect().find(s => JSON.stringify(pick(this.labelNames, s.labels)) === key)?.value ?? 0;
+    }
+    return this.values.get(JSON.stringify(pick(this.labelNames, labels)))?.value ?? 0;
+  }
+
+  lines(): string[] {
+    const samples = this.collect ? this.collect() : Array.from(this.values.values());
+    return samples.map(s => `${this.name}${formatLabels(pick(this.labelNames, s.labels))} ${s.value}`);
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Counter extends SimpleMetric {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'counter', labelNames);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.series(labels).value += value;
+  }
+}
+
+export class Gauge extends SimpleMetric {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'gauge', labelNames);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.series(labels).value = value;
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.series(labels).value += value;
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.series(labels).value -= value;
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[]; // per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[] = [], readonly buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram', labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const picked = pick(this.labelNames, labels);
+    const key = JSON.stringify(picked);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: picked, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const bucket = this.buckets.findIndex(b => value <= b);
+    if (bucket !== -1) series.counts[bucket]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  // call the returned function when the thing being timed is done
+  startTimer(labels: Labels = {}): (extra?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (extra: Labels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extra }, seconds);
+      return seconds;
+    };
+  }
+
+  // across every label combination
+  totals(): { count: number; sum: number } {
+    let count = 0;
+    let sum = 0;
+    for (const s of this.series.values()) {
+      count += s.count;
+      sum += s.sum;
+    }
+    return { count, sum };
+  }
+
+  lines(): string[] {
+    const lines: string[] = [];
+    for (const s of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += s.counts[i];
+        lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: bound })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`);
+      lines.push(`${this.name}_sum${formatLabels(s.labels)} ${s.sum}`);
+      lines.push(`${this.name}_count${formatLabels(s.labels)} ${s.count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * MetricsRegistry - tiny Prometheus metrics registry
+ *
+ * Counters, gauges and histograms rendered in the text exposition format
+ * for GET /metrics. Metrics whose numbers already live somewhere else
+ * (cache stats, connection counts) take a collect callback that's read at
+ * scrape time instead of being updated on every change.
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+
+  constructor(private prefix = PREFIX) {}
+
+  // registering an existing name hands back the existing metric, with the
+  // collect callback replaced if a new one is given
+  counter(name: string, help: string, labelNames: string[] = [], collect?: () => Sample[]): Counter {
+    const counter = this.register(new Counter(this.prefix + name, help, labelNames));
+    if (collect) counter.collect = collect;
+    return counter;
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = [], collect?: () => Sample[]): Gauge {
+    const gauge = this.register(new Gauge(this.prefix + name, help, labelNames));
+    if (collect) gauge.collect = collect;
+    return gauge;
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(this.prefix + name, help, labelNames, buckets));
+  }
+
+  get(name: string): Metric | undefined {
+    return this.metrics.get(this.prefix + name);
+  }
+
+  render(): string {
+    return Array.from(this.metrics.values()).map(m => m.render()).join('\n\n') + '\n';
+  }
+
+  // clears recorded values, collectors stay (tests)
+  reset(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    const existing = this.metrics.get(metric.name);
+    if (existing) {
+      if (existing.type !== metric.type) {
+        throw new Error(`Metric ${metric.name} already registered as a ${existing.type}`);
+      }
+      return existing as T;
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+// --- app-wide metrics, updated where the work happens ---
+
+export const httpRequestDuration = metrics.histogram(
+  'http_request_duration_seconds', 'REST API request latency', ['method', 'route', 'status']
+);
+
+export const upstreamRequests = metrics.counter(
+  'upstream_requests_total', 'HTTP requests made to upstream DEX APIs, retries included', ['source', 'outcome']
+);
+export const upstreamErrors = metrics.counter(
+  'upstream_errors_total', 'Failed upstream requests by HTTP status or error code', ['source', 'reason']
+);
+export const upstreamDuration = metrics.histogram(
+  'upstream_request_duration_seconds', 'Upstream DEX API request latency', ['source']
+);
+
+export const rateLimiterWait = metrics.histogram(
+  'rate_limiter_wait_seconds', 'Time spent waiting for a rate limiter token', ['limiter'],
+  [0, 0.01, 0.1, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+export const refreshDuration = metrics.histogram(
+  'refresh_duration_seconds', 'Full refresh duration per chain', ['chain'],
+  [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120]
+);
+export const refreshes = metrics.counter('refreshes_total', 'Full refreshes per chain', ['chain', 'outcome']);
+
+export const wsMessages = metrics.counter('websocket_messages_total', 'WebSocket messages sent to clients', ['event']);
+
+// why an upstream call failed - status code, network error code or 'unknown'
+function errorReason(error: unknown): string {
+  const e = error as { response?: { status?: number }; code?: string };
+  if (e?.response?.status) return String(e.response.status);
+  if (e?.code) return e.code;
+  return 'unknown';
+}
+
+// time and count one upstream request attempt
+export async function trackUpstream<T>(source: string, fn: () => Promise<T>): Promise<T> {
+  const end = upstreamDuration.startTimer({ source });
+  try {
+    const result = await fn();
+    upstreamRequests.inc({ source, outcome: 'ok' });
+    return result;
+  } catch (error) {
+    upstreamRequests.inc({ source, outcome: 'error' });
+    upstreamErrors.inc({ source, reason: errorReason(error) });
+    throw error;
+  } finally {
+    end();
+  }
+}
+
+export default metrics;
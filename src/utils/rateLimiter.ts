@@ -1,4 +1,12 @@
 import logger from './logger';
+import { metrics, rateLimiterWait } from './metrics';
+
+// latest limiter per name, read at scrape time
+const limiters = new Map<string, RateLimiter>();
+
+metrics.gauge('rate_limiter_available_tokens', 'Tokens left in each rate limiter bucket', ['limiter'], () =>
+  Array.from(limiters.entries()).map(([name, limiter]) => ({ labels: { limiter: name }, value: limiter.getAvailableTokens() }))
+);
 
 /**
  * Simple rate limiter using token bucket algorithm
@@ -19,6 +27,7 @@ export class RateLimiter {
   ) {
     this.tokens = maxTokens;
     this.lastRefill = Date.now();
+    limiters.set(name, this);
   }
 
   // easier way to create one
@@ -45,6 +54,12 @@ export class RateLimiter {
 
   // wait until we can get a token (blocks if needed)
   async waitForToken(): Promise<void> {
+    const end = rateLimiterWait.startTimer({ limiter: this.name });
+    await this.takeToken();
+    end();
+  }
+
+  private async takeToken(): Promise<void> {
     this.refill();
     if (this.tokens >= 1) {
       this.tokens--;
@@ -56,7 +71,7 @@ export class RateLimiter {
     logger.debug(`[${this.name}] waiting ${wait.toFixed(0)}ms`);
 
     await new Promise(r => setTimeout(r, wait));
-    return this.waitForToken(); // recursive, try again
+    return this.takeToken(); // recursive, try again
   }
 
   reportSuccess() {
@@ -89,9 +104,15 @@ export class RateLimiter {
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
-  opts: { maxRetries?: number; baseDelay?: number; onRetry?: (err: Error, n: number) => void } = {}
+  opts: {
+    maxRetries?: number;
+    baseDelay?: number;
+    jitter?: number; // max random extra delay in ms
+    onRetry?: (err: Error, n: number) => void;
+    shouldRetry?: (err: Error) => boolean; // false gives up straight away
+  } = {}
 ): Promise<T> {
-  const { maxRetries = 3, baseDelay = 1000, onRetry } = opts;
+  const { maxRetries = 3, baseDelay = 1000, jitter = 1000, onRetry, shouldRetry } = opts;
   let lastErr: Error;
 
   for (let i = 0; i <= maxRetries; i++) {
@@ -99,10 +120,10 @@ export async function withRetry<T>(
       return await fn();
     } catch (e) {
       lastErr = e instanceof Error ? e : new Error(String(e));
-      if (i === maxRetries) throw lastErr;
+      if (i === maxRetries || (shouldRetry && !shouldRetry(lastErr))) throw lastErr;
 
       // exponential backoff with jitter
-      const delay = Math.min(baseDelay * Math.pow(2, i), 30000) + Math.random() * 1000;
+      const delay = Math.min(baseDelay * Math.pow(2, i), 30000) + Math.random() * jitter;
       onRetry?.(lastErr, i);
       await new Promise(r => setTimeout(r, delay));
     }
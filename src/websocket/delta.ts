@@ -0,0 +1,34 @@
+import type { Token } from '../types/index';
+
+// change on every refresh by themselves - only sent alongside a real change
+const NOISY_FIELDS = new Set<string>(['last_updated']);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b); // activity, safety, sources, ...
+}
+
+// fields of `next` that differ from `prev`, null if nothing worth sending
+// changed. A field that's gone comes back as null so clients can drop it
+export function diffToken(prev: Token, next: Token): Partial<Token> | null {
+  const changes: Record<string, unknown> = {};
+  let changed = false;
+
+  const fields = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  for (const field of fields) {
+    const before = (prev as unknown as Record<string, unknown>)[field];
+    const after = (next as unknown as Record<string, unknown>)[field];
+    if (sameValue(before, after)) continue;
+
+    changes[field] = after ?? null;
+    if (!NOISY_FIELDS.has(field)) changed = true;
+  }
+
+  return changed ? (changes as Partial<Token>) : null;
+}
+
+// the aggregator updates tokens in place, so what a client was sent has to be a copy
+export function cloneToken(token: Token): Token {
+  return structuredClone(token);
+}
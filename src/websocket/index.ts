@@ -1 +1,2 @@
 export { WebSocketServer } from './server';
+export { PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS, protocolJsonSchema } from './protocol';
@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import config from '../config/index';
+import { tokenFilterSchema, tokenSortSchema } from '../services/tokenFilters';
+import { filterExpressionSchema, sortKeysSchema } from '../services/tokenQuery';
+import { alertConditionSchema } from '../services/alerts';
+import { toJsonSchema, type JsonSchema } from '../utils/index';
+import { WebSocketEventType } from '../types/index';
+
+// bump when a message changes shape in a way old clients would choke on
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1];
+
+export const MAX_SUBSCRIPTION_ID_LENGTH = 64;
+const MAX_SUBSCRIPTION_TOKENS = 200;
+
+export class ProtocolError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public subscription?: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// highest version both sides speak. The client offers one version or a list
+// (auth.protocol or ?protocol=), offering nothing gets the current one
+export function negotiateProtocol(offered: unknown): number {
+  if (offered === undefined || offered === null || offered === '') return PROTOCOL_VERSION;
+
+  const versions = (Array.isArray(offered) ? offered : String(offered).split(',')).map(Number);
+  const common = versions.filter(v => SUPPORTED_PROTOCOL_VERSIONS.includes(v));
+  if (common.length === 0) {
+    throw new ProtocolError(
+      'UNSUPPORTED_PROTOCOL',
+      `Protocol version ${versions.join(', ')} is not supported, this server speaks ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`
+    );
+  }
+  return Math.max(...common);
+}
+
+// Client -> server
+
+const subscriptionIdSchema = z.string().min(1).max(MAX_SUBSCRIPTION_ID_LENGTH);
+
+export const subscribeMessageSchema = z.object({
+  id: subscriptionIdSchema.optional().describe("Client-chosen id, 'default' if left out. Subscribing again with an id replaces it"),
+  filters: tokenFilterSchema
+    .extend({ expression: filterExpressionSchema.optional().describe('Filter expression, same syntax as ?filter= on GET /api/tokens') })
+    .strict()
+    .optional(),
+  sort: z.union([tokenSortSchema, sortKeysSchema])
+    .optional()
+    .describe('{ field, direction, timePeriod } or a "field:dir,..." multi-key sort as in ?sort='),
+  limit: z.number().int().min(1).max(config.maxPageSize).optional().describe('Only the first N tokens once sorted'),
+  tokens: z.array(z.string().min(1)).max(MAX_SUBSCRIPTION_TOKENS).optional().describe('Token addresses to watch'),
+  watchlist: z.string().min(1).optional().describe("Id of one of the client's saved watchlists"),
+}).strict();
+
+export type ClientSubscription = z.infer<typeof subscribeMessageSchema>;
+
+// unsubscribe / resync - one subscription by id, or all of them
+export const subscriptionRefSchema = z.object({ id: subscriptionIdSchema.optional() }).strict().optional();
+
+export const INBOUND_SCHEMAS = {
+  subscribe: subscribeMessageSchema,
+  unsubscribe: subscriptionRefSchema,
+  resync: subscriptionRefSchema,
+  ping: z.object({}).strict().optional(),
+} satisfies Record<string, z.ZodTypeAny>;
+
+export type InboundEvent = keyof typeof INBOUND_SCHEMAS;
+
+// what a bad payload for each event is reported as
+export const INVALID_PAYLOAD_CODES: Record<InboundEvent, string> = {
+  subscribe: 'INVALID_SUBSCRIPTION',
+  unsubscribe: 'INVALID_MESSAGE',
+  resync: 'INVALID_MESSAGE',
+  ping: 'INVALID_MESSAGE',
+};
+
+export function isInboundEvent(event: string): event is InboundEvent {
+  return Object.prototype.hasOwnProperty.call(INBOUND_SCHEMAS, event);
+}
+
+// every client event takes an optional acknowledgement callback as its last argument
+export const ackSchema = z.union([
+  z.object({ ok: z.literal(true), data: z.record(z.unknown()).optional() }),
+  z.object({
+    ok: z.literal(false),
+    error: z.object({ code: z.string(), message: z.string(), details: z.record(z.unknown()).optional() }),
+  }),
+]);
+
+// Server -> client. Only used to publish the protocol, payloads aren't
+// validated on the way out
+
+const tokenRefSchema = z.object({ token_address: z.string(), chain_id: z.string() });
+
+const activitySchema = z.object({
+  buys: z.number(),
+  sells: z.number(),
+  buyers: z.number().nullable(),
+  sellers: z.number().nullable(),
+  buy_sell_ratio: z.number(),
+});
+
+const tokenSchema = z.object({
+  token_address: z.string(),
+  token_name: z.string(),
+  token_ticker: z.string(),
+  price_sol: z.number().describe("*_sol fields are in the chain's native asset"),
+  price_usd: z.number(),
+  market_cap_sol: z.number(),
+  market_cap_usd: z.number(),
+  volume_sol: z.number(),
+  volume_usd: z.number(),
+  liquidity_sol: z.number(),
+  liquidity_usd: z.number(),
+  transaction_count: z.number(),
+  price_5m_change: z.number(),
+  price_1hr_change: z.number(),
+  price_6hr_change: z.number(),
+  price_24hr_change: z.number(),
+  price_7d_change: z.number(),
+  volume_5m: z.number(),
+  volume_1hr: z.number(),
+  volume_6hr: z.number(),
+  volume_24hr: z.number(),
+  volume_7d: z.number(),
+  volume_7d_days: z.number().int().min(1).max(7).optional().describe('Days of history behind volume_7d'),
+  protocol: z.string(),
+  dex_id: z.string(),
+  chain_id: z.string(),
+  pair_address: z.string(),
+  created_at: z.string(),
+  last_updated: z.string(),
+  sources: z.array(z.string()),
+  field_sources: z.record(z.array(z.string())).optional(),
+  image_url: z.string().optional(),
+  website: z.string().optional(),
+  socials: z.object({
+    twitter: z.string().optional(),
+    telegram: z.string().optional(),
+    discord: z.string().optional(),
+  }).optional(),
+  mint_authority: z.string().nullable().optional(),
+  freeze_authority: z.string().nullable().optional(),
+  tags: z.array(z.string()).optional(),
+  activity: z.object({
+    '5m': activitySchema.optional(),
+    '1h': activitySchema.optional(),
+    '6h': activitySchema.optional(),
+    '24h': activitySchema.optional(),
+  }).optional(),
+  safety: z.object({
+    score: z.number().min(0).max(100),
+    mint_authority: z.boolean().nullable(),
+    freeze_authority: z.boolean().nullable(),
+    liquidity_to_mcap: z.number().nullable(),
+    pool_age_hours: z.number().nullable(),
+    buy_ratio: z.number().nullable(),
+    verified: z.boolean(),
+    flags: z.array(z.string()),
+  }).optional(),
+});
+
+const errorSchema = z.object({ code: z.string(), message: z.string() });
+
+const OUTBOUND_SCHEMAS: Record<WebSocketEventType, z.ZodTypeAny> = {
+  [WebSocketEventType.CONNECTED]: z.object({
+    clientId: z.string(),
+    owner: z.string().nullable(),
+    protocol: z.number().int().describe('Negotiated protocol version'),
+    protocols: z.array(z.number().int()).describe('Every version this server speaks'),
+    message: z.string(),
+    serverTime: z.string(),
+  }),
+  [WebSocketEventType.SUBSCRIBED]: z.object({
+    id: z.string(),
+    filters: z.record(z.unknown()).optional(),
+    sort: z.unknown().optional(),
+    limit: z.number().int().optional(),
+    tokens: z.array(z.string()).optional(),
+    watchlist: z.string().optional(),
+    message: z.string(),
+  }),
+  [WebSocketEventType.UNSUBSCRIBED]: z.object({ id: z.string().nullable(), message: z.string() }),
+  [WebSocketEventType.PRICE_UPDATE]: z.object({
+    token_address: z.string(),
+    chain_id: z.string(),
+    old_price: z.number(),
+    new_price: z.number(),
+    price_change_percent: z.number(),
+    volume_24hr: z.number(),
+  }),
+  [WebSocketEventType.VOLUME_SPIKE]: z.object({
+    token_address: z.string(),
+    chain_id: z.string(),
+    token_ticker: z.string(),
+    volume_change_percent: z.number(),
+    current_volume: z.number(),
+    previous_volume: z.number(),
+    time_window: z.string(),
+  }),
+  [WebSocketEventType.NEW_TOKEN]: tokenSchema,
+  [WebSocketEventType.TOKEN_REMOVED]: tokenRefSchema.describe('Reserved, not sent yet'),
+  [WebSocketEventType.BATCH_UPDATE]: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('snapshot'),
+      seq: z.number().int(),
+      tokens: z.array(tokenSchema),
+      count: z.number().int(),
+    }),
+    z.object({
+      type: z.literal('delta'),
+      seq: z.number().int(),
+      updates: z.array(tokenRefSchema.extend({
+        changes: z.record(z.unknown()).describe('Changed fields only, a field that went away is null'),
+      })),
+      removed: z.array(tokenRefSchema),
+      count: z.number().int(),
+      order: z.array(tokenRefSchema).optional().describe('Sorted subscriptions, when the ranking changed'),
+    }),
+  ]),
+  [WebSocketEventType.ALERT_TRIGGERED]: z.object({
+    rule_id: z.string(),
+    rule_name: z.string(),
+    owner: z.string(),
+    token_address: z.string(),
+    chain_id: z.string(),
+    token_ticker: z.string(),
+    condition: alertConditionSchema,
+    value: z.number(),
+    message: z.string(),
+    triggered_at: z.string(),
+  }),
+  [WebSocketEventType.ENTERED]: tokenRefSchema.extend({ rank: z.number().int().min(1), token: tokenSchema }),
+  [WebSocketEventType.LEFT]: tokenRefSchema.extend({ rank: z.number().int().min(1) }),
+  [WebSocketEventType.ERROR]: errorSchema,
+};
+
+// the envelope every server event comes in
+function messageSchema(event: WebSocketEventType, data: z.ZodTypeAny): z.ZodTypeAny {
+  return z.object({
+    event: z.literal(event),
+    data,
+    timestamp: z.string(),
+    subscription: z.string().optional().describe('Id of the subscription a routed event is for'),
+  });
+}
+
+// JSON Schema for every message in both directions, served at /api/websocket/schema
+export function protocolJsonSchema(): JsonSchema {
+  const server: Record<string, JsonSchema> = {};
+  for (const [event, data] of Object.entries(OUTBOUND_SCHEMAS)) {
+    server[event] = toJsonSchema(messageSchema(event as WebSocketEventType, data));
+  }
+
+  const client: Record<string, JsonSchema> = {};
+  for (const [event, schema] of Object.entries(INBOUND_SCHEMAS)) {
+    client[event] = toJsonSchema(schema);
+  }
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Meme coin aggregator WebSocket protocol',
+    protocol_version: PROTOCOL_VERSION,
+    supported_versions: SUPPORTED_PROTOCOL_VERSIONS,
+    server_events: server,
+    client_events: client,
+    ack: toJsonSchema(ackSchema),
+  };
+}
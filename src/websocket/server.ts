@@ -1,27 +1,97 @@
 import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
-import config from '../config/index';
-import { logger } from '../utils/index';
+import { z } from 'zod';
+import config, { tokenKey } from '../config/index';
+import { logger, wsMessages } from '../utils/index';
+import { applySorting, matchesFilter } from '../services/tokenFilters';
+import { ApiKeyError, anonymousOwner } from '../services/apiKeys';
+import { CLUSTER_CHANNELS, type IClusterBus } from '../cluster/index';
+import { cloneToken, diffToken } from './delta';
+import {
+  INBOUND_SCHEMAS,
+  INVALID_PAYLOAD_CODES,
+  ProtocolError,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  isInboundEvent,
+  negotiateProtocol,
+  type ClientSubscription,
+  type InboundEvent,
+} from './protocol';
 import type {
+  ApiKey,
+  BatchUpdateData,
   WebSocketEventType,
   WebSocketMessage,
   PriceUpdateData,
+  RankChangeData,
   VolumeSpikeData,
+  WebSocketAck,
+  AlertTriggeredData,
   Token,
-  TokenFilter,
+  TokenDelta,
+  TokenRef,
   TokenSort,
 } from '../types/index';
 
-interface ClientSubscription {
-  filters?: TokenFilter;
-  sort?: TokenSort;
-  tokens?: string[]; // specific tokens to watch
+type WatchlistResolver = (owner: string, id: string) => TokenRef[] | null;
+type SnapshotSource = () => Token[];
+
+// what gets relayed between nodes - each maps to one of the broadcast methods
+type ClusterMessage =
+  | { event: 'price_update'; data: PriceUpdateData }
+  | { event: 'volume_spike'; data: VolumeSpikeData }
+  | { event: 'new_token'; data: Token }
+  | { event: 'batch_update'; data: Token[] } // only the tokens that changed
+  | { event: 'alert'; data: AlertTriggeredData }
+  | { event: 'error'; data: { code: string; message: string } }
+  | { event: 'revoke_key'; data: string };
+type KeyAuthorizer = (rawKey: string) => Promise<{ apiKey: ApiKey }>;
+
+// validated payload in, what to put in the ack out
+type InboundHandler<E extends InboundEvent> = (
+  socket: Socket,
+  payload: z.output<(typeof INBOUND_SCHEMAS)[E]>
+) => Record<string, unknown> | void;
+
+// one named subscription on a connection, each with its own batch_update stream
+interface Subscription {
+  id: string;
+  spec: ClientSubscription;
+  subscribedAt: Date;
+  seq: number; // of the last batch_update sent
+  sent: Map<string, Token>; // tokens as last sent, what deltas are diffed against
+  lastSnapshot: number; // ms, 0 = the next batch_update has to be a snapshot
+  ranking?: TokenRef[]; // a ranked subscription's window as last sent, in order
 }
 
 interface ConnectedClient {
   socket: Socket;
-  subscription: ClientSubscription;
-  subscribedAt: Date;
+  subscriptions: Map<string, Subscription>;
+  owner?: string; // X-Client-Id equivalent, used to route alerts
+  keyId?: string; // API key used in the handshake, if any
+}
+
+// what subscribe/unsubscribe/resync without an id act on - every connection
+// starts with it, unfiltered
+const DEFAULT_SUBSCRIPTION = 'default';
+
+// a limit with no sort means the biggest by volume
+const DEFAULT_RANKING: TokenSort = { field: 'volume', direction: 'desc' };
+
+function newSubscription(id: string, spec: ClientSubscription): Subscription {
+  return { id, spec, subscribedAt: new Date(), seq: 0, sent: new Map(), lastSnapshot: 0 };
+}
+
+const refKey = (ref: TokenRef) => tokenKey(ref.chain_id, ref.token_address);
+const toRef = (token: Token): TokenRef => ({ token_address: token.token_address, chain_id: token.chain_id });
+
+function sameOrder(a: TokenRef[] | undefined, b: TokenRef[]): boolean {
+  return a !== undefined && a.length === b.length && a.every((ref, i) => refKey(ref) === refKey(b[i]));
+}
+
+// socket.io hands err.message and err.data to the client's connect_error
+function handshakeError(code: string, message: string): Error {
+  return Object.assign(new Error(message), { data: { code } });
 }
 
 /**
@@ -29,16 +99,43 @@ interface ConnectedClient {
  * 
  * Handles connections, subscriptions, and broadcasting events
  * to connected clients. Uses socket.io for the heavy lifting.
+ *
+ * batch_update is diffed per client: after a snapshot each client only gets
+ * the fields that changed for the tokens it can see, with a sequence number
+ * to spot gaps. Snapshots go out every WS_SNAPSHOT_INTERVAL, after a
+ * (re)subscribe and on 'resync'. A subscription with a sort or limit is a
+ * ranked window over every token rather than a filter on each batch, and
+ * gets entered/left as tokens move in and out of it.
+ *
+ * A connection can hold several subscriptions under ids it picks, up to
+ * WS_MAX_SUBSCRIPTIONS. Everything routed through a subscription (new
+ * tokens, price and volume events, batch updates, entered/left) is sent once
+ * per matching subscription and tagged with its id. Price and volume events
+ * only go to subscriptions whose current window holds the token.
+ *
+ * Every client message is checked against its schema in ./protocol. Clients
+ * that pass an acknowledgement callback get { ok, data } or { ok: false,
+ * error } back, the rest get failures as an 'error' event.
+ *
+ * With a cluster bus attached every broadcast is also published, and
+ * broadcasts from other nodes are delivered to this node's clients, so a
+ * client gets the same events whichever node it's connected to. Batch
+ * updates only carry the tokens that changed since the last one published.
  */
 export class WebSocketServer {
   private io: Server;
   private clients: Map<string, ConnectedClient> = new Map();
   private connectionCount: number = 0;
+  private resolveWatchlist?: WatchlistResolver;
+  private authorizeKey?: KeyAuthorizer;
+  private snapshotSource?: SnapshotSource;
+  private cluster?: IClusterBus;
+  private relayed: Map<string, Token> = new Map(); // tokens as last relayed, by tokenKey
 
   constructor(httpServer: HttpServer) {
     this.io = new Server(httpServer, {
       cors: {
-        origin: '*', // TODO: lock this down in prod
+        origin: config.corsOrigins.includes('*') ? '*' : config.corsOrigins,
         methods: ['GET', 'POST'],
       },
       pingInterval: config.wsPingInterval,
@@ -50,20 +147,66 @@ export class WebSocketServer {
     logger.info('WebSocket server initialized');
   }
 
+  // lets { watchlist: id } subscriptions look up the owner's saved lists
+  setWatchlistResolver(resolver: WatchlistResolver): void {
+    this.resolveWatchlist = resolver;
+  }
+
+  // checks API keys in the handshake and counts each connection against them
+  setKeyAuthorizer(authorizer: KeyAuthorizer): void {
+    this.authorizeKey = authorizer;
+  }
+
+  // where snapshots come from - without one a snapshot is just what the client has been sent
+  setSnapshotSource(source: SnapshotSource): void {
+    this.snapshotSource = source;
+  }
+
+  // fan broadcasts out across nodes
+  async attachCluster(bus: IClusterBus): Promise<void> {
+    this.cluster = bus;
+    // only our own nodes publish here, so the shape is trusted
+    await bus.subscribe(CLUSTER_CHANNELS.websocket, (message) => this.deliver(message as ClusterMessage));
+  }
+
+  private relay(message: ClusterMessage): void {
+    this.cluster?.publish(CLUSTER_CHANNELS.websocket, message);
+  }
+
+  private deliver(message: ClusterMessage): void {
+    switch (message.event) {
+      case 'price_update': this.emitPriceUpdate(message.data); break;
+      case 'volume_spike': this.emitVolumeSpike(message.data); break;
+      case 'new_token': this.emitNewToken(message.data); break;
+      case 'batch_update': this.markRelayed(message.data); this.emitBatchUpdate(message.data); break;
+      case 'alert': this.emitAlert(message.data); break;
+      case 'error': this.emitError(message.data); break;
+      case 'revoke_key': this.dropKey(message.data); break;
+      default: logger.warn(`Unknown cluster event ${(message as { event: string }).event}`);
+    }
+  }
+
   private setupEventHandlers(): void {
+    this.io.use((socket, next) => {
+      this.authenticateHandshake(socket).then(() => next(), (error: Error) => next(error));
+    });
+
     this.io.on('connection', (socket: Socket) => {
       this.handleConnection(socket);
 
-      socket.on('subscribe', (data: ClientSubscription) => {
-        this.handleSubscribe(socket, data);
-      });
-
-      socket.on('unsubscribe', () => {
-        this.handleUnsubscribe(socket);
+      this.onMessage(socket, 'subscribe', (s, data) => this.handleSubscribe(s, data));
+      this.onMessage(socket, 'unsubscribe', (s, data) => this.handleUnsubscribe(s, data?.id));
+      this.onMessage(socket, 'resync', (s, data) => this.handleResync(s, data?.id));
+      this.onMessage(socket, 'ping', (s) => {
+        const timestamp = new Date().toISOString();
+        s.emit('pong', { timestamp });
+        return { timestamp };
       });
 
-      socket.on('ping', () => {
-        socket.emit('pong', { timestamp: new Date().toISOString() });
+      // anything else is a typo or a client speaking another protocol
+      socket.onAny((event: string, ...args: unknown[]) => {
+        if (isInboundEvent(event)) return;
+        this.reply(socket, args, new ProtocolError('UNKNOWN_EVENT', `Unknown event ${event}`));
       });
 
       socket.on('disconnect', (reason) => {
@@ -77,14 +220,93 @@ export class WebSocketServer {
     });
   }
 
+  // validates the payload, runs the handler and answers through the ack
+  // callback if there is one
+  private onMessage<E extends InboundEvent>(socket: Socket, event: E, handler: InboundHandler<E>): void {
+    socket.on(event as string, (...args: unknown[]) => {
+      const ack = typeof args[args.length - 1] === 'function' ? args.pop() : undefined;
+      const parsed = INBOUND_SCHEMAS[event].safeParse(args[0]);
+
+      if (!parsed.success) {
+        const details = parsed.error.flatten();
+        this.reply(socket, [ack], new ProtocolError(INVALID_PAYLOAD_CODES[event], `Invalid ${event} message`, undefined, details));
+        return;
+      }
+
+      try {
+        const data = handler(socket, parsed.data as z.output<(typeof INBOUND_SCHEMAS)[E]>);
+        this.reply(socket, [ack], undefined, data || undefined);
+      } catch (error) {
+        if (!(error instanceof ProtocolError)) {
+          const msg = error instanceof Error ? error.message : String(error);
+          logger.error(`Failed to handle ${event} from ${socket.id}: ${msg}`);
+        }
+        this.reply(socket, [ack], error instanceof ProtocolError
+          ? error
+          : new ProtocolError('INTERNAL_ERROR', `Could not handle ${event}`));
+      }
+    });
+  }
+
+  // ack if the last argument is a callback, otherwise errors go out as an 'error' event
+  private reply(socket: Socket, args: unknown[], error?: ProtocolError, data?: Record<string, unknown>): void {
+    const ack = args[args.length - 1];
+
+    if (typeof ack === 'function') {
+      const response: WebSocketAck = error
+        ? { ok: false, error: { code: error.code, message: error.message, details: error.details } }
+        : { ok: true, data };
+      ack(response);
+    } else if (error) {
+      this.sendError(socket, error.code, error.message, error.subscription, error.details);
+    }
+  }
+
+  // protocol version from auth.protocol or ?protocol=, then the api key from
+  // auth.apiKey, ?api_key= or the X-Api-Key header
+  private async authenticateHandshake(socket: Socket): Promise<void> {
+    const { auth, query, headers } = socket.handshake;
+
+    try {
+      socket.data.protocol = negotiateProtocol(auth?.protocol ?? query?.protocol);
+    } catch (error) {
+      if (error instanceof ProtocolError) throw handshakeError(error.code, error.message);
+      throw error;
+    }
+
+    const raw = auth?.apiKey ?? query?.api_key ?? headers['x-api-key'];
+
+    if (typeof raw !== 'string' || !raw) {
+      if (config.requireApiKey) throw handshakeError('MISSING_API_KEY', 'An API key is required');
+      return;
+    }
+    if (!this.authorizeKey) return;
+
+    try {
+      const { apiKey } = await this.authorizeKey(raw);
+      socket.data.apiKey = apiKey;
+    } catch (error) {
+      if (error instanceof ApiKeyError) throw handshakeError(error.code, error.message);
+      throw error;
+    }
+  }
+
   // new client connected
   private handleConnection(socket: Socket): void {
     this.connectionCount++;
 
+    // clients can identify themselves to receive their alert rules - a key's
+    // owner wins over whatever client id was sent alongside it, which is
+    // namespaced the same way as X-Client-Id
+    const apiKey = socket.data.apiKey as ApiKey | undefined;
+    const rawOwner = socket.handshake.auth?.clientId ?? socket.handshake.query?.client_id;
+    const owner = apiKey?.owner ?? (typeof rawOwner === 'string' && rawOwner ? anonymousOwner(rawOwner) : undefined);
+
     const client: ConnectedClient = {
       socket,
-      subscription: {},
-      subscribedAt: new Date(),
+      subscriptions: new Map([[DEFAULT_SUBSCRIPTION, newSubscription(DEFAULT_SUBSCRIPTION, {})]]),
+      owner,
+      keyId: apiKey?.id,
     };
 
     this.clients.set(socket.id, client);
@@ -95,6 +317,9 @@ export class WebSocketServer {
       event: 'connected' as WebSocketEventType,
       data: {
         clientId: socket.id,
+        owner: owner ?? null,
+        protocol: socket.data.protocol as number,
+        protocols: SUPPORTED_PROTOCOL_VERSIONS,
         message: 'Connected to meme coin aggregator',
         serverTime: new Date().toISOString(),
       },
@@ -102,40 +327,108 @@ export class WebSocketServer {
     });
   }
 
-  // client wants to subscribe to specific tokens or filters
-  private handleSubscribe(socket: Socket, data: ClientSubscription): void {
+  // client wants to subscribe to specific tokens or filters - the payload
+  // has already been through subscribeMessageSchema
+  private handleSubscribe(socket: Socket, data: ClientSubscription): Record<string, unknown> | void {
     const client = this.clients.get(socket.id);
+    if (!client) return;
+
+    const id = data.id ?? DEFAULT_SUBSCRIPTION;
+    if (!client.subscriptions.has(id) && client.subscriptions.size >= config.wsMaxSubscriptions) {
+      throw new ProtocolError(
+        'TOO_MANY_SUBSCRIPTIONS',
+        `At most ${config.wsMaxSubscriptions} subscriptions per connection, unsubscribe from one first`,
+        id
+      );
+    }
 
-    if (client) {
-      client.subscription = data;
-      logger.debug(`Client ${socket.id} subscribed:`, data);
-
-      this.sendToClient(socket, {
-        event: 'subscribed' as WebSocketEventType,
-        data: {
-          filters: data.filters,
-          sort: data.sort,
-          tokens: data.tokens,
-          message: 'Subscription updated',
-        },
-        timestamp: new Date().toISOString(),
-      });
+    // watchlists are per-owner, so the client has to have identified itself
+    if (data.watchlist !== undefined) {
+      const refs = client.owner && this.resolveWatchlist
+        ? this.resolveWatchlist(client.owner, data.watchlist)
+        : null;
+
+      if (!refs) {
+        throw new ProtocolError(
+          client.owner ? 'WATCHLIST_NOT_FOUND' : 'MISSING_CLIENT_ID',
+          client.owner
+            ? `Watchlist ${data.watchlist} not found`
+            : 'Connect with auth.clientId to subscribe to a watchlist',
+          id
+        );
+      }
     }
+
+    // a fresh subscription - what the old one with this id was sent no longer applies
+    client.subscriptions.set(id, newSubscription(id, data));
+    logger.debug(`Client ${socket.id} subscribed as ${id}:`, data);
+
+    const subscribed = {
+      id,
+      filters: data.filters,
+      sort: data.sort,
+      limit: data.limit,
+      tokens: data.tokens,
+      watchlist: data.watchlist,
+      message: 'Subscription updated',
+    };
+    this.sendToClient(socket, {
+      event: 'subscribed' as WebSocketEventType,
+      data: subscribed,
+      timestamp: new Date().toISOString(),
+      subscription: id,
+    });
+    return subscribed;
   }
 
-  private handleUnsubscribe(socket: Socket): void {
+  // one subscription by id, or all of them
+  private handleUnsubscribe(socket: Socket, id?: string): Record<string, unknown> | void {
     const client = this.clients.get(socket.id);
+    if (!client) return;
 
-    if (client) {
-      client.subscription = {};
-      logger.debug(`Client ${socket.id} unsubscribed`);
+    if (id !== undefined && !client.subscriptions.delete(id)) {
+      throw new ProtocolError('SUBSCRIPTION_NOT_FOUND', `No subscription ${id}`, id);
+    }
+    if (id === undefined) client.subscriptions.clear();
+    logger.debug(`Client ${socket.id} unsubscribed from ${id ?? 'everything'}`);
 
-      this.sendToClient(socket, {
-        event: 'unsubscribed' as WebSocketEventType,
-        data: { message: 'Unsubscribed from all updates' },
-        timestamp: new Date().toISOString(),
-      });
+    const unsubscribed = { id: id ?? null, message: id ? `Unsubscribed from ${id}` : 'Unsubscribed from all updates' };
+    this.sendToClient(socket, {
+      event: 'unsubscribed' as WebSocketEventType,
+      data: unsubscribed,
+      timestamp: new Date().toISOString(),
+      subscription: id,
+    });
+    return unsubscribed;
+  }
+
+  // client missed a sequence number - send everything again, for one
+  // subscription or all of them
+  private handleResync(socket: Socket, id?: string): Record<string, unknown> | void {
+    const client = this.clients.get(socket.id);
+    if (!client) return;
+
+    const subscription = id !== undefined ? client.subscriptions.get(id) : undefined;
+    if (id !== undefined && !subscription) {
+      throw new ProtocolError('SUBSCRIPTION_NOT_FOUND', `No subscription ${id}`, id);
     }
+
+    const resynced: string[] = [];
+    for (const sub of subscription ? [subscription] : client.subscriptions.values()) {
+      logger.debug(`Client ${socket.id} asked for a resync of ${sub.id} after seq ${sub.seq}`);
+      this.sendBatchUpdate(client, sub, [], true);
+      resynced.push(sub.id);
+    }
+    return { subscriptions: resynced };
+  }
+
+  private sendError(socket: Socket, code: string, message: string, subscription?: string, details?: unknown): void {
+    this.sendToClient(socket, {
+      event: 'error' as WebSocketEventType,
+      data: details === undefined ? { code, message } : { code, message, details },
+      timestamp: new Date().toISOString(),
+      subscription,
+    });
   }
 
   private handleDisconnect(socket: Socket, reason: string): void {
@@ -145,6 +438,11 @@ export class WebSocketServer {
 
   // broadcast price update to clients
   broadcastPriceUpdate(data: PriceUpdateData): void {
+    this.relay({ event: 'price_update', data: data });
+    this.emitPriceUpdate(data);
+  }
+
+  private emitPriceUpdate(data: PriceUpdateData): void {
     const message: WebSocketMessage<PriceUpdateData> = {
       event: 'price_update' as WebSocketEventType,
       data,
@@ -153,18 +451,25 @@ export class WebSocketServer {
 
     let sentCount = 0;
 
-    for (const [clientId, client] of this.clients) {
-      if (this.shouldReceiveUpdate(client.subscription, data.token_address)) {
-        this.sendToClient(client.socket, message);
-        sentCount++;
+    for (const client of this.clients.values()) {
+      for (const sub of client.subscriptions.values()) {
+        if (this.shouldReceiveUpdate(client, sub, data.token_address, data.chain_id)) {
+          this.sendToClient(client.socket, { ...message, subscription: sub.id });
+          sentCount++;
+        }
       }
     }
 
-    logger.debug(`Price update broadcasted to ${sentCount} clients for ${data.token_address}`);
+    logger.debug(`Price update broadcasted to ${sentCount} subscriptions for ${data.token_address}`);
   }
 
   // volume spike notification
   broadcastVolumeSpike(data: VolumeSpikeData): void {
+    this.relay({ event: 'volume_spike', data: data });
+    this.emitVolumeSpike(data);
+  }
+
+  private emitVolumeSpike(data: VolumeSpikeData): void {
     const message: WebSocketMessage<VolumeSpikeData> = {
       event: 'volume_spike' as WebSocketEventType,
       data,
@@ -173,86 +478,316 @@ export class WebSocketServer {
 
     let sentCount = 0;
 
-    for (const [clientId, client] of this.clients) {
-      if (this.shouldReceiveUpdate(client.subscription, data.token_address)) {
-        this.sendToClient(client.socket, message);
-        sentCount++;
+    for (const client of this.clients.values()) {
+      for (const sub of client.subscriptions.values()) {
+        if (this.shouldReceiveUpdate(client, sub, data.token_address, data.chain_id)) {
+          this.sendToClient(client.socket, { ...message, subscription: sub.id });
+          sentCount++;
+        }
       }
     }
 
-    logger.debug(`Volume spike broadcasted to ${sentCount} clients for ${data.token_ticker}`);
+    logger.debug(`Volume spike broadcasted to ${sentCount} subscriptions for ${data.token_ticker}`);
   }
 
-  // new token discovered - send to everyone
+  // new token discovered - to every subscription whose filters it passes
   broadcastNewToken(token: Token): void {
+    this.relay({ event: 'new_token', data: token });
+    this.emitNewToken(token);
+  }
+
+  private emitNewToken(token: Token): void {
     const message: WebSocketMessage<Token> = {
       event: 'new_token' as WebSocketEventType,
       data: token,
       timestamp: new Date().toISOString(),
     };
 
-    this.io.emit('new_token', message);
-    logger.debug(`New token broadcasted: ${token.token_ticker}`);
+    let sentCount = 0;
+
+    for (const client of this.clients.values()) {
+      for (const sub of client.subscriptions.values()) {
+        if (this.filterTokensFor([token], client, sub).length > 0) {
+          this.sendToClient(client.socket, { ...message, subscription: sub.id });
+          sentCount++;
+        }
+      }
+    }
+
+    logger.debug(`New token ${token.token_ticker} sent to ${sentCount} subscriptions`);
   }
 
   // batch update - respects client filters
   broadcastBatchUpdate(tokens: Token[]): void {
-    const message: WebSocketMessage<{ tokens: Token[]; count: number }> = {
+    if (this.cluster) this.relayChanged(tokens);
+    this.emitBatchUpdate(tokens);
+  }
+
+  // the other nodes only need the tokens that changed since they were last
+  // relayed - unchanged ones would diff to nothing, and snapshots come from
+  // each node's own snapshot source
+  private relayChanged(tokens: Token[]): void {
+    const changed = tokens.filter(token => {
+      const prev = this.relayed.get(tokenKey(token.chain_id, token.token_address));
+      return !prev || diffToken(prev, token) !== null;
+    });
+
+    if (changed.length === 0) return;
+    this.markRelayed(changed);
+    this.relay({ event: 'batch_update', data: changed });
+  }
+
+  // what the cluster has heard - kept for batches from other nodes too, so a
+  // node that takes over publishing carries on from there
+  private markRelayed(tokens: Token[]): void {
+    for (const token of tokens) {
+      this.relayed.set(tokenKey(token.chain_id, token.token_address), cloneToken(token));
+    }
+  }
+
+  private emitBatchUpdate(tokens: Token[]): void {
+    const snapshotDue = Date.now() - config.wsSnapshotInterval * 1000;
+    let sentCount = 0;
+
+    for (const client of this.clients.values()) {
+      for (const sub of client.subscriptions.values()) {
+        if (this.sendBatchUpdate(client, sub, tokens, sub.lastSnapshot <= snapshotDue)) sentCount++;
+      }
+    }
+
+    logger.debug(`Batch update of ${tokens.length} tokens sent to ${sentCount} subscriptions`);
+  }
+
+  private isRanked(subscription: ClientSubscription): boolean {
+    return subscription.sort !== undefined || subscription.limit !== undefined;
+  }
+
+  // one subscription's batch_update, plus entered/left for a ranked window.
+  // Returns whether anything was sent
+  private sendBatchUpdate(client: ConnectedClient, sub: Subscription, tokens: Token[], snapshot: boolean): boolean {
+    const ranked = this.isRanked(sub.spec);
+
+    // snapshots and ranked windows are over every token, not just this batch
+    const candidates = snapshot || ranked ? this.allTokensFor(sub, tokens) : tokens;
+    let visible = this.filterTokensFor(candidates, client, sub);
+    if (ranked) {
+      visible = applySorting(visible, sub.spec.sort ?? DEFAULT_RANKING).slice(0, sub.spec.limit);
+    }
+
+    const previous = sub.ranking;
+    const ranking = visible.map(toRef);
+    if (ranked) sub.ranking = ranking;
+
+    const batch = snapshot
+      ? this.snapshotOf(sub, visible)
+      : this.deltaOf(sub, candidates, visible, ranked && !sameOrder(previous, ranking));
+
+    if (batch) this.sendBatch(client, sub, batch);
+    if (ranked && previous) this.sendRankChanges(client, sub, previous, visible);
+    return batch !== null;
+  }
+
+  // every token there is - without a snapshot source, the latest of what the
+  // subscription has been sent and what's in this batch
+  private allTokensFor(sub: Subscription, tokens: Token[]): Token[] {
+    if (this.snapshotSource) return this.snapshotSource();
+
+    const latest = new Map(sub.sent);
+    for (const token of tokens) latest.set(tokenKey(token.chain_id, token.token_address), token);
+    return Array.from(latest.values());
+  }
+
+  private snapshotOf(sub: Subscription, visible: Token[]): BatchUpdateData {
+    sub.sent = new Map(visible.map(token => [tokenKey(token.chain_id, token.token_address), cloneToken(token)]));
+    sub.lastSnapshot = Date.now();
+
+    return { type: 'snapshot', seq: sub.seq + 1, tokens: visible, count: visible.length };
+  }
+
+  // what changed since the subscription last got each token, null if nothing
+  // did. Tokens it had that are no longer visible come back as removed - any
+  // of them for a ranked window, only the ones in this batch otherwise
+  private deltaOf(
+    sub: Subscription,
+    candidates: Token[],
+    visible: Token[],
+    reordered: boolean
+  ): BatchUpdateData | null {
+    const visibleKeys = new Set(visible.map(token => tokenKey(token.chain_id, token.token_address)));
+    const updates: TokenDelta[] = [];
+    const removed: TokenRef[] = [];
+
+    const gone = this.isRanked(sub.spec) ? Array.from(sub.sent.values()) : candidates;
+    for (const token of gone) {
+      const key = tokenKey(token.chain_id, token.token_address);
+      if (visibleKeys.has(key) || !sub.sent.delete(key)) continue;
+      removed.push(toRef(token));
+    }
+
+    for (const token of visible) {
+      const key = tokenKey(token.chain_id, token.token_address);
+      const prev = sub.sent.get(key);
+      const changes = prev ? diffToken(prev, token) : cloneToken(token);
+      if (!changes) continue;
+
+      sub.sent.set(key, cloneToken(token));
+      updates.push({ ...toRef(token), changes });
+    }
+
+    if (updates.length === 0 && removed.length === 0 && !reordered) return null;
+
+    const batch: BatchUpdateData = { type: 'delta', seq: sub.seq + 1, updates, removed, count: updates.length };
+    if (reordered) batch.order = visible.map(toRef);
+    return batch;
+  }
+
+  private sendRankChanges(client: ConnectedClient, sub: Subscription, before: TokenRef[], window: Token[]): void {
+    const now = new Set(window.map(token => refKey(toRef(token))));
+    const was = new Set(before.map(refKey));
+
+    before.forEach((ref, i) => {
+      if (now.has(refKey(ref))) return;
+      this.sendToClient<RankChangeData>(client.socket, {
+        event: 'left' as WebSocketEventType,
+        data: { ...ref, rank: i + 1 },
+        timestamp: new Date().toISOString(),
+        subscription: sub.id,
+      });
+    });
+
+    window.forEach((token, i) => {
+      if (was.has(refKey(toRef(token)))) return;
+      this.sendToClient<RankChangeData>(client.socket, {
+        event: 'entered' as WebSocketEventType,
+        data: { token_address: token.token_address, chain_id: token.chain_id, rank: i + 1, token },
+        timestamp: new Date().toISOString(),
+        subscription: sub.id,
+      });
+    });
+  }
+
+  private sendBatch(client: ConnectedClient, sub: Subscription, data: BatchUpdateData): void {
+    sub.seq = data.seq;
+    this.sendToClient(client.socket, {
       event: 'batch_update' as WebSocketEventType,
-      data: {
-        tokens,
-        count: tokens.length,
-      },
+      data,
+      timestamp: new Date().toISOString(),
+      subscription: sub.id,
+    });
+  }
+
+  // alert fired - only goes to the rule owner's connections, wherever they're
+  // connected. Returns how many of them are on this node
+  sendAlert(data: AlertTriggeredData): number {
+    this.relay({ event: 'alert', data: data });
+    return this.emitAlert(data);
+  }
+
+  private emitAlert(data: AlertTriggeredData): number {
+    const message: WebSocketMessage<AlertTriggeredData> = {
+      event: 'alert_triggered' as WebSocketEventType,
+      data,
       timestamp: new Date().toISOString(),
     };
 
-    for (const [clientId, client] of this.clients) {
-      const filteredTokens = this.filterTokensForClient(tokens, client.subscription);
-
-      if (filteredTokens.length > 0) {
-        this.sendToClient(client.socket, {
-          ...message,
-          data: {
-            tokens: filteredTokens,
-            count: filteredTokens.length,
-          },
-        });
+    let sentCount = 0;
+
+    for (const client of this.clients.values()) {
+      if (client.owner === data.owner) {
+        this.sendToClient(client.socket, message);
+        sentCount++;
       }
     }
 
-    logger.debug(`Batch update broadcasted: ${tokens.length} tokens`);
+    logger.debug(`Alert ${data.rule_id} delivered to ${sentCount} connections of ${data.owner}`);
+    return sentCount;
+  }
+
+  // token keys of the subscription's watchlist, looked up each time so edits
+  // apply live - an empty set if the list has since been deleted
+  private watchlistKeys(client: ConnectedClient, sub: Subscription): Set<string> | null {
+    const id = sub.spec.watchlist;
+    if (id === undefined) return null;
+
+    const refs = client.owner && this.resolveWatchlist ? this.resolveWatchlist(client.owner, id) : null;
+    return new Set((refs || []).map(ref => tokenKey(ref.chain_id, ref.token_address)));
   }
 
-  // check if client cares about this token
-  private shouldReceiveUpdate(subscription: ClientSubscription, tokenAddress: string): boolean {
-    if (!subscription.tokens || subscription.tokens.length === 0) {
-      return true; // no filter = get everything
+  // key disabled or deleted - drop every connection that authenticated with
+  // it, on every node. Returns how many were on this one
+  disconnectKey(keyId: string): number {
+    this.relay({ event: 'revoke_key', data: keyId });
+    return this.dropKey(keyId);
+  }
+
+  private dropKey(keyId: string): number {
+    let dropped = 0;
+
+    for (const client of this.clients.values()) {
+      if (client.keyId !== keyId) continue;
+
+      this.sendToClient(client.socket, {
+        event: 'error' as WebSocketEventType,
+        data: { code: 'API_KEY_REVOKED', message: 'API key has been revoked' },
+        timestamp: new Date().toISOString(),
+      });
+      client.socket.disconnect(true);
+      dropped++;
+    }
+
+    if (dropped > 0) logger.info(`Dropped ${dropped} connections for revoked key ${keyId}`);
+    return dropped;
+  }
+
+  // is the token in what the subscription currently sees? A ranked window is
+  // the ranking last sent, a filtered one the tokens it was last sent
+  // (filters need the token's data, which a price event doesn't carry)
+  private shouldReceiveUpdate(client: ConnectedClient, sub: Subscription, tokenAddress: string, chainId: string): boolean {
+    const key = tokenKey(chainId, tokenAddress);
+
+    if (this.isRanked(sub.spec)) {
+      return sub.ranking?.some(ref => refKey(ref) === key) ?? false;
     }
-    return subscription.tokens.includes(tokenAddress);
+
+    const watched = this.watchlistKeys(client, sub);
+    if (watched && !watched.has(key)) return false;
+    if (!this.listsToken(sub, chainId, tokenAddress)) return false;
+
+    return !sub.spec.filters || sub.sent.has(key);
+  }
+
+  // the token list holds bare addresses, matched the way tokenKey does (EVM
+  // ones in any case). No list = every token
+  private listsToken(sub: Subscription, chainId: string, tokenAddress: string): boolean {
+    const tokens = sub.spec.tokens;
+    if (!tokens || tokens.length === 0) return true;
+
+    const key = tokenKey(chainId, tokenAddress);
+    return tokens.some(address => tokenKey(chainId, address) === key);
   }
 
-  // filter tokens based on client subscription
-  private filterTokensForClient(tokens: Token[], subscription: ClientSubscription): Token[] {
-    if (!subscription.filters && !subscription.tokens) {
+  // filter tokens based on one of the client's subscriptions
+  private filterTokensFor(tokens: Token[], client: ConnectedClient, sub: Subscription): Token[] {
+    const subscription = sub.spec;
+    if (!subscription.filters && !subscription.tokens && subscription.watchlist === undefined) {
       return tokens;
     }
 
+    const watched = this.watchlistKeys(client, sub);
+
     return tokens.filter(token => {
+      if (watched && !watched.has(tokenKey(token.chain_id, token.token_address))) {
+        return false;
+      }
+
       // check token whitelist
-      if (subscription.tokens && subscription.tokens.length > 0) {
-        if (!subscription.tokens.includes(token.token_address)) {
-          return false;
-        }
+      if (!this.listsToken(sub, token.chain_id, token.token_address)) {
+        return false;
       }
 
-      // apply filters
-      const filters = subscription.filters;
-      if (filters) {
-        if (filters.minVolume && token.volume_usd < filters.minVolume) return false;
-        if (filters.maxVolume && token.volume_usd > filters.maxVolume) return false;
-        if (filters.minMarketCap && token.market_cap_usd < filters.minMarketCap) return false;
-        if (filters.minLiquidity && token.liquidity_usd < filters.minLiquidity) return false;
-        if (filters.protocol && token.protocol.toLowerCase() !== filters.protocol.toLowerCase()) return false;
+      // same rules as GET /api/tokens, time period included
+      if (subscription.filters && !matchesFilter(token, subscription.filters)) {
+        return false;
       }
 
       return true;
@@ -262,6 +797,7 @@ export class WebSocketServer {
   private sendToClient<T>(socket: Socket, message: WebSocketMessage<T>): void {
     try {
       socket.emit(message.event, message);
+      wsMessages.inc({ event: message.event });
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       logger.error(`Failed to send message to client ${socket.id}: ${msg}`);
@@ -270,6 +806,11 @@ export class WebSocketServer {
 
   // broadcast error to all clients
   broadcastError(error: { code: string; message: string }): void {
+    this.relay({ event: 'error', data: error });
+    this.emitError(error);
+  }
+
+  private emitError(error: { code: string; message: string }): void {
     const message: WebSocketMessage<{ code: string; message: string }> = {
       event: 'error' as WebSocketEventType,
       data: error,
@@ -277,6 +818,7 @@ export class WebSocketServer {
     };
 
     this.io.emit('error', message);
+    wsMessages.inc({ event: 'error' }, this.clients.size);
   }
 
   // get connection stats
@@ -287,8 +829,10 @@ export class WebSocketServer {
   } {
     let subscriptionsCount = 0;
     for (const client of this.clients.values()) {
-      if (client.subscription.tokens?.length || client.subscription.filters) {
-        subscriptionsCount++;
+      for (const { spec } of client.subscriptions.values()) {
+        if (spec.tokens?.length || spec.filters || spec.watchlist !== undefined || this.isRanked(spec)) {
+          subscriptionsCount++;
+        }
       }
     }
 
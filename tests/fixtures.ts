@@ -0,0 +1,21 @@
+import type { Token } from '../src/types';
+
+// a complete token with neutral values, override whatever the test is about
+export const makeToken = (fields: Partial<Token> = {}): Token => ({
+  token_address: 'addr',
+  token_name: 'Test',
+  token_ticker: 'TST',
+  price_sol: 0, price_usd: 1,
+  market_cap_sol: 0, market_cap_usd: 0,
+  volume_sol: 0, volume_usd: 0,
+  liquidity_sol: 0, liquidity_usd: 1000,
+  transaction_count: 0,
+  price_5m_change: 0, price_1hr_change: 0, price_6hr_change: 0, price_24hr_change: 0, price_7d_change: 0,
+  volume_5m: 0, volume_1hr: 0, volume_6hr: 0, volume_24hr: 0, volume_7d: 0,
+  protocol: 'raydium', dex_id: 'raydium', chain_id: 'solana',
+  pair_address: 'pair',
+  created_at: '2024-01-01T00:00:00.000Z',
+  last_updated: '2024-01-01T00:00:00.000Z',
+  sources: ['dexscreener'],
+  ...fields,
+});
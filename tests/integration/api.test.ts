@@ -1,8 +1,35 @@
 import express from 'express';
 import request from 'supertest';
-import { createTokenRoutes, createHealthRoutes } from '../../src/api/routes/index';
+import {
+  createTokenRoutes,
+  createHealthRoutes,
+  createAlertRoutes,
+  createWebhookRoutes,
+  createWatchlistRoutes,
+  createPortfolioRoutes,
+  createPriceRoutes,
+  createAdminRoutes,
+  createMetricsRoutes,
+  createWebSocketRoutes,
+  applyAdminCommand,
+  type AdminCommand,
+} from '../../src/api/routes/index';
 import { TokenAggregator } from '../../src/services/aggregator';
-import { errorHandler, notFoundHandler } from '../../src/api/middleware';
+import { AlertEngine } from '../../src/services/alerts';
+import { WebhookService } from '../../src/services/webhooks';
+import { WatchlistService } from '../../src/services/watchlists';
+import { ApiKeyService } from '../../src/services/apiKeys';
+import { AuditLog } from '../../src/services/auditLog';
+import type { UpdateScheduler } from '../../src/scheduler';
+import { MemoryCache, getCache } from '../../src/services/cache';
+import { FixtureSource, SourceRegistry } from '../../src/services/sources';
+import { CursorError } from '../../src/services/pagination';
+import { MemoryTimeSeriesStore } from '../../src/services/timeSeries';
+import { apiKeyAuth, errorHandler, notFoundHandler, requestMetrics } from '../../src/api/middleware';
+import { metrics } from '../../src/utils/metrics';
+import { CLUSTER_CHANNELS, MemoryBroker, MemoryClusterBus } from '../../src/cluster';
+import config from '../../src/config';
+import type { Token } from '../../src/types';
 
 // Mock the aggregator
 jest.mock('../../src/services/aggregator');
@@ -10,6 +37,11 @@ jest.mock('../../src/services/aggregator');
 describe('API Routes', () => {
   let app: express.Application;
   let mockAggregator: jest.Mocked<TokenAggregator>;
+  let apiKeys: ApiKeyService;
+  let adminCache: MemoryCache;
+  let audit: AuditLog;
+  let mockScheduler: jest.Mocked<UpdateScheduler>;
+  let broker: MemoryBroker;
 
   // Use realistic Solana-style addresses for tests
   const ADDR_1 = 'So11111111111111111111111111111111111111112';
@@ -93,6 +125,17 @@ describe('API Routes', () => {
         return Promise.resolve(mockTokens.find(t => t.token_address === address) || null);
       }),
       searchTokens: jest.fn().mockResolvedValue(mockTokens),
+      suggestTokens: jest.fn().mockReturnValue([
+        { token_address: ADDR_1, chain_id: 'solana', token_name: 'Test Token', token_ticker: 'TEST', price_usd: 0.001, liquidity_usd: 10000, score: 1.1 },
+      ]),
+      getPairs: jest.fn().mockImplementation((address: string) => {
+        return Promise.resolve(address === ADDR_1
+          ? [{ pair_address: 'pair-1', token_address: ADDR_1, dex_id: 'raydium', liquidity_usd: 10000 }]
+          : []);
+      }),
+      getCandles: jest.fn().mockResolvedValue([
+        { open_time: 0, close_time: 59999, open: 1, high: 2, low: 0.5, close: 1.5, volume: 100, samples: 3 },
+      ]),
       getStats: jest.fn().mockReturnValue({
         totalTokens: mockTokens.length,
         lastRefresh: new Date(),
@@ -100,12 +143,97 @@ describe('API Routes', () => {
         cacheStats: { hits: 10, misses: 2, hitRate: 0.83 },
       }),
       getSolPrice: jest.fn().mockReturnValue(200),
+      getNativePriceInfo: jest.fn().mockReturnValue([
+        {
+          chain: 'solana',
+          symbol: 'SOL',
+          price_usd: 150,
+          method: 'single',
+          quotes: [{ source: 'dexscreener', price_usd: 150, fetched_at: new Date().toISOString(), used: true }],
+          updated_at: new Date().toISOString(),
+          age_ms: 1000,
+          stale: false,
+        },
+      ]),
+      getChainStatus: jest.fn().mockReturnValue([
+        { chain: 'solana', native_symbol: 'SOL', native_price: 200, tokens: 2, last_refresh: null },
+      ]),
+      getSourceStatus: jest.fn().mockReturnValue([
+        {
+          name: 'dexscreener',
+          enabled: true,
+          rateLimit: { available: 300, name: 'dexscreener' },
+          health: {
+            state: 'open',
+            consecutive_failures: 5,
+            last_success: '2024-01-01T00:00:00.000Z',
+            last_error: '2024-01-01T00:05:00.000Z',
+            last_error_message: 'Request failed with status code 503',
+            latency_ms: 180,
+            avg_latency_ms: 210,
+            open_until: '2024-01-01T00:05:30.000Z',
+          },
+        },
+        {
+          name: 'geckoterminal',
+          enabled: true,
+          rateLimit: { available: 30, name: 'geckoterminal' },
+          health: {
+            state: 'closed',
+            consecutive_failures: 0,
+            last_success: '2024-01-01T00:04:00.000Z',
+            last_error: null,
+            last_error_message: null,
+            latency_ms: 95,
+            avg_latency_ms: 120,
+            open_until: null,
+          },
+        },
+      ]),
+      setSourceEnabled: jest.fn().mockImplementation((name: string) => name === 'dexscreener'),
+      evictToken: jest.fn().mockImplementation((address: string) => {
+        return Promise.resolve(mockTokens.find(t => t.token_address === address) || null);
+      }),
+      getAllTokensArray: jest.fn().mockReturnValue(mockTokens),
     } as unknown as jest.Mocked<TokenAggregator>;
 
+    mockScheduler = {
+      triggerRefresh: jest.fn().mockResolvedValue(undefined),
+      getStatus: jest.fn().mockReturnValue({ running: true, jobs: [{ name: 'priceUpdate', running: true, paused: false }] }),
+      pauseJob: jest.fn().mockImplementation((name: string) => name === 'priceUpdate'),
+      resumeJob: jest.fn().mockImplementation((name: string) => name === 'priceUpdate'),
+    } as unknown as jest.Mocked<UpdateScheduler>;
+
+    apiKeys = new ApiKeyService(new MemoryCache());
+    adminCache = new MemoryCache();
+    audit = new AuditLog(new MemoryCache());
+    broker = new MemoryBroker();
+
     app = express();
     app.use(express.json());
+    app.use(requestMetrics);
+    app.use('/api', apiKeyAuth(apiKeys, ['/admin']));
     app.use('/api/tokens', createTokenRoutes(mockAggregator));
     app.use('/api/health', createHealthRoutes(mockAggregator));
+    app.use('/api/alerts', createAlertRoutes(new AlertEngine(new MemoryCache(), new MemoryTimeSeriesStore())));
+    app.use('/api/webhooks', createWebhookRoutes(new WebhookService(() => undefined, new MemoryCache())));
+    const watchlists = new WatchlistService(
+      address => mockTokens.find(t => t.token_address === address) as unknown as Token | undefined,
+      new MemoryCache()
+    );
+    app.use('/api/watchlists', createWatchlistRoutes(watchlists));
+    app.use('/api/portfolios', createPortfolioRoutes(watchlists));
+    app.use('/api/prices', createPriceRoutes(mockAggregator));
+    app.use('/api/admin', createAdminRoutes({
+      apiKeys,
+      aggregator: mockAggregator,
+      scheduler: mockScheduler,
+      cache: adminCache,
+      audit,
+      cluster: new MemoryClusterBus('api', broker),
+    }));
+    app.use('/api/websocket', createWebSocketRoutes());
+    app.use('/metrics', createMetricsRoutes(mockAggregator));
     app.use(notFoundHandler);
     app.use(errorHandler);
   });
@@ -137,6 +265,66 @@ describe('API Routes', () => {
       expect(mockAggregator.getTokens).toHaveBeenCalled();
     });
 
+    it('should pass min_safety_score through as a filter', async () => {
+      await request(app)
+        .get('/api/tokens')
+        .query({ min_safety_score: 70 })
+        .expect(200);
+
+      expect(mockAggregator.getTokens).toHaveBeenCalledWith(
+        expect.objectContaining({ minSafetyScore: 70 }),
+        undefined,
+        expect.anything()
+      );
+    });
+
+    it('should return 400 for an unknown time period', async () => {
+      const response = await request(app)
+        .get('/api/tokens')
+        .query({ time_period: '3d' })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_TIME_PERIOD');
+    });
+
+    it('should parse a filter expression, multi-key sort and projection', async () => {
+      const response = await request(app)
+        .get('/api/tokens')
+        .query({
+          filter: 'liquidity_usd>5000 AND dex_id IN (raydium,orca)',
+          sort: 'liquidity_usd:desc,price_usd:asc',
+          fields: 'token_address,price_usd',
+        })
+        .expect(200);
+
+      const [filter, sort] = mockAggregator.getTokens.mock.calls[0];
+      expect(filter?.expression).toMatchObject({ op: 'and' });
+      expect(sort).toEqual([
+        { field: 'liquidity_usd', direction: 'desc' },
+        { field: 'price_usd', direction: 'asc' },
+      ]);
+      expect(Object.keys(response.body.data.data[0]).sort()).toEqual(['price_usd', 'token_address']);
+    });
+
+    it('should return 400 for a malformed filter expression', async () => {
+      const response = await request(app)
+        .get('/api/tokens')
+        .query({ filter: 'liquidity_usd>>5' })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_QUERY');
+    });
+
+    it('should map cursor errors to 400 and 410', async () => {
+      mockAggregator.getTokens.mockRejectedValueOnce(new CursorError('INVALID_CURSOR', 'Cursor signature does not match'));
+      const invalid = await request(app).get('/api/tokens').query({ cursor: 'forged' }).expect(400);
+      expect(invalid.body.error).toHaveProperty('code', 'INVALID_CURSOR');
+
+      mockAggregator.getTokens.mockRejectedValueOnce(new CursorError('CURSOR_EXPIRED', 'Cursor has expired'));
+      const expired = await request(app).get('/api/tokens').query({ cursor: 'old' }).expect(410);
+      expect(expired.body.error).toHaveProperty('code', 'CURSOR_EXPIRED');
+    });
+
     it('should accept sort parameters', async () => {
       await request(app)
         .get('/api/tokens')
@@ -162,6 +350,39 @@ describe('API Routes', () => {
     });
   });
 
+  describe('GET /api/tokens/gainers/list', () => {
+    it('should rank by price change in the requested window', async () => {
+      await request(app)
+        .get('/api/tokens/gainers/list')
+        .query({ time_period: '5m' })
+        .expect(200);
+
+      expect(mockAggregator.getTokens).toHaveBeenCalledWith(
+        { timePeriod: '5m', minVolume: 100 },
+        { field: 'price_change', direction: 'desc', timePeriod: '5m' },
+        { limit: 20 }
+      );
+    });
+  });
+
+  describe('GET /api/tokens/search/suggest', () => {
+    it('should return suggestions from the index', async () => {
+      const response = await request(app)
+        .get('/api/tokens/search/suggest')
+        .query({ q: 'te', limit: 5 })
+        .expect(200);
+
+      expect(response.body.data.count).toBe(1);
+      expect(response.body.data.suggestions[0]).toHaveProperty('token_ticker', 'TEST');
+      expect(mockAggregator.suggestTokens).toHaveBeenCalledWith('te', 5, undefined);
+    });
+
+    it('should return 400 without a query', async () => {
+      const response = await request(app).get('/api/tokens/search/suggest').expect(400);
+      expect(response.body.error).toHaveProperty('code', 'INVALID_QUERY');
+    });
+  });
+
   describe('GET /api/tokens/search', () => {
     it('should search tokens by query', async () => {
       const response = await request(app)
@@ -171,7 +392,7 @@ describe('API Routes', () => {
 
       expect(response.body).toHaveProperty('success', true);
       expect(response.body.data).toHaveProperty('tokens');
-      expect(mockAggregator.searchTokens).toHaveBeenCalledWith('Token', expect.any(Number));
+      expect(mockAggregator.searchTokens).toHaveBeenCalledWith('Token', expect.any(Number), undefined);
     });
 
     it('should return error for empty query', async () => {
@@ -212,6 +433,83 @@ describe('API Routes', () => {
       expect(response.body).toHaveProperty('success', false);
       expect(response.body.error).toHaveProperty('code', 'INVALID_ADDRESS');
     });
+
+    it('should pass the chain through', async () => {
+      await request(app)
+        .get(`/api/tokens/${ADDR_1}`)
+        .query({ chain: 'solana' })
+        .expect(200);
+
+      expect(mockAggregator.getTokenByAddress).toHaveBeenCalledWith(ADDR_1, 'solana');
+    });
+
+    it('should return 400 for a chain we do not aggregate', async () => {
+      const response = await request(app)
+        .get(`/api/tokens/${ADDR_1}`)
+        .query({ chain: 'dogechain' })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_CHAIN');
+    });
+  });
+
+  describe('GET /api/tokens/:address/pairs', () => {
+    it('should list pairs for a token', async () => {
+      const response = await request(app)
+        .get(`/api/tokens/${ADDR_1}/pairs`)
+        .expect(200);
+
+      expect(response.body).toHaveProperty('success', true);
+      expect(response.body.data.count).toBe(1);
+      expect(response.body.data.pairs[0]).toHaveProperty('pair_address', 'pair-1');
+    });
+
+    it('should return empty list for known token without pairs', async () => {
+      const response = await request(app)
+        .get(`/api/tokens/${ADDR_2}/pairs`)
+        .expect(200);
+
+      expect(response.body.data.pairs).toEqual([]);
+    });
+
+    it('should return 404 for unknown token', async () => {
+      const response = await request(app)
+        .get('/api/tokens/non-existent-token-address-12345678/pairs')
+        .expect(404);
+
+      expect(response.body.error).toHaveProperty('code', 'TOKEN_NOT_FOUND');
+    });
+  });
+
+  describe('GET /api/tokens/:address/candles', () => {
+    it('should return candles for a token', async () => {
+      const response = await request(app)
+        .get(`/api/tokens/${ADDR_1}/candles`)
+        .query({ interval: '1m', from: 0, to: 60000 })
+        .expect(200);
+
+      expect(response.body).toHaveProperty('success', true);
+      expect(response.body.data.candles).toHaveLength(1);
+      expect(mockAggregator.getCandles).toHaveBeenCalledWith(ADDR_1, '1m', 0, 60000, undefined);
+    });
+
+    it('should return error for unknown interval', async () => {
+      const response = await request(app)
+        .get(`/api/tokens/${ADDR_1}/candles`)
+        .query({ interval: '3m' })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_INTERVAL');
+    });
+
+    it('should return error for inverted range', async () => {
+      const response = await request(app)
+        .get(`/api/tokens/${ADDR_1}/candles`)
+        .query({ from: 2000, to: 1000 })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_RANGE');
+    });
   });
 
   describe('POST /api/tokens/batch', () => {
@@ -249,6 +547,506 @@ describe('API Routes', () => {
     });
   });
 
+  describe('/api/alerts', () => {
+    const rule = {
+      name: 'TK1 moon',
+      condition: { type: 'price_cross', token_address: ADDR_1, threshold: 1, direction: 'above' },
+    };
+
+    it('should require a client id', async () => {
+      const response = await request(app)
+        .get('/api/alerts')
+        .expect(401);
+
+      expect(response.body.error).toHaveProperty('code', 'MISSING_CLIENT_ID');
+    });
+
+    it('should create, list, update and delete rules', async () => {
+      const created = await request(app)
+        .post('/api/alerts')
+        .set('X-Client-Id', 'bot-1')
+        .send(rule)
+        .expect(201);
+
+      const id = created.body.data.id;
+      expect(created.body.data).toMatchObject({ owner: 'anon:bot-1', enabled: true });
+
+      const list = await request(app).get('/api/alerts').set('X-Client-Id', 'bot-1').expect(200);
+      expect(list.body.data.count).toBe(1);
+
+      // other clients can't see it
+      await request(app).get(`/api/alerts/${id}`).set('X-Client-Id', 'bot-2').expect(404);
+
+      const updated = await request(app)
+        .put(`/api/alerts/${id}`)
+        .set('X-Client-Id', 'bot-1')
+        .send({ enabled: false })
+        .expect(200);
+      expect(updated.body.data.enabled).toBe(false);
+      expect(updated.body.data.name).toBe('TK1 moon');
+
+      await request(app).delete(`/api/alerts/${id}`).set('X-Client-Id', 'bot-1').expect(200);
+      await request(app).get(`/api/alerts/${id}`).set('X-Client-Id', 'bot-1').expect(404);
+    });
+
+    it('should reject invalid rules', async () => {
+      const response = await request(app)
+        .post('/api/alerts')
+        .set('X-Client-Id', 'bot-1')
+        .send({ condition: { type: 'price_cross', threshold: -1 } })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_RULE');
+    });
+  });
+
+  describe('/api/webhooks', () => {
+    const hook = { url: 'https://example.com/hook', events: ['new_token', 'alert_triggered'] };
+
+    it('should create, list and delete webhooks', async () => {
+      const created = await request(app)
+        .post('/api/webhooks')
+        .set('X-Client-Id', 'bot-1')
+        .send(hook)
+        .expect(201);
+
+      const id = created.body.data.id;
+      expect(created.body.data.secret).toHaveLength(64); // full secret only on create
+
+      const list = await request(app).get('/api/webhooks').set('X-Client-Id', 'bot-1').expect(200);
+      expect(list.body.data.count).toBe(1);
+      expect(list.body.data.webhooks[0].secret).not.toBe(created.body.data.secret);
+
+      await request(app).get(`/api/webhooks/${id}`).set('X-Client-Id', 'bot-2').expect(404);
+
+      const deliveries = await request(app)
+        .get(`/api/webhooks/${id}/deliveries`)
+        .set('X-Client-Id', 'bot-1')
+        .expect(200);
+      expect(deliveries.body.data.count).toBe(0);
+
+      await request(app).delete(`/api/webhooks/${id}`).set('X-Client-Id', 'bot-1').expect(200);
+      await request(app).get(`/api/webhooks/${id}`).set('X-Client-Id', 'bot-1').expect(404);
+    });
+
+    it('should reject invalid webhooks', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('X-Client-Id', 'bot-1')
+        .send({ url: 'ftp://example.com', events: ['moon'] })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_WEBHOOK');
+    });
+
+    it('should refuse webhooks pointing at internal addresses', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set('X-Client-Id', 'bot-1')
+        .send({ url: 'http://169.254.169.254/latest/meta-data', events: ['new_token'] })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_WEBHOOK_URL');
+    });
+
+    it('should 404 retrying an unknown dead letter', async () => {
+      const response = await request(app)
+        .post('/api/webhooks/dead-letters/nope/retry')
+        .set('X-Client-Id', 'bot-1')
+        .expect(404);
+
+      expect(response.body.error).toHaveProperty('code', 'DELIVERY_NOT_FOUND');
+    });
+  });
+
+  describe('/api/watchlists', () => {
+    it('should create a watchlist and return live tokens for it', async () => {
+      const created = await request(app)
+        .post('/api/watchlists')
+        .set('X-Client-Id', 'bot-1')
+        .send({ name: 'Daily', tokens: [{ token_address: ADDR_1 }, { token_address: 'untracked', chain_id: 'solana' }] })
+        .expect(201);
+
+      const id = created.body.data.id;
+      expect(created.body.data.tokens[0]).toEqual({ token_address: ADDR_1, chain_id: 'solana' });
+
+      const tokens = await request(app).get(`/api/watchlists/${id}/tokens`).set('X-Client-Id', 'bot-1').expect(200);
+      expect(tokens.body.data.count).toBe(1);
+      expect(tokens.body.data.tokens[0].token_address).toBe(ADDR_1);
+      expect(tokens.body.data.missing).toHaveLength(1);
+
+      const renamed = await request(app)
+        .put(`/api/watchlists/${id}`)
+        .set('X-Client-Id', 'bot-1')
+        .send({ name: 'Renamed' })
+        .expect(200);
+      expect(renamed.body.data.tokens).toHaveLength(2);
+
+      await request(app).get(`/api/watchlists/${id}`).set('X-Client-Id', 'bot-2').expect(404);
+      await request(app).delete(`/api/watchlists/${id}`).set('X-Client-Id', 'bot-1').expect(200);
+      await request(app).get(`/api/watchlists/${id}`).set('X-Client-Id', 'bot-1').expect(404);
+    });
+
+    it('should reject invalid watchlists', async () => {
+      const response = await request(app)
+        .post('/api/watchlists')
+        .set('X-Client-Id', 'bot-1')
+        .send({ tokens: [{ token_address: ADDR_1, chain_id: 'nope' }] })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_WATCHLIST');
+    });
+
+    it('should require a client id', async () => {
+      await request(app).get('/api/watchlists').expect(401);
+    });
+  });
+
+  describe('/api/portfolios', () => {
+    it('should report PnL against current prices', async () => {
+      const created = await request(app)
+        .post('/api/portfolios')
+        .set('X-Client-Id', 'bot-1')
+        .send({ name: 'Bags', positions: [{ token_address: ADDR_1, quantity: 1000, cost_basis_usd: 100 }] })
+        .expect(201);
+
+      const pnl = await request(app)
+        .get(`/api/portfolios/${created.body.data.id}/pnl`)
+        .set('X-Client-Id', 'bot-1')
+        .expect(200);
+
+      // 1000 * $0.2 = $200 against $100 paid
+      expect(pnl.body.data.total_value_usd).toBe(200);
+      expect(pnl.body.data.total_pnl_usd).toBe(100);
+      expect(pnl.body.data.total_pnl_percent).toBe(100);
+      expect(pnl.body.data.positions[0].token_ticker).toBe('TK1');
+
+      await request(app).get(`/api/portfolios/${created.body.data.id}/pnl`).set('X-Client-Id', 'bot-2').expect(404);
+    });
+
+    it('should reject negative quantities', async () => {
+      const response = await request(app)
+        .post('/api/portfolios')
+        .set('X-Client-Id', 'bot-1')
+        .send({ name: 'Bad', positions: [{ token_address: ADDR_1, quantity: -1, cost_basis_usd: 1 }] })
+        .expect(400);
+
+      expect(response.body.error).toHaveProperty('code', 'INVALID_PORTFOLIO');
+    });
+  });
+
+  describe('API keys', () => {
+    const ADMIN_KEY = 'test-admin-key-0123456789';
+    const adminKey = config.adminApiKey;
+    const requireKey = config.requireApiKey;
+
+    beforeAll(() => {
+      config.adminApiKey = ADMIN_KEY;
+    });
+
+    afterAll(() => {
+      config.adminApiKey = adminKey;
+      config.requireApiKey = requireKey;
+    });
+
+    const issue = async (body: Record<string, unknown>) => {
+      const response = await request(app)
+        .post('/api/admin/keys')
+        .set('X-Admin-Key', ADMIN_KEY)
+        .send(body)
+        .expect(201);
+      return response.body.data as { id: string; key: string; owner: string };
+    };
+
+    it('should guard admin routes with the admin key', async () => {
+      const wrong = await request(app).get('/api/admin/keys').set('X-Admin-Key', 'nope').expect(401);
+      expect(wrong.body.error).toHaveProperty('code', 'INVALID_ADMIN_KEY');
+
+      await request(app).get('/api/admin/keys').set('X-Admin-Key', ADMIN_KEY).expect(200);
+    });
+
+    it('should issue a key once and never list it again', async () => {
+      const created = await issue({ name: 'trader', owner: 'bot-9' });
+      expect(created.key).toMatch(/^mca_/);
+
+      const list = await request(app).get('/api/admin/keys').set('X-Admin-Key', ADMIN_KEY).expect(200);
+      expect(JSON.stringify(list.body.data)).not.toContain(created.key);
+    });
+
+    it('should attach the key and use its owner as the client id', async () => {
+      const { key } = await issue({ name: 'trader', owner: 'bot-key' });
+
+      const response = await request(app)
+        .post('/api/watchlists')
+        .set('X-Api-Key', key)
+        .send({ name: 'Keyed', tokens: [] })
+        .expect(201);
+
+      expect(response.body.data.owner).toBe('bot-key');
+      expect(response.headers['ratelimit-remaining']).toBeDefined();
+      expect(response.headers['x-quota-remaining']).toBeDefined();
+
+      // bearer works too
+      const list = await request(app).get('/api/watchlists').set('Authorization', `Bearer ${key}`).expect(200);
+      expect(list.body.data.count).toBe(1);
+    });
+
+    it('should not let a keyless client id pass for a key owner', async () => {
+      const { key } = await issue({ name: 'victim', owner: 'bot-victim' });
+      await request(app)
+        .post('/api/watchlists')
+        .set('X-Api-Key', key)
+        .send({ name: 'Private', tokens: [] })
+        .expect(201);
+
+      const spoofed = await request(app).get('/api/watchlists').set('X-Client-Id', 'bot-victim').expect(200);
+      expect(spoofed.body.data.count).toBe(0);
+
+      await request(app)
+        .post('/api/admin/keys')
+        .set('X-Admin-Key', ADMIN_KEY)
+        .send({ name: 'squatter', owner: 'anon:bot-1' })
+        .expect(400);
+    });
+
+    it('should reject bad keys and keys over their limit', async () => {
+      const bad = await request(app).get('/api/tokens').set('X-Api-Key', 'mca_nope').expect(401);
+      expect(bad.body.error).toHaveProperty('code', 'INVALID_API_KEY');
+
+      const { key } = await issue({ name: 'tiny', rate_limit_per_minute: 1 });
+      await request(app).get('/api/tokens').set('X-Api-Key', key).expect(200);
+
+      const limited = await request(app).get('/api/tokens').set('X-Api-Key', key).expect(429);
+      expect(limited.body.error).toHaveProperty('code', 'RATE_LIMIT_EXCEEDED');
+      expect(limited.headers['retry-after']).toBeDefined();
+    });
+
+    it('should cut a key off when it is disabled', async () => {
+      const { id, key } = await issue({ name: 'abuser' });
+
+      await request(app)
+        .put(`/api/admin/keys/${id}`)
+        .set('X-Admin-Key', ADMIN_KEY)
+        .send({ enabled: false })
+        .expect(200);
+
+      const response = await request(app).get('/api/tokens').set('X-Api-Key', key).expect(403);
+      expect(response.body.error).toHaveProperty('code', 'API_KEY_DISABLED');
+
+      const detail = await request(app).get(`/api/admin/keys/${id}`).set('X-Admin-Key', ADMIN_KEY).expect(200);
+      expect(detail.body.data.usage).toHaveProperty('requests_today');
+    });
+
+    it('should require a key when REQUIRE_API_KEY is on', async () => {
+      config.requireApiKey = true;
+      const response = await request(app).get('/api/tokens').expect(401);
+      config.requireApiKey = requireKey;
+
+      expect(response.body.error).toHaveProperty('code', 'MISSING_API_KEY');
+    });
+  });
+
+  describe('/api/admin', () => {
+    const ADMIN_KEY = 'test-admin-key-0123456789';
+    const adminKey = config.adminApiKey;
+
+    beforeAll(() => {
+      config.adminApiKey = ADMIN_KEY;
+    });
+
+    afterAll(() => {
+      config.adminApiKey = adminKey;
+    });
+
+    const admin = (method: 'get' | 'post' | 'put' | 'delete', path: string) =>
+      request(app)[method](path).set('X-Admin-Key', ADMIN_KEY).set('X-Admin-Actor', 'ops-alice');
+
+    it('should trigger a refresh of one chain', async () => {
+      const response = await admin('post', '/api/admin/refresh').send({ chain: 'solana' }).expect(200);
+
+      expect(mockScheduler.triggerRefresh).toHaveBeenCalledWith('solana');
+      expect(response.body.data.tokens).toBe(mockTokens.length);
+
+      await admin('post', '/api/admin/refresh').send({ chain: 'moon' }).expect(400);
+    });
+
+    it('should hand a refresh sent to a follower to the leader', async () => {
+      const leaderScheduler = { triggerRefresh: jest.fn().mockResolvedValue(undefined) } as unknown as UpdateScheduler;
+      const leaderDeps = { aggregator: mockAggregator, scheduler: leaderScheduler, isLeader: () => true };
+      await new MemoryClusterBus('leader', broker).subscribe(CLUSTER_CHANNELS.admin, data => {
+        void applyAdminCommand(leaderDeps, data as AdminCommand);
+      });
+
+      const followerApp = express();
+      followerApp.use(express.json());
+      followerApp.use('/api/admin', createAdminRoutes({
+        apiKeys, aggregator: mockAggregator, scheduler: mockScheduler, cache: adminCache, audit,
+        cluster: new MemoryClusterBus('follower', broker),
+        isLeader: () => false,
+      }));
+
+      const response = await request(followerApp)
+        .post('/api/admin/refresh').set('X-Admin-Key', ADMIN_KEY).send({ chain: 'solana' }).expect(202);
+
+      expect(response.body.data).toEqual({ chain: 'solana', forwarded: true });
+      expect(mockScheduler.triggerRefresh).not.toHaveBeenCalled();
+      expect(leaderScheduler.triggerRefresh).toHaveBeenCalledWith('solana');
+
+      // the other followers hear it too and leave it alone
+      const followerDeps = { aggregator: mockAggregator, scheduler: mockScheduler, isLeader: () => false };
+      expect(await applyAdminCommand(followerDeps, { action: 'refresh', chain: 'solana' })).toBe(false);
+      expect(mockScheduler.triggerRefresh).not.toHaveBeenCalled();
+    });
+
+    it('should pause and resume jobs', async () => {
+      await admin('post', '/api/admin/jobs/priceUpdate/pause').expect(200);
+      await admin('post', '/api/admin/jobs/priceUpdate/resume').expect(200);
+      const missing = await admin('post', '/api/admin/jobs/nope/pause').expect(404);
+
+      expect(mockScheduler.pauseJob).toHaveBeenCalledWith('priceUpdate');
+      expect(mockScheduler.resumeJob).toHaveBeenCalledWith('priceUpdate');
+      expect(missing.body.error).toHaveProperty('code', 'JOB_NOT_FOUND');
+    });
+
+    it('should switch data sources on and off', async () => {
+      await admin('put', '/api/admin/sources/dexscreener').send({ enabled: false }).expect(200);
+      expect(mockAggregator.setSourceEnabled).toHaveBeenCalledWith('dexscreener', false);
+
+      await admin('put', '/api/admin/sources/nope').send({ enabled: false }).expect(404);
+      await admin('put', '/api/admin/sources/dexscreener').send({ enabled: 'no' }).expect(400);
+    });
+
+    it('should list, inspect and flush cache keys', async () => {
+      await adminCache.set('token:solana:a', { a: 1 }, 60);
+      await adminCache.set('token:solana:b', { b: 1 }, 60);
+      await adminCache.set('alerts:rules', [], 60);
+
+      const list = await admin('get', '/api/admin/cache/keys').query({ pattern: 'token:*' }).expect(200);
+      expect(list.body.data.keys).toEqual(['token:solana:a', 'token:solana:b']);
+
+      const value = await admin('get', '/api/admin/cache/keys/token:solana:a').expect(200);
+      expect(value.body.data.value).toEqual({ a: 1 });
+
+      const flushed = await admin('post', '/api/admin/cache/flush').send({ pattern: 'token:*' }).expect(200);
+      expect(flushed.body.data.deleted).toBe(2);
+      expect(await adminCache.exists('alerts:rules')).toBe(true);
+
+      await admin('get', '/api/admin/cache/keys/token:solana:a').expect(404);
+    });
+
+    it('should evict a token', async () => {
+      const response = await admin('delete', `/api/admin/tokens/${ADDR_1}`).expect(200);
+      expect(response.body.data.evicted).toBe(true);
+
+      await admin('delete', '/api/admin/tokens/unknown').expect(404);
+    });
+
+    it('should take an evicted token out of the cached token list', async () => {
+      const { TokenAggregator: RealAggregator } =
+        jest.requireActual<typeof import('../../src/services/aggregator')>('../../src/services/aggregator');
+      const registry = new SourceRegistry();
+      registry.register({
+        name: 'one',
+        fetch: async () => [{ token_address: 'keep' }, { token_address: 'evict-me' }],
+        transform: (raw: Partial<Token>, solPrice: number) => new FixtureSource().transform({ token_address: 'x', ...raw }, solPrice),
+        getRateLimitStatus: () => ({ available: 1, name: 'one' }),
+      });
+      const aggregator = new RealAggregator(registry, undefined, ['solana']);
+      await aggregator.refreshChain('solana');
+
+      const evictApp = express();
+      evictApp.use('/api/tokens', createTokenRoutes(aggregator));
+      evictApp.use('/api/admin', createAdminRoutes({ apiKeys, aggregator, scheduler: mockScheduler, cache: adminCache, audit }));
+
+      try {
+        await request(evictApp).delete('/api/admin/tokens/evict-me').set('X-Admin-Key', ADMIN_KEY).expect(200);
+
+        const listed = await request(evictApp).get('/api/tokens').expect(200);
+        expect(listed.body.data.data.map((t: Token) => t.token_address)).toEqual(['keep']);
+
+        // a follower starting now doesn't bring it back either
+        const follower = new RealAggregator(new SourceRegistry(), undefined, ['solana']);
+        await follower.loadCachedTokens();
+        expect(follower.findToken('evict-me')).toBeUndefined();
+      } finally {
+        await getCache().delete('tokens:all');
+      }
+    });
+
+    it('should change the log level', async () => {
+      const response = await admin('put', '/api/admin/log-level').send({ level: 'warn' }).expect(200);
+      const current = await admin('get', '/api/admin/log-level').expect(200);
+      await admin('put', '/api/admin/log-level').send({ level: response.body.data.previous }).expect(200);
+
+      expect(current.body.data.level).toBe('warn');
+      await admin('put', '/api/admin/log-level').send({ level: 'loud' }).expect(400);
+    });
+
+    it('should pass control actions on to the other nodes', async () => {
+      const heard: AdminCommand[] = [];
+      await new MemoryClusterBus('peer', broker).subscribe(CLUSTER_CHANNELS.admin, data => heard.push(data as AdminCommand));
+
+      await admin('post', '/api/admin/jobs/priceUpdate/pause').expect(200);
+      await admin('put', '/api/admin/sources/dexscreener').send({ enabled: false }).expect(200);
+      await admin('delete', `/api/admin/tokens/${ADDR_1}`).expect(200);
+      const { body } = await admin('put', '/api/admin/log-level').send({ level: 'warn' }).expect(200);
+      await admin('put', '/api/admin/log-level').send({ level: body.data.previous }).expect(200);
+
+      // nothing for actions that failed here
+      await admin('post', '/api/admin/jobs/nope/pause').expect(404);
+      await admin('put', '/api/admin/sources/nope').send({ enabled: true }).expect(404);
+
+      expect(heard).toEqual([
+        { action: 'job.pause', name: 'priceUpdate' },
+        { action: 'source.set', name: 'dexscreener', enabled: false },
+        { action: 'token.evict', address: ADDR_1, chain: 'solana' },
+        { action: 'log_level.set', level: 'warn' },
+        { action: 'log_level.set', level: body.data.previous },
+      ]);
+    });
+
+    it('should apply control actions heard from another node', async () => {
+      const deps = { aggregator: mockAggregator, scheduler: mockScheduler };
+
+      expect(await applyAdminCommand(deps, { action: 'job.resume', name: 'priceUpdate' })).toBe(true);
+      expect(await applyAdminCommand(deps, { action: 'source.set', name: 'dexscreener', enabled: true })).toBe(true);
+      expect(await applyAdminCommand(deps, { action: 'token.evict', address: 'unknown', chain: 'solana' })).toBe(false);
+
+      expect(mockScheduler.resumeJob).toHaveBeenCalledWith('priceUpdate');
+      expect(mockAggregator.setSourceEnabled).toHaveBeenCalledWith('dexscreener', true);
+      expect(mockAggregator.evictToken).toHaveBeenCalledWith('unknown', 'solana');
+    });
+
+    it('should record every change in the audit log', async () => {
+      await admin('put', '/api/admin/sources/dexscreener').send({ enabled: false }).expect(200);
+      await admin('post', '/api/admin/jobs/priceUpdate/pause').expect(200);
+      await admin('get', '/api/admin/jobs').expect(200); // reads aren't audited
+
+      const response = await admin('get', '/api/admin/audit').expect(200);
+      const entries = response.body.data.entries;
+
+      expect(entries.map((e: { action: string }) => e.action)).toEqual(['job.pause', 'source.disable']);
+      expect(entries[0]).toMatchObject({ actor: 'ops-alice', target: 'priceUpdate' });
+
+      const filtered = await admin('get', '/api/admin/audit').query({ action: 'source.disable' }).expect(200);
+      expect(filtered.body.data.count).toBe(1);
+    });
+  });
+
+  describe('GET /api/prices/native', () => {
+    it('should return native prices with their sources', async () => {
+      const response = await request(app)
+        .get('/api/prices/native')
+        .query({ chain: 'solana' })
+        .expect(200);
+
+      expect(response.body.data.count).toBe(1);
+      expect(response.body.data.prices[0]).toMatchObject({ chain: 'solana', price_usd: 150, stale: false });
+      expect(response.body.data.prices[0].quotes[0]).toHaveProperty('source', 'dexscreener');
+      expect(mockAggregator.getNativePriceInfo).toHaveBeenCalledWith('solana');
+    });
+  });
+
   describe('GET /api/health', () => {
     it('should return health status', async () => {
       const response = await request(app)
@@ -260,6 +1058,26 @@ describe('API Routes', () => {
       expect(response.body.data).toHaveProperty('uptime');
       expect(response.body.data).toHaveProperty('services');
       expect(response.body.data).toHaveProperty('stats');
+      expect(response.body.data.services).toHaveProperty('dexscreener');
+      expect(response.body.data.services.geckoterminal).toHaveProperty('status', 'up');
+    });
+
+    it('should report each source from its circuit breaker state', async () => {
+      const response = await request(app)
+        .get('/api/health')
+        .expect(200);
+
+      expect(response.body.data.services.dexscreener).toMatchObject({
+        status: 'down',
+        latency_ms: 210,
+        last_check: '2024-01-01T00:05:00.000Z',
+        error: 'circuit open: Request failed with status code 503',
+      });
+      expect(response.body.data.services.geckoterminal).toMatchObject({
+        status: 'up',
+        latency_ms: 120,
+        last_check: '2024-01-01T00:04:00.000Z',
+      });
     });
   });
 
@@ -283,6 +1101,65 @@ describe('API Routes', () => {
       expect(response.body.data).toHaveProperty('uptime_ms');
       expect(response.body.data).toHaveProperty('aggregator');
       expect(response.body.data).toHaveProperty('cache');
+      expect(response.body.data.aggregator.chains[0]).toHaveProperty('native_symbol', 'SOL');
+    });
+  });
+
+  describe('GET /api/websocket/schema', () => {
+    it('should publish a JSON schema for every message', async () => {
+      const response = await request(app).get('/api/websocket/schema').expect(200);
+
+      expect(response.body.protocol_version).toBe(1);
+      expect(Object.keys(response.body.server_events)).toEqual(
+        expect.arrayContaining(['connected', 'batch_update', 'alert_triggered', 'entered', 'left', 'error'])
+      );
+      expect(Object.keys(response.body.client_events)).toEqual(['subscribe', 'unsubscribe', 'resync', 'ping']);
+    });
+  });
+
+  describe('GET /metrics', () => {
+    beforeEach(() => metrics.reset());
+
+    it('should expose metrics in the prometheus text format', async () => {
+      const response = await request(app)
+        .get('/metrics')
+        .expect('Content-Type', /^text\/plain.*version=0\.0\.4/)
+        .expect(200);
+
+      expect(response.text).toContain('# TYPE meme_aggregator_http_request_duration_seconds histogram');
+      expect(response.text).toContain('meme_aggregator_tokens_tracked{chain="solana"} 2');
+      expect(response.text).toContain('meme_aggregator_source_enabled{source="dexscreener"} 1');
+      expect(response.text).toContain('meme_aggregator_websocket_connections 0');
+    });
+
+    it('should label request latency by route pattern', async () => {
+      await request(app).get('/api/tokens').expect(200);
+      await request(app).get(`/api/tokens/${ADDR_1}`).expect(200);
+      await request(app).get('/api/tokens/non-existent-token-address-12345678').expect(404);
+      await request(app).get('/api/nothing-here').expect(404);
+
+      const response = await request(app).get('/metrics').expect(200);
+
+      expect(response.text).toContain(
+        'meme_aggregator_http_request_duration_seconds_count{method="GET",route="/api/tokens",status="200"} 1'
+      );
+      expect(response.text).toContain(
+        'meme_aggregator_http_request_duration_seconds_count{method="GET",route="/api/tokens/:address",status="200"} 1'
+      );
+      expect(response.text).toContain(
+        'meme_aggregator_http_request_duration_seconds_count{method="GET",route="/api/tokens/:address",status="404"} 1'
+      );
+      expect(response.text).toContain(
+        'meme_aggregator_http_request_duration_seconds_count{method="GET",route="unmatched",status="404"} 1'
+      );
+      expect(response.text).not.toContain(ADDR_1);
+    });
+
+    it('should feed the average response time in /api/health', async () => {
+      await request(app).get('/api/tokens').expect(200);
+
+      const response = await request(app).get('/api/health').expect(200);
+      expect(response.body.data.stats.avg_response_time_ms).toBeGreaterThan(0);
     });
   });
 
@@ -3,6 +3,12 @@ import { createServer } from 'http';
 import { AddressInfo } from 'net';
 import { io as ioc, Socket as ClientSocket } from 'socket.io-client';
 import { WebSocketServer } from '../../src/websocket/server';
+import { ApiKeyService } from '../../src/services/apiKeys';
+import { MemoryCache } from '../../src/services/cache';
+import { CLUSTER_CHANNELS, MemoryBroker, MemoryClusterBus } from '../../src/cluster';
+import config from '../../src/config';
+import type { BatchUpdateData, Token } from '../../src/types';
+import { makeToken } from '../fixtures';
 
 describe('WebSocket Server', () => {
   let httpServer: ReturnType<typeof createServer>;
@@ -96,8 +102,8 @@ describe('WebSocket Server', () => {
       volume_sol: 0, volume_usd: 0,
       liquidity_sol: 0, liquidity_usd: 0,
       transaction_count: 0,
-      price_1hr_change: 0, price_24hr_change: 0, price_7d_change: 0,
-      volume_1hr: 0, volume_24hr: 0, volume_7d: 0,
+      price_5m_change: 0, price_1hr_change: 0, price_6hr_change: 0, price_24hr_change: 0, price_7d_change: 0,
+      volume_5m: 0, volume_1hr: 0, volume_6hr: 0, volume_24hr: 0, volume_7d: 0,
       protocol: 'test', dex_id: 'test', chain_id: 'solana',
       pair_address: 'pair', created_at: new Date().toISOString(),
       last_updated: new Date().toISOString(), sources: ['test']
@@ -112,6 +118,571 @@ describe('WebSocket Server', () => {
     client.disconnect();
   });
 
+  it('delivers alerts only to the owning client', async () => {
+    const owner = await new Promise<ClientSocket>((resolve) => {
+      const c = ioc(`http://localhost:${port}`, {
+        transports: ['websocket'],
+        forceNew: true,
+        auth: { clientId: 'bot-1' },
+      });
+      c.on('connect', () => resolve(c));
+    });
+    const other = await createClient();
+    const otherGotIt = jest.fn();
+    other.on('alert_triggered', otherGotIt);
+
+    const msg = await new Promise<{ event: string; data: { rule_id: string } }>((resolve) => {
+      owner.on('alert_triggered', resolve);
+      setTimeout(() => wsServer.sendAlert({
+        rule_id: 'r1', rule_name: 'test', owner: 'anon:bot-1',
+        token_address: 'addr', chain_id: 'solana', token_ticker: 'TST',
+        condition: { type: 'price_cross', token_address: 'addr', threshold: 1, direction: 'above' },
+        value: 1.2, message: 'TST: test', triggered_at: new Date().toISOString(),
+      }), 50);
+    });
+
+    expect(msg.event).toBe('alert_triggered');
+    expect(msg.data.rule_id).toBe('r1');
+    expect(otherGotIt).not.toHaveBeenCalled();
+    owner.disconnect();
+    other.disconnect();
+  });
+
+  it('only sends watchlist tokens to a { watchlist } subscription', async () => {
+    wsServer.setWatchlistResolver((owner, id) =>
+      owner === 'anon:bot-1' && id === 'daily' ? [{ token_address: 'watched', chain_id: 'solana' }] : null
+    );
+
+    const client = await new Promise<ClientSocket>((resolve) => {
+      const c = ioc(`http://localhost:${port}`, {
+        transports: ['websocket'],
+        forceNew: true,
+        auth: { clientId: 'bot-1' },
+      });
+      c.on('connect', () => resolve(c));
+    });
+
+    const subscribed = await new Promise<{ data: { watchlist: string } }>((resolve) => {
+      client.on('subscribed', resolve);
+      client.emit('subscribe', { watchlist: 'daily' });
+    });
+    expect(subscribed.data.watchlist).toBe('daily');
+
+    const received: string[] = [];
+    client.on('price_update', (msg: { data: { token_address: string } }) => received.push(msg.data.token_address));
+
+    const update = (address: string) => ({
+      token_address: address, chain_id: 'solana', old_price: 1, new_price: 2, price_change_percent: 100, volume_24hr: 0,
+    });
+    wsServer.broadcastPriceUpdate(update('other'));
+    wsServer.broadcastPriceUpdate(update('watched'));
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(received).toEqual(['watched']);
+    client.disconnect();
+  });
+
+  it('rejects watchlist subscriptions it cannot resolve', async () => {
+    const client = await createClient(); // no client id
+
+    const msg = await new Promise<{ data: { code: string } }>((resolve) => {
+      client.on('error', resolve);
+      client.emit('subscribe', { watchlist: 'daily' });
+    });
+
+    expect(msg.data.code).toBe('MISSING_CLIENT_ID');
+    client.disconnect();
+  });
+
+  describe('API key handshakes', () => {
+    let apiKeys: ApiKeyService;
+
+    beforeAll(() => {
+      apiKeys = new ApiKeyService(new MemoryCache());
+      wsServer.setKeyAuthorizer(raw => apiKeys.authorize(raw));
+      apiKeys.setRevokeHandler(keyId => wsServer.disconnectKey(keyId));
+    });
+
+    const connectWithKey = (apiKey: string) => ioc(`http://localhost:${port}`, {
+      transports: ['websocket'],
+      forceNew: true,
+      auth: { apiKey },
+    });
+
+    it('rejects connections with an invalid key', async () => {
+      const client = connectWithKey('mca_nope');
+
+      const error = await new Promise<Error & { data?: { code: string } }>((resolve) => {
+        client.on('connect_error', resolve);
+      });
+
+      expect(error.data?.code).toBe('INVALID_API_KEY');
+      client.close();
+    });
+
+    it('uses the key owner and drops the connection when the key is revoked', async () => {
+      const { apiKey, key } = await apiKeys.create({ name: 'ws', owner: 'bot-ws', enabled: true });
+      const client = connectWithKey(key);
+
+      const connected = await new Promise<{ data: { owner: string } }>((resolve) => {
+        client.on('connected', resolve);
+      });
+      expect(connected.data.owner).toBe('bot-ws');
+
+      const revoked = new Promise<{ data: { code: string } }>((resolve) => client.on('error', resolve));
+      const disconnected = new Promise<string>((resolve) => client.on('disconnect', resolve));
+      await apiKeys.delete(apiKey.id);
+
+      expect((await revoked).data.code).toBe('API_KEY_REVOKED');
+      expect(await disconnected).toBe('io server disconnect');
+      client.close();
+    });
+
+    it('keeps a keyless client id apart from the key owner it names', async () => {
+      await apiKeys.create({ name: 'ws', owner: 'bot-owned', enabled: true });
+      const client = ioc(`http://localhost:${port}`, {
+        transports: ['websocket'],
+        forceNew: true,
+        auth: { clientId: 'bot-owned' },
+      });
+
+      const connected = await new Promise<{ data: { owner: string } }>((resolve) => {
+        client.on('connected', resolve);
+      });
+      expect(connected.data.owner).toBe('anon:bot-owned');
+      client.close();
+    });
+  });
+
+  describe('across cluster nodes', () => {
+    let nodeA: WebSocketServer;
+    let nodeB: WebSocketServer;
+    let httpA: ReturnType<typeof createServer>;
+    let httpB: ReturnType<typeof createServer>;
+    let portB: number;
+    let broker: MemoryBroker;
+
+    beforeAll(async () => {
+      broker = new MemoryBroker();
+      httpA = createServer(express());
+      httpB = createServer(express());
+      nodeA = new WebSocketServer(httpA);
+      nodeB = new WebSocketServer(httpB);
+      await nodeA.attachCluster(new MemoryClusterBus('node-a', broker));
+      await nodeB.attachCluster(new MemoryClusterBus('node-b', broker));
+      await new Promise<void>((resolve) => httpB.listen(0, resolve));
+      portB = (httpB.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await nodeA.shutdown();
+      await nodeB.shutdown();
+      httpA.close();
+      httpB.close();
+    });
+
+    const connectToB = (auth: Record<string, string> = {}): Promise<ClientSocket> => new Promise((resolve) => {
+      const client = ioc(`http://localhost:${portB}`, { transports: ['websocket'], forceNew: true, auth });
+      client.on('connect', () => resolve(client));
+    });
+
+    it('delivers broadcasts from one node to clients of another, once', async () => {
+      const client = await connectToB();
+      const received = jest.fn();
+      client.on('price_update', received);
+
+      nodeA.broadcastPriceUpdate({
+        token_address: 'remote', chain_id: 'solana', old_price: 1, new_price: 2,
+        price_change_percent: 100, volume_24hr: 0,
+      });
+      await new Promise(r => setTimeout(r, 100));
+
+      expect(received).toHaveBeenCalledTimes(1);
+      expect(received.mock.calls[0][0].data.token_address).toBe('remote');
+      client.disconnect();
+    });
+
+    it('only relays the tokens that changed since the last batch', async () => {
+      const relayed: string[][] = [];
+      await new MemoryClusterBus('observer', broker).subscribe(CLUSTER_CHANNELS.websocket, (message) => {
+        const { event, data } = message as { event: string; data: Token[] };
+        if (event === 'batch_update') relayed.push(data.map(t => t.token_address));
+      });
+
+      const a = makeToken({ token_address: 'relay-a' });
+      const b = makeToken({ token_address: 'relay-b' });
+      nodeA.broadcastBatchUpdate([a, b]);
+      nodeA.broadcastBatchUpdate([a, { ...b, price_usd: 2 }]);
+      nodeA.broadcastBatchUpdate([a, { ...b, price_usd: 2, last_updated: new Date().toISOString() }]);
+
+      expect(relayed).toEqual([['relay-a', 'relay-b'], ['relay-b']]);
+    });
+
+    it('routes alerts to the owner on whichever node they are connected', async () => {
+      const owner = await connectToB({ clientId: 'bot-remote' });
+
+      const msg = await new Promise<{ data: { rule_id: string } }>((resolve) => {
+        owner.on('alert_triggered', resolve);
+        const local = nodeA.sendAlert({
+          rule_id: 'r-remote', rule_name: 'test', owner: 'anon:bot-remote',
+          token_address: 'addr', chain_id: 'solana', token_ticker: 'TST',
+          condition: { type: 'price_cross', token_address: 'addr', threshold: 1, direction: 'above' },
+          value: 1.2, message: 'TST: test', triggered_at: new Date().toISOString(),
+        });
+        expect(local).toBe(0);
+      });
+
+      expect(msg.data.rule_id).toBe('r-remote');
+      owner.disconnect();
+    });
+  });
+
+  describe('batch updates', () => {
+    let node: WebSocketServer;
+    let httpNode: ReturnType<typeof createServer>;
+    let nodePort: number;
+    let current: Token[] = [];
+
+    beforeAll(async () => {
+      httpNode = createServer(express());
+      node = new WebSocketServer(httpNode);
+      node.setSnapshotSource(() => current);
+      await new Promise<void>((resolve) => httpNode.listen(0, resolve));
+      nodePort = (httpNode.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await node.shutdown();
+      httpNode.close();
+    });
+
+    const connect = (): Promise<ClientSocket> => new Promise((resolve) => {
+      const client = ioc(`http://localhost:${nodePort}`, { transports: ['websocket'], forceNew: true });
+      client.on('connect', () => resolve(client));
+    });
+
+    const nextBatch = (client: ClientSocket) =>
+      new Promise<BatchUpdateData>((resolve) => client.once('batch_update', (msg: { data: BatchUpdateData }) => resolve(msg.data)));
+
+    it('sends a snapshot first, then only the changed fields', async () => {
+      const client = await connect();
+      current = [makeToken({ token_address: 'a' }), makeToken({ token_address: 'b' })];
+
+      let batch = nextBatch(client);
+      node.broadcastBatchUpdate(current);
+      const snapshot = await batch;
+      expect(snapshot).toMatchObject({ type: 'snapshot', seq: 1, count: 2 });
+
+      // nothing changed - nothing sent
+      const quiet = jest.fn();
+      client.on('batch_update', quiet);
+      node.broadcastBatchUpdate(current);
+      await new Promise(r => setTimeout(r, 100));
+      expect(quiet).not.toHaveBeenCalled();
+      client.off('batch_update', quiet);
+
+      current = [makeToken({ token_address: 'a', price_usd: 2 }), makeToken({ token_address: 'b' })];
+      batch = nextBatch(client);
+      node.broadcastBatchUpdate(current);
+      const delta = await batch;
+
+      expect(delta).toEqual({
+        type: 'delta',
+        seq: 2,
+        updates: [{ token_address: 'a', chain_id: 'solana', changes: { price_usd: 2 } }],
+        removed: [],
+        count: 1,
+      });
+      client.disconnect();
+    });
+
+    it('reports tokens that stop matching the filters as removed', async () => {
+      const client = await connect();
+      await new Promise((resolve) => {
+        client.once('subscribed', resolve);
+        client.emit('subscribe', { filters: { minVolume: 1000 } });
+      });
+
+      current = [makeToken({ token_address: 'a', volume_24hr: 5000, volume_usd: 5000 })];
+      let batch = nextBatch(client);
+      node.broadcastBatchUpdate(current);
+      expect((await batch).type).toBe('snapshot');
+
+      current = [makeToken({ token_address: 'a', volume_24hr: 10, volume_usd: 10 })];
+      batch = nextBatch(client);
+      node.broadcastBatchUpdate(current);
+
+      expect(await batch).toMatchObject({
+        type: 'delta',
+        updates: [],
+        removed: [{ token_address: 'a', chain_id: 'solana' }],
+      });
+      client.disconnect();
+    });
+
+    it('keeps a sorted top-N window and reports tokens entering and leaving it', async () => {
+      const client = await connect();
+      await new Promise((resolve) => {
+        client.once('subscribed', resolve);
+        client.emit('subscribe', { sort: { field: 'volume', direction: 'desc' }, limit: 2 });
+      });
+
+      current = [
+        makeToken({ token_address: 'a', volume_24hr: 300 }),
+        makeToken({ token_address: 'b', volume_24hr: 200 }),
+        makeToken({ token_address: 'c', volume_24hr: 100 }),
+      ];
+      let batch = nextBatch(client);
+      node.broadcastBatchUpdate(current);
+      const snapshot = await batch;
+      expect(snapshot.type === 'snapshot' && snapshot.tokens.map(t => t.token_address)).toEqual(['a', 'b']);
+
+      // c overtakes both, only c changed but the window is re-ranked over every token
+      current = [current[0], current[1], makeToken({ token_address: 'c', volume_24hr: 400 })];
+      const entered = new Promise<{ data: { token_address: string; rank: number } }>((resolve) => client.once('entered', resolve));
+      const left = new Promise<{ data: { token_address: string; rank: number } }>((resolve) => client.once('left', resolve));
+      batch = nextBatch(client);
+      node.broadcastBatchUpdate([current[2]]);
+
+      const delta = await batch;
+      expect(delta).toMatchObject({
+        type: 'delta',
+        removed: [{ token_address: 'b', chain_id: 'solana' }],
+        order: [{ token_address: 'c', chain_id: 'solana' }, { token_address: 'a', chain_id: 'solana' }],
+      });
+      expect(delta.type === 'delta' && delta.updates.map(u => u.token_address)).toEqual(['c']);
+      expect((await entered).data).toMatchObject({ token_address: 'c', rank: 1 });
+      expect((await left).data).toMatchObject({ token_address: 'b', rank: 2 });
+      client.disconnect();
+    });
+
+    it('routes price updates only to subscriptions whose window holds the token', async () => {
+      const client = await connect();
+      const subscribe = (data: Record<string, unknown>) => new Promise((resolve) => {
+        client.once('subscribed', resolve);
+        client.emit('subscribe', data);
+      });
+      await subscribe({ id: 'top', sort: { field: 'volume', direction: 'desc' }, limit: 1 });
+      await subscribe({ id: 'big', filters: { minVolume: 1000 } });
+      await subscribe({ id: 'evm', tokens: ['0xABC'] });
+
+      current = [
+        makeToken({ token_address: 'a', volume_24hr: 5000, volume_usd: 5000 }),
+        makeToken({ token_address: 'b', volume_24hr: 10, volume_usd: 10 }),
+        makeToken({ token_address: '0xabc', chain_id: 'base' }),
+      ];
+      node.broadcastBatchUpdate(current);
+      await new Promise(r => setTimeout(r, 100));
+
+      const received: string[] = [];
+      client.on('price_update', (msg: { subscription: string; data: { token_address: string } }) =>
+        received.push(`${msg.subscription}:${msg.data.token_address}`));
+
+      for (const [address, chain] of [['a', 'solana'], ['b', 'solana'], ['0xabc', 'base']]) {
+        node.broadcastPriceUpdate({
+          token_address: address, chain_id: chain, old_price: 1, new_price: 2, price_change_percent: 100, volume_24hr: 0,
+        });
+      }
+      await new Promise(r => setTimeout(r, 100));
+
+      expect(received.filter(r => !r.startsWith('default:')).sort()).toEqual([
+        'big:a', 'evm:0xabc', 'top:a',
+      ]);
+      client.disconnect();
+    });
+
+    it('rejects a limit out of range', async () => {
+      const client = await connect();
+
+      const msg = await new Promise<{ data: { code: string } }>((resolve) => {
+        client.on('error', resolve);
+        client.emit('subscribe', { limit: 0 });
+      });
+
+      expect(msg.data.code).toBe('INVALID_SUBSCRIPTION');
+      client.disconnect();
+    });
+
+    it('answers resync with a fresh snapshot and the next sequence number', async () => {
+      const client = await connect();
+      current = [makeToken({ token_address: 'a' })];
+
+      let batch = nextBatch(client);
+      node.broadcastBatchUpdate(current);
+      expect((await batch).seq).toBe(1);
+
+      batch = nextBatch(client);
+      client.emit('resync');
+      const snapshot = await batch;
+
+      expect(snapshot).toMatchObject({ type: 'snapshot', seq: 2, count: 1 });
+      expect(snapshot.type === 'snapshot' && snapshot.tokens[0].token_address).toBe('a');
+      client.disconnect();
+    });
+  });
+
+  describe('named subscriptions', () => {
+    const subscribe = (client: ClientSocket, data: Record<string, unknown>) =>
+      new Promise<{ event: string; subscription: string; data: { code?: string } }>((resolve) => {
+        client.once('subscribed', resolve);
+        client.once('error', resolve);
+        client.emit('subscribe', data);
+      });
+
+    const update = (address: string) => ({
+      token_address: address, chain_id: 'solana', old_price: 1, new_price: 2, price_change_percent: 100, volume_24hr: 0,
+    });
+
+    it('routes each event to every matching subscription, tagged with its id', async () => {
+      const client = await createClient();
+      expect((await subscribe(client, { id: 'gainers', tokens: ['a'] })).subscription).toBe('gainers');
+      await subscribe(client, { id: 'board', tokens: ['a', 'b'] });
+      await subscribe(client, { tokens: ['none'] }); // replaces the default one
+
+      const received: Array<[string, string]> = [];
+      client.on('price_update', (msg: { subscription: string; data: { token_address: string } }) =>
+        received.push([msg.subscription, msg.data.token_address]));
+
+      wsServer.broadcastPriceUpdate(update('a'));
+      wsServer.broadcastPriceUpdate(update('b'));
+      await new Promise(r => setTimeout(r, 100));
+
+      expect(received).toEqual([['gainers', 'a'], ['board', 'a'], ['board', 'b']]);
+      client.disconnect();
+    });
+
+    it('sends new tokens only to the subscriptions they match', async () => {
+      const client = await createClient();
+      await subscribe(client, { id: 'big', filters: { minLiquidity: 5000 } });
+      await subscribe(client, { id: 'listed', tokens: ['fresh'] });
+      await subscribe(client, { tokens: ['none'] });
+
+      const received: string[] = [];
+      client.on('new_token', (msg: { subscription: string }) => received.push(msg.subscription));
+
+      wsServer.broadcastNewToken(makeToken({ token_address: 'fresh', liquidity_usd: 100 }));
+      await new Promise(r => setTimeout(r, 100));
+
+      expect(received).toEqual(['listed']);
+      client.disconnect();
+    });
+
+    it('unsubscribes by id and leaves the others alone', async () => {
+      const client = await createClient();
+      await subscribe(client, { id: 'one', tokens: ['a'] });
+      await subscribe(client, { id: 'two', tokens: ['a'] });
+
+      const unsubscribed = await new Promise<{ subscription: string }>((resolve) => {
+        client.once('unsubscribed', resolve);
+        client.emit('unsubscribe', { id: 'one' });
+      });
+      expect(unsubscribed.subscription).toBe('one');
+
+      const received: string[] = [];
+      client.on('price_update', (msg: { subscription: string }) => received.push(msg.subscription));
+      wsServer.broadcastPriceUpdate(update('a'));
+      await new Promise(r => setTimeout(r, 100));
+
+      // 'default' is still there and unfiltered
+      expect(received.sort()).toEqual(['default', 'two']);
+
+      const missing = await new Promise<{ data: { code: string } }>((resolve) => {
+        client.once('error', resolve);
+        client.emit('unsubscribe', { id: 'one' });
+      });
+      expect(missing.data.code).toBe('SUBSCRIPTION_NOT_FOUND');
+      client.disconnect();
+    });
+
+    it('limits the number of subscriptions per connection', async () => {
+      const max = config.wsMaxSubscriptions;
+      config.wsMaxSubscriptions = 2;
+      const client = await createClient();
+
+      try {
+        expect((await subscribe(client, { id: 'second' })).event).toBe('subscribed');
+        const rejected = await subscribe(client, { id: 'third' });
+        expect(rejected.data.code).toBe('TOO_MANY_SUBSCRIPTIONS');
+
+        // replacing one that exists is fine
+        expect((await subscribe(client, { id: 'second', tokens: ['a'] })).event).toBe('subscribed');
+      } finally {
+        config.wsMaxSubscriptions = max;
+        client.disconnect();
+      }
+    });
+  });
+
+  describe('protocol', () => {
+    type Ack = { ok: boolean; data?: Record<string, unknown>; error?: { code: string; details?: unknown } };
+
+    it('reports the negotiated protocol version on connect', async () => {
+      const client = ioc(`http://localhost:${port}`, { transports: ['websocket'], forceNew: true, auth: { protocol: [1, 2] } });
+
+      const connected = await new Promise<{ data: { protocol: number; protocols: number[] } }>((resolve) => {
+        client.on('connected', resolve);
+      });
+
+      expect(connected.data.protocol).toBe(1);
+      expect(connected.data.protocols).toEqual([1]);
+      client.disconnect();
+    });
+
+    it('refuses a handshake for a protocol version it does not speak', async () => {
+      const client = ioc(`http://localhost:${port}`, { transports: ['websocket'], forceNew: true, auth: { protocol: 9 } });
+
+      const error = await new Promise<Error & { data?: { code: string } }>((resolve) => {
+        client.on('connect_error', resolve);
+      });
+
+      expect(error.data?.code).toBe('UNSUPPORTED_PROTOCOL');
+      client.close();
+    });
+
+    it('acknowledges valid messages with their result', async () => {
+      const client = await createClient();
+
+      const ack = await client.emitWithAck('subscribe', { id: 'acked', tokens: ['a'] }) as Ack;
+      expect(ack).toEqual({ ok: true, data: expect.objectContaining({ id: 'acked', tokens: ['a'] }) });
+
+      const pong = await client.emitWithAck('ping') as Ack;
+      expect(pong.ok).toBe(true);
+      expect(pong.data).toHaveProperty('timestamp');
+      client.disconnect();
+    });
+
+    it('answers malformed messages with a structured error instead of storing them', async () => {
+      const client = await createClient();
+      const errorEvent = jest.fn();
+      client.on('error', errorEvent);
+
+      const ack = await client.emitWithAck('subscribe', { id: 'bad', limit: 'ten', colour: 'red' }) as Ack;
+      expect(ack.ok).toBe(false);
+      expect(ack.error?.code).toBe('INVALID_SUBSCRIPTION');
+      expect(ack.error?.details).toMatchObject({ fieldErrors: { limit: expect.any(Array) } });
+
+      // the ack was the reply, no error event on top
+      const missing = await client.emitWithAck('resync', { id: 'bad' }) as Ack;
+      expect(missing.error?.code).toBe('SUBSCRIPTION_NOT_FOUND');
+      expect(errorEvent).not.toHaveBeenCalled();
+      client.disconnect();
+    });
+
+    it('reports unknown events', async () => {
+      const client = await createClient();
+
+      const viaEvent = await new Promise<{ data: { code: string } }>((resolve) => {
+        client.once('error', resolve);
+        client.emit('subscribe_all', {});
+      });
+      expect(viaEvent.data.code).toBe('UNKNOWN_EVENT');
+
+      const viaAck = await client.emitWithAck('subscribe_all', {}) as Ack;
+      expect(viaAck.error?.code).toBe('UNKNOWN_EVENT');
+      client.disconnect();
+    });
+  });
+
   it('tracks connection stats', () => {
     const stats = wsServer.getStats();
     expect(stats).toHaveProperty('activeConnections');
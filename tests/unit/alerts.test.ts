@@ -0,0 +1,164 @@
+import { AlertEngine } from '../../src/services/alerts';
+import { MemoryCache } from '../../src/services/cache';
+import { MemoryTimeSeriesStore } from '../../src/services/timeSeries';
+import { makeToken } from '../fixtures';
+
+describe('AlertEngine', () => {
+  let cache: MemoryCache;
+  let history: MemoryTimeSeriesStore;
+  let engine: AlertEngine;
+
+  beforeEach(() => {
+    cache = new MemoryCache();
+    history = new MemoryTimeSeriesStore();
+    engine = new AlertEngine(cache, history);
+  });
+
+  afterEach(async () => {
+    await cache.flush();
+  });
+
+  it('persists rules and reloads them', async () => {
+    const rule = await engine.create('client-a', {
+      condition: { type: 'price_cross', token_address: 'addr', threshold: 2, direction: 'above' },
+      enabled: true,
+      cooldown_seconds: 0,
+    });
+
+    const reloaded = new AlertEngine(cache, history);
+    await reloaded.load();
+
+    expect(reloaded.get('client-a', rule.id)).toMatchObject({ id: rule.id, name: 'price crosses above $2' });
+    expect(reloaded.get('client-b', rule.id)).toBeNull();
+  });
+
+  it('splits rules saved as one list into a key each', async () => {
+    const rule = await engine.create('client-a', {
+      condition: { type: 'price_cross', token_address: 'addr', threshold: 2, direction: 'above' },
+      enabled: true,
+      cooldown_seconds: 0,
+    });
+    await cache.flush();
+    await cache.set('alerts:rules', [rule], 60);
+
+    await engine.load();
+
+    expect(engine.get('client-a', rule.id)).toMatchObject({ id: rule.id });
+    expect(await cache.exists('alerts:rules')).toBe(false);
+    expect(await cache.exists(`alerts:rule:${rule.id}`)).toBe(true);
+  });
+
+  it('keeps a rule another node created while this one was firing', async () => {
+    const surge = { type: 'price_change', window: '24h', threshold_percent: 30, direction: 'up' } as const;
+    const fired = await engine.create('client-a', { condition: surge, enabled: true, cooldown_seconds: 0 });
+    const gone = await engine.create('client-a', { condition: surge, enabled: true, cooldown_seconds: 0 });
+
+    // a second node sharing the cache, loaded once the leader had both rules
+    const follower = new AlertEngine(cache, history);
+    await follower.load();
+    const created = await follower.create('client-b', { condition: surge, enabled: true, cooldown_seconds: 0 });
+    await follower.delete('client-a', gone.id);
+
+    // the leader hasn't reloaded and fires its copies
+    expect(await engine.evaluate([makeToken({ price_24hr_change: 40 })])).toHaveLength(2);
+
+    const reloaded = new AlertEngine(cache, history);
+    await reloaded.load();
+    expect(reloaded.get('client-b', created.id)).not.toBeNull();
+    expect(reloaded.get('client-a', fired.id)?.last_triggered_at).not.toBeNull();
+    expect(reloaded.get('client-a', gone.id)).toBeNull();
+  });
+
+  it('fires when price crosses the threshold', async () => {
+    const handler = jest.fn();
+    engine.setEventHandler(handler);
+    await engine.create('client-a', {
+      condition: { type: 'price_cross', token_address: 'addr', threshold: 2, direction: 'above' },
+      enabled: true,
+      cooldown_seconds: 0,
+    });
+
+    await engine.evaluate([makeToken({ price_usd: 1.5 })]); // baseline
+    const fired = await engine.evaluate([makeToken({ price_usd: 2.5 })]);
+
+    expect(fired).toHaveLength(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ owner: 'client-a', value: 2.5 }));
+  });
+
+  it('is edge triggered and respects cooldown', async () => {
+    await engine.create('client-a', {
+      condition: { type: 'price_change', window: '24h', threshold_percent: 30, direction: 'up' },
+      enabled: true,
+      cooldown_seconds: 3600,
+    });
+
+    expect(await engine.evaluate([makeToken({ price_24hr_change: 40 })])).toHaveLength(1);
+    expect(await engine.evaluate([makeToken({ price_24hr_change: 45 })])).toHaveLength(0); // still true
+    await engine.evaluate([makeToken({ price_24hr_change: 10 })]); // resets
+    expect(await engine.evaluate([makeToken({ price_24hr_change: 40 })])).toHaveLength(0); // cooldown
+  });
+
+  it('fires a condition that turned true during cooldown once the cooldown ends', async () => {
+    await engine.create('client-a', {
+      condition: { type: 'price_change', window: '24h', threshold_percent: 30, direction: 'up' },
+      enabled: true,
+      cooldown_seconds: 60,
+    });
+
+    expect(await engine.evaluate([makeToken({ price_24hr_change: 40 })])).toHaveLength(1);
+    await engine.evaluate([makeToken({ price_24hr_change: 10 })]);
+    expect(await engine.evaluate([makeToken({ price_24hr_change: 40 })])).toHaveLength(0); // cooldown
+
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 61_000);
+    try {
+      expect(await engine.evaluate([makeToken({ price_24hr_change: 40 })])).toHaveLength(1); // still true, now due
+      expect(await engine.evaluate([makeToken({ price_24hr_change: 40 })])).toHaveLength(0);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  it('detects liquidity drops from history', async () => {
+    await engine.create('client-a', {
+      condition: { type: 'liquidity_drop', token_address: 'addr', percent: 50, window_minutes: 10 },
+      enabled: true,
+      cooldown_seconds: 0,
+    });
+
+    await history.record('solana:addr', { // history is keyed by chain + address
+      timestamp: Date.now() - 5 * 60 * 1000,
+      price_usd: 1, volume_24hr: 0, liquidity_usd: 10000, market_cap_usd: 0,
+    });
+
+    const fired = await engine.evaluate([makeToken({ liquidity_usd: 4000 })]);
+    expect(fired).toHaveLength(1);
+    expect(fired[0].value).toBeCloseTo(60);
+  });
+
+  it('narrows a rule to one chain', async () => {
+    await engine.create('client-a', {
+      condition: { type: 'price_change', token_address: 'addr', chain_id: 'base', window: '1h', threshold_percent: 5, direction: 'up' },
+      enabled: true,
+      cooldown_seconds: 0,
+    });
+
+    const fired = await engine.evaluate([
+      makeToken({ price_1hr_change: 10 }),
+      makeToken({ price_1hr_change: 10, chain_id: 'base' }),
+    ]);
+    expect(fired).toHaveLength(1);
+    expect(fired[0].chain_id).toBe('base');
+  });
+
+  it('skips disabled rules', async () => {
+    const rule = await engine.create('client-a', {
+      condition: { type: 'price_change', window: '1h', threshold_percent: 5, direction: 'either' },
+      enabled: true,
+      cooldown_seconds: 0,
+    });
+    await engine.update('client-a', rule.id, { enabled: false });
+
+    expect(await engine.evaluate([makeToken({ price_1hr_change: -20 })])).toHaveLength(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { ApiKeyError, ApiKeyService, hashApiKey } from '../../src/services/apiKeys';
+import { MemoryCache } from '../../src/services/cache';
+
+describe('ApiKeyService', () => {
+  let cache: MemoryCache;
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    // mid-minute, so counters can't roll over a window boundary mid-test
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2024, 0, 1, 12, 0, 30));
+    cache = new MemoryCache();
+    service = new ApiKeyService(cache);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const rejection = async (promise: Promise<unknown>): Promise<ApiKeyError> => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as ApiKeyError;
+    }
+    throw new Error('expected a rejection');
+  };
+
+  it('only stores a hash of the key', async () => {
+    const { apiKey, key } = await service.create({ name: 'bot', enabled: true });
+
+    expect(key).toMatch(/^mca_/);
+    expect(apiKey.prefix).toBe(key.slice(0, 10));
+    expect(apiKey).not.toHaveProperty('key_hash');
+
+    const stored = JSON.stringify(await cache.get(`apikeys:key:${apiKey.id}`));
+    expect(stored).not.toContain(key);
+    expect(stored).toContain(hashApiKey(key));
+  });
+
+  it('authenticates keys and defaults the owner to the key id', async () => {
+    const { apiKey, key } = await service.create({ name: 'bot', enabled: true });
+    const named = await service.create({ name: 'named', owner: 'bot-1', enabled: true });
+
+    expect(service.authenticate(key)?.id).toBe(apiKey.id);
+    expect(service.authenticate(key)?.owner).toBe(apiKey.id);
+    expect(service.authenticate(named.key)?.owner).toBe('bot-1');
+    expect(service.authenticate('mca_nope')).toBeNull();
+  });
+
+  it('rejects unknown and disabled keys', async () => {
+    const { apiKey, key } = await service.create({ name: 'bot', enabled: true });
+
+    expect((await rejection(service.authorize('mca_nope'))).code).toBe('INVALID_API_KEY');
+
+    await service.update(apiKey.id, { enabled: false });
+    expect((await rejection(service.authorize(key))).code).toBe('API_KEY_DISABLED');
+  });
+
+  it('enforces the per-minute rate limit without charging the quota', async () => {
+    const { apiKey, key } = await service.create({ name: 'bot', rate_limit_per_minute: 2, enabled: true });
+
+    const first = await service.authorize(key);
+    expect(first.usage.rate_remaining).toBe(1);
+    await service.authorize(key);
+
+    const error = await rejection(service.authorize(key));
+    expect(error.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(error.usage?.rate_remaining).toBe(0);
+
+    expect(await service.getUsage(apiKey.id)).toEqual({ requests_this_minute: 3, requests_today: 2 });
+  });
+
+  it('enforces the daily quota', async () => {
+    const { key } = await service.create({ name: 'bot', daily_quota: 1, enabled: true });
+
+    const { usage } = await service.authorize(key);
+    expect(usage.quota_remaining).toBe(0);
+
+    const error = await rejection(service.authorize(key));
+    expect(error.code).toBe('QUOTA_EXCEEDED');
+  });
+
+  it('tells the revoke handler when a key is disabled or deleted', async () => {
+    const revoked: string[] = [];
+    service.setRevokeHandler(id => revoked.push(id));
+
+    const a = await service.create({ name: 'a', enabled: true });
+    const b = await service.create({ name: 'b', enabled: true });
+
+    await service.update(a.apiKey.id, { rate_limit_per_minute: 10 }); // not a revoke
+    await service.update(a.apiKey.id, { enabled: false });
+    await service.delete(b.apiKey.id);
+
+    expect(revoked).toEqual([a.apiKey.id, b.apiKey.id]);
+    expect(service.authenticate(b.key)).toBeNull();
+  });
+
+  it('persists keys through the cache and reloads', async () => {
+    const { apiKey, key } = await service.create({ name: 'bot', enabled: true });
+
+    const reloaded = new ApiKeyService(cache);
+    await reloaded.load();
+
+    expect(reloaded.authenticate(key)).toEqual(apiKey);
+    expect(reloaded.getStats()).toEqual({ keys: 1, enabled: 1 });
+  });
+});
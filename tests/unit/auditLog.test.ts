@@ -0,0 +1,30 @@
+import { AuditLog } from '../../src/services/auditLog';
+import { MemoryCache } from '../../src/services/cache';
+
+describe('AuditLog', () => {
+  const entry = (action: string, target: string | null = null) =>
+    ({ action, target, actor: 'admin', ip: '127.0.0.1', details: {} });
+
+  it('lists entries newest first and filters by action or prefix', async () => {
+    const audit = new AuditLog(new MemoryCache());
+    await audit.record(entry('key.create', 'k1'));
+    await audit.record(entry('source.disable', 'jupiter'));
+    await audit.record(entry('key.delete', 'k1'));
+
+    expect(audit.list().map(e => e.action)).toEqual(['key.delete', 'source.disable', 'key.create']);
+    expect(audit.list(1)).toHaveLength(1);
+    expect(audit.list(100, 'source.disable')).toHaveLength(1);
+    expect(audit.list(100, 'key.').map(e => e.action)).toEqual(['key.delete', 'key.create']);
+  });
+
+  it('persists through the cache', async () => {
+    const cache = new MemoryCache();
+    const audit = new AuditLog(cache);
+    const recorded = await audit.record(entry('cache.flush', 'token:*'));
+
+    const reloaded = new AuditLog(cache);
+    await reloaded.load();
+
+    expect(reloaded.list()).toEqual([recorded]);
+  });
+});
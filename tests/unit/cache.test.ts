@@ -75,6 +75,23 @@ describe('MemoryCache', () => {
     });
   });
 
+  describe('Counters', () => {
+    it('should increment from zero and be readable with get', async () => {
+      expect(await cache.incr('counter', 60)).toBe(1);
+      expect(await cache.incr('counter', 60)).toBe(2);
+      expect(await cache.get<number>('counter')).toBe(2);
+    });
+
+    it('should keep the original ttl and restart after expiry', async () => {
+      await cache.incr('window', 1);
+      await new Promise(resolve => setTimeout(resolve, 600));
+      await cache.incr('window', 1); // doesn't push expiry out
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+      expect(await cache.incr('window', 1)).toBe(1);
+    });
+  });
+
   describe('Pattern Matching', () => {
     it('should find keys matching pattern', async () => {
       await cache.set('user:1', 'data1');
@@ -0,0 +1,139 @@
+import { CircuitBreaker, CircuitOpenError, isRetryableUpstreamError } from '../../src/utils/circuitBreaker';
+
+const httpError = (status: number) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  const fail = (error: Error = httpError(503)) => breaker.exec(() => Promise.reject(error)).catch(e => e);
+  const succeed = () => breaker.exec(() => Promise.resolve('ok'));
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new CircuitBreaker('test', { failureThreshold: 3, cooldownMs: 30_000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stay closed below the failure threshold', async () => {
+    await fail();
+    await fail();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(await succeed()).toBe('ok');
+    expect(breaker.getHealth().consecutive_failures).toBe(0);
+  });
+
+  it('should open after consecutive failures and fail fast', async () => {
+    for (let i = 0; i < 3; i++) await fail();
+    expect(breaker.getState()).toBe('open');
+
+    const fn = jest.fn().mockResolvedValue('ok');
+    await expect(breaker.exec(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(() => breaker.check()).toThrow(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should let one probe through after the cooldown', async () => {
+    for (let i = 0; i < 3; i++) await fail();
+    now += 30_000;
+
+    let release!: (value: string) => void;
+    const probe = breaker.exec(() => new Promise<string>(resolve => { release = resolve; }));
+    expect(breaker.getState()).toBe('half_open');
+
+    // a second caller while the probe is in flight is turned away
+    await expect(succeed()).rejects.toBeInstanceOf(CircuitOpenError);
+
+    release('ok');
+    await probe;
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should reopen when the probe fails', async () => {
+    for (let i = 0; i < 3; i++) await fail();
+    now += 30_000;
+
+    await fail();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getHealth().open_until).toBe(new Date(now + 30_000).toISOString());
+  });
+
+  it('should stay open when a request from before it opened succeeds', async () => {
+    let release!: (value: string) => void;
+    const inFlight = breaker.exec(() => new Promise<string>(resolve => { release = resolve; }));
+    for (let i = 0; i < 3; i++) await fail();
+    expect(breaker.getState()).toBe('open');
+
+    release('ok');
+    await inFlight;
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getHealth().consecutive_failures).toBe(3);
+  });
+
+  it('should leave the probe alone when a request from before it opened finishes', async () => {
+    const release: ((value: string) => void)[] = [];
+    const reject: ((error: Error) => void)[] = [];
+    const slow = () => breaker.exec(() => new Promise<string>((res, rej) => { release.push(res); reject.push(rej); }));
+    const late = [slow().catch(e => e), slow().catch(e => e)];
+    for (let i = 0; i < 3; i++) await fail();
+    now += 30_000;
+
+    const probe = slow();
+    expect(breaker.getState()).toBe('half_open');
+
+    // neither an old failure nor an old success settles the half open circuit
+    reject[0](httpError(503));
+    await late[0];
+    expect(breaker.getState()).toBe('half_open');
+    release[1]('ok');
+    await late[1];
+    expect(breaker.getState()).toBe('half_open');
+
+    release[2]('ok');
+    await probe;
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should not count client errors as failures', async () => {
+    for (let i = 0; i < 5; i++) await fail(httpError(404));
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getHealth().last_error).toBeNull();
+  });
+
+  it('should record successes, errors and latency', async () => {
+    await breaker.exec(async () => {
+      now += 200;
+      return 'ok';
+    });
+    await breaker.exec(async () => {
+      now += 100;
+      return 'ok';
+    });
+    await fail();
+
+    const health = breaker.getHealth();
+    expect(health.latency_ms).toBe(100);
+    expect(health.avg_latency_ms).toBe(180);
+    expect(health.last_success).toBe(new Date(now).toISOString());
+    expect(health.last_error).toBe(new Date(now).toISOString());
+    expect(health.last_error_message).toBe('Request failed with status code 503');
+    expect(health.consecutive_failures).toBe(1);
+  });
+});
+
+describe('isRetryableUpstreamError', () => {
+  it('should retry server errors, rate limits and network errors only', () => {
+    expect(isRetryableUpstreamError(httpError(502))).toBe(true);
+    expect(isRetryableUpstreamError(httpError(429))).toBe(true);
+    expect(isRetryableUpstreamError(new Error('socket hang up'))).toBe(true);
+    expect(isRetryableUpstreamError(httpError(404))).toBe(false);
+    expect(isRetryableUpstreamError(new CircuitOpenError('test', new Date()))).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { MemoryBroker, MemoryClusterBus, LeaderElector } from '../../src/cluster';
+
+describe('MemoryClusterBus', () => {
+  let broker: MemoryBroker;
+  let a: MemoryClusterBus;
+  let b: MemoryClusterBus;
+
+  beforeEach(() => {
+    broker = new MemoryBroker();
+    a = new MemoryClusterBus('node-a', broker);
+    b = new MemoryClusterBus('node-b', broker);
+  });
+
+  it('should deliver to the other nodes but not back to the publisher', async () => {
+    const onA = jest.fn();
+    const onB = jest.fn();
+    await a.subscribe('events', onA);
+    await b.subscribe('events', onB);
+
+    await a.publish('events', { hello: 'world' });
+
+    expect(onB).toHaveBeenCalledWith({ hello: 'world' }, 'node-a');
+    expect(onA).not.toHaveBeenCalled();
+  });
+
+  it('should hand over a copy, like a real broker would', async () => {
+    const onB = jest.fn();
+    await b.subscribe('events', onB);
+
+    const data = { at: new Date(0) };
+    await a.publish('events', data);
+
+    expect(onB.mock.calls[0][0]).toEqual({ at: '1970-01-01T00:00:00.000Z' });
+  });
+
+  it('should stop delivering after close', async () => {
+    const onB = jest.fn();
+    await b.subscribe('events', onB);
+    await b.close();
+
+    await a.publish('events', 1);
+    expect(onB).not.toHaveBeenCalled();
+  });
+
+  it('should give a lock to one node until it expires or is released', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+    expect(await a.acquireLock('lock', 5000)).toBe(true);
+    expect(await b.acquireLock('lock', 5000)).toBe(false);
+    expect(await b.renewLock('lock', 5000)).toBe(false);
+
+    now.mockReturnValue(4000);
+    expect(await a.renewLock('lock', 5000)).toBe(true);
+
+    now.mockReturnValue(7000); // past the first expiry, but renewed until 9000
+    expect(await b.acquireLock('lock', 5000)).toBe(false);
+
+    now.mockReturnValue(9001);
+    expect(await b.acquireLock('lock', 5000)).toBe(true);
+
+    await b.releaseLock('lock');
+    expect(await a.acquireLock('lock', 5000)).toBe(true);
+    now.mockRestore();
+  });
+});
+
+describe('LeaderElector', () => {
+  let broker: MemoryBroker;
+
+  beforeEach(() => {
+    broker = new MemoryBroker();
+  });
+
+  it('should elect exactly one leader and fail over when it stops', async () => {
+    const a = new LeaderElector(new MemoryClusterBus('node-a', broker), 15000);
+    const b = new LeaderElector(new MemoryClusterBus('node-b', broker), 15000);
+    const onChange = jest.fn();
+    b.setChangeHandler(onChange);
+
+    await a.tick();
+    await b.tick();
+    expect(a.isLeader()).toBe(true);
+    expect(b.isLeader()).toBe(false);
+
+    await a.stop(); // releases the lock
+    await b.tick();
+
+    expect(a.isLeader()).toBe(false);
+    expect(b.isLeader()).toBe(true);
+    expect(onChange).toHaveBeenCalledWith(true);
+  });
+
+  it('should take over from a leader that stopped renewing', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const a = new LeaderElector(new MemoryClusterBus('node-a', broker), 15000);
+    const b = new LeaderElector(new MemoryClusterBus('node-b', broker), 15000);
+
+    await a.tick();
+    now.mockReturnValue(15001); // a crashed, its lock lapsed
+    await b.tick();
+    expect(b.isLeader()).toBe(true);
+
+    // a comes back, can't renew and steps down
+    const onChange = jest.fn();
+    a.setChangeHandler(onChange);
+    await a.tick();
+    expect(a.isLeader()).toBe(false);
+    expect(onChange).toHaveBeenCalledWith(false);
+    now.mockRestore();
+  });
+});
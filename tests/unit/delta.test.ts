@@ -0,0 +1,40 @@
+import { cloneToken, diffToken } from '../../src/websocket/delta';
+import { makeToken } from '../fixtures';
+
+describe('diffToken', () => {
+  it('should return only the fields that changed', () => {
+    const prev = makeToken();
+    const next = makeToken({ price_usd: 2, volume_24hr: 500, last_updated: '2024-01-01T00:00:10.000Z' });
+
+    expect(diffToken(prev, next)).toEqual({
+      price_usd: 2,
+      volume_24hr: 500,
+      last_updated: '2024-01-01T00:00:10.000Z',
+    });
+  });
+
+  it('should ignore a token that only got a new timestamp', () => {
+    const prev = makeToken();
+    expect(diffToken(prev, makeToken())).toBeNull();
+    expect(diffToken(prev, makeToken({ last_updated: '2024-01-01T00:01:00.000Z' }))).toBeNull();
+  });
+
+  it('should compare nested values by content and null out dropped fields', () => {
+    const prev = makeToken({ sources: ['dexscreener'], image_url: 'https://img' });
+    const next = makeToken({ sources: ['dexscreener'] });
+
+    expect(diffToken(prev, next)).toEqual({ image_url: null });
+    expect(diffToken(prev, makeToken({ sources: ['dexscreener', 'jupiter'], image_url: 'https://img' })))
+      .toEqual({ sources: ['dexscreener', 'jupiter'] });
+  });
+});
+
+describe('cloneToken', () => {
+  it('should not share nested objects with the original', () => {
+    const token = makeToken({ sources: ['dexscreener'] });
+    const copy = cloneToken(token);
+
+    token.sources.push('jupiter');
+    expect(copy.sources).toEqual(['dexscreener']);
+  });
+});
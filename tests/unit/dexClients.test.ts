@@ -2,6 +2,8 @@ import axios, { AxiosInstance } from 'axios';
 import { DexScreenerClient } from '../../src/services/dexScreener';
 import { JupiterClient } from '../../src/services/jupiter';
 import { GeckoTerminalClient } from '../../src/services/geckoTerminal';
+import { MemoryCache } from '../../src/services/cache';
+import config from '../../src/config';
 
 // Mock axios
 jest.mock('axios');
@@ -83,9 +85,18 @@ describe('DEX API Clients', () => {
       expect(token.price_24hr_change).toBe(25.0);
       expect(token.liquidity_usd).toBe(100000);
       expect(token.transaction_count).toBe(750); // 500 + 250
+      expect(token.price_5m_change).toBe(1.5);
+      expect(token.volume_6hr).toBe(20000);
+      expect(token.activity?.['6h']).toEqual({ buys: 200, sells: 100, buyers: null, sellers: null, buy_sell_ratio: 2 });
       expect(token.chain_id).toBe('solana');
       expect(token.protocol).toBe('raydium');
       expect(token.sources).toContain('dexscreener');
+
+      const pair = client.transformToPair(mockPair);
+      expect(pair.pair_address).toBe('test-pair-address');
+      expect(pair.quote_token.symbol).toBe('SOL');
+      expect(pair.price_native).toBe(0.001);
+      expect(pair.liquidity_usd).toBe(100000);
     });
 
     it('should get rate limit status', () => {
@@ -134,6 +145,45 @@ describe('DEX API Clients', () => {
     });
   });
 
+  describe('JupiterClient price API', () => {
+    const apiKey = config.jupiterApiKey;
+
+    afterEach(() => {
+      config.jupiterApiKey = apiKey;
+    });
+
+    it('should return no prices without an API key', async () => {
+      config.jupiterApiKey = undefined;
+      const client = new JupiterClient(new MemoryCache());
+
+      expect((await client.getTokenPrices(['mint'])).size).toBe(0);
+    });
+
+    it('should look prices up in chunks and cache them', async () => {
+      config.jupiterApiKey = 'test-key';
+      const get = jest.fn(async (_url: string, opts: { params: { ids: string } }) => ({
+        data: Object.fromEntries(
+          opts.params.ids.split(',').map(id => [id, { usdPrice: 1.5, blockId: 1, decimals: 6 }])
+        ),
+      }));
+      mockedAxios.create.mockReturnValue({ get } as unknown as AxiosInstance);
+
+      const client = new JupiterClient(new MemoryCache());
+      const ids = Array.from({ length: 120 }, (_, i) => `mint-${i}`);
+      const prices = await client.getTokenPrices(ids);
+
+      expect(prices.size).toBe(120);
+      expect(prices.get('mint-7')).toBe(1.5);
+      expect(get).toHaveBeenCalledTimes(3); // 50 + 50 + 20
+      expect(mockedAxios.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({ headers: expect.objectContaining({ 'x-api-key': 'test-key' }) })
+      );
+
+      await client.getTokenPrices(ids.slice(0, 10));
+      expect(get).toHaveBeenCalledTimes(3); // served from cache
+    });
+  });
+
   describe('GeckoTerminalClient', () => {
     let client: GeckoTerminalClient;
 
@@ -192,8 +242,41 @@ describe('DEX API Clients', () => {
       expect(token.price_24hr_change).toBe(25.0);
       expect(token.liquidity_usd).toBe(200000);
       expect(token.transaction_count).toBe(1500); // 1000 + 500
+      expect(token.volume_5m).toBe(5000);
+      expect(token.price_6hr_change).toBe(10);
+      expect(token.activity?.['1h']).toEqual({ buys: 100, sells: 50, buyers: 70, sellers: 40, buy_sell_ratio: 2 });
+      expect(token.activity?.['6h']).toBeUndefined();
       expect(token.protocol).toBe('raydium');
       expect(token.sources).toContain('geckoterminal');
+
+      const pair = client.transformToPair(mockPool);
+      expect(pair.pair_address).toBe('pool-address');
+      expect(pair.token_address).toBe('test-token');
+      expect(pair.quote_token).toEqual({ address: 'sol', symbol: 'SOL' });
+      expect(pair.dex_id).toBe('raydium');
+    });
+
+    it('should map the pool network to our chain id', () => {
+      const pool = {
+        id: 'eth_0xpool',
+        type: 'pool',
+        attributes: {
+          base_token_price_usd: '1',
+          address: '0xpool',
+          name: 'PEPE / WETH',
+          reserve_in_usd: '1000',
+        },
+        relationships: {
+          base_token: { data: { id: 'eth_0xAbC', type: 'token' } },
+          quote_token: { data: { id: 'eth_0xweth', type: 'token' } },
+        },
+      } as unknown as Parameters<GeckoTerminalClient['transformToToken']>[0];
+
+      const token = client.transformToToken(pool, 3000);
+      expect(token.chain_id).toBe('ethereum');
+      expect(token.token_address).toBe('0xAbC');
+      expect(token.price_sol).toBeCloseTo(1 / 3000);
+      expect(client.transformToPair(pool).chain_id).toBe('ethereum');
     });
 
     it('should get rate limit status', () => {
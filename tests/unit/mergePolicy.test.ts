@@ -0,0 +1,127 @@
+import { MergePolicy, SourceRecord } from '../../src/services/mergePolicy';
+import { windowActivity } from '../../src/services/activity';
+import type { Token } from '../../src/types';
+
+const baseToken: Token = {
+  token_address: 'addr',
+  token_name: 'Test',
+  token_ticker: 'TST',
+  price_sol: 0, price_usd: 0,
+  market_cap_sol: 0, market_cap_usd: 0,
+  volume_sol: 0, volume_usd: 0,
+  liquidity_sol: 0, liquidity_usd: 0,
+  transaction_count: 0,
+  price_5m_change: 0, price_1hr_change: 0, price_6hr_change: 0, price_24hr_change: 0, price_7d_change: 0,
+  volume_5m: 0, volume_1hr: 0, volume_6hr: 0, volume_24hr: 0, volume_7d: 0,
+  protocol: 'raydium', dex_id: 'raydium', chain_id: 'solana',
+  pair_address: 'pair',
+  created_at: '2024-01-01T00:00:00Z',
+  last_updated: '2024-01-01T00:00:00Z',
+  sources: [],
+};
+
+const record = (source: string, fields: Partial<Token>, ageMs = 0): SourceRecord => ({
+  source,
+  token: { ...baseToken, ...fields, sources: [source] },
+  receivedAt: Date.now() - ageMs,
+});
+
+describe('MergePolicy', () => {
+  const policy = new MergePolicy({
+    sourcePriority: ['dexscreener', 'geckoterminal', 'jupiter'],
+    outlierThreshold: 0.5,
+    maxRecordAgeMs: 60000,
+  });
+
+  it('takes the median price and rejects outliers', () => {
+    const token = policy.merge([
+      record('dexscreener', { price_usd: 1.0 }),
+      record('geckoterminal', { price_usd: 50 }), // way off
+      record('jupiter', { price_usd: 1.2 }),
+    ], 100);
+
+    expect(token.price_usd).toBeCloseTo(1.1);
+    expect(token.field_sources?.price_usd).toEqual(['dexscreener', 'jupiter']);
+  });
+
+  it('ignores zero prices', () => {
+    const token = policy.merge([
+      record('jupiter', { price_usd: 0 }),
+      record('geckoterminal', { price_usd: 2 }),
+    ], 100);
+
+    expect(token.price_usd).toBe(2);
+    expect(token.field_sources?.price_usd).toEqual(['geckoterminal']);
+  });
+
+  it('falls back to source priority when two prices disagree', () => {
+    const token = policy.merge([
+      record('geckoterminal', { price_usd: 10 }),
+      record('dexscreener', { price_usd: 1 }),
+    ], 100);
+
+    expect(token.price_usd).toBe(1);
+    expect(token.field_sources?.price_usd).toEqual(['dexscreener']);
+  });
+
+  it('takes pair fields from the deepest pool', () => {
+    const token = policy.merge([
+      record('dexscreener', { liquidity_usd: 1000, dex_id: 'raydium', pair_address: 'p1' }),
+      record('geckoterminal', { liquidity_usd: 5000, dex_id: 'orca', pair_address: 'p2' }),
+    ], 100);
+
+    expect(token.dex_id).toBe('orca');
+    expect(token.pair_address).toBe('p2');
+    expect(token.liquidity_usd).toBe(5000);
+    expect(token.field_sources?.dex_id).toEqual(['geckoterminal']);
+  });
+
+  it('derives sol values from the merged usd values', () => {
+    const token = policy.merge([record('dexscreener', { price_usd: 4, liquidity_usd: 200 })], 200);
+
+    expect(token.price_sol).toBe(0.02);
+    expect(token.liquidity_sol).toBe(1);
+  });
+
+  it('prefers fresh records over stale ones', () => {
+    const token = policy.merge([
+      record('dexscreener', { volume_24hr: 100 }, 120000), // stale
+      record('jupiter', { volume_24hr: 500 }),
+    ], 100);
+
+    expect(token.volume_24hr).toBe(500);
+    expect(token.sources).toEqual(['dexscreener', 'jupiter']);
+  });
+
+  it('uses the earliest creation date and max transaction count', () => {
+    const token = policy.merge([
+      record('dexscreener', { created_at: '2024-03-01T00:00:00Z', transaction_count: 10 }),
+      record('geckoterminal', { created_at: '2024-02-01T00:00:00Z', transaction_count: 40 }),
+    ], 100);
+
+    expect(token.created_at).toBe('2024-02-01T00:00:00Z');
+    expect(token.transaction_count).toBe(40);
+  });
+
+  it('takes mint authorities from whichever source knows them', () => {
+    const token = policy.merge([
+      record('dexscreener', { price_usd: 1, liquidity_usd: 5000 }),
+      record('jupiter', { price_usd: 1, mint_authority: null, freeze_authority: 'dev', tags: ['verified'] }),
+    ], 100);
+
+    expect(token.mint_authority).toBeNull();
+    expect(token.freeze_authority).toBe('dev');
+    expect(token.tags).toEqual(['verified']);
+    expect(token.field_sources?.mint_authority).toEqual(['jupiter']);
+  });
+
+  it('takes activity from the deepest pool', () => {
+    const token = policy.merge([
+      record('dexscreener', { liquidity_usd: 1000, activity: { '24h': windowActivity(10, 10) } }),
+      record('geckoterminal', { liquidity_usd: 9000, activity: { '24h': windowActivity(40, 10, 30, 8) } }),
+    ], 100);
+
+    expect(token.activity?.['24h']).toEqual({ buys: 40, sells: 10, buyers: 30, sellers: 8, buy_sell_ratio: 4 });
+    expect(token.field_sources?.activity).toEqual(['geckoterminal']);
+  });
+});
@@ -0,0 +1,111 @@
+import { MetricsRegistry, metrics, trackUpstream } from '../../src/utils/metrics';
+import { RateLimiter } from '../../src/utils/rateLimiter';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry('test_');
+  });
+
+  it('should render counters with HELP and TYPE lines', () => {
+    const counter = registry.counter('requests_total', 'Requests', ['source']);
+    counter.inc({ source: 'a' });
+    counter.inc({ source: 'a' }, 2);
+    counter.inc({ source: 'b' });
+
+    const text = registry.render();
+    expect(text).toContain('# HELP test_requests_total Requests');
+    expect(text).toContain('# TYPE test_requests_total counter');
+    expect(text).toContain('test_requests_total{source="a"} 3');
+    expect(text).toContain('test_requests_total{source="b"} 1');
+  });
+
+  it('should ignore undeclared labels and keep declared order', () => {
+    const counter = registry.counter('calls_total', 'Calls', ['a', 'b']);
+    counter.inc({ b: 2, a: 1, extra: 'x' });
+
+    expect(registry.render()).toContain('test_calls_total{a="1",b="2"} 1');
+    expect(counter.get({ a: 1, b: 2 })).toBe(1);
+  });
+
+  it('should escape label values', () => {
+    registry.gauge('g', 'Gauge', ['name']).set({ name: 'say "hi"\n' }, 1);
+
+    expect(registry.render()).toContain('test_g{name="say \\"hi\\"\\n"} 1');
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const histogram = registry.histogram('latency_seconds', 'Latency', ['route'], [0.1, 1]);
+    histogram.observe({ route: '/x' }, 0.05);
+    histogram.observe({ route: '/x' }, 0.5);
+    histogram.observe({ route: '/x' }, 5);
+
+    const text = registry.render();
+    expect(text).toContain('test_latency_seconds_bucket{route="/x",le="0.1"} 1');
+    expect(text).toContain('test_latency_seconds_bucket{route="/x",le="1"} 2');
+    expect(text).toContain('test_latency_seconds_bucket{route="/x",le="+Inf"} 3');
+    expect(text).toContain('test_latency_seconds_sum{route="/x"} 5.55');
+    expect(text).toContain('test_latency_seconds_count{route="/x"} 3');
+    expect(histogram.totals()).toEqual({ count: 3, sum: 5.55 });
+  });
+
+  it('should read collected metrics at render time', () => {
+    let value = 1;
+    registry.gauge('live', 'Live value', [], () => [{ labels: {}, value }]);
+
+    expect(registry.render()).toContain('test_live 1');
+    value = 7;
+    expect(registry.render()).toContain('test_live 7');
+  });
+
+  it('should hand back the existing metric for a repeated name', () => {
+    const first = registry.counter('dup_total', 'Dup');
+    expect(registry.counter('dup_total', 'Dup')).toBe(first);
+    expect(() => registry.gauge('dup_total', 'Dup')).toThrow(/already registered/);
+  });
+
+  it('should clear values on reset', () => {
+    const counter = registry.counter('reset_total', 'Reset');
+    counter.inc();
+    registry.reset();
+
+    expect(counter.get()).toBe(0);
+  });
+});
+
+describe('trackUpstream', () => {
+  beforeEach(() => metrics.reset());
+
+  it('should count successes and failures by source', async () => {
+    await trackUpstream('test_source', async () => 'ok');
+    const failure = Object.assign(new Error('rate limited'), { response: { status: 429 } });
+    await expect(trackUpstream('test_source', async () => { throw failure; })).rejects.toBe(failure);
+
+    const text = metrics.render();
+    expect(text).toContain('meme_aggregator_upstream_requests_total{source="test_source",outcome="ok"} 1');
+    expect(text).toContain('meme_aggregator_upstream_requests_total{source="test_source",outcome="error"} 1');
+    expect(text).toContain('meme_aggregator_upstream_errors_total{source="test_source",reason="429"} 1');
+    expect(text).toContain('meme_aggregator_upstream_request_duration_seconds_count{source="test_source"} 2');
+  });
+
+  it('should fall back to the error code for network errors', async () => {
+    const failure = Object.assign(new Error('timeout'), { code: 'ECONNABORTED' });
+    await expect(trackUpstream('test_source', async () => { throw failure; })).rejects.toBe(failure);
+
+    expect(metrics.render()).toContain('meme_aggregator_upstream_errors_total{source="test_source",reason="ECONNABORTED"} 1');
+  });
+});
+
+describe('RateLimiter metrics', () => {
+  beforeEach(() => metrics.reset());
+
+  it('should report available tokens and wait time per limiter', async () => {
+    const limiter = RateLimiter.create({ maxRequests: 5, windowMs: 1000, name: 'metrics_test' });
+    await limiter.waitForToken();
+
+    const text = metrics.render();
+    expect(text).toMatch(/meme_aggregator_rate_limiter_available_tokens\{limiter="metrics_test"\} 4(\.\d+)?/);
+    expect(text).toContain('meme_aggregator_rate_limiter_wait_seconds_count{limiter="metrics_test"} 1');
+  });
+});
@@ -0,0 +1,84 @@
+import { CursorPaginator, CursorError, queryHash } from '../../src/services/pagination';
+import { MemoryCache } from '../../src/services/cache';
+
+describe('CursorPaginator', () => {
+  const keys = ['solana:a', 'solana:b', 'solana:c', 'solana:d', 'solana:e'];
+  const query = queryHash({ sort: 'volume' });
+  let paginator: CursorPaginator;
+
+  beforeEach(() => {
+    paginator = new CursorPaginator(new MemoryCache(), 60, 'test-secret-0123456789');
+  });
+
+  const expectCursorError = async (promise: Promise<unknown>, code: string) => {
+    await expect(promise).rejects.toBeInstanceOf(CursorError);
+    await expect(promise).rejects.toMatchObject({ code });
+  };
+
+  it('pages through the snapshot it started with', async () => {
+    const first = await paginator.start(keys, query, 2);
+    expect(first.keys).toEqual(['solana:a', 'solana:b']);
+    expect(first.prevCursor).toBeNull();
+    expect(first.total).toBe(5);
+
+    const second = await paginator.resume(first.nextCursor!, query, 2);
+    const third = await paginator.resume(second.nextCursor!, query, 2);
+
+    expect(second.keys).toEqual(['solana:c', 'solana:d']);
+    expect(third.keys).toEqual(['solana:e']);
+    expect(third.hasMore).toBe(false);
+    expect(third.nextCursor).toBeNull();
+
+    const back = await paginator.resume(third.prevCursor!, query, 2);
+    expect(back.keys).toEqual(['solana:c', 'solana:d']);
+  });
+
+  it('is not affected by a later reorder', async () => {
+    const first = await paginator.start(keys, query, 2);
+    await paginator.start([...keys].reverse(), query, 2); // a refresh and a new query
+
+    const second = await paginator.resume(first.nextCursor!, query, 2);
+    expect(second.keys).toEqual(['solana:c', 'solana:d']);
+  });
+
+  it('rejects garbage and tampered cursors', async () => {
+    const first = await paginator.start(keys, query, 2);
+    const [body, signature] = first.nextCursor!.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url').toString()), o: 4 })
+    ).toString('base64url');
+
+    await expectCursorError(paginator.resume('eyJpbmRleCI6MjB9', query, 2), 'INVALID_CURSOR');
+    await expectCursorError(paginator.resume(`${forged}.${signature}`, query, 2), 'INVALID_CURSOR');
+  });
+
+  it('rejects cursors signed with another secret', async () => {
+    const other = new CursorPaginator(new MemoryCache(), 60, 'another-secret-0123456789');
+    const first = await other.start(keys, query, 2);
+
+    await expectCursorError(paginator.resume(first.nextCursor!, query, 2), 'INVALID_CURSOR');
+  });
+
+  it('rejects a cursor used with a different query', async () => {
+    const first = await paginator.start(keys, query, 2);
+    await expectCursorError(paginator.resume(first.nextCursor!, queryHash({ sort: 'liquidity' }), 2), 'INVALID_CURSOR');
+  });
+
+  it('reports expired cursors', async () => {
+    const first = await paginator.start(keys, query, 2);
+
+    jest.useFakeTimers({ now: Date.now() + 61_000 });
+    try {
+      await expectCursorError(paginator.resume(first.nextCursor!, query, 2), 'CURSOR_EXPIRED');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('reports snapshots that are gone', async () => {
+    const first = await paginator.start(keys, query, 2);
+    const restarted = new CursorPaginator(new MemoryCache(), 60, 'test-secret-0123456789'); // same secret, empty cache
+
+    await expectCursorError(restarted.resume(first.nextCursor!, query, 2), 'CURSOR_EXPIRED');
+  });
+});
@@ -0,0 +1,77 @@
+import { PriceOracle } from '../../src/services/priceOracle';
+import { SourceRegistry, type DataSource } from '../../src/services/sources';
+
+// source that only knows a native price
+const priceSource = (name: string, price: number | null | Error): DataSource => ({
+  name,
+  fetch: async () => [],
+  getNativePrice: jest.fn(async () => {
+    if (price instanceof Error) throw price;
+    return price;
+  }),
+  transform: () => { throw new Error('not used'); },
+  getRateLimitStatus: () => ({ available: 1, name }),
+});
+
+const registryOf = (...sources: DataSource[]) => {
+  const registry = new SourceRegistry();
+  sources.forEach(source => registry.register(source));
+  return registry;
+};
+
+describe('PriceOracle', () => {
+  it('uses the chain fallback until a refresh succeeds', () => {
+    const oracle = new PriceOracle(registryOf());
+
+    expect(oracle.getPrice('solana')).toBe(200);
+    expect(oracle.get('solana')).toMatchObject({ method: 'fallback', stale: true, updated_at: null });
+  });
+
+  it('takes the median and drops outliers', async () => {
+    const oracle = new PriceOracle(
+      registryOf(priceSource('a', 150), priceSource('b', 151), priceSource('c', 90)),
+      { outlierThreshold: 0.05 }
+    );
+
+    const price = await oracle.refresh('solana');
+
+    expect(price.price_usd).toBe(150.5);
+    expect(price.method).toBe('median');
+    expect(price.stale).toBe(false);
+    expect(price.quotes.filter(q => !q.used).map(q => q.source)).toEqual(['c']);
+  });
+
+  it('keeps the last price when every provider fails', async () => {
+    const flaky = priceSource('a', 150);
+    const oracle = new PriceOracle(registryOf(flaky, priceSource('b', new Error('down'))));
+
+    await oracle.refresh('solana');
+    (flaky.getNativePrice as jest.Mock).mockResolvedValueOnce(null);
+    const price = await oracle.refresh('solana');
+
+    expect(price).toMatchObject({ price_usd: 150, method: 'single' });
+  });
+
+  it('flags prices older than the max age as stale', async () => {
+    const oracle = new PriceOracle(registryOf(priceSource('a', 150)), { maxAgeMs: 1000 });
+    await oracle.refresh('solana');
+
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 5000);
+    try {
+      expect(oracle.get('solana')).toMatchObject({ price_usd: 150, stale: true });
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('only asks sources that serve the chain', async () => {
+    const solanaOnly = { ...priceSource('jup', 150), chains: ['solana'] };
+    const oracle = new PriceOracle(registryOf(solanaOnly, priceSource('any', 3000)));
+
+    const price = await oracle.refresh('base');
+
+    expect(solanaOnly.getNativePrice).not.toHaveBeenCalled();
+    expect(price).toMatchObject({ symbol: 'ETH', price_usd: 3000 });
+  });
+});
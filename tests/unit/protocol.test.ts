@@ -0,0 +1,78 @@
+import {
+  negotiateProtocol,
+  protocolJsonSchema,
+  subscribeMessageSchema,
+  ProtocolError,
+} from '../../src/websocket/protocol';
+import { WebSocketEventType } from '../../src/types';
+
+describe('subscribeMessageSchema', () => {
+  it('should parse filter expressions and sort strings like the REST API', () => {
+    const parsed = subscribeMessageSchema.parse({
+      id: 'gainers',
+      filters: { minVolume: 1000, expression: 'liquidity_usd > 5000' },
+      sort: 'price_1hr_change:desc,volume_usd',
+      limit: 25,
+    });
+
+    expect(parsed.filters?.expression).toEqual({ op: 'cmp', cmp: '>', field: 'liquidity_usd', value: 5000 });
+    expect(parsed.sort).toEqual([
+      { field: 'price_1hr_change', direction: 'desc' },
+      { field: 'volume_usd', direction: 'desc' },
+    ]);
+  });
+
+  it('should default the direction of a sort object', () => {
+    const parsed = subscribeMessageSchema.parse({ sort: { field: 'volume', timePeriod: '1h' } });
+    expect(parsed.sort).toEqual({ field: 'volume', direction: 'desc', timePeriod: '1h' });
+  });
+
+  it('should reject unknown keys, bad limits and bad ids', () => {
+    expect(subscribeMessageSchema.safeParse({ filter: { minVolume: 1 } }).success).toBe(false);
+    expect(subscribeMessageSchema.safeParse({ filters: { minVolme: 1 } }).success).toBe(false);
+    expect(subscribeMessageSchema.safeParse({ limit: 2.5 }).success).toBe(false);
+    expect(subscribeMessageSchema.safeParse({ id: '' }).success).toBe(false);
+    expect(subscribeMessageSchema.safeParse({ sort: 'nope:sideways' }).success).toBe(false);
+  });
+});
+
+describe('negotiateProtocol', () => {
+  it('should pick the highest common version', () => {
+    expect(negotiateProtocol(undefined)).toBe(1);
+    expect(negotiateProtocol(1)).toBe(1);
+    expect(negotiateProtocol([1, 7])).toBe(1);
+    expect(negotiateProtocol('1,7')).toBe(1);
+  });
+
+  it('should refuse a client that shares no version with us', () => {
+    expect(() => negotiateProtocol(7)).toThrow(ProtocolError);
+    try {
+      negotiateProtocol('7');
+    } catch (error) {
+      expect((error as ProtocolError).code).toBe('UNSUPPORTED_PROTOCOL');
+    }
+  });
+});
+
+describe('protocolJsonSchema', () => {
+  const schema = protocolJsonSchema() as {
+    server_events: Record<string, any>;
+    client_events: Record<string, any>;
+  };
+
+  it('should describe every server event', () => {
+    expect(Object.keys(schema.server_events).sort()).toEqual(Object.values(WebSocketEventType).sort());
+  });
+
+  it('should carry constraints through from the zod schemas', () => {
+    const subscribe = schema.client_events.subscribe;
+
+    expect(subscribe.additionalProperties).toBe(false);
+    expect(subscribe.properties.limit).toMatchObject({ type: 'integer', minimum: 1, maximum: 100 });
+    expect(subscribe.properties.id.description).toMatch(/Client-chosen id/);
+
+    const batch = schema.server_events.batch_update;
+    expect(batch.required).toEqual(['event', 'data', 'timestamp']);
+    expect(batch.properties.data.anyOf.map((s: any) => s.properties.type.const)).toEqual(['snapshot', 'delta']);
+  });
+});
@@ -80,4 +80,12 @@ describe('withRetry', () => {
     await withRetry(fn, { maxRetries: 2, baseDelay: 10, onRetry });
     expect(onRetry).toHaveBeenCalledTimes(1);
   });
+
+  it('gives up early when shouldRetry says no', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('not found'));
+    const shouldRetry = jest.fn().mockReturnValue(false);
+
+    await expect(withRetry(fn, { maxRetries: 3, baseDelay: 10, shouldRetry })).rejects.toThrow('not found');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
 });
@@ -0,0 +1,94 @@
+import { assessSafety } from '../../src/services/safety';
+import { windowActivity } from '../../src/services/activity';
+import { applyFilters } from '../../src/services/tokenFilters';
+import type { Token } from '../../src/types';
+
+const now = Date.parse('2024-06-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+
+const baseToken: Token = {
+  token_address: 'addr',
+  token_name: 'Test',
+  token_ticker: 'TST',
+  price_sol: 0, price_usd: 1,
+  market_cap_sol: 0, market_cap_usd: 1_000_000,
+  volume_sol: 0, volume_usd: 0,
+  liquidity_sol: 0, liquidity_usd: 200_000,
+  transaction_count: 0,
+  price_5m_change: 0, price_1hr_change: 0, price_6hr_change: 0, price_24hr_change: 0, price_7d_change: 0,
+  volume_5m: 0, volume_1hr: 0, volume_6hr: 0, volume_24hr: 0, volume_7d: 0,
+  protocol: 'raydium', dex_id: 'raydium', chain_id: 'solana',
+  pair_address: 'pair',
+  created_at: daysAgo(30),
+  last_updated: daysAgo(0),
+  sources: ['dexscreener'],
+  activity: { '24h': windowActivity(120, 100) },
+};
+
+const flow = (buys: number, sells: number): Partial<Token> => ({ activity: { '24h': windowActivity(buys, sells) } });
+
+const token = (fields: Partial<Token>): Token => ({ ...baseToken, ...fields });
+
+describe('assessSafety', () => {
+  it('scores a healthy token at 100 with no flags', () => {
+    const safety = assessSafety(token({ mint_authority: null, freeze_authority: null }), now);
+
+    expect(safety.score).toBe(100);
+    expect(safety.flags).toEqual([]);
+    expect(safety.mint_authority).toBe(false);
+    expect(safety.liquidity_to_mcap).toBeCloseTo(0.2);
+    expect(safety.pool_age_hours).toBeCloseTo(30 * 24);
+  });
+
+  it('penalises live mint and freeze authorities', () => {
+    const safety = assessSafety(token({ mint_authority: 'dev', freeze_authority: 'dev' }), now);
+
+    expect(safety.flags).toEqual(['mint_authority', 'freeze_authority']);
+    expect(safety.score).toBe(45);
+  });
+
+  it('treats missing authority info as unknown, not risky', () => {
+    const safety = assessSafety(token({ chain_id: 'base' }), now);
+
+    expect(safety.mint_authority).toBeNull();
+    expect(safety.freeze_authority).toBeNull();
+    expect(safety.score).toBe(100);
+  });
+
+  it('flags thin liquidity and brand new pools', () => {
+    const safety = assessSafety(token({
+      liquidity_usd: 10_000, // 1% of mcap
+      created_at: new Date(now - 30 * 60 * 1000).toISOString(),
+    }), now);
+
+    expect(safety.flags).toEqual(['thin_liquidity', 'new_pool']);
+    expect(safety.score).toBe(65);
+  });
+
+  it('flags one-sided order flow once there are enough trades', () => {
+    expect(assessSafety(token(flow(300, 2)), now).flags).toEqual(['one_sided_buys']);
+    expect(assessSafety(token(flow(10, 90)), now).flags).toEqual(['heavy_selling']);
+    expect(assessSafety(token(flow(5, 0)), now).flags).toEqual(['few_trades']);
+  });
+
+  it('ignores pool age for tokens without a pair', () => {
+    const safety = assessSafety(token({ pair_address: '', created_at: daysAgo(0) }), now);
+    expect(safety.pool_age_hours).toBeNull();
+  });
+
+  it('gives verified tokens a bonus, capped at 100', () => {
+    expect(assessSafety(token({ tags: ['verified'], mint_authority: 'dev' }), now).score).toBe(80);
+    expect(assessSafety(token({ tags: ['strict'] }), now).score).toBe(100);
+  });
+});
+
+describe('minSafetyScore filter', () => {
+  it('drops tokens below the score and tokens without one', () => {
+    const safe = token({ token_address: 'safe', safety: assessSafety(token({}), now) });
+    const risky = token({ token_address: 'risky', safety: assessSafety(token({ mint_authority: 'dev' }), now) });
+    const unscored = token({ token_address: 'unscored' });
+
+    const result = applyFilters([safe, risky, unscored], { minSafetyScore: 80 });
+    expect(result.map(t => t.token_address)).toEqual(['safe']);
+  });
+});
@@ -0,0 +1,103 @@
+import { UpdateScheduler } from '../../src/scheduler';
+import { MemoryBroker, MemoryClusterBus, CLUSTER_CHANNELS } from '../../src/cluster';
+import type { TokenAggregator } from '../../src/services/aggregator';
+import type { WebSocketServer } from '../../src/websocket/server';
+
+describe('UpdateScheduler', () => {
+  let aggregator: jest.Mocked<TokenAggregator>;
+  let scheduler: UpdateScheduler;
+
+  beforeEach(() => {
+    aggregator = {
+      getChains: jest.fn().mockReturnValue(['solana', 'base']),
+      refreshChain: jest.fn().mockResolvedValue(undefined),
+      getAllTokensArray: jest.fn().mockReturnValue([]),
+      getNativePriceInfo: jest.fn().mockReturnValue([{ chain: 'solana', price_usd: 150 }]),
+    } as unknown as jest.Mocked<TokenAggregator>;
+    const wsServer = { broadcastBatchUpdate: jest.fn(), broadcastError: jest.fn() } as unknown as WebSocketServer;
+    scheduler = new UpdateScheduler(aggregator, wsServer);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  const paused = () => scheduler.getStatus().jobs.filter(j => j.paused).map(j => j.name);
+
+  it('pauses and resumes jobs by name', () => {
+    scheduler.start();
+
+    expect(scheduler.pauseJob('fullRefresh:solana')).toBe(true);
+    expect(paused()).toEqual(['fullRefresh:solana']);
+
+    expect(scheduler.resumeJob('fullRefresh:solana')).toBe(true);
+    expect(paused()).toEqual([]);
+
+    expect(scheduler.pauseJob('nope')).toBe(false);
+  });
+
+  it('keeps paused jobs paused across a restart', () => {
+    scheduler.start();
+    scheduler.pauseJob('priceUpdate');
+    scheduler.stop();
+    scheduler.start();
+
+    expect(paused()).toEqual(['priceUpdate']);
+  });
+
+  it('takes a pause while stopped and keeps it once started', () => {
+    expect(scheduler.pauseJob('fullRefresh:base')).toBe(true);
+    expect(scheduler.getStatus().jobs.every(j => !j.running)).toBe(true);
+
+    scheduler.start();
+    expect(paused()).toEqual(['fullRefresh:base']);
+    expect(scheduler.getStatus().jobs.filter(j => j.running)).toHaveLength(3);
+  });
+
+  it('refreshes a single chain or everything on demand', async () => {
+    await scheduler.triggerRefresh('solana');
+    expect(aggregator.refreshChain).toHaveBeenCalledWith('solana');
+
+    await scheduler.triggerRefresh();
+    expect(aggregator.refreshChain).toHaveBeenCalledWith('base');
+    expect(aggregator.refreshChain).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips a chain that is already refreshing, manual or not', async () => {
+    let finish: () => void = () => {};
+    aggregator.refreshChain.mockImplementationOnce(() => new Promise<void>(resolve => { finish = resolve; }));
+
+    const first = scheduler.triggerRefresh('solana');
+    await scheduler.triggerRefresh();
+    finish();
+    await first;
+
+    expect(aggregator.refreshChain.mock.calls).toEqual([['solana'], ['base']]);
+  });
+
+  it('publishes refreshed tokens to the other cluster nodes', async () => {
+    const broker = new MemoryBroker();
+    const follower = new MemoryClusterBus('follower', broker);
+    const order: string[] = [];
+    const received = jest.fn(() => order.push('tokens'));
+    await follower.subscribe(CLUSTER_CHANNELS.tokens, received);
+
+    const broadcastBatchUpdate = jest.fn(() => order.push('batch'));
+    const wsServer = { broadcastBatchUpdate, broadcastError: jest.fn() } as unknown as WebSocketServer;
+    aggregator.getAllTokensArray.mockReturnValue([{ token_address: 'abc', chain_id: 'solana' }] as never);
+    const leader = new UpdateScheduler(aggregator, wsServer, undefined, new MemoryClusterBus('leader', broker));
+
+    await leader.triggerRefresh('solana');
+
+    expect(received).toHaveBeenCalledWith(
+      {
+        chain: 'solana',
+        tokens: [{ token_address: 'abc', chain_id: 'solana' }],
+        native_price: { chain: 'solana', price_usd: 150 },
+      },
+      'leader'
+    );
+    // followers rank the relayed batch against their tokens, so those go first
+    expect(order).toEqual(['tokens', 'batch']);
+  });
+});
@@ -0,0 +1,78 @@
+import { SearchIndex } from '../../src/services/searchIndex';
+import type { Token } from '../../src/types';
+
+const baseToken: Token = {
+  token_address: 'addr',
+  token_name: 'Test',
+  token_ticker: 'TST',
+  price_sol: 0, price_usd: 1,
+  market_cap_sol: 0, market_cap_usd: 0,
+  volume_sol: 0, volume_usd: 0,
+  liquidity_sol: 0, liquidity_usd: 0,
+  transaction_count: 0,
+  price_5m_change: 0, price_1hr_change: 0, price_6hr_change: 0, price_24hr_change: 0, price_7d_change: 0,
+  volume_5m: 0, volume_1hr: 0, volume_6hr: 0, volume_24hr: 0, volume_7d: 0,
+  protocol: 'raydium', dex_id: 'raydium', chain_id: 'solana',
+  pair_address: 'pair',
+  created_at: '2024-01-01T00:00:00Z',
+  last_updated: '2024-01-01T00:00:00Z',
+  sources: ['dexscreener'],
+};
+
+const token = (address: string, name: string, ticker: string, fields: Partial<Token> = {}): Token => ({
+  ...baseToken,
+  token_address: address,
+  token_name: name,
+  token_ticker: ticker,
+  ...fields,
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  const add = (t: Token) => index.upsert(`${t.chain_id}:${t.token_address}`, t);
+  const search = (q: string, limit = 10, chain?: string) =>
+    index.search(q, limit, chain).map(hit => hit.token.token_address);
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    add(token('bonk-addr', 'Bonk', 'BONK', { liquidity_usd: 5_000_000, volume_24hr: 1_000_000 }));
+    add(token('bonkfork-addr', 'Bonk Fork', 'BONKF', { liquidity_usd: 1000 }));
+    add(token('wif-addr', 'dogwifhat', 'WIF', { liquidity_usd: 9_000_000 }));
+    add(token('popcat-addr', 'Popcat', 'POPCAT'));
+  });
+
+  it('ranks exact ticker matches above prefix matches', () => {
+    expect(search('bonk')).toEqual(['bonk-addr', 'bonkfork-addr']);
+  });
+
+  it('matches prefixes of the ticker and of name words', () => {
+    expect(search('bo')).toEqual(['bonk-addr', 'bonkfork-addr']);
+    expect(search('fork')).toEqual(['bonkfork-addr']);
+  });
+
+  it('finds tokens by exact address, case-insensitively', () => {
+    expect(search('WIF-ADDR')).toEqual(['wif-addr']);
+  });
+
+  it('tolerates typos through trigram similarity', () => {
+    expect(search('popcta')).toEqual(['popcat-addr']);
+    expect(search('bonkk')[0]).toBe('bonk-addr');
+  });
+
+  it('breaks ties between similar matches on liquidity and volume', () => {
+    add(token('bonk-clone', 'Bonk', 'BONK', { chain_id: 'base', liquidity_usd: 10 }));
+    expect(search('bonk', 2)).toEqual(['bonk-addr', 'bonk-clone']);
+    expect(search('bonk', 10, 'base')).toEqual(['bonk-clone']);
+  });
+
+  it('reindexes renamed tokens and forgets removed ones', () => {
+    add(token('popcat-addr', 'Mewcat', 'MEW'));
+    expect(search('popcat')).toEqual([]);
+    expect(search('mew')).toEqual(['popcat-addr']);
+
+    index.remove('solana:popcat-addr');
+    expect(search('mew')).toEqual([]);
+    expect(index.size).toBe(3);
+  });
+});
@@ -0,0 +1,365 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SourceRegistry, FixtureSource, DexScreenerSource, GeckoTerminalSource, createSourceRegistry } from '../../src/services/sources';
+import { DexScreenerClient } from '../../src/services/dexScreener';
+import { GeckoTerminalClient } from '../../src/services/geckoTerminal';
+import type { DataSource } from '../../src/services/sources';
+import { TokenAggregator } from '../../src/services/aggregator';
+import { getTimeSeriesStore } from '../../src/services/timeSeries';
+import type { Token, Pair } from '../../src/types';
+
+// minimal source that hands back whatever records it's given for a chain
+const stubSource = (name: string, records: Partial<Token>[], fail = false): DataSource<Partial<Token>> => ({
+  name,
+  fetch: jest.fn(async (chain: string) => {
+    if (fail) throw new Error(`${name} down`);
+    return records.filter(r => (r.chain_id || 'solana') === chain);
+  }),
+  transform: (raw, solPrice) => ({
+    ...new FixtureSource().transform({ token_address: 'missing', ...raw }, solPrice),
+    sources: [name],
+  }),
+  getRateLimitStatus: () => ({ available: 1, name }),
+});
+
+describe('SourceRegistry', () => {
+  it('registers and lists sources', () => {
+    const registry = new SourceRegistry();
+    registry.register(stubSource('a', []));
+    registry.register(stubSource('b', []));
+
+    expect(registry.names()).toEqual(['a', 'b']);
+    expect(registry.get('a')?.name).toBe('a');
+  });
+
+  it('can disable a source without removing it', () => {
+    const registry = new SourceRegistry();
+    registry.register(stubSource('a', []));
+    registry.register(stubSource('b', []));
+
+    expect(registry.setEnabled('a', false)).toBe(true);
+    expect(registry.getEnabled().map(s => s.name)).toEqual(['b']);
+    expect(registry.getAll()).toHaveLength(2);
+    expect(registry.setEnabled('nope', false)).toBe(false);
+  });
+
+  it('builds from a list of names and skips unknown ones', () => {
+    const registry = createSourceRegistry(['dexscreener', 'birdeye-not-installed']);
+    expect(registry.names()).toEqual(['dexscreener']);
+  });
+});
+
+describe('FixtureSource', () => {
+  it('reads tokens from a JSON file', async () => {
+    const file = path.join(os.tmpdir(), `fixture-${Date.now()}.json`);
+    await fs.writeFile(file, JSON.stringify([
+      { token_address: 'addr-1', token_name: 'Fixture One', token_ticker: 'FX1', price_usd: 2 },
+    ]));
+
+    const source = new FixtureSource(file);
+    const [record] = await source.fetch('solana');
+    const token = source.transform(record, 100);
+
+    expect(token.token_name).toBe('Fixture One');
+    expect(token.price_sol).toBe(0.02);
+    expect(token.sources).toEqual(['fixture']);
+    expect(await source.lookup('addr-1', 'solana')).toHaveLength(1);
+    expect(await source.fetch('base')).toHaveLength(0); // no chain_id means solana
+
+    await fs.unlink(file);
+  });
+
+  it('fails loudly without a path', async () => {
+    await expect(new FixtureSource('').fetch('solana')).rejects.toThrow('FIXTURE_SOURCE_PATH');
+  });
+});
+
+describe('native price providers', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+
+  it('DexScreener prices SOL from its deepest stablecoin pair', async () => {
+    const pair = (quote: string, price: string, liquidity: number) => ({
+      chainId: 'solana',
+      baseToken: { address: SOL, symbol: 'SOL' },
+      quoteToken: { address: quote, symbol: quote },
+      priceUsd: price,
+      liquidity: { usd: liquidity },
+    });
+    const client = {
+      getTokenByAddress: jest.fn(async () => [
+        pair('BONK', '999', 5e7), // not a usd quote
+        pair('USDC', '150', 1e7),
+        pair('USDT', '149', 1e6),
+      ]),
+    } as unknown as DexScreenerClient;
+
+    expect(await new DexScreenerSource(client).getNativePrice('solana')).toBe(150);
+  });
+
+  it('GeckoTerminal reads the native side of the deepest pool', async () => {
+    const pool = (base: string, quote: string, baseUsd: string, quoteUsd: string, reserve: string) => ({
+      attributes: { base_token_price_usd: baseUsd, quote_token_price_usd: quoteUsd, reserve_in_usd: reserve },
+      relationships: {
+        base_token: { data: { id: `solana_${base}` } },
+        quote_token: { data: { id: `solana_${quote}` } },
+      },
+    });
+    const client = {
+      getTokenPools: jest.fn(async () => [
+        pool('MEME', SOL, '0.01', '151', '1000'),
+        pool('WIF', SOL, '2', '152', '90000'),
+      ]),
+    } as unknown as GeckoTerminalClient;
+
+    expect(await new GeckoTerminalSource(client).getNativePrice('solana')).toBe(152);
+  });
+});
+
+describe('TokenAggregator with registry', () => {
+  it('merges tokens from every enabled source', async () => {
+    const registry = new SourceRegistry();
+    registry.register(stubSource('one', [{ token_address: 'x', price_usd: 1 }]));
+    registry.register(stubSource('two', [{ token_address: 'y', price_usd: 2 }]));
+
+    const aggregator = new TokenAggregator(registry);
+    await aggregator.refreshAllData();
+
+    const addresses = aggregator.getAllTokensArray().map(t => t.token_address).sort();
+    expect(addresses).toEqual(['x', 'y']);
+  });
+
+  it('keeps going when a source fails and skips disabled ones', async () => {
+    const disabled = stubSource('off', [{ token_address: 'z' }]);
+    const registry = new SourceRegistry();
+    registry.register(stubSource('ok', [{ token_address: 'x' }]));
+    registry.register(stubSource('broken', [], true));
+    registry.register(disabled, false);
+
+    const aggregator = new TokenAggregator(registry);
+    await aggregator.refreshAllData();
+
+    expect(aggregator.getAllTokensArray().map(t => t.token_address)).toEqual(['x']);
+    expect(disabled.fetch).not.toHaveBeenCalled();
+    expect(aggregator.getSourceStatus().map(s => s.enabled)).toEqual([true, true, false]);
+  });
+
+  it('searches merged tokens through the index without calling upstream', async () => {
+    const search = jest.fn(async () => []);
+    const source = { ...stubSource('one', [{ token_address: 'pop', token_name: 'Popcat', token_ticker: 'POPCAT' }]), search };
+    const registry = new SourceRegistry();
+    registry.register(source);
+
+    const aggregator = new TokenAggregator(registry);
+    await aggregator.refreshAllData();
+
+    expect((await aggregator.searchTokens('popcta', 1)).map(t => t.token_address)).toEqual(['pop']);
+    expect(search).not.toHaveBeenCalled();
+    expect(aggregator.suggestTokens('pop')[0]).toMatchObject({ token_address: 'pop', token_ticker: 'POPCAT' });
+  });
+
+  it('uses the deepest pool when a source lists several for one token', async () => {
+    const registry = new SourceRegistry();
+    registry.register(stubSource('one', [
+      { token_address: 'multi', price_usd: 2, liquidity_usd: 50_000 },
+      { token_address: 'multi', price_usd: 1, liquidity_usd: 1_000 },
+    ]));
+
+    const aggregator = new TokenAggregator(registry);
+    await aggregator.refreshAllData();
+
+    expect(aggregator.findToken('multi')).toMatchObject({ price_usd: 2, liquidity_usd: 50_000 });
+  });
+
+  it('drops tokens and pools a source stopped listing', async () => {
+    const listed: Partial<Token>[] = [{ token_address: 'stays' }, { token_address: 'goes' }];
+    const kept: Partial<Token>[] = [{ token_address: 'kept' }];
+    const toPair = (raw: Partial<Token>): Pair => ({
+      pair_address: `${raw.token_address}-pool`,
+      token_address: raw.token_address!,
+      chain_id: 'solana',
+      dex_id: 'raydium',
+      quote_token: { address: 'sol', symbol: 'SOL' },
+      price_usd: 1,
+      price_native: 1,
+      liquidity_usd: 1000,
+      volume_1hr: 0,
+      volume_24hr: 0,
+      price_1hr_change: 0,
+      price_24hr_change: 0,
+      transaction_count: 0,
+      created_at: new Date().toISOString(),
+      last_updated: new Date().toISOString(),
+      source: 'one',
+    });
+    const failing = stubSource('flaky', kept);
+    const registry = new SourceRegistry();
+    registry.register({ ...stubSource('one', listed), toPair });
+    registry.register(failing);
+
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval'] });
+    try {
+      const aggregator = new TokenAggregator(registry);
+      await aggregator.refreshAllData();
+      expect(await aggregator.getPairs('goes', 'solana')).toHaveLength(1);
+
+      listed.pop();
+      (failing.fetch as jest.Mock).mockRejectedValue(new Error('flaky down'));
+      jest.setSystemTime(Date.now() + 901_000);
+      await aggregator.refreshAllData();
+
+      expect(aggregator.getAllTokensArray().map(t => t.token_address).sort()).toEqual(['kept', 'stays']);
+      expect(aggregator.findToken('goes')).toBeUndefined();
+      expect(await aggregator.getPairs('goes', 'solana')).toEqual([]);
+      expect(await aggregator.getPairs('stays', 'solana')).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('keeps DexScreener tokens through an outage longer than the stale TTL', async () => {
+    const client = new DexScreenerClient();
+    const search = jest.spyOn(client, 'searchTokens').mockResolvedValue([{
+      chainId: 'solana',
+      dexId: 'raydium',
+      pairAddress: 'pool',
+      baseToken: { address: 'dex-only', name: 'Dex Only', symbol: 'DEX' },
+      quoteToken: { address: 'sol', name: 'Wrapped SOL', symbol: 'SOL' },
+      priceUsd: '1',
+      liquidity: { usd: 1000 },
+    } as never]);
+    const registry = new SourceRegistry();
+    registry.register(new DexScreenerSource(client));
+
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval'] });
+    try {
+      const aggregator = new TokenAggregator(registry);
+      await aggregator.refreshChain('solana');
+      expect(aggregator.findToken('dex-only')).toBeDefined();
+
+      search.mockRejectedValue(new Error('Request failed with status code 503'));
+      for (let minute = 1; minute <= 16; minute++) {
+        jest.setSystemTime(Date.now() + 60_000);
+        await aggregator.refreshChain('solana');
+      }
+
+      expect(aggregator.findToken('dex-only')).toBeDefined();
+      expect(await aggregator.getPairs('dex-only', 'solana')).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('follows the leader\'s list, including tokens it dropped', async () => {
+    const registry = new SourceRegistry();
+    registry.register(stubSource('one', [{ token_address: 'a' }, { token_address: 'b' }]));
+    const leader = new TokenAggregator(registry);
+    await leader.refreshAllData();
+
+    const follower = new TokenAggregator(new SourceRegistry());
+    follower.applyRemoteTokens('solana', leader.getAllTokensArray());
+    follower.applyRemoteTokens('solana', leader.getAllTokensArray().filter(t => t.token_address === 'a'));
+
+    expect(follower.getAllTokensArray().map(t => t.token_address)).toEqual(['a']);
+  });
+
+  it('prunes the old leader\'s tokens once a follower takes over', async () => {
+    const listed: Partial<Token>[] = [{ token_address: 'a' }, { token_address: 'b' }];
+    const registry = new SourceRegistry();
+    registry.register(stubSource('one', listed));
+    const leader = new TokenAggregator(registry);
+    await leader.refreshAllData();
+
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval'] });
+    try {
+      const follower = new TokenAggregator(registry);
+      follower.applyRemoteTokens('solana', leader.getAllTokensArray());
+
+      // the leader goes away, the follower's first refreshes no longer see b
+      listed.pop();
+      await follower.refreshChain('solana');
+      expect(follower.findToken('b')).toBeDefined();
+
+      jest.setSystemTime(Date.now() + 901_000);
+      await follower.refreshChain('solana');
+      expect(follower.getAllTokensArray().map(t => t.token_address)).toEqual(['a']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('derives 7d change and volume from stored history', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const snapshot = (daysAgo: number, price: number) => ({
+      timestamp: Date.now() - daysAgo * day,
+      price_usd: price,
+      volume_24hr: 1000,
+      liquidity_usd: 0,
+      market_cap_usd: 0,
+    });
+    await getTimeSeriesStore().record('solana:weekly', snapshot(3, 1));
+    await getTimeSeriesStore().record('solana:weekly', snapshot(1.5, 1.5));
+
+    const registry = new SourceRegistry();
+    registry.register(stubSource('one', [{ token_address: 'weekly', price_usd: 2, volume_24hr: 1000 }]));
+
+    const aggregator = new TokenAggregator(registry);
+    await aggregator.refreshAllData();
+
+    const token = aggregator.findToken('weekly');
+    expect(token?.price_7d_change).toBeCloseTo(100); // 1 -> 2
+    expect(token?.volume_7d).toBe(7000); // one sample on each of 3 days, scaled to 7
+    expect(token?.volume_7d_days).toBe(3);
+  });
+});
+
+describe('TokenAggregator across chains', () => {
+  const EVM_ADDR = '0xAbCdEf0000000000000000000000000000000001';
+
+  it('keeps the same address on two chains apart', async () => {
+    const registry = new SourceRegistry();
+    registry.register(stubSource('one', [
+      { token_address: EVM_ADDR, chain_id: 'base', price_usd: 1 },
+      { token_address: EVM_ADDR, chain_id: 'ethereum', price_usd: 2 },
+    ]));
+
+    const aggregator = new TokenAggregator(registry, undefined, ['base', 'ethereum']);
+    await aggregator.refreshAllData();
+
+    expect(aggregator.getAllTokensArray()).toHaveLength(2);
+    expect(aggregator.findToken(EVM_ADDR, 'base')?.price_usd).toBe(1);
+    expect(aggregator.findToken(EVM_ADDR, 'ethereum')?.price_usd).toBe(2);
+    // evm addresses match regardless of case
+    expect(aggregator.findToken(EVM_ADDR.toLowerCase(), 'ethereum')?.price_usd).toBe(2);
+  });
+
+  it('prices native fields with each chain\'s own native asset', async () => {
+    const native = stubSource('native', [
+      { token_address: 'sol-token', price_usd: 10 },
+      { token_address: EVM_ADDR, chain_id: 'bsc', price_usd: 10 },
+    ]);
+    native.getNativePrice = async (chain: string) => (chain === 'solana' ? 100 : 500);
+
+    const registry = new SourceRegistry();
+    registry.register(native);
+
+    const aggregator = new TokenAggregator(registry, undefined, ['solana', 'bsc']);
+    await aggregator.initialize();
+
+    expect(aggregator.findToken('sol-token')?.price_sol).toBe(0.1);
+    expect(aggregator.findToken(EVM_ADDR, 'bsc')?.price_sol).toBe(0.02);
+    expect(aggregator.getChainStatus().map(c => c.native_price)).toEqual([100, 500]);
+  });
+
+  it('only asks a source for chains it supports', async () => {
+    const solanaOnly = { ...stubSource('sol-only', []), chains: ['solana'] };
+    const registry = new SourceRegistry();
+    registry.register(solanaOnly);
+
+    const aggregator = new TokenAggregator(registry, undefined, ['solana', 'base']);
+    await aggregator.refreshAllData();
+
+    expect(solanaOnly.fetch).toHaveBeenCalledTimes(1);
+    expect(solanaOnly.fetch).toHaveBeenCalledWith('solana');
+  });
+});
@@ -0,0 +1,136 @@
+import { MemoryTimeSeriesStore, buildCandles, summarizeWeek } from '../../src/services/timeSeries';
+import type { TokenSnapshot } from '../../src/types';
+
+describe('MemoryTimeSeriesStore', () => {
+  let store: MemoryTimeSeriesStore;
+  const now = Date.now();
+
+  const snap = (offsetMs: number, price: number, volume = 0): TokenSnapshot => ({
+    timestamp: now + offsetMs,
+    price_usd: price,
+    volume_24hr: volume,
+    liquidity_usd: 0,
+    market_cap_usd: 0,
+  });
+
+  beforeEach(() => {
+    store = new MemoryTimeSeriesStore();
+  });
+
+  it('records and returns points within range', async () => {
+    await store.record('addr', snap(-3000, 1));
+    await store.record('addr', snap(-2000, 2));
+    await store.record('addr', snap(-1000, 3));
+
+    const points = await store.range('addr', now - 2500, now);
+    expect(points.map(p => p.price_usd)).toEqual([2, 3]);
+  });
+
+  it('keeps points ordered when they arrive late', async () => {
+    await store.record('addr', snap(-1000, 2));
+    await store.record('addr', snap(-2000, 1));
+
+    const points = await store.range('addr', 0, now);
+    expect(points.map(p => p.price_usd)).toEqual([1, 2]);
+  });
+
+  it('drops points older than the retention window', async () => {
+    await store.record('addr', snap(-1000 * 60 * 60 * 24 * 30, 1)); // 30 days ago
+    await store.record('addr', snap(0, 2));
+
+    const points = await store.range('addr', 0, now);
+    expect(points).toHaveLength(1);
+  });
+
+  it('records many tokens at once', async () => {
+    await store.recordMany([
+      { address: 'a', snapshot: snap(0, 1) },
+      { address: 'b', snapshot: snap(0, 2) },
+    ]);
+
+    expect(store.getStats()).toEqual({ series: 2, points: 2 });
+  });
+});
+
+describe('buildCandles', () => {
+  const base = 1_700_000_000_000 - (1_700_000_000_000 % 60000); // align to a minute
+
+  const snap = (offsetMs: number, price: number, volume = 0): TokenSnapshot => ({
+    timestamp: base + offsetMs,
+    price_usd: price,
+    volume_24hr: volume,
+    liquidity_usd: 0,
+    market_cap_usd: 0,
+  });
+
+  it('builds OHLC per bucket', () => {
+    const candles = buildCandles([
+      snap(0, 1.0),
+      snap(10000, 1.5),
+      snap(20000, 0.8),
+      snap(50000, 1.2),
+      snap(60000, 2.0),
+    ], '1m');
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({ open: 1.0, high: 1.5, low: 0.8, close: 1.2, samples: 4 });
+    expect(candles[1]).toMatchObject({ open: 2.0, close: 2.0, open_time: base + 60000 });
+  });
+
+  it('estimates volume from positive 24h volume increments', () => {
+    const candles = buildCandles([
+      snap(0, 1, 1000),
+      snap(30000, 1, 1500),
+      snap(60000, 1, 1400), // rolling window dropped old trades
+      snap(90000, 1, 2000),
+    ], '1m');
+
+    expect(candles[0].volume).toBe(500);
+    expect(candles[1].volume).toBe(600);
+  });
+
+  it('skips zero prices', () => {
+    const candles = buildCandles([snap(0, 1), snap(1000, 0), snap(2000, 2)], '1m');
+    expect(candles[0].low).toBe(1);
+    expect(candles[0].samples).toBe(2);
+  });
+});
+
+describe('summarizeWeek', () => {
+  const now = 1_700_000_000_000;
+  const day = 24 * 60 * 60 * 1000;
+
+  const snap = (daysAgo: number, price: number, volume = 0): TokenSnapshot => ({
+    timestamp: now - daysAgo * day,
+    price_usd: price,
+    volume_24hr: volume,
+    liquidity_usd: 0,
+    market_cap_usd: 0,
+  });
+
+  it('measures price change from the oldest point in the week', () => {
+    const weekly = summarizeWeek([snap(10, 5), snap(6, 1), snap(3, 3), snap(0, 2)], now);
+    expect(weekly?.price_7d_change).toBeCloseTo(100);
+  });
+
+  it('adds up the latest 24h volume sample from each day', () => {
+    const weekly = summarizeWeek([0, 1, 2, 3, 4, 5, 6].map(day => snap(day + 0.5, 1, 100 * (day + 1))), now);
+    expect(weekly).toMatchObject({ volume_7d: 2800, volume_7d_days: 7 });
+  });
+
+  it('scales a short history up to a week and says how short it is', () => {
+    const weekly = summarizeWeek([
+      snap(2.5, 1, 100),
+      snap(2.2, 1, 300), // latest on day 3 counts
+      snap(1.5, 1, 200),
+      snap(0.1, 1, 400),
+    ], now);
+    expect(weekly?.volume_7d).toBeCloseTo((900 / 3) * 7);
+    expect(weekly?.volume_7d_days).toBe(3);
+  });
+
+  it('returns null with under a day of history', () => {
+    expect(summarizeWeek([snap(0.5, 1), snap(0, 2)], now)).toBeNull();
+    expect(summarizeWeek([snap(0, 2)], now)).toBeNull();
+  });
+});
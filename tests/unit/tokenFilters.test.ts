@@ -0,0 +1,78 @@
+import { applyFilters, applySorting } from '../../src/services/tokenFilters';
+import { windowActivity } from '../../src/services/activity';
+import type { Token } from '../../src/types';
+
+const baseToken: Token = {
+  token_address: 'addr',
+  token_name: 'Test',
+  token_ticker: 'TST',
+  price_sol: 0, price_usd: 1,
+  market_cap_sol: 0, market_cap_usd: 0,
+  volume_sol: 0, volume_usd: 0,
+  liquidity_sol: 0, liquidity_usd: 0,
+  transaction_count: 0,
+  price_5m_change: 0, price_1hr_change: 0, price_6hr_change: 0, price_24hr_change: 0, price_7d_change: 0,
+  volume_5m: 0, volume_1hr: 0, volume_6hr: 0, volume_24hr: 0, volume_7d: 0,
+  protocol: 'raydium', dex_id: 'raydium', chain_id: 'solana',
+  pair_address: 'pair',
+  created_at: '2024-01-01T00:00:00Z',
+  last_updated: '2024-01-01T00:00:00Z',
+  sources: ['dexscreener'],
+};
+
+const token = (fields: Partial<Token>): Token => ({ ...baseToken, ...fields });
+
+describe('applySorting', () => {
+  it('sorts by buy/sell ratio in the requested window', () => {
+    const tokens = [
+      token({ token_address: 'even', activity: { '1h': windowActivity(10, 10) } }),
+      token({ token_address: 'buying', activity: { '1h': windowActivity(30, 5) } }),
+      token({ token_address: 'none' }),
+    ];
+
+    const sorted = applySorting(tokens, { field: 'buy_sell_ratio', direction: 'desc', timePeriod: '1h' });
+    expect(sorted.map(t => t.token_address)).toEqual(['buying', 'even', 'none']);
+  });
+
+  it('sorts by unique buyers, using 24h for the 7d period', () => {
+    const tokens = [
+      token({ token_address: 'few', activity: { '24h': windowActivity(100, 50, 10, 5) } }),
+      token({ token_address: 'many', activity: { '24h': windowActivity(100, 50, 80, 5) } }),
+    ];
+
+    const sorted = applySorting(tokens, { field: 'buyers', direction: 'desc', timePeriod: '7d' });
+    expect(sorted.map(t => t.token_address)).toEqual(['many', 'few']);
+  });
+
+  it('sorts by unique sellers', () => {
+    const tokens = [
+      token({ token_address: 'dumping', activity: { '1h': windowActivity(10, 90, 5, 60) } }),
+      token({ token_address: 'holding', activity: { '1h': windowActivity(10, 5, 5, 2) } }),
+    ];
+
+    const sorted = applySorting(tokens, { field: 'sellers', direction: 'asc', timePeriod: '1h' });
+    expect(sorted.map(t => t.token_address)).toEqual(['holding', 'dumping']);
+  });
+});
+
+describe('time periods', () => {
+  it('filters on the 5m volume window', () => {
+    const tokens = [
+      token({ token_address: 'busy', volume_5m: 5000, volume_usd: 90000 }),
+      token({ token_address: 'quiet', volume_5m: 50, volume_usd: 90000 }),
+    ];
+
+    const result = applyFilters(tokens, { timePeriod: '5m', minVolume: 1000 });
+    expect(result.map(t => t.token_address)).toEqual(['busy']);
+  });
+
+  it('sorts by 6h price change', () => {
+    const tokens = [
+      token({ token_address: 'flat', price_6hr_change: 1, price_24hr_change: 50 }),
+      token({ token_address: 'up', price_6hr_change: 20, price_24hr_change: 5 }),
+    ];
+
+    const sorted = applySorting(tokens, { field: 'price_change', direction: 'desc', timePeriod: '6h' });
+    expect(sorted.map(t => t.token_address)).toEqual(['up', 'flat']);
+  });
+});
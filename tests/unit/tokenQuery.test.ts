@@ -0,0 +1,155 @@
+import {
+  parseFilterExpression,
+  evaluateExpression,
+  sortByKeys,
+  projectToken,
+  tokenQuerySchema,
+} from '../../src/services/tokenQuery';
+import { applyFilters } from '../../src/services/tokenFilters';
+import { windowActivity } from '../../src/services/activity';
+import type { Token } from '../../src/types';
+
+const baseToken: Token = {
+  token_address: 'addr',
+  token_name: 'Test',
+  token_ticker: 'TST',
+  price_sol: 0, price_usd: 1,
+  market_cap_sol: 0, market_cap_usd: 0,
+  volume_sol: 0, volume_usd: 0,
+  liquidity_sol: 0, liquidity_usd: 0,
+  transaction_count: 0,
+  price_5m_change: 0, price_1hr_change: 0, price_6hr_change: 0, price_24hr_change: 0, price_7d_change: 0,
+  volume_5m: 0, volume_1hr: 0, volume_6hr: 0, volume_24hr: 0, volume_7d: 0,
+  protocol: 'raydium', dex_id: 'raydium', chain_id: 'solana',
+  pair_address: 'pair',
+  created_at: '2024-01-01T00:00:00Z',
+  last_updated: '2024-01-01T00:00:00Z',
+  sources: ['dexscreener'],
+};
+
+const token = (fields: Partial<Token>): Token => ({ ...baseToken, ...fields });
+
+const matches = (expr: string, t: Token) => evaluateExpression(t, parseFilterExpression(expr));
+
+describe('parseFilterExpression', () => {
+  it('gives AND precedence over OR', () => {
+    expect(parseFilterExpression('price_usd>1 OR volume_1hr>2 AND dex_id=orca')).toEqual({
+      op: 'or',
+      args: [
+        { op: 'cmp', field: 'price_usd', cmp: '>', value: 1 },
+        {
+          op: 'and',
+          args: [
+            { op: 'cmp', field: 'volume_1hr', cmp: '>', value: 2 },
+            { op: 'cmp', field: 'dex_id', cmp: '=', value: 'orca' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('parses IN lists, NOT and scientific numbers', () => {
+    expect(parseFilterExpression('not dex_id not in (raydium, "orca") and volume_1hr>=1e5')).toEqual({
+      op: 'and',
+      args: [
+        { op: 'not', arg: { op: 'in', field: 'dex_id', values: ['raydium', 'orca'], negate: true } },
+        { op: 'cmp', field: 'volume_1hr', cmp: '>=', value: 100000 },
+      ],
+    });
+  });
+
+  it.each([
+    ['', 'Empty filter expression'],
+    ['bogus>1', 'Unknown filter field "bogus"'],
+    ['price_usd>abc', 'Expected a number'],
+    ['dex_id>raydium', 'only supports'],
+    ['(price_usd>1', 'Expected ")"'],
+    ['price_usd>1 price_usd<2', 'Unexpected "price_usd"'],
+    ['sources=dexscreener', 'Unknown filter field'],
+    ["token_name='oops", 'Unterminated string'],
+  ])('rejects %p', (input, message) => {
+    expect(() => parseFilterExpression(input)).toThrow(message);
+  });
+});
+
+describe('evaluateExpression', () => {
+  const t = token({
+    liquidity_usd: 80000,
+    price_1hr_change: 4,
+    volume_1hr: 200000,
+    dex_id: 'Orca',
+    created_at: '2024-03-01T00:00:00Z',
+    safety: { score: 70, mint_authority: false, freeze_authority: false, liquidity_to_mcap: null, pool_age_hours: null, buy_ratio: null, verified: false, flags: [] },
+    activity: { '1h': windowActivity(30, 10) },
+  });
+
+  it('evaluates the example from the docs', () => {
+    expect(matches(
+      'liquidity_usd>50000 AND (price_1hr_change>10 OR volume_1hr>1e5) AND dex_id IN (raydium,orca)',
+      t
+    )).toBe(true);
+    expect(matches('liquidity_usd>50000 AND price_1hr_change>10', t)).toBe(false);
+  });
+
+  it('compares strings case-insensitively and dates by time', () => {
+    expect(matches('dex_id=ORCA', t)).toBe(true);
+    expect(matches('created_at>2024-02-01', t)).toBe(true);
+    expect(matches('created_at<2024-02-01', t)).toBe(false);
+  });
+
+  it('reads nested safety and activity fields', () => {
+    expect(matches('safety.score>=70 AND activity.1h.buy_sell_ratio>2', t)).toBe(true);
+    expect(matches('safety.score>=70', baseToken)).toBe(false); // unscored
+  });
+
+  it('is applied by applyFilters', () => {
+    const tokens = [token({ token_address: 'a', liquidity_usd: 10 }), token({ token_address: 'b', liquidity_usd: 1e6 })];
+    const result = applyFilters(tokens, { expression: parseFilterExpression('liquidity_usd>1000') });
+    expect(result.map(x => x.token_address)).toEqual(['b']);
+  });
+});
+
+describe('sortByKeys', () => {
+  it('sorts on each key in turn', () => {
+    const tokens = [
+      token({ token_address: 'a', dex_id: 'orca', liquidity_usd: 1 }),
+      token({ token_address: 'b', dex_id: 'raydium', liquidity_usd: 5 }),
+      token({ token_address: 'c', dex_id: 'orca', liquidity_usd: 9 }),
+    ];
+
+    const sorted = sortByKeys(tokens, [
+      { field: 'dex_id', direction: 'asc' },
+      { field: 'liquidity_usd', direction: 'desc' },
+    ]);
+    expect(sorted.map(x => x.token_address)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('puts missing values last either way', () => {
+    const tokens = [token({ token_address: 'none' }), token({ token_address: 'scored', safety: { score: 10 } as Token['safety'] })];
+    expect(sortByKeys(tokens, [{ field: 'safety.score', direction: 'asc' }])[0].token_address).toBe('scored');
+  });
+});
+
+describe('tokenQuerySchema', () => {
+  it('parses sort keys and fields', () => {
+    const parsed = tokenQuerySchema.parse({ sort: 'liquidity_usd:asc,price_usd', fields: 'token_address, price_usd' });
+
+    expect(parsed.sort).toEqual([
+      { field: 'liquidity_usd', direction: 'asc' },
+      { field: 'price_usd', direction: 'desc' },
+    ]);
+    expect(parsed.fields).toEqual(['token_address', 'price_usd']);
+  });
+
+  it('reports bad input as zod issues', () => {
+    const result = tokenQuerySchema.safeParse({ filter: 'nope>1', sort: 'price_usd:sideways', fields: 'secret' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(Object.keys(result.error.flatten().fieldErrors).sort()).toEqual(['fields', 'filter', 'sort']);
+    }
+  });
+
+  it('projects tokens down to the requested fields', () => {
+    expect(projectToken(token({ price_usd: 3 }), ['token_address', 'price_usd'])).toEqual({ token_address: 'addr', price_usd: 3 });
+  });
+});
@@ -0,0 +1,149 @@
+import { WatchlistService, portfolioInputSchema, watchlistInputSchema } from '../../src/services/watchlists';
+import { MemoryCache } from '../../src/services/cache';
+import type { Token } from '../../src/types';
+import { makeToken } from '../fixtures';
+
+describe('WatchlistService', () => {
+  let cache: MemoryCache;
+  let tokens: Token[];
+  let service: WatchlistService;
+
+  const find = (address: string, chain?: string) =>
+    tokens.find(t => t.token_address === address && (!chain || t.chain_id === chain));
+
+  beforeEach(() => {
+    cache = new MemoryCache();
+    tokens = [
+      makeToken({ price_usd: 2 }),
+      makeToken({ token_address: '0xabc', token_ticker: 'EVM', chain_id: 'base', price_usd: 0.5 }),
+    ];
+    service = new WatchlistService(find, cache);
+  });
+
+  describe('watchlists', () => {
+    it('resolves missing chains from known tokens and drops duplicates', async () => {
+      const list = await service.createWatchlist('bot-1', watchlistInputSchema.parse({
+        name: 'Daily',
+        tokens: [
+          { token_address: 'addr' },
+          { token_address: '0xabc' },
+          { token_address: '0xABC', chain_id: 'base' }, // same token, different case
+        ],
+      }));
+
+      expect(list.tokens).toEqual([
+        { token_address: 'addr', chain_id: 'solana' },
+        { token_address: '0xabc', chain_id: 'base' },
+      ]);
+    });
+
+    it('scopes watchlists to their owner', async () => {
+      const list = await service.createWatchlist('bot-1', { name: 'Mine', tokens: [] });
+
+      expect(service.getWatchlist('bot-1', list.id)).not.toBeNull();
+      expect(service.getWatchlist('bot-2', list.id)).toBeNull();
+      expect(service.listWatchlists('bot-2')).toHaveLength(0);
+      expect(await service.deleteWatchlist('bot-2', list.id)).toBe(false);
+    });
+
+    it('returns live token data and reports tokens we are not tracking', async () => {
+      const list = await service.createWatchlist('bot-1', {
+        name: 'Mixed',
+        tokens: [{ token_address: 'addr' }, { token_address: 'gone', chain_id: 'solana' }],
+      });
+
+      tokens[0] = makeToken({ price_usd: 3 });
+      const result = service.getWatchlistTokens('bot-1', list.id);
+
+      expect(result?.tokens.map(t => t.price_usd)).toEqual([3]);
+      expect(result?.missing).toEqual([{ token_address: 'gone', chain_id: 'solana' }]);
+    });
+
+    it('keeps untouched fields on partial update', async () => {
+      const list = await service.createWatchlist('bot-1', { name: 'Old', tokens: [{ token_address: 'addr' }] });
+      const updated = await service.updateWatchlist('bot-1', list.id, { name: 'New' });
+
+      expect(updated?.name).toBe('New');
+      expect(updated?.tokens).toEqual(list.tokens);
+    });
+
+    it('rejects unknown chains', () => {
+      const parsed = watchlistInputSchema.safeParse({ name: 'x', tokens: [{ token_address: 'a', chain_id: 'nope' }] });
+      expect(parsed.success).toBe(false);
+    });
+  });
+
+  describe('portfolios', () => {
+    it('computes per-position and total PnL from current prices', async () => {
+      const portfolio = await service.createPortfolio('bot-1', portfolioInputSchema.parse({
+        name: 'Bags',
+        positions: [
+          { token_address: 'addr', quantity: 100, cost_basis_usd: 100 }, // now worth 200
+          { token_address: '0xabc', chain_id: 'base', quantity: 100, cost_basis_usd: 100 }, // now worth 50
+        ],
+      }));
+
+      const valuation = service.valuePortfolio('bot-1', portfolio.id)!;
+
+      expect(valuation.positions[0]).toMatchObject({ price_usd: 2, value_usd: 200, pnl_usd: 100, pnl_percent: 100 });
+      expect(valuation.positions[1]).toMatchObject({ price_usd: 0.5, value_usd: 50, pnl_usd: -50, pnl_percent: -50 });
+      expect(valuation.total_cost_usd).toBe(200);
+      expect(valuation.total_value_usd).toBe(250);
+      expect(valuation.total_pnl_usd).toBe(50);
+      expect(valuation.total_pnl_percent).toBe(25);
+      expect(valuation.priced_positions).toBe(2);
+    });
+
+    it('leaves unpriced positions out of the totals', async () => {
+      const portfolio = await service.createPortfolio('bot-1', {
+        name: 'Bags',
+        positions: [
+          { token_address: 'addr', quantity: 10, cost_basis_usd: 10 },
+          { token_address: 'unknown', chain_id: 'solana', quantity: 10, cost_basis_usd: 1000 },
+        ],
+      });
+
+      const valuation = service.valuePortfolio('bot-1', portfolio.id)!;
+
+      expect(valuation.positions[1]).toMatchObject({ price_usd: null, value_usd: null, pnl_usd: null });
+      expect(valuation.total_cost_usd).toBe(10);
+      expect(valuation.total_value_usd).toBe(20);
+      expect(valuation.priced_positions).toBe(1);
+    });
+
+    it('folds repeated buys of one token into a single position', async () => {
+      const portfolio = await service.createPortfolio('bot-1', {
+        name: 'DCA',
+        positions: [
+          { token_address: 'addr', quantity: 10, cost_basis_usd: 10 },
+          { token_address: 'addr', quantity: 5, cost_basis_usd: 20 },
+        ],
+      });
+
+      expect(portfolio.positions).toEqual([
+        { token_address: 'addr', chain_id: 'solana', quantity: 15, cost_basis_usd: 30 },
+      ]);
+    });
+
+    it('returns null for someone else\'s portfolio', async () => {
+      const portfolio = await service.createPortfolio('bot-1', { name: 'Mine', positions: [] });
+      expect(service.valuePortfolio('bot-2', portfolio.id)).toBeNull();
+    });
+  });
+
+  it('persists through the cache and reloads', async () => {
+    const list = await service.createWatchlist('bot-1', { name: 'Saved', tokens: [{ token_address: 'addr' }] });
+    const portfolio = await service.createPortfolio('bot-1', {
+      name: 'Saved',
+      positions: [{ token_address: 'addr', quantity: 1, cost_basis_usd: 1 }],
+    });
+
+    const reloaded = new WatchlistService(find, cache);
+    await reloaded.load();
+
+    expect(reloaded.getWatchlist('bot-1', list.id)).toEqual(list);
+    expect(reloaded.getPortfolio('bot-1', portfolio.id)).toEqual(portfolio);
+    expect(reloaded.resolveWatchlist('bot-1', list.id)).toEqual(list.tokens);
+    expect(reloaded.getStats()).toEqual({ watchlists: 1, portfolios: 1 });
+  });
+});
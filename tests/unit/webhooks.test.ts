@@ -0,0 +1,203 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookService, signWebhookPayload, isPrivateAddress } from '../../src/services/webhooks';
+import { MemoryCache } from '../../src/services/cache';
+import config from '../../src/config';
+import type { Token } from '../../src/types';
+import { makeToken } from '../fixtures';
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookService', () => {
+  let server: http.Server;
+  let url: string;
+  let received: Received[];
+  let failNext: number;
+  let failStatus: number;
+  let cache: MemoryCache;
+  let tokens: Map<string, Token>;
+  let service: WebhookService;
+
+  const retries = config.webhookMaxRetries;
+  const baseDelay = config.webhookRetryBaseDelay;
+
+  beforeAll(async () => {
+    // keep retries fast, and let deliveries reach the local test server
+    config.webhookMaxRetries = 1;
+    config.webhookRetryBaseDelay = 5;
+    config.webhookAllowPrivateUrls = true;
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        if (failNext > 0) {
+          failNext--;
+          res.writeHead(failStatus).end();
+          return;
+        }
+        received.push({ headers: req.headers, body });
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    config.webhookMaxRetries = retries;
+    config.webhookRetryBaseDelay = baseDelay;
+    config.webhookAllowPrivateUrls = false;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    failNext = 0;
+    failStatus = 500;
+    cache = new MemoryCache();
+    tokens = new Map([['addr', makeToken()], ['big', makeToken({ token_address: 'big', liquidity_usd: 1e6 })]]);
+    service = new WebhookService(address => tokens.get(address), cache);
+  });
+
+  afterEach(async () => {
+    await service.flush();
+    await cache.flush();
+  });
+
+  it('signs deliveries so receivers can verify them', async () => {
+    const endpoint = await service.create('client-a', { url, events: ['price_update'], enabled: true });
+
+    service.dispatch('price_update', { token_address: 'addr', old_price: 1, new_price: 2 });
+    await service.flush();
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    const expected = signWebhookPayload(endpoint.secret, String(headers['x-webhook-timestamp']), body);
+
+    expect(headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+    expect(headers['x-webhook-event']).toBe('price_update');
+    expect(JSON.parse(body)).toMatchObject({ event: 'price_update', data: { token_address: 'addr' } });
+  });
+
+  it('redacts the secret after creation', async () => {
+    const endpoint = await service.create('client-a', { url, events: ['new_token'], enabled: true });
+
+    expect(endpoint.secret).toHaveLength(64);
+    expect(service.get('client-a', endpoint.id)?.secret).toMatch(/\.\.\.$/);
+    expect(service.get('client-b', endpoint.id)).toBeNull();
+  });
+
+  it('retries failed deliveries', async () => {
+    const endpoint = await service.create('client-a', { url, events: ['new_token'], enabled: true });
+    failNext = 1;
+
+    service.dispatch('new_token', makeToken());
+    await service.flush();
+
+    expect(received).toHaveLength(1);
+    const [delivery] = service.getDeliveries('client-a', endpoint.id)!;
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 2, response_status: 204 });
+  });
+
+  it('dead-letters deliveries that run out of retries and can replay them', async () => {
+    await service.create('client-a', { url, events: ['new_token'], enabled: true });
+    failNext = 2;
+
+    service.dispatch('new_token', makeToken());
+    await service.flush();
+
+    const [dead] = service.getDeadLetters('client-a');
+    expect(dead).toMatchObject({ status: 'failed', attempts: 2, response_status: 500 });
+    expect(service.getDeadLetters('client-b')).toHaveLength(0);
+
+    // survives a reload
+    const reloaded = new WebhookService(address => tokens.get(address), cache);
+    await reloaded.load();
+    expect(reloaded.getDeadLetters('client-a')).toHaveLength(1);
+
+    await service.redeliver('client-a', dead.id);
+    await service.flush();
+
+    expect(received).toHaveLength(1);
+    expect(service.getDeadLetters('client-a')).toHaveLength(0);
+  });
+
+  it('dead-letters a 4xx without retrying it', async () => {
+    await service.create('client-a', { url, events: ['new_token'], enabled: true });
+    failNext = 2;
+    failStatus = 410;
+
+    service.dispatch('new_token', makeToken());
+    await service.flush();
+
+    expect(service.getDeadLetters('client-a')[0]).toMatchObject({ status: 'failed', attempts: 1, response_status: 410 });
+  });
+
+  it('refuses private and internal addresses', async () => {
+    config.webhookAllowPrivateUrls = false;
+    try {
+      for (const target of [url, 'http://localhost/hook', 'http://10.1.2.3/hook', 'http://169.254.169.254/latest', 'http://[::1]/hook']) {
+        await expect(service.create('client-a', { url: target, events: ['new_token'], enabled: true }))
+          .rejects.toMatchObject({ code: 'INVALID_WEBHOOK_URL' });
+      }
+      expect(service.list('client-a')).toHaveLength(0);
+    } finally {
+      config.webhookAllowPrivateUrls = true;
+    }
+  });
+
+  it('checks the address again on delivery', async () => {
+    await service.create('client-a', { url, events: ['new_token'], enabled: true });
+
+    config.webhookAllowPrivateUrls = false;
+    try {
+      service.dispatch('new_token', makeToken());
+      await service.flush();
+    } finally {
+      config.webhookAllowPrivateUrls = true;
+    }
+
+    expect(received).toHaveLength(0);
+    expect(service.getDeadLetters('client-a')[0]).toMatchObject({ attempts: 1, error: expect.stringContaining('public') });
+  });
+
+  it('tells private addresses from public ones', () => {
+    for (const address of ['127.0.0.1', '10.0.0.1', '172.16.5.4', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['1.1.1.1', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it('only delivers tokens that match the endpoint filter', async () => {
+    await service.create('client-a', {
+      url,
+      events: ['price_update'],
+      filter: { minLiquidity: 10000 },
+      enabled: true,
+    });
+
+    service.dispatch('price_update', { token_address: 'addr' });
+    service.dispatch('price_update', { token_address: 'big' });
+    await service.flush();
+
+    expect(received).toHaveLength(1);
+    expect(JSON.parse(received[0].body).data.token_address).toBe('big');
+  });
+
+  it('sends alerts only to the rule owner', async () => {
+    await service.create('client-a', { url, events: ['alert_triggered'], enabled: true });
+    await service.create('client-b', { url, events: ['alert_triggered'], enabled: true });
+
+    service.dispatch('alert_triggered', { owner: 'client-b', token_address: 'addr' });
+    await service.flush();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].headers['x-webhook-id']).toBe(service.list('client-b')[0].id);
+  });
+});